@@ -6,7 +6,13 @@ const tiers = {
   fast: [
     "dist/test/adif.test.js",
     "dist/test/adif-rotation.test.js",
+    "dist/test/transcript-journal.test.js",
+    "dist/test/call-history.test.js",
+    "dist/test/dxcc.test.js",
+    "dist/test/itu-prefixes.test.js",
     "dist/test/callsign.test.js",
+    "dist/test/callsign-observations.test.js",
+    "dist/test/qso-tracker.test.js",
     "dist/test/callsign-lookup.test.js",
     "dist/test/config.test.js",
     "dist/test/contest.test.js",
@@ -14,12 +20,20 @@ const tiers = {
     "dist/test/contest-session.test.js",
     "dist/test/context-reconstruct.test.js",
     "dist/test/cw-band-plan.test.js",
+    "dist/test/cw-tokens.test.js",
+    "dist/test/cw-abbreviations.test.js",
+    "dist/test/cw-language-model.test.js",
     "dist/test/decode-quality.test.js",
     "dist/test/ptt-controller.test.js",
     "dist/test/fuzzy-match.test.js",
+    "dist/test/prosign.test.js",
     "dist/test/qso-extract.test.js",
     "dist/test/qso-memory.test.js",
+    "dist/test/qso-review.test.js",
     "dist/test/rtlsdr-manager.test.js",
+    "dist/test/rx-resync.test.js",
+    "dist/test/rx-timeline.test.js",
+    "dist/test/replay-poller.test.js",
     "dist/test/sentence-buffer.test.js",
     "dist/test/signal-quality.test.js",
   ],
@@ -28,6 +42,8 @@ const tiers = {
     "dist/test/service.test.js",
     "dist/test/outbound.test.js",
     "dist/test/xmlrpc-client.test.js",
+    "dist/test/metrics.test.js",
+    "dist/test/carrier-tuner.test.js",
     "dist/test/fldigi-client.test.js",
     "dist/test/fldigi-poller.test.js",
     "dist/test/transmitter.test.js",
@@ -27,6 +27,9 @@ export interface AdifRecord {
   gridsquare?: string;    // Maidenhead grid locator
   comment?: string;
   txPwr?: string;
+  rxPwr?: string;         // Contacted station's power in watts
+  rig?: string;           // Contacted station's equipment, antenna included
+  age?: string;           // Contacted operator's age in years
   contestId?: string;
   srx?: string;           // Received serial number (contest)
   stx?: string;           // Sent serial number (contest)
@@ -48,6 +51,9 @@ const FIELD_MAP: Record<keyof AdifRecord, string> = {
   gridsquare: "GRIDSQUARE",
   comment: "COMMENT",
   txPwr: "TX_PWR",
+  rxPwr: "RX_PWR",
+  rig: "RIG",
+  age: "AGE",
   contestId: "CONTEST_ID",
   srx: "SRX",
   stx: "STX",
@@ -149,6 +155,9 @@ export function createRecord(
   if (options?.gridsquare) record.gridsquare = options.gridsquare;
   if (options?.comment) record.comment = options.comment;
   if (options?.txPwr) record.txPwr = options.txPwr;
+  if (options?.rxPwr) record.rxPwr = options.rxPwr;
+  if (options?.rig) record.rig = options.rig;
+  if (options?.age) record.age = options.age;
   if (options?.contestId) record.contestId = options.contestId;
   if (options?.srx) record.srx = options.srx;
   if (options?.stx) record.stx = options.stx;
@@ -335,6 +344,9 @@ function parseRecordChunk(chunk: string): AdifRecord | null {
     gridsquare: fields.get("GRIDSQUARE"),
     comment: fields.get("COMMENT"),
     txPwr: fields.get("TX_PWR"),
+    rxPwr: fields.get("RX_PWR"),
+    rig: fields.get("RIG"),
+    age: fields.get("AGE"),
     contestId: fields.get("CONTEST_ID"),
     srx: fields.get("SRX"),
     stx: fields.get("STX"),
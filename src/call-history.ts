@@ -0,0 +1,255 @@
+/**
+ * Super Check Partial and call history database.
+ *
+ * Contest loggers complete busted or partial calls from two kinds of file:
+ * - MASTER.SCP: one known-active callsign per line, "#" comments
+ * - N1MM call history: CSV whose column order is set by a "!!Order!!" line,
+ *   e.g. "!!Order!!,Call,Name,CQZone,Sect", with the exchange each station
+ *   usually sends
+ *
+ * search() takes a decoded call with "?" for unreadable characters and finds
+ * every known call containing it (SCP "partial" semantics, DL2A?C matches
+ * DL2AOC/P). When nothing contains it, calls sharing a trigram with it that are
+ * within a small Morse distance are offered instead (a busted DL2ABD finds
+ * DL2ABC). A trigram index keeps this fast on a full MASTER.SCP.
+ */
+
+import * as fs from "node:fs";
+import { morseDistance } from "./fuzzy-match.js";
+
+/** What a station usually sends, from the call history file */
+export interface CallHistoryEntry {
+  callsign: string;
+  name?: string;
+  cqZone?: number;
+  ituZone?: number;
+  section?: string;
+  state?: string;
+  /** Free-form exchange (N1MM Exch1) */
+  exchange?: string;
+}
+
+export interface CallHistoryCandidate {
+  callsign: string;
+  /**
+   * exact: the decode is the call; full: matches the whole call with wildcards;
+   * partial: matches part of it; morse: no match, but within MAX_MORSE_DISTANCE
+   */
+  match: "exact" | "full" | "partial" | "morse";
+  /** Morse distance between the decode and the call */
+  distance: number;
+  /** Expected exchange, when the call history knows the station */
+  expected?: CallHistoryEntry;
+}
+
+/** A decoded exchange value that disagrees with the call history */
+export interface ExchangeMismatch {
+  field: "name" | "zone" | "section" | "state";
+  decoded: string;
+  expected: string;
+}
+
+/** Decoded values to cross-check; zone is compared with the CQ or ITU zone */
+export interface DecodedExchange {
+  name?: string;
+  zone?: number;
+  zoneKind?: "cq" | "itu";
+  section?: string;
+  state?: string;
+}
+
+const MATCH_ORDER: Record<CallHistoryCandidate["match"], number> = { exact: 0, full: 1, partial: 2, morse: 3 };
+
+/** Morse distance up to which a call is offered when no known call contains the decode */
+const MAX_MORSE_DISTANCE = 1.5;
+
+const DEFAULT_HISTORY_ORDER = ["CALL", "NAME", "LOC1", "LOC2", "SECT", "STATE", "CK", "BIRTHDATE", "EXCH1"];
+
+export class CallHistory {
+  private readonly calls = new Set<string>();
+  private readonly entries = new Map<string, CallHistoryEntry>();
+  private readonly trigrams = new Map<string, Set<string>>();
+
+  /** Number of known calls */
+  get size(): number {
+    return this.calls.size;
+  }
+
+  /** Load a MASTER.SCP or N1MM call history file; the format is detected from its content. */
+  loadFile(filePath: string): void {
+    const content = fs.readFileSync(filePath, "utf-8");
+    if (/^!!Order!!/im.test(content)) {
+      this.loadCallHistory(content);
+    } else {
+      this.loadScp(content);
+    }
+  }
+
+  /** Add the calls of a MASTER.SCP file */
+  loadScp(content: string): void {
+    for (const line of content.split(/\r?\n/)) {
+      const call = line.trim().toUpperCase();
+      if (call && !call.startsWith("#")) this.addCall(call);
+    }
+  }
+
+  /** Add the stations of an N1MM call history file */
+  loadCallHistory(content: string): void {
+    let order = DEFAULT_HISTORY_ORDER;
+    for (const line of content.split(/\r?\n/)) {
+      const trimmed = line.trim();
+      if (!trimmed || trimmed.startsWith("#")) continue;
+      const cells = trimmed.split(",").map((cell) => cell.trim());
+      if (/^!!Order!!$/i.test(cells[0])) {
+        order = cells.slice(1).map((column) => column.toUpperCase());
+        continue;
+      }
+      const entry = parseHistoryLine(cells, order);
+      if (entry) {
+        this.addCall(entry.callsign);
+        this.entries.set(entry.callsign, { ...this.entries.get(entry.callsign), ...entry });
+      }
+    }
+  }
+
+  has(callsign: string): boolean {
+    return this.calls.has(callsign.toUpperCase());
+  }
+
+  /** Expected exchange of a station, if the call history knows it */
+  lookup(callsign: string): CallHistoryEntry | undefined {
+    return this.entries.get(callsign.toUpperCase());
+  }
+
+  /**
+   * Known calls containing `partial`, with "?" matching any one character,
+   * ranked exact, then whole-call matches, then partial matches, each by
+   * Morse distance to the decode. Without any, the calls closest in Morse.
+   */
+  search(partial: string, limit = 10): CallHistoryCandidate[] {
+    const pattern = partial.toUpperCase().trim();
+    if (!pattern.replace(/\?/g, "")) return [];
+
+    const matcher = new RegExp(pattern.split("").map((c) => (c === "?" ? "." : escapeRegExp(c))).join(""));
+    const whole = new RegExp(`^${matcher.source}$`);
+    const candidates: CallHistoryCandidate[] = [];
+
+    for (const call of this.lookupCandidates(pattern)) {
+      if (!matcher.test(call)) continue;
+      const match = call === pattern ? "exact" : whole.test(call) ? "full" : "partial";
+      const candidate: CallHistoryCandidate = { callsign: call, match, distance: morseDistance(pattern, call) };
+      const expected = this.entries.get(call);
+      if (expected) candidate.expected = expected;
+      candidates.push(candidate);
+    }
+    if (candidates.length === 0) candidates.push(...this.morseCandidates(pattern));
+
+    return candidates
+      .sort((a, b) => MATCH_ORDER[a.match] - MATCH_ORDER[b.match] || a.distance - b.distance || a.callsign.localeCompare(b.callsign))
+      .slice(0, limit);
+  }
+
+  private addCall(call: string): void {
+    if (this.calls.has(call)) return;
+    this.calls.add(call);
+    for (const gram of trigramsOf(call)) {
+      let calls = this.trigrams.get(gram);
+      if (!calls) {
+        calls = new Set();
+        this.trigrams.set(gram, calls);
+      }
+      calls.add(call);
+    }
+  }
+
+  /** Calls sharing any trigram with the pattern and within MAX_MORSE_DISTANCE of it */
+  private morseCandidates(pattern: string): CallHistoryCandidate[] {
+    const calls = new Set<string>();
+    for (const run of pattern.split("?")) {
+      for (const gram of trigramsOf(run)) {
+        for (const call of this.trigrams.get(gram) ?? []) calls.add(call);
+      }
+    }
+
+    const candidates: CallHistoryCandidate[] = [];
+    for (const call of calls) {
+      const distance = morseDistance(pattern, call);
+      if (distance > MAX_MORSE_DISTANCE) continue;
+      const candidate: CallHistoryCandidate = { callsign: call, match: "morse", distance };
+      const expected = this.entries.get(call);
+      if (expected) candidate.expected = expected;
+      candidates.push(candidate);
+    }
+    return candidates;
+  }
+
+  /** Calls sharing the rarest trigram of the pattern's readable runs; all calls if it has none */
+  private lookupCandidates(pattern: string): Iterable<string> {
+    let best: Set<string> | undefined;
+    for (const run of pattern.split("?")) {
+      for (const gram of trigramsOf(run)) {
+        const calls = this.trigrams.get(gram) ?? new Set<string>();
+        if (!best || calls.size < best.size) best = calls;
+      }
+    }
+    return best ?? this.calls;
+  }
+}
+
+/**
+ * Compare decoded exchange values with what the station usually sends.
+ * Only fields present on both sides are compared.
+ */
+export function crossCheckExchange(expected: CallHistoryEntry, decoded: DecodedExchange): ExchangeMismatch[] {
+  const mismatches: ExchangeMismatch[] = [];
+  const compare = (field: ExchangeMismatch["field"], got: string | number | undefined, want: string | number | undefined) => {
+    if (got === undefined || want === undefined) return;
+    if (String(got).toUpperCase() !== String(want).toUpperCase()) {
+      mismatches.push({ field, decoded: String(got), expected: String(want) });
+    }
+  };
+
+  compare("name", decoded.name, expected.name);
+  compare("zone", decoded.zone, decoded.zoneKind === "itu" ? expected.ituZone : expected.cqZone);
+  compare("section", decoded.section, expected.section);
+  compare("state", decoded.state, expected.state);
+  return mismatches;
+}
+
+function parseHistoryLine(cells: string[], order: string[]): CallHistoryEntry | null {
+  const column = (name: string): string | undefined => {
+    const value = cells[order.indexOf(name)];
+    return value ? value.toUpperCase() : undefined;
+  };
+  const zone = (name: string): number | undefined => {
+    const value = Number.parseInt(column(name) ?? "", 10);
+    return Number.isFinite(value) ? value : undefined;
+  };
+
+  const callsign = column("CALL");
+  if (!callsign) return null;
+  const entry: CallHistoryEntry = { callsign };
+  const name = column("NAME");
+  const cqZone = zone("CQZONE");
+  const ituZone = zone("ITUZONE");
+  const section = column("SECT");
+  const state = column("STATE");
+  const exchange = column("EXCH1");
+  if (name) entry.name = name;
+  if (cqZone !== undefined) entry.cqZone = cqZone;
+  if (ituZone !== undefined) entry.ituZone = ituZone;
+  if (section) entry.section = section;
+  if (state) entry.state = state;
+  if (exchange) entry.exchange = exchange;
+  return entry;
+}
+
+function trigramsOf(text: string): string[] {
+  const grams: string[] = [];
+  for (let i = 0; i + 3 <= text.length; i++) grams.push(text.slice(i, i + 3));
+  return grams;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+}
@@ -0,0 +1,103 @@
+/**
+ * Accumulates noisy decodes of the same station across overs.
+ *
+ * A station sends its call several times — twice after DE within an over, and
+ * again in every over that follows — and each copy may be decoded with
+ * different errors. Observations are grouped into stations by Morse distance
+ * to the station's current merge, and every new observation returns the merge
+ * of everything heard from that station (see mergeObservations()).
+ *
+ * Stations are kept per peer, so two stations with near-identical calls are
+ * not merged into one. Across peers only garbled calls (with "?") are matched:
+ * a garbled copy may find its station under a clean peer, and a clean copy
+ * may claim a station so far only heard garbled.
+ */
+
+import { mergeObservations, morseDistance, type MergedObservation } from "./fuzzy-match.js";
+
+export interface CallsignObservationsOptions {
+  /** Morse distance within which an observation belongs to a known station. Default 2. */
+  maxDistance?: number;
+  /** Forget a station not heard for this long. Default 30 minutes. */
+  ttlMs?: number;
+  /** Observations kept per station; the oldest are dropped first. Default 8. */
+  maxObservations?: number;
+  /** Injectable clock for tests */
+  now?: () => number;
+}
+
+/** Merge of one station's observations */
+export interface StationObservations extends MergedObservation {
+  /** Number of observations merged */
+  observations: number;
+}
+
+interface Station {
+  peer: string;
+  observations: string[];
+  merged: MergedObservation;
+  lastHeard: number;
+}
+
+export class CallsignObservations {
+  private readonly maxDistance: number;
+  private readonly ttlMs: number;
+  private readonly maxObservations: number;
+  private readonly now: () => number;
+  private stations: Station[] = [];
+
+  constructor(options: CallsignObservationsOptions = {}) {
+    this.maxDistance = options.maxDistance ?? 2;
+    this.ttlMs = options.ttlMs ?? 30 * 60 * 1000;
+    this.maxObservations = options.maxObservations ?? 8;
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Record the copies of one station's call heard in an over and return the
+   * merge over all of its observations so far. Returns null for no calls.
+   * `peer` is who the over was heard from; default: one shared peer.
+   */
+  observe(calls: string[], peer = ""): StationObservations | null {
+    const copies = calls.map((call) => call.toUpperCase()).filter(Boolean);
+    if (copies.length === 0) return null;
+
+    const now = this.now();
+    this.stations = this.stations.filter((station) => now - station.lastHeard <= this.ttlMs);
+
+    const key = peer.toUpperCase().trim();
+    const heard = mergeObservations(copies).value;
+    let station = this.closestStation(heard, this.stations.filter((candidate) => candidate.peer === key));
+    if (!station) {
+      const garbled = this.stations.filter((candidate) => heard.includes("?") || candidate.merged.value.includes("?"));
+      station = this.closestStation(heard, garbled);
+      if (station && !heard.includes("?")) station.peer = key;
+    }
+    if (!station) {
+      station = { peer: key, observations: [], merged: mergeObservations([]), lastHeard: now };
+      this.stations.push(station);
+    }
+
+    station.observations = [...station.observations, ...copies].slice(-this.maxObservations);
+    station.merged = mergeObservations(station.observations);
+    station.lastHeard = now;
+    return { ...station.merged, observations: station.observations.length };
+  }
+
+  reset(): void {
+    this.stations = [];
+  }
+
+  private closestStation(call: string, stations: Station[]): Station | undefined {
+    let best: Station | undefined;
+    let bestDistance = Infinity;
+    for (const station of stations) {
+      const distance = morseDistance(call, station.merged.value);
+      if (distance <= this.maxDistance && distance < bestDistance) {
+        best = station;
+        bestDistance = distance;
+      }
+    }
+    return best;
+  }
+}
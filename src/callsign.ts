@@ -6,28 +6,14 @@
  * - Special event: GB13YOTA, II0IARU
  * - Portable/mobile: PA3XYZ/P, DL2ABC/MM, W1AW/4
  * - DX prefix form: EA8/ON4UN
- */
-
-/**
- * Base callsign variants:
- * - Standard: 1-3 alphanumeric prefix, 1 digit, 1-5 letter suffix
- * - Special-event/contest variant: 1-2 letter prefix, 2 digits, 1-6 letter suffix
  *
- * Wrapped callsign forms:
- * - Optional DX prefix before slash: EA8/ON4UN
- * - Optional portable/mobile modifier after slash: PA3XYZ/P
+ * Works on the token stream from cw-tokens.ts, so RSTs, Q-codes and CW
+ * abbreviations are never mistaken for callsigns.
  */
-const STANDARD_CALL = "[A-Z0-9]{1,3}\\d[A-Z]{1,5}";
-const SPECIAL_EVENT_CALL = "[A-Z]{1,2}\\d{2}[A-Z]{1,6}";
-const CALL_CORE = `(?:${STANDARD_CALL}|${SPECIAL_EVENT_CALL})`;
-const CALL_TOKEN = `(?:[A-Z0-9]{1,4}/)?${CALL_CORE}(?:/[A-Z0-9]{1,4})?`;
-const CALLSIGN_PATTERN = new RegExp(`\\b(${CALL_TOKEN})\\b`, "g");
 
-/** "CQ CQ DE PA3XYZ" or "CQ DE PA3XYZ" — extract the calling station */
-const CQ_DE_PATTERN = new RegExp(`\\bCQ(?:\\s+CQ)*\\s+DE\\s+(${CALL_TOKEN})\\b`, "g");
+import { isCallsign, tokenizeCw, type CwToken } from "./cw-tokens.js";
 
-/** "<call> DE <call>" — extract both sides of a directed exchange */
-const CALL_DE_CALL_PATTERN = new RegExp(`\\b(${CALL_TOKEN})\\s+DE\\s+(${CALL_TOKEN})\\b`, "g");
+export { isCallsign };
 
 export interface CallsignMatch {
   callsign: string;
@@ -48,23 +34,17 @@ export interface CqCall {
 }
 
 /**
- * Find all callsign-shaped tokens in a string.
+ * Find all callsign tokens in a string (tokens with unreadable "?" characters excluded).
  * Returns them in order of appearance.
  */
-export function extractCallsigns(text: string): CallsignMatch[] {
-  const upper = text.toUpperCase();
+export function extractCallsigns(source: string | CwToken[]): CallsignMatch[] {
   const results: CallsignMatch[] = [];
   const seen = new Set<string>();
 
-  let match: RegExpExecArray | null;
-  CALLSIGN_PATTERN.lastIndex = 0;
-
-  while ((match = CALLSIGN_PATTERN.exec(upper)) !== null) {
-    const callsign = match[1];
-    if (!seen.has(callsign)) {
-      seen.add(callsign);
-      results.push({ callsign, index: match.index });
-    }
+  for (const token of toTokens(source)) {
+    if (!isCleanCallsign(token) || seen.has(token.value)) continue;
+    seen.add(token.value);
+    results.push({ callsign: token.value, index: token.index });
   }
 
   return results;
@@ -74,15 +54,18 @@ export function extractCallsigns(text: string): CallsignMatch[] {
  * Detect "CQ ... DE <callsign>" patterns.
  * Returns the station(s) calling CQ.
  */
-export function extractCqCalls(text: string): CqCall[] {
-  const upper = text.toUpperCase();
+export function extractCqCalls(source: string | CwToken[]): CqCall[] {
+  const tokens = toTokens(source);
   const results: CqCall[] = [];
 
-  let match: RegExpExecArray | null;
-  CQ_DE_PATTERN.lastIndex = 0;
-
-  while ((match = CQ_DE_PATTERN.exec(upper)) !== null) {
-    results.push({ from: match[1] });
+  for (let i = 0; i < tokens.length; i++) {
+    if (tokens[i].text !== "CQ") continue;
+    let j = i + 1;
+    while (tokens[j]?.text === "CQ") j++;
+    if (tokens[j]?.text === "DE" && tokens[j + 1] && isCleanCallsign(tokens[j + 1])) {
+      results.push({ from: tokens[j + 1].value });
+    }
+    i = j;
   }
 
   return results;
@@ -92,25 +75,47 @@ export function extractCqCalls(text: string): CqCall[] {
  * Detect "<call> DE <call>" patterns (directed exchanges).
  * Returns both sides of the exchange.
  */
-export function extractDirectedExchanges(text: string): DirectedExchange[] {
-  const upper = text.toUpperCase();
+export function extractDirectedExchanges(source: string | CwToken[]): DirectedExchange[] {
+  const tokens = toTokens(source);
   const results: DirectedExchange[] = [];
 
-  let match: RegExpExecArray | null;
-  CALL_DE_CALL_PATTERN.lastIndex = 0;
-
-  while ((match = CALL_DE_CALL_PATTERN.exec(upper)) !== null) {
-    results.push({ to: match[1], from: match[2] });
+  for (let i = 0; i + 2 < tokens.length; i++) {
+    if (isCleanCallsign(tokens[i]) && tokens[i + 1].text === "DE" && isCleanCallsign(tokens[i + 2])) {
+      results.push({ to: tokens[i].value, from: tokens[i + 2].value });
+      i += 2;
+    }
   }
 
   return results;
 }
 
 /**
- * Check whether a string looks like a valid amateur radio callsign.
+ * Every copy of the sending station's call: the callsign tokens directly after
+ * each DE, unreadable characters included ("DE DL2A?C DL2ABC" → both copies).
  */
-export function isCallsign(text: string): boolean {
-  const upper = text.toUpperCase().trim();
-  const pattern = new RegExp(`^${CALL_TOKEN}$`);
-  return pattern.test(upper);
+export function extractSenderObservations(source: string | CwToken[]): string[] {
+  const tokens = toTokens(source);
+  const results: string[] = [];
+
+  for (let i = 0; i < tokens.length; i++) {
+    if (tokens[i].text !== "DE") continue;
+    let j = i + 1;
+    while (tokens[j]?.kind === "callsign") {
+      // After DE a trailing "?" is an unreadable character, not a query: keep the text
+      results.push(tokens[j].text);
+      j++;
+    }
+    i = j - 1;
+  }
+
+  return results;
+}
+
+/** Extractors take raw text or an already tokenized message */
+function toTokens(source: string | CwToken[]): CwToken[] {
+  return typeof source === "string" ? tokenizeCw(source) : source;
+}
+
+function isCleanCallsign(token: CwToken): boolean {
+  return token.kind === "callsign" && !token.value.includes("?");
 }
@@ -0,0 +1,197 @@
+/**
+ * Carrier tuning within the receiver passband.
+ *
+ * fldigi decodes whichever CW tone its carrier cursor sits on. With two
+ * stations in the passband, the agent (or operator) moves the cursor by a
+ * relative offset, to an absolute audio frequency, or to the next signal.
+ * fldigi exposes no spectrum over XML-RPC, so "next signal" is a sweep: step
+ * the carrier through the passband, dwell briefly at each step, and stop at
+ * the first position whose modem S/N clears a threshold.
+ */
+
+import type { FldigiClient } from "./fldigi-client.js";
+
+const DEFAULT_MIN_HZ = 300;
+const DEFAULT_MAX_HZ = 2700;
+const DEFAULT_DWELL_MS = 300;
+const DEFAULT_SNR_THRESHOLD_DB = 6;
+const MIN_SWEEP_STEP_HZ = 25;
+const FALLBACK_BANDWIDTH_HZ = 100;
+
+export interface CarrierTunerOptions {
+  /** Lowest audio frequency the sweep visits (Hz). Default 300. */
+  minHz?: number;
+  /** Highest audio frequency the sweep visits (Hz). Default 2700. */
+  maxHz?: number;
+  /** How long to wait at each sweep step before reading S/N (ms). Default 300. */
+  dwellMs?: number;
+  /** S/N (dB) a sweep step needs to count as a signal. Default 6. */
+  snrThresholdDb?: number;
+  /** Injectable delay for tests */
+  sleep?: (ms: number) => Promise<void>;
+}
+
+export interface TuneResult {
+  /** Carrier before the operation (Hz) */
+  previousHz: number;
+  /** Carrier after the operation (Hz) */
+  carrierHz: number;
+  /** S/N at the new carrier, when a sweep found a signal */
+  snr?: number;
+}
+
+export interface TuneOutcome {
+  summary: string;
+  /** Set when the command moved the carrier */
+  result?: TuneResult;
+}
+
+export type TuneCommand =
+  | { kind: "offset"; hz: number }
+  | { kind: "absolute"; hz: number }
+  | { kind: "next"; direction: 1 | -1 }
+  | { kind: "afc"; enabled: boolean }
+  | { kind: "bandwidth"; hz: number };
+
+/**
+ * Parse the arguments of a tune command:
+ *   "+150" / "-200"   move relative to the current carrier
+ *   "700"             absolute audio frequency
+ *   "next" / "prev"   sweep to the next signal up / down
+ *   "afc on|off"      toggle AFC
+ *   "bw 100"          set the modem bandwidth
+ * Returns null for anything else.
+ */
+export function parseTuneCommand(args: string): TuneCommand | null {
+  const parts = args.trim().toLowerCase().split(/\s+/);
+  const [head, value] = parts;
+  if (!head) return null;
+
+  if (head === "next" || head === "up") return { kind: "next", direction: 1 };
+  if (head === "prev" || head === "down") return { kind: "next", direction: -1 };
+  if (head === "afc" && (value === "on" || value === "off")) return { kind: "afc", enabled: value === "on" };
+  if ((head === "bw" || head === "bandwidth") && value && /^\d+$/.test(value)) {
+    return { kind: "bandwidth", hz: parseInt(value, 10) };
+  }
+
+  const match = head.match(/^([+-]?)(\d+)(?:hz)?$/);
+  if (!match) return null;
+  const hz = parseInt(match[2], 10);
+  if (match[1] === "+") return { kind: "offset", hz };
+  if (match[1] === "-") return { kind: "offset", hz: -hz };
+  return { kind: "absolute", hz };
+}
+
+export class CarrierTuner {
+  private readonly client: FldigiClient;
+  private readonly minHz: number;
+  private readonly maxHz: number;
+  private readonly dwellMs: number;
+  private readonly snrThresholdDb: number;
+  private readonly sleep: (ms: number) => Promise<void>;
+
+  constructor(client: FldigiClient, options: CarrierTunerOptions = {}) {
+    this.client = client;
+    this.minHz = options.minHz ?? DEFAULT_MIN_HZ;
+    this.maxHz = options.maxHz ?? DEFAULT_MAX_HZ;
+    this.dwellMs = options.dwellMs ?? DEFAULT_DWELL_MS;
+    this.snrThresholdDb = options.snrThresholdDb ?? DEFAULT_SNR_THRESHOLD_DB;
+    this.sleep = options.sleep ?? ((ms) => new Promise((resolve) => setTimeout(resolve, ms)));
+  }
+
+  /** Move the carrier by `offsetHz` (e.g. +150 for the station 150 Hz higher). */
+  async tuneBy(offsetHz: number): Promise<TuneResult> {
+    const previousHz = await this.client.getCarrier();
+    return this.tuneTo(previousHz + offsetHz, previousHz);
+  }
+
+  /** Put the carrier on an absolute audio frequency, clamped to the passband. */
+  async tuneTo(hz: number, previousHz?: number): Promise<TuneResult> {
+    const before = previousHz ?? await this.client.getCarrier();
+    const carrierHz = this.clamp(hz);
+    await this.client.setCarrier(carrierHz);
+    return { previousHz: before, carrierHz };
+  }
+
+  /**
+   * Sweep from the current carrier towards `direction` (wrapping at the passband
+   * edge) and stop on the first step with S/N above the threshold. Steps are one
+   * modem bandwidth apart so the sweep leaves the current station first. Returns
+   * null, with the carrier restored, when no other signal is found.
+   */
+  async tuneToNextSignal(direction: 1 | -1 = 1): Promise<TuneResult | null> {
+    const previousHz = await this.client.getCarrier();
+    const bandwidth = await this.client.getBandwidth().catch(() => FALLBACK_BANDWIDTH_HZ);
+    const step = Math.max(MIN_SWEEP_STEP_HZ, Number.isFinite(bandwidth) && bandwidth > 0 ? bandwidth : FALLBACK_BANDWIDTH_HZ);
+    const span = this.maxHz - this.minHz;
+    const steps = Math.floor(span / step);
+
+    for (let i = 1; i <= steps; i++) {
+      const candidate = this.wrap(previousHz + direction * i * step);
+      if (Math.abs(candidate - previousHz) < step) continue;
+      await this.client.setCarrier(candidate);
+      await this.sleep(this.dwellMs);
+      const snr = await this.client.getSignalNoiseRatio();
+      if (Number.isFinite(snr) && snr >= this.snrThresholdDb) {
+        return { previousHz, carrierHz: candidate, snr };
+      }
+    }
+
+    await this.client.setCarrier(previousHz);
+    return null;
+  }
+
+  /**
+   * Run a parsed tune command; returns a one-line summary for logs and, for
+   * carrier moves, where the carrier ended up. Throws when a sweep finds nothing.
+   */
+  async run(command: TuneCommand): Promise<TuneOutcome> {
+    switch (command.kind) {
+      case "offset": {
+        const result = await this.tuneBy(command.hz);
+        return { summary: `Carrier ${result.previousHz} → ${result.carrierHz} Hz`, result };
+      }
+      case "absolute": {
+        const result = await this.tuneTo(command.hz);
+        return { summary: `Carrier ${result.previousHz} → ${result.carrierHz} Hz`, result };
+      }
+      case "next": {
+        const result = await this.tuneToNextSignal(command.direction);
+        if (!result) throw new Error("no other signal found in the passband");
+        return { summary: `Carrier ${result.previousHz} → ${result.carrierHz} Hz (S/N ${result.snr} dB)`, result };
+      }
+      case "afc":
+        await this.client.setAfc(command.enabled);
+        return { summary: `AFC ${command.enabled ? "on" : "off"}` };
+      case "bandwidth":
+        await this.client.setBandwidth(command.hz);
+        return { summary: `Bandwidth ${command.hz} Hz` };
+    }
+  }
+
+  private clamp(hz: number): number {
+    return Math.min(this.maxHz, Math.max(this.minHz, Math.round(hz)));
+  }
+
+  private wrap(hz: number): number {
+    const span = this.maxHz - this.minHz;
+    return this.minHz + ((((Math.round(hz) - this.minHz) % span) + span) % span);
+  }
+}
+
+/** Which side of the dial frequency the audio passband lies on */
+export type Sideband = "upper" | "lower";
+
+/** Sideband of a rig CAT mode: LSB and reverse CW (CWR, CW-R) are lower, anything else upper. */
+export function sidebandOf(rigMode: string | undefined): Sideband {
+  return rigMode && /LSB|CW-?R/i.test(rigMode) ? "lower" : "upper";
+}
+
+/**
+ * RF frequency of the decoded station: the dial frequency plus the audio
+ * carrier offset on upper sideband, minus it on lower sideband.
+ */
+export function rfFrequency(dialHz: number, carrierHz: number | undefined, sideband: Sideband = "upper"): number | undefined {
+  if (carrierHz === undefined) return undefined;
+  return sideband === "lower" ? dialHz - carrierHz : dialHz + carrierHz;
+}
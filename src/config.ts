@@ -28,6 +28,8 @@ export interface TxConfig {
   pttSerialPort: string;
   /** Serial control line to use for PTT when pttMethod is "serial". Default: "dtr". */
   pttSerialLine: "dtr" | "rts";
+  /** Rewrite outbound prose into CW shorthand (THANKS → TNX) before sanitising. Default: true. */
+  abbreviate: boolean;
 }
 
 export interface QrzConfig {
@@ -41,6 +43,74 @@ export interface CallsignLookupConfig {
   cacheTtlSeconds: number;
 }
 
+/** End-of-over detection: silence timeout derived from the detected WPM */
+export interface RxConfig {
+  /** Silence, in word gaps (7 dits) at the detected WPM, that ends an over */
+  silenceWordGaps: number;
+  /** Multiplier on the longest pause the sender made and resumed from within the over */
+  silenceHysteresis: number;
+  minSilenceMs: number;
+  maxSilenceMs: number;
+  /** Silence timeout until a WPM has been detected */
+  defaultSilenceMs: number;
+  /** Dispatch partial inbound messages while a long over is still being sent */
+  partialUpdates: boolean;
+  /** Words between partial messages (0 = only at BT) */
+  partialEveryWords: number;
+  /** Drop decoded overs the language model scores as noise instead of dispatching them */
+  suppressNoise: boolean;
+}
+
+/** Local HTTP endpoint exporting pipeline metrics (Prometheus text on /metrics) */
+export interface MetricsConfig {
+  enabled: boolean;
+  host: string;
+  port: number;
+}
+
+/** Raw RX/TX transcript journal (JSONL) */
+export interface JournalConfig {
+  enabled: boolean;
+  rotation: "none" | "daily" | "size";
+  /** Size threshold for rotation "size" */
+  maxBytes: number;
+}
+
+/** Offline replay of a recorded transcript journal in place of live fldigi (empty path = live) */
+export interface ReplayConfig {
+  path: string;
+  /** Playback speed multiplier: 1 = real time, 0 = as fast as possible */
+  speed: number;
+}
+
+/** Super Check Partial and call history files for completing busted calls (empty path = not loaded) */
+export interface CallHistoryConfig {
+  /** MASTER.SCP: one known callsign per line */
+  scpPath: string;
+  /** N1MM-style call history (CSV with a !!Order!! header) */
+  historyPath: string;
+}
+
+/** Country file resolving callsigns to DXCC entities (empty path = not loaded) */
+export interface DxccConfig {
+  /** cty.dat or cty.csv (big cty), as published at country-files.com */
+  ctyPath: string;
+}
+
+/**
+ * One receive chain: an fldigi instance (and its SDR) parked on a frequency.
+ * A single-receiver setup is synthesised from the top-level frequency/fldigi/sdr.
+ */
+export interface ReceiverConfig {
+  /** Stable identifier, stamped into inbound metadata as receiverId */
+  id: string;
+  frequency: number;
+  fldigi: FldigiConfig;
+  sdr: SdrConfig;
+  /** Whether replies to peers heard here may be keyed through this fldigi (still gated by tx.enabled) */
+  transmit: boolean;
+}
+
 export interface ChannelConfig {
   frequency: number;
   mode: string;
@@ -49,6 +119,13 @@ export interface ChannelConfig {
   tx: TxConfig;
   qrz: QrzConfig;
   callsignLookup: CallsignLookupConfig;
+  rx: RxConfig;
+  metrics: MetricsConfig;
+  journal: JournalConfig;
+  replay: ReplayConfig;
+  callHistory: CallHistoryConfig;
+  dxcc: DxccConfig;
+  receivers: ReceiverConfig[];
 }
 
 const FLDIGI_DEFAULTS: FldigiConfig = {
@@ -72,6 +149,7 @@ const TX_DEFAULTS: TxConfig = {
   pttMethod: "none",
   pttSerialPort: "",
   pttSerialLine: "dtr",
+  abbreviate: false,
 };
 
 const QRZ_DEFAULTS: QrzConfig = {
@@ -85,7 +163,49 @@ const CALLSIGN_LOOKUP_DEFAULTS: CallsignLookupConfig = {
   cacheTtlSeconds: 24 * 60 * 60,
 };
 
-const CONFIG_DEFAULTS: ChannelConfig = {
+const RX_DEFAULTS: RxConfig = {
+  silenceWordGaps: 7,
+  silenceHysteresis: 1.5,
+  minSilenceMs: 1000,
+  maxSilenceMs: 8000,
+  defaultSilenceMs: 3000,
+  partialUpdates: false,
+  partialEveryWords: 10,
+  suppressNoise: false,
+};
+
+const METRICS_DEFAULTS: MetricsConfig = {
+  enabled: false,
+  host: "127.0.0.1",
+  port: 9464,
+};
+
+const JOURNAL_DEFAULTS: JournalConfig = {
+  enabled: true,
+  rotation: "daily",
+  maxBytes: 10_000_000,
+};
+
+const REPLAY_DEFAULTS: ReplayConfig = {
+  path: "",
+  speed: 1,
+};
+
+const CALL_HISTORY_DEFAULTS: CallHistoryConfig = {
+  scpPath: "",
+  historyPath: "",
+};
+
+const DXCC_DEFAULTS: DxccConfig = {
+  ctyPath: "",
+};
+
+/** Receiver id used when no receivers list is configured */
+export const DEFAULT_RECEIVER_ID = "main";
+
+const RECEIVER_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+const CONFIG_DEFAULTS: Omit<ChannelConfig, "receivers"> = {
   frequency: 7030000,
   mode: "CW",
   fldigi: FLDIGI_DEFAULTS,
@@ -93,6 +213,12 @@ const CONFIG_DEFAULTS: ChannelConfig = {
   tx: TX_DEFAULTS,
   qrz: QRZ_DEFAULTS,
   callsignLookup: CALLSIGN_LOOKUP_DEFAULTS,
+  rx: RX_DEFAULTS,
+  metrics: METRICS_DEFAULTS,
+  journal: JOURNAL_DEFAULTS,
+  replay: REPLAY_DEFAULTS,
+  callHistory: CALL_HISTORY_DEFAULTS,
+  dxcc: DXCC_DEFAULTS,
 };
 
 export interface ConfigValidationError {
@@ -115,17 +241,8 @@ export function validateConfig(config: ChannelConfig): ConfigValidationError[] {
     errors.push({ field: "mode", message: "Mode is required (e.g. 'CW')" });
   }
 
-  if (!config.fldigi.host || config.fldigi.host.trim() === "") {
-    errors.push({ field: "fldigi.host", message: "fldigi.host is required" });
-  }
-
-  if (!Number.isInteger(config.fldigi.port) || config.fldigi.port < 1 || config.fldigi.port > 65535) {
-    errors.push({ field: "fldigi.port", message: "Port must be between 1 and 65535" });
-  }
-
-  if (!Number.isFinite(config.fldigi.pollingIntervalMs) || config.fldigi.pollingIntervalMs < 50) {
-    errors.push({ field: "fldigi.pollingIntervalMs", message: "Polling interval must be at least 50ms" });
-  }
+  errors.push(...validateFldigiConfig(config.fldigi, "fldigi"));
+  errors.push(...validateReceivers(config));
 
   if (config.tx.enabled && !config.tx.callsign) {
     errors.push({ field: "tx.callsign", message: "Callsign is required when TX is enabled" });
@@ -156,9 +273,128 @@ export function validateConfig(config: ChannelConfig): ConfigValidationError[] {
     errors.push({ field: "callsignLookup.cacheTtlSeconds", message: "Callsign lookup cache TTL must be at least 1 second" });
   }
 
+  if (!Number.isFinite(config.rx.silenceWordGaps) || config.rx.silenceWordGaps <= 0) {
+    errors.push({ field: "rx.silenceWordGaps", message: "Silence word gaps must be a positive number" });
+  }
+  if (!Number.isFinite(config.rx.silenceHysteresis) || config.rx.silenceHysteresis < 1) {
+    errors.push({ field: "rx.silenceHysteresis", message: "Silence hysteresis must be at least 1" });
+  }
+  if (!Number.isFinite(config.rx.minSilenceMs) || config.rx.minSilenceMs < 100) {
+    errors.push({ field: "rx.minSilenceMs", message: "Minimum silence must be at least 100ms" });
+  }
+  if (!Number.isFinite(config.rx.maxSilenceMs) || config.rx.maxSilenceMs < config.rx.minSilenceMs) {
+    errors.push({ field: "rx.maxSilenceMs", message: "Maximum silence must not be below rx.minSilenceMs" });
+  }
+  if (!Number.isFinite(config.rx.defaultSilenceMs) || config.rx.defaultSilenceMs < 100) {
+    errors.push({ field: "rx.defaultSilenceMs", message: "Default silence must be at least 100ms" });
+  }
+  if (!Number.isInteger(config.rx.partialEveryWords) || config.rx.partialEveryWords < 0) {
+    errors.push({ field: "rx.partialEveryWords", message: "Partial word interval must be a non-negative integer" });
+  }
+
+  if (config.metrics.enabled) {
+    if (!config.metrics.host || config.metrics.host.trim() === "") {
+      errors.push({ field: "metrics.host", message: "metrics.host is required when metrics are enabled" });
+    }
+    if (!Number.isInteger(config.metrics.port) || config.metrics.port < 1 || config.metrics.port > 65535) {
+      errors.push({ field: "metrics.port", message: "Port must be between 1 and 65535" });
+    }
+  }
+
+  if (config.journal.rotation === "size" && (!Number.isFinite(config.journal.maxBytes) || config.journal.maxBytes < 1024)) {
+    errors.push({ field: "journal.maxBytes", message: "Journal rotation size must be at least 1024 bytes" });
+  }
+
+  if (!Number.isFinite(config.replay.speed) || config.replay.speed < 0) {
+    errors.push({ field: "replay.speed", message: "Replay speed must be 0 or more" });
+  }
+
+  return errors;
+}
+
+function validateFldigiConfig(fldigi: FldigiConfig, prefix: string): ConfigValidationError[] {
+  const errors: ConfigValidationError[] = [];
+
+  if (!fldigi.host || fldigi.host.trim() === "") {
+    errors.push({ field: `${prefix}.host`, message: `${prefix}.host is required` });
+  }
+
+  if (!Number.isInteger(fldigi.port) || fldigi.port < 1 || fldigi.port > 65535) {
+    errors.push({ field: `${prefix}.port`, message: "Port must be between 1 and 65535" });
+  }
+
+  if (!Number.isFinite(fldigi.pollingIntervalMs) || fldigi.pollingIntervalMs < 50) {
+    errors.push({ field: `${prefix}.pollingIntervalMs`, message: "Polling interval must be at least 50ms" });
+  }
+
+  return errors;
+}
+
+function validateReceivers(config: ChannelConfig): ConfigValidationError[] {
+  const errors: ConfigValidationError[] = [];
+  const receivers = config.receivers;
+  const seenIds = new Set<string>();
+  const seenEndpoints = new Map<string, string>();
+
+  if (receivers.length === 0) {
+    errors.push({ field: "receivers", message: "At least one receiver is required" });
+  }
+
+  receivers.forEach((receiver, index) => {
+    const prefix = `receivers[${index}]`;
+
+    if (!receiver.id || !RECEIVER_ID_PATTERN.test(receiver.id)) {
+      errors.push({ field: `${prefix}.id`, message: "Receiver id is required (letters, digits, '-' or '_')" });
+    } else if (seenIds.has(receiver.id)) {
+      errors.push({ field: `${prefix}.id`, message: `Duplicate receiver id '${receiver.id}'` });
+    }
+    seenIds.add(receiver.id);
+
+    // The implicit receiver shares the top-level settings, which are reported above
+    const inherited = receiver.fldigi === config.fldigi && receiver.frequency === config.frequency;
+    if (!inherited) {
+      if (!Number.isFinite(receiver.frequency) || receiver.frequency <= 0) {
+        errors.push({ field: `${prefix}.frequency`, message: "Frequency must be a positive number (Hz)" });
+      }
+      errors.push(...validateFldigiConfig(receiver.fldigi, `${prefix}.fldigi`));
+    }
+
+    const endpoint = `${receiver.fldigi.host}:${receiver.fldigi.port}`;
+    const owner = seenEndpoints.get(endpoint);
+    if (owner !== undefined) {
+      errors.push({ field: `${prefix}.fldigi.port`, message: `fldigi at ${endpoint} is already used by receiver '${owner}'` });
+    } else {
+      seenEndpoints.set(endpoint, receiver.id);
+    }
+  });
+
   return errors;
 }
 
+/**
+ * Effective config for one receiver: the channel config with that receiver's
+ * frequency, fldigi and SDR settings, and TX only if the receiver may transmit.
+ * Pollers and transmitters take this so they stay single-receiver.
+ */
+export function receiverChannelConfig(config: ChannelConfig, receiver: ReceiverConfig): ChannelConfig {
+  return {
+    ...config,
+    frequency: receiver.frequency,
+    fldigi: receiver.fldigi,
+    sdr: receiver.sdr,
+    tx: { ...config.tx, enabled: config.tx.enabled && receiver.transmit },
+    receivers: [receiver],
+  };
+}
+
+export interface PartialReceiverConfig {
+  id: string;
+  frequency?: number;
+  fldigi?: Partial<FldigiConfig>;
+  sdr?: Partial<SdrConfig>;
+  transmit?: boolean;
+}
+
 /**
  * Merge partial user config with defaults, producing a complete ChannelConfig.
  */
@@ -170,16 +406,36 @@ export interface PartialChannelConfig {
   tx?: Partial<TxConfig>;
   qrz?: Partial<QrzConfig>;
   callsignLookup?: Partial<CallsignLookupConfig>;
+  rx?: Partial<RxConfig>;
+  metrics?: Partial<MetricsConfig>;
+  journal?: Partial<JournalConfig>;
+  replay?: Partial<ReplayConfig>;
+  callHistory?: Partial<CallHistoryConfig>;
+  dxcc?: Partial<DxccConfig>;
+  /** Several receivers (one fldigi each); omitted = one receiver from frequency/fldigi/sdr */
+  receivers?: PartialReceiverConfig[];
 }
 
 export function resolveConfig(partial: PartialChannelConfig, env: NodeJS.ProcessEnv = process.env): ChannelConfig {
   const envConfig = resolveEnvConfig(env);
   const callsign = partial.tx?.callsign ?? envConfig.tx?.callsign ?? TX_DEFAULTS.callsign;
+  const frequency = partial.frequency ?? envConfig.frequency ?? CONFIG_DEFAULTS.frequency;
+  const fldigi = { ...FLDIGI_DEFAULTS, ...envConfig.fldigi, ...partial.fldigi };
+  const sdr = { ...SDR_DEFAULTS, ...envConfig.sdr, ...partial.sdr };
+  const receivers = partial.receivers && partial.receivers.length > 0
+    ? partial.receivers.map((receiver) => ({
+      id: (receiver.id ?? "").trim(),
+      frequency: receiver.frequency ?? frequency,
+      fldigi: { ...fldigi, ...receiver.fldigi },
+      sdr: { ...sdr, ...receiver.sdr },
+      transmit: receiver.transmit ?? true,
+    }))
+    : [{ id: DEFAULT_RECEIVER_ID, frequency, fldigi, sdr, transmit: true }];
   return {
-    frequency: partial.frequency ?? envConfig.frequency ?? CONFIG_DEFAULTS.frequency,
+    frequency,
     mode: partial.mode ?? envConfig.mode ?? CONFIG_DEFAULTS.mode,
-    fldigi: { ...FLDIGI_DEFAULTS, ...envConfig.fldigi, ...partial.fldigi },
-    sdr: { ...SDR_DEFAULTS, ...envConfig.sdr, ...partial.sdr },
+    fldigi,
+    sdr,
     tx: { ...TX_DEFAULTS, ...envConfig.tx, ...partial.tx, callsign: callsign.toUpperCase().trim() },
     qrz: {
       ...QRZ_DEFAULTS,
@@ -189,6 +445,13 @@ export function resolveConfig(partial: PartialChannelConfig, env: NodeJS.Process
       password: (partial.qrz?.password ?? envConfig.qrz?.password ?? QRZ_DEFAULTS.password).trim(),
     },
     callsignLookup: { ...CALLSIGN_LOOKUP_DEFAULTS, ...envConfig.callsignLookup, ...partial.callsignLookup },
+    rx: { ...RX_DEFAULTS, ...envConfig.rx, ...partial.rx },
+    metrics: { ...METRICS_DEFAULTS, ...envConfig.metrics, ...partial.metrics },
+    journal: { ...JOURNAL_DEFAULTS, ...envConfig.journal, ...partial.journal },
+    replay: { ...REPLAY_DEFAULTS, ...envConfig.replay, ...partial.replay },
+    callHistory: { ...CALL_HISTORY_DEFAULTS, ...envConfig.callHistory, ...partial.callHistory },
+    dxcc: { ...DXCC_DEFAULTS, ...envConfig.dxcc, ...partial.dxcc },
+    receivers,
   };
 }
 
@@ -212,6 +475,7 @@ function resolveEnvConfig(env: NodeJS.ProcessEnv): PartialChannelConfig {
     pttMethod: envPttMethod(env, "CQLAW_TX_PTT_METHOD"),
     pttSerialPort: envString(env, "CQLAW_TX_PTT_SERIAL_PORT"),
     pttSerialLine: envPttSerialLine(env, "CQLAW_TX_PTT_SERIAL_LINE"),
+    abbreviate: envBoolean(env, "CQLAW_TX_ABBREVIATE"),
   });
   const qrz = definedValues<Partial<QrzConfig>>({
     username: envString(env, "CQLAW_QRZ_USERNAME"),
@@ -222,6 +486,37 @@ function resolveEnvConfig(env: NodeJS.ProcessEnv): PartialChannelConfig {
     provider: envLookupProvider(env, "CQLAW_CALLSIGN_LOOKUP_PROVIDER"),
     cacheTtlSeconds: envInt(env, "CQLAW_CALLSIGN_LOOKUP_CACHE_TTL_SECONDS"),
   });
+  const rx = definedValues<Partial<RxConfig>>({
+    silenceWordGaps: envNumber(env, "CQLAW_RX_SILENCE_WORD_GAPS"),
+    silenceHysteresis: envNumber(env, "CQLAW_RX_SILENCE_HYSTERESIS"),
+    minSilenceMs: envInt(env, "CQLAW_RX_MIN_SILENCE_MS"),
+    maxSilenceMs: envInt(env, "CQLAW_RX_MAX_SILENCE_MS"),
+    defaultSilenceMs: envInt(env, "CQLAW_RX_DEFAULT_SILENCE_MS"),
+    partialUpdates: envBoolean(env, "CQLAW_RX_PARTIAL_UPDATES"),
+    partialEveryWords: envInt(env, "CQLAW_RX_PARTIAL_EVERY_WORDS"),
+    suppressNoise: envBoolean(env, "CQLAW_RX_SUPPRESS_NOISE"),
+  });
+  const metrics = definedValues<Partial<MetricsConfig>>({
+    enabled: envBoolean(env, "CQLAW_METRICS_ENABLED"),
+    host: envString(env, "CQLAW_METRICS_HOST"),
+    port: envInt(env, "CQLAW_METRICS_PORT"),
+  });
+  const journal = definedValues<Partial<JournalConfig>>({
+    enabled: envBoolean(env, "CQLAW_JOURNAL_ENABLED"),
+    rotation: envJournalRotation(env, "CQLAW_JOURNAL_ROTATION"),
+    maxBytes: envInt(env, "CQLAW_JOURNAL_MAX_BYTES"),
+  });
+  const replay = definedValues<Partial<ReplayConfig>>({
+    path: envString(env, "CQLAW_REPLAY_PATH"),
+    speed: envNumber(env, "CQLAW_REPLAY_SPEED"),
+  });
+  const callHistory = definedValues<Partial<CallHistoryConfig>>({
+    scpPath: envString(env, "CQLAW_SCP_PATH"),
+    historyPath: envString(env, "CQLAW_CALL_HISTORY_PATH"),
+  });
+  const dxcc = definedValues<Partial<DxccConfig>>({
+    ctyPath: envString(env, "CQLAW_CTY_PATH"),
+  });
 
   return {
     frequency: envNumber(env, "CQLAW_FREQUENCY"),
@@ -231,6 +526,12 @@ function resolveEnvConfig(env: NodeJS.ProcessEnv): PartialChannelConfig {
     tx: Object.keys(tx).length > 0 ? tx : undefined,
     qrz: Object.keys(qrz).length > 0 ? qrz : undefined,
     callsignLookup: Object.keys(callsignLookup).length > 0 ? callsignLookup : undefined,
+    rx: Object.keys(rx).length > 0 ? rx : undefined,
+    metrics: Object.keys(metrics).length > 0 ? metrics : undefined,
+    journal: Object.keys(journal).length > 0 ? journal : undefined,
+    replay: Object.keys(replay).length > 0 ? replay : undefined,
+    callHistory: Object.keys(callHistory).length > 0 ? callHistory : undefined,
+    dxcc: Object.keys(dxcc).length > 0 ? dxcc : undefined,
   };
 }
 
@@ -298,6 +599,14 @@ function envPttSerialLine(env: NodeJS.ProcessEnv, key: string): TxConfig["pttSer
   return undefined;
 }
 
+function envJournalRotation(env: NodeJS.ProcessEnv, key: string): JournalConfig["rotation"] | undefined {
+  const value = envString(env, key);
+  if (!value) return undefined;
+  const normalized = value.toLowerCase();
+  if (normalized === "none" || normalized === "daily" || normalized === "size") return normalized;
+  return undefined;
+}
+
 function definedValues<T extends Record<string, unknown>>(input: T): Partial<T> {
   const out: Partial<T> = {};
   for (const [key, value] of Object.entries(input)) {
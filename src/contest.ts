@@ -3,6 +3,7 @@
  */
 
 import { extractCallsigns } from "./callsign.js";
+import { tokenNumber, tokenizeCw, type CwToken } from "./cw-tokens.js";
 
 export interface ContestProfile {
   contestId: string;
@@ -90,54 +91,66 @@ export const CONTEST_PROFILES: Record<string, ContestProfile> = {
   },
 };
 
-const RST = /\b([1-5][1-9][1-9])\b/;
-const NUMBER = /\b(\d{1,4})\b/g;
-const FD = /\b(\d[A-F])\s+([A-Z]{2,4})\b/;
-const SS = /\b(\d{1,4})\s+([A-Z])\s+([A-Z0-9\/]+)\s+(\d{2})\s+([A-Z]{2,4})\b/;
+const FD_CATEGORY = /^\d{1,2}[A-F]$/;
+const SECTION = /^[A-Z]{2,4}$/;
+const SS_PRECEDENCE = /^[A-Z]$/;
+const SS_CHECK = /^\d{2}$/;
+
+/** Token kinds that can carry a zone or serial number */
+const NUMERIC_KINDS = new Set<CwToken["kind"]>(["number", "serial", "cut-number"]);
 
 export function parseContestExchange(text: string, profile: ContestProfile): ParsedContestExchange {
-  const upper = text.toUpperCase();
+  const tokens = tokenizeCw(text);
   const parsed: ParsedContestExchange = {};
 
-  const calls = extractCallsigns(upper);
+  const calls = extractCallsigns(tokens);
   if (calls.length > 0) {
     parsed.callsign = calls[calls.length - 1].callsign;
   }
 
+  const rsts = tokens.filter((token) => token.kind === "rst");
+  const numbers = tokens.filter((token) => NUMERIC_KINDS.has(token.kind));
+
   if (profile.contestId === "CQWW" || profile.contestId === "IARU-HF") {
-    const rstMatch = upper.match(RST);
-    if (rstMatch) parsed.rst = rstMatch[1];
-    const nums = Array.from(upper.matchAll(NUMBER)).map((m) => parseInt(m[1], 10));
-    const zone = nums.find((n) => n >= 1 && n <= 40);
+    if (rsts.length > 0) parsed.rst = rsts[0].value;
+    const zone = numbers.map(tokenNumber).find((n) => n !== undefined && n >= 1 && n <= 40);
     if (zone !== undefined) parsed.zone = zone;
     return parsed;
   }
 
   if (profile.contestId === "CQ-WPX") {
-    const rstMatch = upper.match(RST);
-    if (rstMatch) parsed.rst = rstMatch[1];
-    const nums = Array.from(upper.matchAll(NUMBER)).map((m) => parseInt(m[1], 10));
-    if (nums.length > 0) parsed.serial = nums[nums.length - 1];
+    if (rsts.length > 0) parsed.rst = rsts[0].value;
+    // A serial that happens to look like an RST ("599 599") follows the report
+    const serialToken = numbers.length > 0 ? numbers[numbers.length - 1] : rsts[1];
+    const serial = serialToken ? tokenNumber(serialToken) : undefined;
+    if (serial !== undefined) parsed.serial = serial;
     return parsed;
   }
 
   if (profile.contestId === "ARRL-FD") {
-    const match = upper.match(FD);
-    if (match) {
-      parsed.category = match[1];
-      parsed.section = match[2];
+    const index = tokens.findIndex((token, i) => FD_CATEGORY.test(token.text) && SECTION.test(tokens[i + 1]?.text ?? ""));
+    if (index >= 0) {
+      parsed.category = tokens[index].text;
+      parsed.section = tokens[index + 1].text;
     }
     return parsed;
   }
 
   if (profile.contestId === "ARRL-SS") {
-    const match = upper.match(SS);
-    if (match) {
-      parsed.serial = parseInt(match[1], 10);
-      parsed.precedence = match[2];
-      parsed.callsign = match[3];
-      parsed.check = match[4];
-      parsed.section = match[5];
+    // <serial> <precedence> <call> <check> <section>
+    const index = tokens.findIndex((token, i) =>
+      i >= 2
+      && token.kind === "callsign"
+      && tokenNumber(tokens[i - 2]) !== undefined
+      && SS_PRECEDENCE.test(tokens[i - 1].text)
+      && SS_CHECK.test(tokens[i + 1]?.text ?? "")
+      && SECTION.test(tokens[i + 2]?.text ?? ""));
+    if (index >= 0) {
+      parsed.serial = tokenNumber(tokens[index - 2]);
+      parsed.precedence = tokens[index - 1].text;
+      parsed.callsign = tokens[index].value;
+      parsed.check = tokens[index + 1].text;
+      parsed.section = tokens[index + 2].text;
     }
     return parsed;
   }
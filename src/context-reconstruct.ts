@@ -3,12 +3,14 @@
  */
 
 import type { Confidence } from "./fuzzy-match.js";
+import type { DxccDatabase } from "./dxcc.js";
 
 export interface ReconstructedValue {
   value: string;
   confidence: Confidence;
 }
 
+/** Fallback when no country file is loaded */
 const PREFIX_TO_CQ_ZONE: Array<{ prefixes: string[]; zone: number }> = [
   { prefixes: ["K", "N", "W", "AA", "AB", "AC", "AD", "AE", "AF", "AG", "AI", "AJ", "AK"], zone: 5 },
   { prefixes: ["VE", "VA"], zone: 4 },
@@ -40,7 +42,9 @@ export function reconstructRst(raw: string): ReconstructedValue | null {
   return { value: chars.join(""), confidence: "medium" };
 }
 
-export function inferCqZoneFromCallsign(callsign: string): number | null {
+/** CQ zone of a callsign: from the country file when given, otherwise a few common prefixes. */
+export function inferCqZoneFromCallsign(callsign: string, dxcc?: DxccDatabase | null): number | null {
+  if (dxcc) return dxcc.resolve(callsign)?.cqZone ?? null;
   const upper = callsign.toUpperCase();
   for (const rule of PREFIX_TO_CQ_ZONE) {
     if (rule.prefixes.some((p) => upper.startsWith(p))) {
@@ -54,8 +58,12 @@ export function inferCqZoneFromCallsign(callsign: string): number | null {
  * Reconcile a decoded zone with callsign-based expectation.
  * Keeps decoded zone when it looks valid and close enough, otherwise uses inferred.
  */
-export function reconstructZone(decoded: string | undefined, callsign: string | undefined): ReconstructedValue | null {
-  const inferred = callsign ? inferCqZoneFromCallsign(callsign) : null;
+export function reconstructZone(
+  decoded: string | undefined,
+  callsign: string | undefined,
+  dxcc?: DxccDatabase | null,
+): ReconstructedValue | null {
+  const inferred = callsign ? inferCqZoneFromCallsign(callsign, dxcc) : null;
   if (!decoded) {
     if (inferred === null) return null;
     return { value: String(inferred), confidence: "medium" };
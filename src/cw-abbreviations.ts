@@ -0,0 +1,220 @@
+/**
+ * CW shorthand in both directions.
+ *
+ * Inbound, glossCw() spells out the abbreviations, Q-codes and prosigns of a
+ * decoded over in plain English, so the agent does not have to guess what
+ * "HR QTH NR ROTTERDAM" means. Outbound, compressForCw() turns the agent's
+ * prose into the shorthand an operator would key (THANKS → TNX, YOUR → UR,
+ * WEATHER → WX) before the text is sanitised for transmission.
+ *
+ * Both directions are driven by the tables below; the two are kept separate
+ * because shorthand is ambiguous one way and not the other (UR is "your" or
+ * "you are", but both are sent as UR).
+ */
+
+import { tokenizeCw, type CwToken } from "./cw-tokens.js";
+
+/** Plain-English meaning of CW abbreviations, read as one word each */
+const ABBREVIATION_GLOSS: Record<string, string> = {
+  "73": "best regards",
+  "72": "best regards (QRP)",
+  "88": "love and kisses",
+  ABT: "about",
+  AGN: "again",
+  ANT: "antenna",
+  B4: "before",
+  BURO: "QSL bureau",
+  CFM: "confirm",
+  CPY: "copy",
+  CQ: "calling any station",
+  CUL: "see you later",
+  DE: "from",
+  DR: "dear",
+  ES: "and",
+  FB: "fine business",
+  FER: "for",
+  GA: "go ahead / good afternoon",
+  GE: "good evening",
+  GL: "good luck",
+  GM: "good morning",
+  GN: "good night",
+  GUD: "good",
+  HPE: "hope",
+  HR: "here",
+  HW: "how",
+  NM: "name",
+  NW: "now",
+  OM: "old man",
+  OP: "operator",
+  PSE: "please",
+  PWR: "power",
+  R: "received",
+  RCVD: "received",
+  RPT: "report",
+  RX: "receiver",
+  SIG: "signal",
+  SRI: "sorry",
+  TKS: "thanks",
+  TNX: "thanks",
+  TRX: "transceiver",
+  TU: "thank you",
+  TX: "transmitter",
+  U: "you",
+  UR: "your",
+  VY: "very",
+  WID: "with",
+  WX: "weather",
+  XYL: "wife",
+  YL: "young lady",
+  YRS: "years",
+};
+
+/** Abbreviations whose meaning changes before a number (NR 023 vs NR ROTTERDAM) */
+const NUMERIC_CONTEXT_GLOSS: Record<string, string> = {
+  NR: "number",
+};
+
+/** Abbreviations read differently when they do not precede a number */
+const WORD_CONTEXT_GLOSS: Record<string, string> = {
+  NR: "near",
+};
+
+/** Q-codes as a statement and, followed by "?", as a question */
+const Q_CODE_GLOSS: Record<string, { statement: string; question: string }> = {
+  QRL: { statement: "frequency is in use", question: "is this frequency in use?" },
+  QRM: { statement: "interference", question: "is there interference?" },
+  QRN: { statement: "static noise", question: "is there static noise?" },
+  QRO: { statement: "increase power", question: "shall I increase power?" },
+  QRP: { statement: "low power", question: "shall I decrease power?" },
+  QRQ: { statement: "send faster", question: "shall I send faster?" },
+  QRS: { statement: "send slower", question: "shall I send slower?" },
+  QRT: { statement: "closing down", question: "shall I stop sending?" },
+  QRU: { statement: "nothing more for you", question: "anything more for me?" },
+  QRV: { statement: "ready", question: "are you ready?" },
+  QRX: { statement: "wait", question: "when will you call again?" },
+  QRZ: { statement: "who is calling me", question: "who is calling me?" },
+  QSB: { statement: "fading", question: "are my signals fading?" },
+  QSL: { statement: "acknowledged", question: "can you acknowledge?" },
+  QSO: { statement: "contact", question: "can you make contact?" },
+  QSY: { statement: "change frequency", question: "shall I change frequency?" },
+  QTH: { statement: "location", question: "what is your location?" },
+};
+
+const PROSIGN_GLOSS: Record<string, string> = {
+  AR: "(end of message)",
+  AS: "(wait)",
+  BK: "(back to you)",
+  BT: "(break)",
+  K: "(over)",
+  KA: "(start of message)",
+  KN: "(over, named station only)",
+  SK: "(end of contact)",
+};
+
+/** Prose phrases and the shorthand keyed for them; longer phrases win */
+const PROSE_SHORTHAND: Array<[string, string]> = [
+  ["BEST REGARDS", "73"],
+  ["FINE BUSINESS", "FB"],
+  ["GOOD AFTERNOON", "GA"],
+  ["GOOD EVENING", "GE"],
+  ["GOOD LUCK", "GL"],
+  ["GOOD MORNING", "GM"],
+  ["GOOD NIGHT", "GN"],
+  ["HOW ARE YOU", "HW"],
+  ["MANY THANKS", "TNX"],
+  ["MY LOCATION IS", "QTH"],
+  ["MY NAME IS", "NAME"],
+  ["SEE YOU LATER", "CUL"],
+  ["SEE YOU", "CUL"],
+  ["SIGNAL REPORT", "RST"],
+  ["THANK YOU", "TU"],
+  ["YOU ARE", "UR"],
+  ["YOU'RE", "UR"],
+  ["ABOUT", "ABT"],
+  ["AGAIN", "AGN"],
+  ["AND", "ES"],
+  ["ANTENNA", "ANT"],
+  ["BEFORE", "B4"],
+  ["CONFIRM", "CFM"],
+  ["COPY", "CPY"],
+  ["DEAR", "DR"],
+  ["FOR", "FER"],
+  ["GOOD", "GUD"],
+  ["HERE", "HR"],
+  ["HOPE", "HPE"],
+  ["HOW", "HW"],
+  ["LOCATION", "QTH"],
+  ["NOW", "NW"],
+  ["PLEASE", "PSE"],
+  ["POWER", "PWR"],
+  ["RECEIVED", "RCVD"],
+  ["RECEIVER", "RX"],
+  ["REPORT", "RPT"],
+  ["SIGNAL", "SIG"],
+  ["SORRY", "SRI"],
+  ["THANKS", "TNX"],
+  ["TRANSCEIVER", "TRX"],
+  ["TRANSMITTER", "TX"],
+  ["VERY", "VY"],
+  ["WEATHER", "WX"],
+  ["WIFE", "XYL"],
+  ["WITH", "WID"],
+  ["YEARS", "YRS"],
+  ["YOU", "U"],
+  ["YOUR", "UR"],
+];
+
+const SHORTHAND = new Map(PROSE_SHORTHAND);
+
+const PROSE_PATTERN = new RegExp(
+  `(?<![\\w'])(?:${[...SHORTHAND.keys()]
+    .sort((a, b) => b.length - a.length)
+    .map((phrase) => phrase.split(" ").join("\\s+"))
+    .join("|")})(?![\\w'])`,
+  "gi",
+);
+
+const NUMERIC_KINDS = new Set(["rst", "cut-number", "serial", "number"]);
+
+/**
+ * Plain-English reading of decoded CW. Abbreviations, Q-codes and prosigns are
+ * spelled out in lower case; callsigns, names and anything else not in the
+ * tables stay as decoded, and cut numbers are read as digits (5NN → 599).
+ */
+export function glossCw(text: string): string {
+  const tokens = tokenizeCw(text);
+  return tokens.map((token, i) => glossToken(token, tokens[i + 1])).join(" ");
+}
+
+/**
+ * Rewrite prose into idiomatic CW shorthand, phrase by phrase. Words that are
+ * not in the table are left as written, case and punctuation included, for
+ * sanitizeForCw() to handle.
+ */
+export function compressForCw(prose: string): string {
+  return prose.replace(PROSE_PATTERN, (phrase) => SHORTHAND.get(phrase.toUpperCase().replace(/\s+/g, " ")) ?? phrase);
+}
+
+function glossToken(token: CwToken, next: CwToken | undefined): string {
+  switch (token.kind) {
+    case "prosign":
+      return PROSIGN_GLOSS[token.text] ?? token.text;
+    case "qcode": {
+      const entry = Q_CODE_GLOSS[token.text.replace(/\?$/, "")];
+      if (!entry) return token.text;
+      return token.text.endsWith("?") ? entry.question : entry.statement;
+    }
+    case "rst":
+    case "cut-number":
+    case "serial":
+    case "number":
+      return token.value;
+    default: {
+      const bare = token.text.replace(/\?$/, "");
+      const query = bare !== token.text ? "?" : "";
+      const contextual = next && NUMERIC_KINDS.has(next.kind) ? NUMERIC_CONTEXT_GLOSS[bare] : WORD_CONTEXT_GLOSS[bare];
+      const gloss = contextual ?? ABBREVIATION_GLOSS[bare];
+      return gloss ? `${gloss}${query}` : token.text;
+    }
+  }
+}
@@ -0,0 +1,217 @@
+/**
+ * Bundled corpus of typical CW QSO text, used to train the plausibility
+ * model in cw-language-model.ts. One over per line, as it would be decoded:
+ * CQ calls, ragchew exchanges, contest exchanges and sign-offs, with the
+ * names, places, rigs and weather talk that fill a real contact.
+ */
+
+export const CW_QSO_CORPUS: readonly string[] = [
+  "CQ CQ CQ DE PA3XYZ PA3XYZ K",
+  "CQ CQ DE DL2ABC DL2ABC PSE K",
+  "CQ DX CQ DX DE W1AW W1AW K",
+  "CQ POTA CQ POTA DE K4SWL K4SWL K",
+  "CQ SOTA DE G4ABC/P G4ABC/P K",
+  "QRL?",
+  "QRZ? DE ON4UN K",
+  "PA3XYZ DE DL2ABC DL2ABC K",
+  "DL2ABC DE PA3XYZ GM DR OM TNX FER CALL BT UR RST 579 579 BT NAME HANS HANS BT QTH ROTTERDAM ROTTERDAM BT HW CPY? DL2ABC DE PA3XYZ KN",
+  "PA3XYZ DE DL2ABC R R FB HANS TNX FER NICE RPT UR RST 599 599 BT NAME IS PETER PETER BT QTH NR BERLIN BERLIN BT HW? PA3XYZ DE DL2ABC KN",
+  "DL2ABC DE PA3XYZ R TNX PETER FB BT RIG HR IS IC7300 ES ANT IS DIPOLE UP 10M BT PWR 100W BT WX HR SUNNY ES WARM TEMP 22C BT DL2ABC DE PA3XYZ KN",
+  "PA3XYZ DE DL2ABC R R FB ON RIG ES ANT BT HR RIG K3 ES PWR 50W ANT VERTICAL BT WX CLOUDY ES RAIN BT AGE HR 62 ES LICENSED SINCE 1985 BT PA3XYZ DE DL2ABC KN",
+  "DL2ABC DE PA3XYZ TNX FER FB QSO PETER HPE CUL BT 73 ES GL DL2ABC DE PA3XYZ SK",
+  "PA3XYZ DE DL2ABC TNX HANS 73 ES GUD DX TU E E",
+  "GE OM TNX FER CALL UR RST 449 449 QSB BT NAME JOHN JOHN QTH LONDON LONDON",
+  "GA DR OM UR SIGS 559 WID QRM BT OP MIKE QTH DENVER CO",
+  "GM OM TNX FER QSO BT MY NAME IS ANNA ANNA BT QTH IS VIENNA",
+  "R R TNX FER RPT BT SRI QRM PSE AGN UR NAME?",
+  "NAME JAN JAN BT QTH UTRECHT UTRECHT",
+  "UR RST 339 339 VY WEAK SIGS SRI BT PSE QRS",
+  "QRS PSE QRS",
+  "PSE QSY UP 2",
+  "QSL VIA BURO OR LOTW",
+  "QSL VIA DIRECT PSE",
+  "WILL QSL VIA BURO TNX",
+  "ANT HR IS A LONG WIRE 40M ES TUNER",
+  "ANT IS 3 EL YAGI AT 15M",
+  "ANT END FED HALF WAVE UP 8M",
+  "RIG IS KX3 AT 5W QRP",
+  "RIG FT991A RUNNING 100W",
+  "RIG IS HOMEBREW 2W QRP ES ANT DIPOLE",
+  "RIG ELECRAFT K2 ES PADDLES BEGALI",
+  "WX HR COLD ES SNOW TEMP MINUS 5C",
+  "WX HR FINE SUNNY 25C",
+  "WX RAINY ES WINDY TODAY",
+  "WX OVERCAST TEMP 12C",
+  "AGE HR 45 ES BEEN HAM FER 20 YRS",
+  "AGE 71 LICENSED 1968",
+  "RETIRED ENGINEER",
+  "WORKING AS TEACHER",
+  "HPE TO MEET AGN SOON",
+  "MNI TNX FER NICE QSO ES 73",
+  "VY 73 ES GUD LUCK",
+  "73 TU DE PA3XYZ SK",
+  "73 73 SK E E",
+  "TU 73 GL",
+  "CUL 73",
+  "FB OM",
+  "R TU",
+  "GN OM 73 SK",
+  "TEST DE DL2ABC DL2ABC",
+  "TEST DE K1ABC K1ABC TEST",
+  "CQ TEST DE OH2BH OH2BH TEST",
+  "DL2ABC 5NN 14",
+  "PA3XYZ 5NN 14 TU",
+  "TU 5NN 14",
+  "5NN 14",
+  "5NN 05 TU",
+  "599 001",
+  "5NN 023",
+  "TU 5NN 1T2",
+  "NR 123 599",
+  "K1ABC 599 5 TU",
+  "5NN 28 DL2ABC",
+  "K1ABC 123 A W1AW 72 CT",
+  "123 A K1ABC 72 EMA",
+  "1A CT TU",
+  "2A EMA",
+  "TU NW QRZ",
+  "QRZ DE PA3XYZ TEST",
+  "AGN? NR?",
+  "CL?",
+  "PSE AGN CALL?",
+  "UR CALL? PSE AGN",
+  "DE OK1ABC OK1ABC",
+  "DE EA8/ON4UN EA8/ON4UN",
+  "DE W1AW/4 W1AW/4",
+  "LOC JO22AB",
+  "GRID FN31",
+  "MY LOC IS JO33",
+  "QTH AMSTERDAM NR HAARLEM",
+  "QTH PARIS FRANCE",
+  "QTH MUNICH GERMANY",
+  "QTH OSLO NORWAY",
+  "QTH TOKYO JAPAN",
+  "QTH BOSTON MA",
+  "QTH MADRID SPAIN",
+  "QTH ROME ITALY",
+  "QTH PRAGUE",
+  "QTH WARSAW",
+  "QTH STOCKHOLM",
+  "QTH HELSINKI",
+  "QTH BRUSSELS",
+  "QTH ANTWERP",
+  "QTH EINDHOVEN",
+  "QTH HAMBURG",
+  "QTH DRESDEN",
+  "QTH ZURICH",
+  "QTH LISBON",
+  "QTH DUBLIN",
+  "QTH SEATTLE WA",
+  "QTH AUSTIN TX",
+  "QTH TORONTO",
+  "NAME TOM",
+  "NAME BOB",
+  "NAME JIM",
+  "NAME PAUL",
+  "NAME MARK",
+  "NAME WIM",
+  "NAME KEES",
+  "NAME KLAUS",
+  "NAME WERNER",
+  "NAME JOSE",
+  "NAME LUCA",
+  "NAME MARIA",
+  "NAME SARA",
+  "NAME DAVE",
+  "NAME STEVE",
+  "NAME ERIK",
+  "NAME OLE",
+  "NAME YURI",
+  "NAME TARO",
+  "OP IS CHRIS",
+  "HR IN THE GARDEN WID PORTABLE STATION",
+  "OPERATING FROM A PARK TODAY",
+  "ON A SUMMIT WID A SMALL RIG",
+  "CONDX NOT SO GOOD TODAY",
+  "BAND IS OPEN TO USA",
+  "NICE SIGS HR",
+  "UR SIGS ARE STRONG",
+  "SOLID COPY",
+  "COPY FB",
+  "ALL OK HR",
+  "FIRST QSO WID YOU",
+  "NICE TO MEET YOU AGN",
+  "TNX FER THE REPORT",
+  "THE WEATHER IS NICE AND SUNNY",
+  "I AM USING A STRAIGHT KEY",
+  "KEY IS A BUG",
+  "SPEED 20 WPM",
+  "PSE SLOWER",
+  "QRM HR",
+  "QRN HR",
+  "QSB ON UR SIGS",
+  "QRP 5W",
+  "QRO 400W",
+  "QRT NOW",
+  "QRX 5 MIN",
+  "QSY 7025",
+  "QRV ON 40M",
+  "QTH?",
+  "QRL? QRL?",
+  "R QRL",
+  "CQ CQ CQ DE F5ABC F5ABC F5ABC K",
+  "CQ CQ DE SP9XYZ SP9XYZ K",
+  "CQ CQ DE JA1ABC JA1ABC K",
+  "CQ CQ DE VK2ABC VK2ABC K",
+  "CQ CQ DE 9A1A 9A1A K",
+  "CQ CQ DE GB13YOTA GB13YOTA K",
+  "F5ABC DE PA3XYZ PA3XYZ K",
+  "SP9XYZ DE DL2ABC UR 599 599 NAME ADAM QTH KRAKOW HW? KN",
+  "JA1ABC DE W1AW R TNX UR 579 IN MA NAME HIRAM",
+  "VK2ABC DE G4ABC TNX FER LONG PATH QSO",
+  "WE HAD A LOVELY DAY AT THE BEACH WID THE FAMILY",
+  "JUST BACK FROM WORK ES HAVING DINNER NOW",
+  "MY WIFE IS CALLING ME FOR LUNCH SO MUST GO",
+  "I BUILT THIS ANTENNA LAST WINTER FROM OLD WIRE",
+  "THE GARDEN NEEDS WATER AFTER A DRY SUMMER",
+  "LOOKING FORWARD TO THE NEXT CONTEST WEEKEND",
+  "THANKS FOR THE NICE CHAT ES HAVE A GREAT EVENING",
+  "I WORKED AS AN ELECTRICIAN FOR MANY YEARS BEFORE I RETIRED",
+  "OUR CLUB MEETS EVERY THURSDAY EVENING",
+  "THE KIDS ARE VISITING THIS WEEKEND",
+  "IT HAS BEEN RAINING ALL DAY HERE",
+  "PROPAGATION WAS EXCELLENT THIS MORNING",
+  "THE SUN IS SHINING ES BIRDS ARE SINGING",
+  "WE LIVE NEAR THE RIVER IN A SMALL VILLAGE",
+  "I LEARNED MORSE CODE WHEN I WAS IN THE NAVY",
+  "PRACTICING CW EVERY DAY TO IMPROVE MY SPEED",
+  "MY DOG WANTS TO GO FOR A WALK",
+  "THE FISHING WAS GOOD BUT THE BOAT WAS COLD",
+  "GOING ON HOLIDAY NEXT WEEK TO THE MOUNTAINS",
+  "HAPPY NEW YEAR ES BEST WISHES",
+  "MERRY CHRISTMAS TO YOU ES YOUR FAMILY",
+  "SORRY ABOUT THE BAD FIST I AM STILL LEARNING",
+  "ONLY A FEW WATTS BUT IT WORKS WELL",
+  "THE SOLAR FLUX IS HIGH TODAY",
+  "CAN YOU HEAR ME OK ON THIS FREQUENCY",
+  "PLEASE REPEAT YOUR NAME AND LOCATION",
+  "THE NOISE LEVEL IS VERY HIGH IN THE CITY",
+  "WORKING FROM THE KITCHEN TABLE WITH A PORTABLE RIG",
+  "WE HAVE A LOT OF SNOW THIS WINTER",
+  "COFFEE IS READY SO I WILL CLOSE NOW",
+  "THERE IS A THUNDERSTORM COMING SO I MUST DISCONNECT THE ANTENNA",
+  "HAVE BEEN A HAM SINCE I WAS FIFTEEN YEARS OLD",
+  "MY FATHER WAS ALSO A RADIO AMATEUR",
+  "NICE TO HEAR AN OLD FRIEND ON THE AIR",
+  "WHAT KIND OF KEY ARE YOU USING TODAY",
+  "THE TREES ARE GREEN AND THE FLOWERS ARE OUT",
+  "BK UR 599 BK",
+  "BK QSL BK",
+  "R R 73 BK",
+  "HW CPY?",
+  "HW? AR",
+  "AS",
+  "KN",
+  "SK",
+  "AR",
+];
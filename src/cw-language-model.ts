@@ -0,0 +1,139 @@
+/**
+ * Plausibility scoring for decoded CW text.
+ *
+ * A weak or absent signal makes fldigi decode a stream of short-element
+ * characters (E, T, I, A, N, S, M) that contains no "?" and looks clean to a
+ * character-ratio check. Real QSO text is very predictable, so two small
+ * models trained on the bundled corpus (cw-corpus.ts) separate the two:
+ * - a character trigram model, scored by cross-entropy per character
+ * - a word model: the share of tokens that are known CW vocabulary, a
+ *   classified token (callsign, RST, Q-code, ...) or a corpus word
+ *
+ * Short messages are scored mostly by their words, long ones by both.
+ */
+
+import { CW_QSO_CORPUS } from "./cw-corpus.js";
+import { tokenizeCw } from "./cw-tokens.js";
+
+export interface Plausibility {
+  /** 0 (noise) .. 1 (typical QSO text) */
+  score: number;
+  /** Character model score, 0..1 */
+  charScore: number;
+  /** Share of recognised words, 0..1 */
+  wordScore: number;
+}
+
+/** Cross-entropy (bits/char) mapped to charScore 1 and 0 */
+const GOOD_ENTROPY = 3;
+const NOISE_ENTROPY = 5;
+/** Interpolation weights for the trigram, bigram, unigram and uniform estimates */
+const LAMBDAS = [0.6, 0.25, 0.1, 0.05] as const;
+/** Characters of text at which the character model gets its full weight */
+const FULL_CHAR_WEIGHT_LENGTH = 20;
+const MAX_CHAR_WEIGHT = 0.5;
+const BOUNDARY = " ";
+const OTHER = "_";
+const ALPHABET_SIZE = 40;
+
+export class CwLanguageModel {
+  private readonly trigrams = new Map<string, number>();
+  private readonly bigrams = new Map<string, number>();
+  private readonly unigrams = new Map<string, number>();
+  private readonly vocabulary = new Set<string>();
+  private totalChars = 0;
+
+  constructor(corpus: readonly string[] = CW_QSO_CORPUS) {
+    for (const line of corpus) this.train(line);
+  }
+
+  /** Add a line of QSO text to the model */
+  train(line: string): void {
+    const chars = normalize(line);
+    if (chars.length <= 2) return;
+    for (let i = 0; i < chars.length; i++) {
+      increment(this.unigrams, chars[i]);
+      if (i >= 1) increment(this.bigrams, chars.slice(i - 1, i + 1));
+      if (i >= 2) increment(this.trigrams, chars.slice(i - 2, i + 1));
+    }
+    this.totalChars += chars.length;
+    for (const word of chars.trim().split(BOUNDARY)) this.vocabulary.add(word);
+  }
+
+  /** Cross-entropy of the text under the character model, in bits per character */
+  crossEntropy(text: string): number {
+    const chars = normalize(text);
+    if (chars.length <= 2) return NOISE_ENTROPY;
+    let bits = 0;
+    for (let i = 1; i < chars.length; i++) {
+      bits -= Math.log2(this.probability(chars[i - 2] ?? BOUNDARY, chars[i - 1], chars[i]));
+    }
+    return bits / (chars.length - 1);
+  }
+
+  /** How much the text looks like CW QSO text rather than decoded noise */
+  score(text: string): Plausibility {
+    const tokens = tokenizeCw(text);
+    if (tokens.length === 0) return { score: 0, charScore: 0, wordScore: 0 };
+
+    const entropy = this.crossEntropy(text);
+    const charScore = clamp((NOISE_ENTROPY - entropy) / (NOISE_ENTROPY - GOOD_ENTROPY));
+
+    let recognised = 0;
+    for (const token of tokens) {
+      if (token.kind !== "unknown" || this.vocabulary.has(token.text)) recognised += 1;
+      // An unreadable character says nothing about the word; the ratio check covers it
+      else if (token.text.includes("?")) recognised += 0.5;
+    }
+    const wordScore = recognised / tokens.length;
+
+    const visible = text.replace(/\s+/g, "").length;
+    const charWeight = MAX_CHAR_WEIGHT * Math.min(1, visible / FULL_CHAR_WEIGHT_LENGTH);
+    const score = charWeight * charScore + (1 - charWeight) * wordScore;
+    return { score: round(score), charScore: round(charScore), wordScore: round(wordScore) };
+  }
+
+  private probability(a: string, b: string, c: string): number {
+    const [l3, l2, l1, l0] = LAMBDAS;
+    const bigram = this.bigrams.get(a + b) ?? 0;
+    const unigram = this.unigrams.get(b) ?? 0;
+    return (
+      l3 * (bigram > 0 ? (this.trigrams.get(a + b + c) ?? 0) / bigram : 0) +
+      l2 * (unigram > 0 ? (this.bigrams.get(b + c) ?? 0) / unigram : 0) +
+      l1 * ((this.unigrams.get(c) ?? 0) / Math.max(1, this.totalChars)) +
+      l0 / ALPHABET_SIZE
+    );
+  }
+}
+
+let defaultModel: CwLanguageModel | null = null;
+
+/** Model trained on the bundled corpus, built on first use */
+export function defaultCwLanguageModel(): CwLanguageModel {
+  defaultModel ??= new CwLanguageModel();
+  return defaultModel;
+}
+
+/** Plausibility of decoded text under the bundled model */
+export function scorePlausibility(text: string): Plausibility {
+  return defaultCwLanguageModel().score(text);
+}
+
+/** Upper case, one space between words, a boundary on either side and rare characters folded together */
+function normalize(text: string): string {
+  const words = text.toUpperCase().trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return "";
+  return `${BOUNDARY}${words.join(BOUNDARY).replace(/[^A-Z0-9/? ]/g, OTHER)}${BOUNDARY}`;
+}
+
+function increment(counts: Map<string, number>, key: string): void {
+  counts.set(key, (counts.get(key) ?? 0) + 1);
+}
+
+function clamp(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
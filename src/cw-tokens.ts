@@ -0,0 +1,145 @@
+/**
+ * Typed token stream for decoded CW, shared by all extractors.
+ *
+ * Text is split on whitespace and every token is classified once, so the
+ * callsign, QSO-field and contest parsers agree on what a token is: 5NN is an
+ * RST, TU and 73 are abbreviations, QRL? is a Q-code — none of them a callsign
+ * or a serial. Tokens are classified by shape, then refined by the keyword
+ * before them (NR 123 is a serial, LOC JO22AB a grid).
+ *
+ * Callsign shapes:
+ * - Standard: 1-3 alphanumeric prefix, 1 digit, 1-5 letter suffix (W1AW, PA3XYZ, 4X6TT, 9A1A)
+ * - Special-event/contest variant: 1-2 letter prefix, 2 digits, 1-6 letter suffix (GB13YOTA, II0IARU)
+ * - Optional DX prefix before slash: EA8/ON4UN
+ * - Optional portable/mobile modifier after slash: PA3XYZ/P, DL2ABC/MM, W1AW/4
+ */
+
+import { scoreConfidence, type Confidence } from "./fuzzy-match.js";
+
+export type CwTokenKind =
+  | "callsign"
+  | "prosign"
+  | "qcode"
+  | "abbreviation"
+  | "rst"
+  | "cut-number"
+  | "serial"
+  | "grid"
+  | "number"
+  | "unknown";
+
+export interface CwToken {
+  /** Token as decoded, upper case, without surrounding punctuation */
+  text: string;
+  kind: CwTokenKind;
+  /** Offset of `text` in the source string */
+  index: number;
+  /**
+   * Normalised value: cut numbers spelled out for RSTs, serials and numbers
+   * (5NN → 599, TT1 → 001), a queried callsign without its "?" (PA3XYZ? → PA3XYZ).
+   * Otherwise the same as `text`.
+   */
+  value: string;
+  confidence: Confidence;
+}
+
+const STANDARD_CALL = "[A-Z0-9]{1,3}\\d[A-Z]{1,5}";
+const SPECIAL_EVENT_CALL = "[A-Z]{1,2}\\d{2}[A-Z]{1,6}";
+const CALL_CORE = `(?:${STANDARD_CALL}|${SPECIAL_EVENT_CALL})`;
+const CALL_TOKEN = new RegExp(`^(?:[A-Z0-9]{1,4}/)?${CALL_CORE}(?:/[A-Z0-9]{1,4})?$`);
+
+/** Canonical prosign tokens (see prosign.ts for fldigi's renderings) */
+const PROSIGNS = new Set(["AR", "SK", "KN", "BK", "BT", "AS", "KA", "K"]);
+
+const Q_CODE = /^Q[A-Z]{2}\??$/;
+
+/** Common CW abbreviations and procedural words, including the numeric ones */
+const ABBREVIATIONS = new Set([
+  "73", "72", "88", "ABT", "AGE", "AGN", "ANT", "BURO", "CFM", "CPY", "CQ", "CUL", "DE", "DR", "DX",
+  "ES", "FB", "FER", "GA", "GB", "GE", "GL", "GM", "GN", "GRID", "GUD", "HI", "HPE", "HR", "HW",
+  "LOC", "NAME", "NIL", "NM", "NR", "NW", "OM", "OP", "PSE", "PWR", "R", "RIG", "RPT", "RR", "RST", "SER",
+  "SN", "SRI", "TEST", "TKS", "TNX", "TU", "UR", "VY", "WID", "WX", "XYL", "YL", "ZN", "ZONE",
+]);
+
+const SERIAL_KEYWORDS = new Set(["NR", "SER", "SN", "#"]);
+const GRID_KEYWORDS = new Set(["LOC", "GRID", "QRA", "LOCATOR"]);
+
+const RST_SHAPE = /^[1-5?][1-9N?][1-9N?]$/;
+const GRID_SHAPE = /^[A-R]{2}\d{2}(?:[A-X]{2})?$/;
+/** Digits with the contest cut letters T (0) and N (9) */
+const CUT_NUMBER_SHAPE = /^(?=.*\d)(?=.*[TN])[0-9TN]{1,4}$/;
+const NUMBER_SHAPE = /^(?=.*\d)[0-9?]+$/;
+
+const NUMERIC_KINDS = new Set<CwTokenKind>(["rst", "cut-number", "serial", "number"]);
+
+const EDGE_PUNCTUATION = /^[.,;:!"'()]+|[.,;:!"'()]+$/g;
+
+/** Split decoded text into classified tokens, in order of appearance. */
+export function tokenizeCw(text: string): CwToken[] {
+  const upper = text.toUpperCase();
+  const tokens: CwToken[] = [];
+
+  for (const match of upper.matchAll(/\S+/g)) {
+    const raw = match[0];
+    const core = raw.replace(EDGE_PUNCTUATION, "");
+    if (!core) continue;
+    const index = (match.index ?? 0) + raw.indexOf(core);
+    const token = classify(core, index);
+    refine(token, tokens[tokens.length - 1]);
+    tokens.push(token);
+  }
+
+  return tokens;
+}
+
+/**
+ * Check whether a string looks like a valid amateur radio callsign.
+ */
+export function isCallsign(text: string): boolean {
+  return CALL_TOKEN.test(text.toUpperCase().trim());
+}
+
+/** Numeric value of an RST, serial, number or cut-number token, if it has no unknown digits */
+export function tokenNumber(token: CwToken): number | undefined {
+  if (!NUMERIC_KINDS.has(token.kind) || !/^\d+$/.test(token.value)) return undefined;
+  return Number.parseInt(token.value, 10);
+}
+
+function classify(text: string, index: number): CwToken {
+  const token = (kind: CwTokenKind, value = text, confidence: Confidence = scoreConfidence(text)): CwToken =>
+    ({ text, kind, index, value, confidence });
+  const bare = text.replace(/\?$/, "");
+
+  if (PROSIGNS.has(text)) return token("prosign");
+  if (Q_CODE.test(text)) return token("qcode", text, "high");
+  if (ABBREVIATIONS.has(text) || (bare !== text && ABBREVIATIONS.has(bare))) return token("abbreviation", text, "high");
+  if (RST_SHAPE.test(text) && /\d/.test(text)) return token("rst", uncut(text));
+  if (GRID_SHAPE.test(text) && !isCallsign(text)) return token("grid");
+  if (isCallsign(text)) return token("callsign");
+  // A trailing "?" queries the call ("PA3XYZ?") rather than marking an unreadable character
+  if (bare !== text && isCallsign(bare)) return token("callsign", bare, "medium");
+  if (text.includes("?") && /\d/.test(text) && (isCallsign(text.replace(/\?/g, "A")) || isCallsign(text.replace(/\?/g, "0")))) {
+    return token("callsign");
+  }
+  if (CUT_NUMBER_SHAPE.test(text)) return token("cut-number", uncut(text), "medium");
+  if (NUMBER_SHAPE.test(text)) {
+    // Contest serials are sent zero-padded (001, 023)
+    return token(/^0\d{2,}$/.test(text) ? "serial" : "number");
+  }
+  return token("unknown");
+}
+
+/** Re-classify a token by the keyword before it */
+function refine(token: CwToken, previous: CwToken | undefined): void {
+  if (!previous) return;
+  const numeric = token.kind === "number" || token.kind === "rst" || token.kind === "cut-number";
+  if (SERIAL_KEYWORDS.has(previous.text) && numeric) {
+    token.kind = "serial";
+  } else if (GRID_KEYWORDS.has(previous.text) && token.kind === "callsign" && GRID_SHAPE.test(token.text)) {
+    token.kind = "grid";
+  }
+}
+
+function uncut(text: string): string {
+  return text.replace(/T/g, "0").replace(/N/g, "9");
+}
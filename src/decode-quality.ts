@@ -3,10 +3,21 @@
  */
 
 import type { Confidence } from "./fuzzy-match.js";
+import { scorePlausibility, type Plausibility } from "./cw-language-model.js";
 
 const HEAVY_PUNCTUATION_RUN = /[=~*#]{2,}/g;
 const NON_PRINTABLE = /[^\x20-\x7E]+/g;
 const NOISE_TOKEN = /\b[=~*#@]{2,}\b/g;
+/** Plausibility and character-model score below which a message is treated as decoded noise */
+const NOISE_PLAUSIBILITY = 0.25;
+const NOISE_CHAR_SCORE = 0.2;
+/**
+ * Visible characters below which a message is never treated as noise: the
+ * character model has too little text to go on ("TIE", "SAT").
+ */
+const MIN_NOISE_LENGTH = 8;
+/** Plausibility below which a message is at best medium confidence */
+const MEDIUM_PLAUSIBILITY = 0.6;
 
 /**
  * Best-effort cleanup for common fldigi noise artifacts.
@@ -25,7 +36,8 @@ export function filterDecodeNoise(text: string): string {
 
 /**
  * Confidence for a full decoded message.
- * Uses the ratio of uncertain/noisy characters to visible payload.
+ * Combines the ratio of uncertain/noisy characters to visible payload with
+ * the language model's plausibility, so clean-looking noise scores low.
  */
 export function scoreMessageConfidence(text: string): Confidence {
   const normalized = text.trim();
@@ -39,7 +51,25 @@ export function scoreMessageConfidence(text: string): Confidence {
     (normalized.match(/[=~*#]/g) || []).length;
 
   const ratio = uncertainCount / visible.length;
-  if (ratio <= 0.05) return "high";
-  if (ratio <= 0.2) return "medium";
-  return "low";
+  const plausibility = scorePlausibility(normalized);
+  if (ratio > 0.2 || isNoise(plausibility, visible.length)) return "low";
+  if (ratio > 0.05 || plausibility.score < MEDIUM_PLAUSIBILITY) return "medium";
+  return "high";
+}
+
+/**
+ * True when a decoded message is implausible as CW QSO text (see cw-language-model.ts).
+ * Both models must agree: unknown words that still read like text are kept,
+ * and so are very short messages.
+ */
+export function isLikelyNoise(text: string): boolean {
+  return isNoise(scorePlausibility(text), text.replace(/\s+/g, "").length);
+}
+
+function isNoise(plausibility: Plausibility, visibleLength: number): boolean {
+  return (
+    visibleLength >= MIN_NOISE_LENGTH &&
+    plausibility.score < NOISE_PLAUSIBILITY &&
+    plausibility.charScore < NOISE_CHAR_SCORE
+  );
 }
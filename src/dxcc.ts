@@ -0,0 +1,215 @@
+/**
+ * DXCC entity resolver backed by the standard country files.
+ *
+ * Two formats, both published at country-files.com and loaded from a local path:
+ * - cty.dat: an entity header line followed by its prefixes, ending in ";"
+ *     Canary Islands:  33:  36:  AF:   28.32:    15.85:     0.0:  EA8:
+ *         AM8,AN8,AO8,EA8,EB8,EC8,ED8,EE8,EF8,EG8,EH8;
+ * - cty.csv (big cty): one entity per line, prefixes separated by spaces
+ *     EA8,Canary Islands,29,AF,33,36,28.32,-15.85,0.0,AM8 AN8 ... EH8;
+ *
+ * A prefix may carry overrides for its part of the entity — (CQ zone),
+ * [ITU zone], <lat/long>, {continent}, ~UTC offset~ — and "=" marks an exact
+ * callsign rather than a prefix (=VE2IM for a station outside its call area).
+ *
+ * The files give longitude with west positive and the UTC offset with the
+ * opposite of the usual sign; both are converted: east positive, and hours
+ * ahead of UTC (Germany +1, USA east coast -5).
+ */
+
+import * as fs from "node:fs";
+
+export interface DxccEntity {
+  /** Entity name as in the country file, e.g. "Canary Islands" */
+  entity: string;
+  /** Primary prefix, e.g. "EA8" */
+  primaryPrefix: string;
+  /** ADIF DXCC entity code; cty.csv only */
+  dxcc?: number;
+  continent: string;
+  cqZone: number;
+  ituZone: number;
+  /** Degrees, north positive */
+  latitude: number;
+  /** Degrees, east positive */
+  longitude: number;
+  /** Hours ahead of UTC */
+  utcOffset: number;
+}
+
+/** A callsign resolved to its entity, with the prefix's overrides applied */
+export interface DxccResolution extends DxccEntity {
+  callsign: string;
+  /** Prefix or exact call in the country file that matched */
+  matchedPrefix: string;
+}
+
+type DxccOverrides = Partial<Pick<DxccEntity, "continent" | "cqZone" | "ituZone" | "latitude" | "longitude" | "utcOffset">>;
+
+interface DxccPrefix {
+  entity: DxccEntity;
+  overrides: DxccOverrides;
+}
+
+/** Suffixes that do not move a station to another entity */
+const LOCATION_NEUTRAL_SUFFIXES = new Set(["P", "M", "A", "B", "QRP", "LH"]);
+/** Maritime and aeronautical mobile count for no entity */
+const NO_ENTITY_SUFFIXES = new Set(["MM", "AM"]);
+
+const OVERRIDE = /\((\d+)\)|\[(\d+)\]|<(-?[\d.]+)\/(-?[\d.]+)>|\{([A-Z]{2})\}|~(-?[\d.]+)~/g;
+
+export class DxccDatabase {
+  private readonly entities: DxccEntity[] = [];
+  private readonly prefixes = new Map<string, DxccPrefix>();
+  private readonly exactCalls = new Map<string, DxccPrefix>();
+  private longestPrefix = 0;
+
+  /** Number of entities loaded */
+  get size(): number {
+    return this.entities.length;
+  }
+
+  /** Load a cty.dat or cty.csv file; the format is detected from its content. */
+  loadFile(filePath: string): void {
+    const content = fs.readFileSync(filePath, "utf-8");
+    if (/^[^,\n]+:\s*\d+\s*:/m.test(content)) {
+      this.loadCtyDat(content);
+    } else {
+      this.loadCtyCsv(content);
+    }
+  }
+
+  /** Add the entities of a cty.dat file */
+  loadCtyDat(content: string): void {
+    for (const record of content.split(";")) {
+      const fields = record.split(":");
+      if (fields.length < 9) continue;
+      const entity = parseEntity({
+        entity: fields[0],
+        cqZone: fields[1],
+        ituZone: fields[2],
+        continent: fields[3],
+        latitude: fields[4],
+        longitude: fields[5],
+        utcOffset: fields[6],
+        primaryPrefix: fields[7],
+      });
+      if (entity) this.addEntity(entity, fields.slice(8).join(":").split(","));
+    }
+  }
+
+  /** Add the entities of a cty.csv file */
+  loadCtyCsv(content: string): void {
+    for (const line of content.split(/\r?\n/)) {
+      const cells = line.trim().split(",");
+      if (cells.length < 10) continue;
+      // Read from both ends so a comma in the entity name does no harm
+      const [prefixes, utcOffset, longitude, latitude, ituZone, cqZone, continent, dxcc] = cells.splice(-8).reverse();
+      const primaryPrefix = cells.shift() ?? "";
+      const entity = parseEntity({
+        entity: cells.join(","), cqZone, ituZone, continent, latitude, longitude, utcOffset, primaryPrefix,
+      });
+      if (!entity) continue;
+      const code = Number.parseInt(dxcc, 10);
+      if (Number.isFinite(code)) entity.dxcc = code;
+      this.addEntity(entity, prefixes.replace(/;\s*$/, "").split(/\s+/));
+    }
+  }
+
+  /**
+   * Resolve a callsign to its DXCC entity: exact calls first, then the
+   * longest matching prefix. The prefix part of a slashed call decides the
+   * entity (EA8/ON4UN → Canary Islands), a call-area digit replaces the
+   * call's own (W1AW/4 as W4AW), /P, /M, /QRP and the like are ignored, and
+   * /MM and /AM resolve to no entity.
+   */
+  resolve(callsign: string): DxccResolution | null {
+    const call = callsign.toUpperCase().trim();
+    if (!call) return null;
+
+    const exact = this.exactCalls.get(call);
+    if (exact) return resolution(call, call, exact);
+
+    const prefixCall = prefixPart(call);
+    if (!prefixCall) return null;
+    const exactBase = this.exactCalls.get(prefixCall);
+    if (exactBase) return resolution(call, prefixCall, exactBase);
+
+    for (let length = Math.min(prefixCall.length, this.longestPrefix); length > 0; length--) {
+      const prefix = prefixCall.slice(0, length);
+      const match = this.prefixes.get(prefix);
+      if (match) return resolution(call, prefix, match);
+    }
+    return null;
+  }
+
+  private addEntity(entity: DxccEntity, aliases: string[]): void {
+    this.entities.push(entity);
+    for (const raw of aliases) {
+      const alias = raw.trim().toUpperCase();
+      if (!alias) continue;
+      const overrides = parseOverrides(alias);
+      const isExact = alias.startsWith("=");
+      const key = alias.replace(OVERRIDE, "").replace(/^=/, "");
+      if (!key) continue;
+      if (isExact) {
+        this.exactCalls.set(key, { entity, overrides });
+      } else {
+        this.prefixes.set(key, { entity, overrides });
+        this.longestPrefix = Math.max(this.longestPrefix, key.length);
+      }
+    }
+  }
+}
+
+function parseEntity(fields: Record<keyof Omit<DxccEntity, "dxcc">, string | undefined>): DxccEntity | null {
+  const number = (value: string | undefined): number => Number.parseFloat(value?.trim() ?? "");
+  const entity: DxccEntity = {
+    entity: fields.entity?.trim() ?? "",
+    // "*" marks entities on the CQ WAE list only
+    primaryPrefix: (fields.primaryPrefix?.trim() ?? "").replace(/^\*/, "").toUpperCase(),
+    continent: (fields.continent?.trim() ?? "").toUpperCase(),
+    cqZone: number(fields.cqZone),
+    ituZone: number(fields.ituZone),
+    latitude: number(fields.latitude),
+    longitude: -number(fields.longitude),
+    utcOffset: -number(fields.utcOffset),
+  };
+  if (!entity.entity || !entity.primaryPrefix || !Number.isFinite(entity.cqZone) || !Number.isFinite(entity.ituZone)) {
+    return null;
+  }
+  return entity;
+}
+
+function parseOverrides(alias: string): DxccOverrides {
+  const overrides: DxccOverrides = {};
+  for (const match of alias.matchAll(OVERRIDE)) {
+    if (match[1]) overrides.cqZone = Number.parseInt(match[1], 10);
+    if (match[2]) overrides.ituZone = Number.parseInt(match[2], 10);
+    if (match[3] && match[4]) {
+      overrides.latitude = Number.parseFloat(match[3]);
+      overrides.longitude = -Number.parseFloat(match[4]);
+    }
+    if (match[5]) overrides.continent = match[5];
+    if (match[6]) overrides.utcOffset = -Number.parseFloat(match[6]);
+  }
+  return overrides;
+}
+
+/** The part of a (possibly slashed) callsign that decides its entity; null for /MM and /AM */
+function prefixPart(call: string): string | null {
+  const parts = call.split("/").filter(Boolean);
+  if (parts.length > 1 && NO_ENTITY_SUFFIXES.has(parts[parts.length - 1])) return null;
+
+  const significant = parts.filter((part, i) => i === 0 || !LOCATION_NEUTRAL_SUFFIXES.has(part));
+  if (significant.length === 1) return significant[0];
+
+  const [first, second] = significant;
+  if (/^\d$/.test(second)) return first.replace(/^([A-Z0-9]*?[A-Z])\d/, `$1${second}`);
+  // Otherwise the shorter part is the prefix: EA8/ON4UN, ON4UN/EA8
+  return second.length < first.length ? second : first;
+}
+
+function resolution(callsign: string, matchedPrefix: string, prefix: DxccPrefix): DxccResolution {
+  return { ...prefix.entity, ...prefix.overrides, callsign, matchedPrefix };
+}
@@ -4,10 +4,15 @@
  * Wraps the raw XML-RPC transport with domain-specific methods for
  * reading decoded CW text, querying status, and (later) transmitting.
  *
+ * fldigi builds differ in which XML-RPC methods they expose, so each
+ * operation maps to a list of candidate methods. Once probeCapabilities()
+ * has read system.listMethods, the first listed candidate is used; without
+ * introspection the candidates are tried in order, falling through on faults.
+ *
  * fldigi XML-RPC docs: http://www.w1hkj.com/FldigiHelp/xmlrpc_control_page.html
  */
 
-import { XmlRpcClient, XmlRpcError } from "./xmlrpc.js";
+import { XmlRpcClient, XmlRpcError, isXmlRpcStruct, type XmlRpcCall, type XmlRpcCallResult, type XmlRpcValue } from "./xmlrpc.js";
 
 export interface FldigiClientOptions {
   host: string;
@@ -15,8 +20,107 @@ export interface FldigiClientOptions {
   timeoutMs?: number;
 }
 
+/** Maximum number of RX characters fetched per poll when batching. */
+const RX_READ_WINDOW = 65536;
+
+/** Candidate XML-RPC methods per client operation, most preferred first */
+const METHOD_ROUTES = {
+  name: ["fldigi.name"],
+  listCommands: ["fldigi.list"],
+  rxText: ["text.get_rx"],
+  rxLength: ["text.get_rx_length"],
+  getFrequency: ["main.get_frequency"],
+  setFrequency: ["main.set_frequency"],
+  getMode: ["modem.get_name"],
+  setMode: ["modem.set_by_name"],
+  modemNames: ["modem.get_names"],
+  rigModes: ["rig.get_modes"],
+  rigMode: ["rig.get_mode"],
+  quality: ["modem.get_quality"],
+  getWpm: ["modem.get_wpm"],
+  setWpm: ["modem.set_wpm"],
+  getCarrier: ["modem.get_carrier"],
+  setCarrier: ["modem.set_carrier"],
+  getBandwidth: ["modem.get_bandwidth"],
+  setBandwidth: ["modem.set_bandwidth"],
+  getAfc: ["main.get_afc"],
+  setAfc: ["main.set_afc"],
+  addTx: ["text.add_tx"],
+  txData: ["main.get_tx_data", "text.get_tx"],
+  txLength: ["text.get_tx_length"],
+  abortTx: ["main.abort"],
+  startTx: ["main.tx"],
+  stopTx: ["main.rx"],
+} as const satisfies Record<string, readonly string[]>;
+
+/** A client operation that is routed to one of several fldigi methods */
+export type FldigiOperation = keyof typeof METHOD_ROUTES;
+
+/** Operations the receive path cannot work without */
+const RX_OPERATIONS: readonly FldigiOperation[] = ["rxLength", "rxText"];
+
+/** Everything one receive poll cycle needs from fldigi */
+export interface RxPollSnapshot {
+  /** Current RX buffer length */
+  length: number;
+  /** New text from the requested offset (empty if nothing new or buffer shrank) */
+  text: string;
+  /** Offset to request next time */
+  nextOffset: number;
+  /** Detected CW speed, when signal metrics were requested and available */
+  wpm?: number;
+  /** Modem S/N (dB), when signal metrics were requested and available */
+  snr?: number;
+  /** Audio carrier (Hz) the modem is tuned to, sampled with the signal metrics */
+  carrier?: number;
+  /** Rig dial frequency (Hz) and CAT mode (e.g. "USB", "CWR"), sampled with the signal metrics */
+  dialHz?: number;
+  rigMode?: string;
+  /** Text just before the requested offset, when an anchor was requested */
+  anchor?: string;
+}
+
+/** One entry of fldigi.list: an XML-RPC command fldigi exposes */
+export interface FldigiCommand {
+  name: string;
+  /** Signature string, e.g. "s:i" (returns string, takes int) */
+  signature: string;
+  help: string;
+}
+
+/** What the connected fldigi build supports, as found by probeCapabilities() */
+export interface FldigiCapabilityReport {
+  version: string;
+  /** Methods listed by system.listMethods; null when introspection is unavailable */
+  methods: string[] | null;
+  /** Whether system.multicall is listed; undefined when introspection is unavailable */
+  multicall: boolean | undefined;
+  /** Method each operation resolved to; null when the build has none of the candidates */
+  resolved: Record<FldigiOperation, string | null>;
+  /** Operations this build cannot perform */
+  unsupported: FldigiOperation[];
+  /** True when the receive path itself is unsupported (no RX text or length) */
+  rxImpaired: boolean;
+  /** ISO timestamp of the probe */
+  probedAt: string;
+}
+
+/** Thrown when an operation is called that the connected fldigi build does not expose */
+export class FldigiUnsupportedError extends XmlRpcError {
+  readonly operation: FldigiOperation;
+  readonly version: string;
+
+  constructor(operation: FldigiOperation, version: string) {
+    super(`${operation} unsupported by fldigi ${version} (tried ${METHOD_ROUTES[operation].join(", ")})`);
+    this.name = "FldigiUnsupportedError";
+    this.operation = operation;
+    this.version = version;
+  }
+}
+
 export class FldigiClient {
   private readonly rpc: XmlRpcClient;
+  private capabilities: FldigiCapabilityReport | null = null;
 
   constructor(options: FldigiClientOptions) {
     this.rpc = new XmlRpcClient({
@@ -28,9 +132,60 @@ export class FldigiClient {
 
   // --- Connection / version ---
 
-  /** Check fldigi is reachable. Throws on connection failure. */
+  /** Check fldigi is reachable and probe its capabilities. Throws on connection failure. */
   async connect(): Promise<void> {
-    await this.getVersion();
+    await this.probeCapabilities();
+  }
+
+  /**
+   * Read fldigi's version and method list, and pin each operation to the
+   * method this build supports. A build without system.listMethods keeps
+   * the try-in-order behaviour. Transport errors propagate.
+   */
+  async probeCapabilities(): Promise<FldigiCapabilityReport> {
+    const version = await this.getVersion();
+
+    let methods: string[] | null = null;
+    try {
+      const listed = await this.rpc.callValue("system.listMethods");
+      if (Array.isArray(listed)) methods = listed.map((m) => String(m));
+    } catch (err) {
+      if (!(err instanceof XmlRpcError) || !err.isFault) throw err;
+    }
+
+    const listedSet = methods ? new Set(methods) : null;
+    const resolved = {} as Record<FldigiOperation, string | null>;
+    const unsupported: FldigiOperation[] = [];
+    for (const op of Object.keys(METHOD_ROUTES) as FldigiOperation[]) {
+      const candidates: readonly string[] = METHOD_ROUTES[op];
+      const method = listedSet ? (candidates.find((m) => listedSet.has(m)) ?? null) : candidates[0];
+      resolved[op] = method;
+      if (method === null) unsupported.push(op);
+    }
+
+    const multicall = listedSet ? listedSet.has("system.multicall") : undefined;
+    if (multicall !== undefined) this.rpc.setMulticallSupported(multicall);
+
+    this.capabilities = {
+      version,
+      methods,
+      multicall,
+      resolved,
+      unsupported,
+      rxImpaired: RX_OPERATIONS.some((op) => unsupported.includes(op)),
+      probedAt: new Date().toISOString(),
+    };
+    return this.capabilities;
+  }
+
+  /** Result of the last probeCapabilities() call, or null before the first probe. */
+  getCapabilities(): FldigiCapabilityReport | null {
+    return this.capabilities;
+  }
+
+  /** False only when a probe showed this build has none of the operation's methods. */
+  supports(operation: FldigiOperation): boolean {
+    return this.capabilities?.resolved[operation] !== null;
   }
 
   /** fldigi version string (e.g. "4.2.05") */
@@ -40,7 +195,23 @@ export class FldigiClient {
 
   /** fldigi program name */
   async getName(): Promise<string> {
-    return this.rpc.call("fldigi.name");
+    return this.invoke("name", (m) => this.rpc.call(m));
+  }
+
+  /** Every XML-RPC command this fldigi build exposes, with signature and help text. */
+  async listCommands(): Promise<FldigiCommand[]> {
+    const value = await this.invoke("listCommands", (m) => this.rpc.callValue(m));
+    if (!Array.isArray(value)) {
+      throw new XmlRpcError("fldigi.list returned a non-array value");
+    }
+    return value.map((entry) => {
+      const struct = isXmlRpcStruct(entry) ? entry : {};
+      return {
+        name: String(struct.name ?? ""),
+        signature: String(struct.signature ?? ""),
+        help: String(struct.help ?? ""),
+      };
+    });
   }
 
   // --- Receive ---
@@ -54,43 +225,163 @@ export class FldigiClient {
    * We use rx.get_data which returns bytes after the given offset.
    */
   async getRxText(start: number, length: number): Promise<string> {
-    return this.rpc.call("text.get_rx", start, length);
+    return rxTextFromValue(await this.invoke("rxText", (m) => this.rpc.callValue(m, start, length)));
   }
 
   /** Total length (in bytes) of fldigi's RX text buffer. */
   async getRxLength(): Promise<number> {
-    const val = await this.rpc.call("text.get_rx_length");
+    const val = await this.invoke("rxLength", (m) => this.rpc.call(m));
     return parseInt(val, 10);
   }
 
+  /**
+   * Read RX buffer length, any new text since `offset`, and optionally the
+   * signal metrics, in a single system.multicall round trip.
+   *
+   * text.get_rx is requested speculatively with a fixed window; fldigi clamps
+   * the range to the buffer end, and the result is trimmed to the returned length.
+   * Falls back to sequential calls when fldigi has no system.multicall.
+   * Signal metrics the build does not support are left out. With `anchorLength`,
+   * the text just before `offset` is read too, so the caller can check that the
+   * buffer still holds what it read last time.
+   */
+  async pollRx(
+    offset: number,
+    options: { includeSignal?: boolean; anchorLength?: number } = {},
+  ): Promise<RxPollSnapshot> {
+    const includeWpm = (options.includeSignal ?? false) && this.supports("getWpm");
+    const includeSnr = (options.includeSignal ?? false) && this.supports("quality");
+    const includeCarrier = (options.includeSignal ?? false) && this.supports("getCarrier");
+    const includeDial = (options.includeSignal ?? false) && this.supports("getFrequency");
+    const includeRigMode = (options.includeSignal ?? false) && this.supports("rigMode");
+    const anchorLength = Math.min(options.anchorLength ?? 0, offset);
+    if (this.rpc.supportsMulticall === false) {
+      return this.pollRxSequential(
+        offset, { includeWpm, includeSnr, includeCarrier, includeDial, includeRigMode }, anchorLength,
+      );
+    }
+
+    const calls: XmlRpcCall[] = [
+      { methodName: this.methodFor("rxLength") },
+      { methodName: this.methodFor("rxText"), params: [offset, RX_READ_WINDOW] },
+    ];
+    const wpmIndex = includeWpm ? calls.push({ methodName: this.methodFor("getWpm") }) - 1 : -1;
+    const snrIndex = includeSnr ? calls.push({ methodName: this.methodFor("quality") }) - 1 : -1;
+    const carrierIndex = includeCarrier ? calls.push({ methodName: this.methodFor("getCarrier") }) - 1 : -1;
+    const dialIndex = includeDial ? calls.push({ methodName: this.methodFor("getFrequency") }) - 1 : -1;
+    const rigModeIndex = includeRigMode ? calls.push({ methodName: this.methodFor("rigMode") }) - 1 : -1;
+    const anchorIndex = anchorLength > 0
+      ? calls.push({ methodName: this.methodFor("rxText"), params: [offset - anchorLength, anchorLength] }) - 1
+      : -1;
+
+    const results = await this.rpc.multicall(calls);
+    const [lengthResult, textResult] = results;
+    if (lengthResult.error) throw lengthResult.error;
+    const length = toNumber(lengthResult.value) ?? 0;
+
+    let text = "";
+    let nextOffset = length;
+    if (length > offset) {
+      if (textResult.error) throw textResult.error;
+      // fldigi's offsets count bytes of its UTF-8 buffer, not UTF-16 code units
+      const bytes = rxBytesFromValue(textResult.value ?? "").subarray(0, length - offset);
+      text = bytes.toString("utf-8");
+      nextOffset = offset + bytes.length;
+    }
+
+    return {
+      length,
+      text,
+      nextOffset,
+      wpm: wpmIndex >= 0 ? toNumber(results[wpmIndex].value) : undefined,
+      snr: snrIndex >= 0 ? toNumber(results[snrIndex].value) : undefined,
+      carrier: carrierIndex >= 0 ? toNumber(results[carrierIndex].value) : undefined,
+      dialHz: dialIndex >= 0 ? toNumber(results[dialIndex].value) : undefined,
+      rigMode: rigModeIndex >= 0 ? toMode(results[rigModeIndex].value) : undefined,
+      anchor: anchorIndex >= 0 ? anchorFromResult(results[anchorIndex]) : undefined,
+    };
+  }
+
+  private async pollRxSequential(
+    offset: number,
+    signal: { includeWpm: boolean; includeSnr: boolean; includeCarrier: boolean; includeDial: boolean; includeRigMode: boolean },
+    anchorLength: number,
+  ): Promise<RxPollSnapshot> {
+    const length = await this.getRxLength();
+    const text = length > offset ? await this.getRxText(offset, length - offset) : "";
+    const anchor = anchorLength > 0 && length >= offset ? await this.getRxText(offset - anchorLength, anchorLength) : undefined;
+
+    let wpm: number | undefined;
+    let snr: number | undefined;
+    let carrier: number | undefined;
+    let dialHz: number | undefined;
+    let rigMode: string | undefined;
+    try {
+      if (signal.includeWpm) wpm = await this.getWpm();
+      if (signal.includeSnr) snr = await this.getSignalNoiseRatio();
+      if (signal.includeCarrier) carrier = await this.getCarrier();
+      if (signal.includeDial) dialHz = await this.getFrequency();
+      if (signal.includeRigMode) rigMode = toMode(await this.getRigMode());
+    } catch {
+      // Non-fatal: metadata sampling should never break message flow.
+    }
+
+    return {
+      length,
+      text,
+      nextOffset: length,
+      wpm: Number.isFinite(wpm) ? wpm : undefined,
+      snr: Number.isFinite(snr) ? snr : undefined,
+      carrier: Number.isFinite(carrier) ? carrier : undefined,
+      dialHz: Number.isFinite(dialHz) ? dialHz : undefined,
+      rigMode,
+      anchor,
+    };
+  }
+
   // --- Frequency / mode ---
 
   /** Currently tuned frequency in Hz (floating point). */
   async getFrequency(): Promise<number> {
-    const val = await this.rpc.call("main.get_frequency");
+    const val = await this.invoke("getFrequency", (m) => this.rpc.call(m));
     return parseFloat(val);
   }
 
   /** Set the dial frequency in Hz. */
   async setFrequency(hz: number): Promise<void> {
-    await this.rpc.call("main.set_frequency", hz);
+    await this.invoke("setFrequency", (m) => this.rpc.call(m, hz));
   }
 
   /** Current operating mode name (e.g. "CW", "USB"). */
   async getMode(): Promise<string> {
-    return this.rpc.call("modem.get_name");
+    return this.invoke("getMode", (m) => this.rpc.call(m));
   }
 
   /** Set the operating mode by name. */
   async setMode(mode: string): Promise<void> {
-    await this.rpc.call("modem.set_by_name", mode);
+    await this.invoke("setMode", (m) => this.rpc.call(m, mode));
+  }
+
+  /** Mode the connected rig is in via CAT (e.g. "USB", "LSB", "CWR"); empty without rig control. */
+  async getRigMode(): Promise<string> {
+    return this.invoke("rigMode", (m) => this.rpc.call(m));
+  }
+
+  /** Names of all modems compiled into this fldigi build (modem.get_names). */
+  async getModemNames(): Promise<string[]> {
+    return toStringArray(await this.invoke("modemNames", (m) => this.rpc.callValue(m)), "modem.get_names");
+  }
+
+  /** Modes supported by the connected rig via CAT (rig.get_modes). */
+  async getRigModes(): Promise<string[]> {
+    return toStringArray(await this.invoke("rigModes", (m) => this.rpc.callValue(m)), "rig.get_modes");
   }
 
   // --- Signal quality ---
 
   /** Current S/N ratio as reported by fldigi's modem (dB). */
   async getSignalNoiseRatio(): Promise<number> {
-    const val = await this.rpc.call("modem.get_quality");
+    const val = await this.invoke("quality", (m) => this.rpc.call(m));
     return parseFloat(val);
   }
 
@@ -98,56 +389,152 @@ export class FldigiClient {
 
   /** Detected receive speed in WPM (CW modem). */
   async getWpm(): Promise<number> {
-    const val = await this.rpc.call("modem.get_wpm");
+    const val = await this.invoke("getWpm", (m) => this.rpc.call(m));
+    return parseInt(val, 10);
+  }
+
+  // --- Carrier / passband ---
+
+  /** Audio frequency (Hz) of the modem's carrier within the passband (modem.get_carrier). */
+  async getCarrier(): Promise<number> {
+    const val = await this.invoke("getCarrier", (m) => this.rpc.call(m));
     return parseInt(val, 10);
   }
 
+  /** Move the modem's carrier to the given audio frequency (Hz). */
+  async setCarrier(hz: number): Promise<void> {
+    await this.invoke("setCarrier", (m) => this.rpc.call(m, Math.round(hz)));
+  }
+
+  /** Modem receive bandwidth in Hz. */
+  async getBandwidth(): Promise<number> {
+    const val = await this.invoke("getBandwidth", (m) => this.rpc.call(m));
+    return parseInt(val, 10);
+  }
+
+  /** Set the modem receive bandwidth in Hz. */
+  async setBandwidth(hz: number): Promise<void> {
+    await this.invoke("setBandwidth", (m) => this.rpc.call(m, Math.round(hz)));
+  }
+
+  /** Whether AFC (automatic frequency control) is enabled. */
+  async getAfc(): Promise<boolean> {
+    const val = await this.invoke("getAfc", (m) => this.rpc.call(m));
+    return val === "1" || val.toLowerCase() === "true";
+  }
+
+  /** Enable or disable AFC. */
+  async setAfc(enabled: boolean): Promise<void> {
+    await this.invoke("setAfc", (m) => this.rpc.call(m, enabled));
+  }
+
   // --- Transmit (stubs for Phase 4) ---
 
   /** Push text into fldigi's TX buffer for transmission. */
   async sendTxText(text: string): Promise<void> {
-    await this.rpc.call("text.add_tx", text);
+    await this.invoke("addTx", (m) => this.rpc.call(m, text));
   }
 
-  /** Read current TX buffer contents. */
+  /** Read current TX buffer contents (main.get_tx_data, or text.get_tx on older builds). */
   async getTxData(): Promise<string> {
-    try {
-      return await this.rpc.call("main.get_tx_data");
-    } catch {
-      return this.rpc.call("text.get_tx");
-    }
+    return this.invoke("txData", (m) => this.rpc.call(m));
   }
 
   /** Read current TX buffer length. */
   async getTxLength(): Promise<number> {
-    const val = await this.rpc.call("text.get_tx_length");
+    const val = await this.invoke("txLength", (m) => this.rpc.call(m));
     return parseInt(val, 10);
   }
 
   /** Abort current transmission immediately. */
   async abortTx(): Promise<void> {
-    await this.rpc.call("main.abort");
+    await this.invoke("abortTx", (m) => this.rpc.call(m));
   }
 
   /** Set the CW transmit/receive speed in WPM. */
   async setWpm(wpm: number): Promise<void> {
-    await this.rpc.call("modem.set_wpm", wpm);
+    await this.invoke("setWpm", (m) => this.rpc.call(m, wpm));
   }
 
   /** Trigger TX (start transmitting what's in the buffer). */
   async startTx(): Promise<void> {
-    await this.rpc.call("main.tx");
+    await this.invoke("startTx", (m) => this.rpc.call(m));
   }
 
   /** Switch back to RX mode. */
   async stopTx(): Promise<void> {
-    await this.rpc.call("main.rx");
+    await this.invoke("stopTx", (m) => this.rpc.call(m));
+  }
+
+  /** Release pooled keep-alive connections to fldigi. */
+  close(): void {
+    this.rpc.close();
   }
 
   /** Get the underlying XmlRpcClient for low-level access. */
   get xmlrpc(): XmlRpcClient {
     return this.rpc;
   }
+
+  /** Methods to try for an operation; throws if the probe found none supported. */
+  private candidatesFor(operation: FldigiOperation): readonly string[] {
+    const caps = this.capabilities;
+    if (!caps?.methods) return METHOD_ROUTES[operation];
+    const method = caps.resolved[operation];
+    if (method === null) throw new FldigiUnsupportedError(operation, caps.version);
+    return [method];
+  }
+
+  private methodFor(operation: FldigiOperation): string {
+    return this.candidatesFor(operation)[0];
+  }
+
+  /** Run an operation, falling through to the next candidate method on a fault. */
+  private async invoke<T>(operation: FldigiOperation, run: (method: string) => Promise<T>): Promise<T> {
+    const candidates = this.candidatesFor(operation);
+    for (let i = 0; i < candidates.length; i++) {
+      try {
+        return await run(candidates[i]);
+      } catch (err) {
+        const isLast = i === candidates.length - 1;
+        if (isLast || !(err instanceof XmlRpcError) || !err.isFault) throw err;
+      }
+    }
+    throw new FldigiUnsupportedError(operation, this.capabilities?.version ?? "unknown");
+  }
+}
+
+/** fldigi returns RX text as a string or (newer builds) as base64 bytes */
+function rxTextFromValue(value: XmlRpcValue): string {
+  if (Buffer.isBuffer(value)) return value.toString("utf-8");
+  return typeof value === "string" ? value : String(value);
+}
+
+function rxBytesFromValue(value: XmlRpcValue): Buffer {
+  return Buffer.isBuffer(value) ? value : Buffer.from(rxTextFromValue(value), "utf-8");
+}
+
+/** Anchor text from a batched read; a faulted read counts as "nothing there" */
+function anchorFromResult(result: XmlRpcCallResult): string {
+  return result.error ? "" : rxTextFromValue(result.value ?? "");
+}
+
+function toNumber(value: XmlRpcValue | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const n = typeof value === "number" ? value : Number.parseFloat(String(value));
+  return Number.isFinite(n) ? n : undefined;
+}
+
+function toMode(value: XmlRpcValue | undefined): string | undefined {
+  const mode = typeof value === "string" ? value.trim().toUpperCase() : "";
+  return mode || undefined;
+}
+
+function toStringArray(value: XmlRpcValue, method: string): string[] {
+  if (!Array.isArray(value)) {
+    throw new XmlRpcError(`${method} returned a non-array value`);
+  }
+  return value.map((item) => String(item));
 }
 
 export { XmlRpcError };
@@ -4,25 +4,50 @@
  * messages to the gateway.
  *
  * Handles reconnection with exponential backoff when fldigi is unreachable.
+ * A tail fingerprint of the last text read anchors the RX offset, so text
+ * decoded during short outages is recovered and real losses are flagged.
  */
 
-import { FldigiClient, XmlRpcError } from "./fldigi-client.js";
-import { SentenceBuffer } from "./sentence-buffer.js";
-import { extractCqCalls, extractDirectedExchanges, extractCallsigns } from "./callsign.js";
-import type { ChannelConfig } from "./config.js";
-import { filterDecodeNoise } from "./decode-quality.js";
+import { FldigiClient, XmlRpcError, type FldigiCapabilityReport } from "./fldigi-client.js";
+import { DEFAULT_RECEIVER_ID, type ChannelConfig } from "./config.js";
+import type { MetricLabels, PipelineMetrics } from "./metrics.js";
+import { RxAssembler } from "./rx-assembler.js";
+import {
+  RX_RECOVERY_WINDOW_CHARS,
+  RX_TAIL_FINGERPRINT_CHARS,
+  nextRxTail,
+  resolveRxResync,
+  type RxGap,
+} from "./rx-resync.js";
 
 export type ChannelStatus = "connected" | "disconnected" | "reconnecting" | "error";
 
 export interface FldigiPollerCallbacks {
   /** Called when the sentence buffer flushes a complete message */
   onMessage: (text: string, peer: string, metadata: Record<string, unknown>) => void;
+  /** Called with the over so far while it is still being sent (rx.partialUpdates) */
+  onPartial?: (text: string, peer: string, metadata: Record<string, unknown>) => void;
   /** Called when connection status changes */
   onStatusChange: (status: ChannelStatus) => void;
+  /** Called with every raw chunk read from the RX buffer (for the transcript journal) */
+  onRxChunk?: (chunk: RxChunk) => void;
+  /** Called when decoded text is found to have been lost */
+  onRxGap?: (gap: RxGap) => void;
+}
+
+/** Raw RX text as read in one poll, with the signal metrics current at the time */
+export interface RxChunk {
+  text: string;
+  /** When the chunk was read (ISO 8601) */
+  timestamp: string;
+  frequency: number;
+  wpm?: number;
+  snr?: number;
+  carrierHz?: number;
+  dialHz?: number;
+  rigMode?: string;
 }
 
-const CHANNEL_ID = "morse-radio";
-const UNKNOWN_PEER = "UNKNOWN";
 const BACKOFF_INITIAL_MS = 1000;
 const BACKOFF_MAX_MS = 30000;
 const PERF_LOG_INTERVAL_MS = 60000;
@@ -32,23 +57,29 @@ export class FldigiPoller {
   private readonly client: FldigiClient;
   private readonly config: ChannelConfig;
   private readonly callbacks: FldigiPollerCallbacks;
-  private readonly sentenceBuffer: SentenceBuffer;
+  private readonly assembler: RxAssembler;
+  private readonly metrics: PipelineMetrics | undefined;
+  private readonly metricLabels: MetricLabels;
 
   private running = false;
   private pollTimer: ReturnType<typeof setTimeout> | null = null;
   private rxOffset = 0;
-  private currentPeer = UNKNOWN_PEER;
   private status: ChannelStatus = "disconnected";
   private backoffMs = BACKOFF_INITIAL_MS;
   private pollCount = 0;
   private lastPerfLog = 0;
   private lastSignalSampleAt = 0;
-  private detectedWpm: number | undefined;
-  private signalNoiseRatio: number | undefined;
+  private capabilities: FldigiCapabilityReport | null = null;
+  /** Last characters read from the RX buffer, used to verify continuity */
+  private rxTail = "";
+  private synced = false;
+  private disconnectedAt: number | null = null;
 
-  constructor(config: ChannelConfig, callbacks: FldigiPollerCallbacks) {
+  constructor(config: ChannelConfig, callbacks: FldigiPollerCallbacks, metrics?: PipelineMetrics) {
     this.config = config;
     this.callbacks = callbacks;
+    this.metrics = metrics;
+    this.metricLabels = { receiver: config.receivers[0]?.id ?? DEFAULT_RECEIVER_ID };
 
     this.client = new FldigiClient({
       host: config.fldigi.host,
@@ -56,22 +87,26 @@ export class FldigiPoller {
       timeoutMs: 5000,
     });
 
-    this.sentenceBuffer = new SentenceBuffer(
-      (message) => this.handleFlush(message),
-      { silenceThresholdMs: 3000 }
-    );
+    this.assembler = new RxAssembler(config, callbacks.onMessage, {
+      metrics,
+      metricLabels: this.metricLabels,
+      onPartial: callbacks.onPartial,
+      suppressNoise: config.rx.suppressNoise,
+    });
   }
 
   async start(): Promise<void> {
     this.running = true;
     this.rxOffset = 0;
-    this.currentPeer = UNKNOWN_PEER;
+    this.assembler.reset();
     this.backoffMs = BACKOFF_INITIAL_MS;
     this.pollCount = 0;
     this.lastPerfLog = Date.now();
     this.lastSignalSampleAt = 0;
-    this.detectedWpm = undefined;
-    this.signalNoiseRatio = undefined;
+    this.rxTail = "";
+    this.synced = false;
+    this.disconnectedAt = null;
+    this.metrics?.connected.set(0, this.metricLabels);
 
     await this.tryConnect();
   }
@@ -82,7 +117,8 @@ export class FldigiPoller {
       clearTimeout(this.pollTimer);
       this.pollTimer = null;
     }
-    this.sentenceBuffer.reset();
+    this.assembler.reset();
+    this.client.close();
     this.setStatus("disconnected");
   }
 
@@ -93,7 +129,12 @@ export class FldigiPoller {
 
   /** Most recent detected RX speed (WPM), if available. */
   getDetectedWpm(): number | undefined {
-    return this.detectedWpm;
+    return this.assembler.wpm;
+  }
+
+  /** Capabilities of the connected fldigi build, probed on each (re)connect. */
+  getCapabilities(): FldigiCapabilityReport | null {
+    return this.capabilities;
   }
 
   // --- internals ---
@@ -102,12 +143,27 @@ export class FldigiPoller {
     if (!this.running) return;
 
     try {
-      await this.client.connect();
-      const version = await this.client.getVersion();
-      console.log(`[fldigi-poller] Connected to fldigi ${version}`);
+      const caps = await this.client.probeCapabilities();
+      this.capabilities = caps;
+      this.logCapabilities(caps);
+      if (caps.rxImpaired) {
+        this.setStatus("error");
+        this.scheduleReconnect();
+        return;
+      }
 
-      // Sync to end of current RX buffer so we only get new text
-      this.rxOffset = await this.client.getRxLength();
+      if (this.synced) {
+        // Reconnect: pick up where we left off if the buffer still holds our text
+        await this.resync(true);
+        this.metrics?.reconnects.inc(this.metricLabels);
+      } else {
+        // Sync to end of current RX buffer so we only get new text
+        this.rxOffset = await this.client.getRxLength();
+        const tailLength = Math.min(this.rxOffset, RX_TAIL_FINGERPRINT_CHARS);
+        this.rxTail = tailLength > 0 ? await this.client.getRxText(this.rxOffset - tailLength, tailLength) : "";
+        this.synced = true;
+      }
+      this.disconnectedAt = null;
       this.backoffMs = BACKOFF_INITIAL_MS;
       this.setStatus("connected");
       this.schedulePoll();
@@ -118,6 +174,18 @@ export class FldigiPoller {
     }
   }
 
+  private logCapabilities(caps: FldigiCapabilityReport): void {
+    const methods = caps.methods ? `${caps.methods.length} methods` : "no introspection";
+    const multicall = caps.multicall === undefined ? "unknown" : caps.multicall ? "yes" : "no";
+    console.log(`[fldigi-poller] Connected to fldigi ${caps.version} (${methods}; multicall: ${multicall})`);
+    if (caps.rxImpaired) {
+      console.error(`[fldigi-poller] fldigi ${caps.version} cannot read RX text; check the build's XML-RPC support`);
+    }
+    if (caps.unsupported.length > 0) {
+      console.warn(`[fldigi-poller] Unsupported by this fldigi build: ${caps.unsupported.join(", ")}`);
+    }
+  }
+
   private schedulePoll(): void {
     if (!this.running) return;
     this.pollTimer = setTimeout(() => this.poll(), this.config.fldigi.pollingIntervalMs);
@@ -135,103 +203,103 @@ export class FldigiPoller {
     const pollStart = Date.now();
 
     try {
-      const currentLength = await this.client.getRxLength();
-
-      // Detect fldigi restart (buffer reset — length jumped backward)
-      if (currentLength < this.rxOffset) {
-        console.log("[fldigi-poller] Buffer reset detected (fldigi restarted?), re-syncing");
-        this.rxOffset = currentLength;
-        this.sentenceBuffer.reset();
+      // One round trip: buffer length, new text, and (once a second) WPM, S/N, carrier, dial and rig mode
+      const includeSignal = this.isSignalSampleDue(pollStart);
+      const snapshot = await this.client.pollRx(this.rxOffset, {
+        includeSignal,
+        anchorLength: Buffer.byteLength(this.rxTail, "utf-8"),
+      });
+      if (includeSignal) {
+        this.lastSignalSampleAt = pollStart;
+        this.assembler.addSignalSample(snapshot);
       }
 
-      // Read new text since last poll
-      if (currentLength > this.rxOffset) {
-        const newLength = currentLength - this.rxOffset;
-        const newText = await this.client.getRxText(this.rxOffset, newLength);
-        this.rxOffset = currentLength;
-
+      // Detect fldigi restart (length jumped backward) or a buffer clear that
+      // didn't shrink it (the text before our offset is no longer what we read)
+      const anchorLost = snapshot.anchor !== undefined && snapshot.anchor !== this.rxTail;
+      if (snapshot.length < this.rxOffset || anchorLost) {
+        console.log(`[fldigi-poller] Buffer ${anchorLost ? "contents changed" : "reset"} (fldigi restarted or cleared?), re-syncing`);
+        await this.resync(false);
+      } else {
+        this.rxOffset = snapshot.nextOffset;
+        this.rxTail = nextRxTail(this.rxTail, snapshot.text);
+        const newText = snapshot.text;
         if (newText) {
-          const filtered = filterDecodeNoise(newText);
-          const chunk = preserveChunkEdges(filtered, newText);
-          if (chunk.trim()) {
-            this.updatePeer(chunk);
-            this.sentenceBuffer.push(chunk);
-          }
+          this.metrics?.rxBytes.inc(this.metricLabels, Buffer.byteLength(newText, "utf-8"));
+          this.callbacks.onRxChunk?.({
+            text: newText,
+            timestamp: new Date(pollStart).toISOString(),
+            frequency: this.config.frequency,
+            wpm: this.assembler.wpm,
+            snr: this.assembler.snr,
+            carrierHz: this.assembler.carrier,
+            dialHz: this.assembler.dial,
+            rigMode: this.assembler.mode,
+          });
+          this.assembler.push(newText, pollStart);
         }
       }
 
-      await this.sampleSignalMetricsIfDue();
-
       this.pollCount++;
+      this.metrics?.polls.inc(this.metricLabels);
+      this.metrics?.pollLatency.observe((Date.now() - pollStart) / 1000, this.metricLabels);
       this.logPerfIfDue(pollStart);
       this.schedulePoll();
     } catch (err) {
       console.warn(`[fldigi-poller] Poll error: ${err instanceof Error ? err.message : err}`);
+      this.metrics?.pollErrors.inc(this.metricLabels);
+      this.disconnectedAt ??= pollStart;
       this.setStatus("reconnecting");
-      this.sentenceBuffer.flush();
+      this.assembler.flush();
       this.scheduleReconnect();
     }
   }
 
-  /** Extract the most recent callsign from decoded text to use as peer */
-  private updatePeer(text: string): void {
-    // Prefer CQ DE <call> — that's the station transmitting
-    const cqCalls = extractCqCalls(text);
-    if (cqCalls.length > 0) {
-      this.currentPeer = cqCalls[cqCalls.length - 1].from;
-      return;
+  /**
+   * Re-anchor the RX offset using the tail fingerprint. Text decoded since the
+   * last read is left for the next poll to pick up; a discontinuity flushes the
+   * pending message and, when text was lost, queues a gap marker for the next one.
+   */
+  private async resync(afterOutage: boolean): Promise<void> {
+    const length = await this.client.getRxLength();
+    const windowStart = Math.max(0, length - RX_RECOVERY_WINDOW_CHARS);
+    const window = length > windowStart ? await this.client.getRxText(windowStart, length - windowStart) : "";
+    const result = resolveRxResync({ length, window, windowStart, offset: this.rxOffset, tail: this.rxTail, afterOutage });
+
+    if (result.match !== "anchored") {
+      this.assembler.flush();
     }
-
-    // Directed exchange: <to> DE <from> — the "from" is the station transmitting
-    const exchanges = extractDirectedExchanges(text);
-    if (exchanges.length > 0) {
-      this.currentPeer = exchanges[exchanges.length - 1].from;
-      return;
+    if (result.match === "anchored" && result.offset < length && afterOutage) {
+      console.log(`[fldigi-poller] Recovering ${length - result.offset} chars decoded while disconnected`);
+    } else if (result.match !== "anchored") {
+      console.log(`[fldigi-poller] RX buffer ${result.match === "relocated" ? "shifted" : "replaced"}, resuming at ${result.offset}`);
     }
 
-    // Fall back to any callsign found
-    const calls = extractCallsigns(text);
-    if (calls.length > 0) {
-      this.currentPeer = calls[calls.length - 1].callsign;
+    if (result.gap) {
+      const gap: RxGap = {
+        ...result.gap,
+        detectedAt: new Date().toISOString(),
+        outageMs: afterOutage && this.disconnectedAt !== null ? Date.now() - this.disconnectedAt : undefined,
+      };
+      this.assembler.noteGap(gap);
+      console.warn(`[fldigi-poller] RX gap (${result.gap.reason}): decoded text was lost`);
+      this.metrics?.rxGaps.inc({ ...this.metricLabels, reason: result.gap.reason });
+      this.callbacks.onRxGap?.(gap);
     }
-  }
 
-  /** Called by SentenceBuffer when a complete message is ready */
-  private handleFlush(message: string): void {
-    const metadata: Record<string, unknown> = {
-      timestamp: new Date().toISOString(),
-      frequency: this.config.frequency,
-      channel: CHANNEL_ID,
-      detectedWpm: this.detectedWpm,
-      snr: this.signalNoiseRatio,
-    };
-
-    this.callbacks.onMessage(message, this.currentPeer, metadata);
-    this.currentPeer = UNKNOWN_PEER;
+    const resumeAt = result.offset - windowStart;
+    this.rxOffset = result.offset;
+    this.rxTail = window.slice(Math.max(0, resumeAt - RX_TAIL_FINGERPRINT_CHARS), resumeAt);
   }
 
-  private async sampleSignalMetricsIfDue(): Promise<void> {
-    const now = Date.now();
-    if (now - this.lastSignalSampleAt < SIGNAL_SAMPLE_INTERVAL_MS) {
-      return;
-    }
-
-    this.lastSignalSampleAt = now;
-    try {
-      const [wpm, snr] = await Promise.all([
-        this.client.getWpm(),
-        this.client.getSignalNoiseRatio(),
-      ]);
-      if (Number.isFinite(wpm)) this.detectedWpm = wpm;
-      if (Number.isFinite(snr)) this.signalNoiseRatio = snr;
-    } catch {
-      // Non-fatal: metadata sampling should never break message flow.
-    }
+  private isSignalSampleDue(now: number): boolean {
+    return now - this.lastSignalSampleAt >= SIGNAL_SAMPLE_INTERVAL_MS;
   }
 
   private setStatus(status: ChannelStatus): void {
     if (this.status !== status) {
       this.status = status;
+      this.metrics?.connected.set(status === "connected" ? 1 : 0, this.metricLabels);
       this.callbacks.onStatusChange(status);
     }
   }
@@ -245,13 +313,3 @@ export class FldigiPoller {
     }
   }
 }
-
-function preserveChunkEdges(filtered: string, rawChunk: string): string {
-  if (!filtered) return "";
-  const hasLeadingSpace = /^\s/.test(rawChunk);
-  const hasTrailingSpace = /\s$/.test(rawChunk);
-  let chunk = filtered;
-  if (hasLeadingSpace) chunk = ` ${chunk}`;
-  if (hasTrailingSpace) chunk = `${chunk} `;
-  return chunk;
-}
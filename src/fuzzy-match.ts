@@ -65,6 +65,119 @@ export function fuzzyMatchCallsign(
   return best;
 }
 
+/** International Morse code for the characters that make up callsigns */
+const MORSE: Record<string, string> = {
+  A: ".-", B: "-...", C: "-.-.", D: "-..", E: ".", F: "..-.", G: "--.", H: "....", I: "..",
+  J: ".---", K: "-.-", L: ".-..", M: "--", N: "-.", O: "---", P: ".--.", Q: "--.-", R: ".-.",
+  S: "...", T: "-", U: "..-", V: "...-", W: ".--", X: "-..-", Y: "-.--", Z: "--..",
+  "0": "-----", "1": ".----", "2": "..---", "3": "...--", "4": "....-",
+  "5": ".....", "6": "-....", "7": "--...", "8": "---..", "9": "----.",
+  "/": "-..-.",
+};
+
+/** Cost of each dit/dah inserted, dropped or flipped within a character */
+const ELEMENT_COST = 0.5;
+/** Cost of a character split in two (long element gap) or two merged (short character gap) */
+const SPLIT_COST = 0.5;
+/** Cost of matching or dropping fldigi's '?' for an undecodable character */
+const UNKNOWN_COST = 0.5;
+
+/** Result of matching a decoded callsign against known calls */
+export interface CallsignMatch {
+  callsign: string;
+  /** Morse distance between the decoded and the matched call */
+  distance: number;
+  confidence: Confidence;
+}
+
+/**
+ * Edit distance between two decodes measured on their Morse elements, so
+ * likely decoding errors are cheap and unrelated characters are not:
+ * - substitution costs ELEMENT_COST per dit/dah edit, at most 1
+ *   (H ↔ S, a dropped dit, costs 0.5; T ↔ M ↔ O 0.5 each step; A ↔ N costs 1)
+ * - one character read as two, or two as one, costs SPLIT_COST plus the
+ *   element edits between them (E E ↔ I and E T ↔ A cost 0.5)
+ * - '?' matches any character for UNKNOWN_COST
+ * - inserting or deleting any other character costs 1
+ */
+export function morseDistance(a: string, b: string): number {
+  const x = [...a.toUpperCase()];
+  const y = [...b.toUpperCase()];
+  const m = x.length;
+  const n = y.length;
+  const dp: number[][] = Array.from({ length: m + 1 }, () => Array(n + 1).fill(Infinity));
+  dp[0][0] = 0;
+
+  for (let i = 0; i <= m; i++) {
+    for (let j = 0; j <= n; j++) {
+      if (i > 0) dp[i][j] = Math.min(dp[i][j], dp[i - 1][j] + gapCost(x[i - 1]));
+      if (j > 0) dp[i][j] = Math.min(dp[i][j], dp[i][j - 1] + gapCost(y[j - 1]));
+      if (i > 0 && j > 0) dp[i][j] = Math.min(dp[i][j], dp[i - 1][j - 1] + substitutionCost(x[i - 1], y[j - 1]));
+      if (i > 0 && j > 1) dp[i][j] = Math.min(dp[i][j], dp[i - 1][j - 2] + splitCost(x[i - 1], y[j - 2], y[j - 1]));
+      if (i > 1 && j > 0) dp[i][j] = Math.min(dp[i][j], dp[i - 2][j - 1] + splitCost(y[j - 1], x[i - 2], x[i - 1]));
+    }
+  }
+
+  return dp[m][n];
+}
+
+/**
+ * Find the known callsign closest to a decoded one by Morse distance.
+ * Confidence follows the distance; a tie between known calls is "low".
+ * Returns null if no call is within maxDistance.
+ */
+export function matchKnownCallsign(
+  decoded: string,
+  knownCallsigns: string[],
+  maxDistance = 2
+): CallsignMatch | null {
+  let best: CallsignMatch | null = null;
+  let tied = false;
+
+  for (const known of knownCallsigns) {
+    const distance = morseDistance(decoded, known);
+    if (distance > maxDistance) continue;
+    if (!best || distance < best.distance) {
+      best = { callsign: known, distance, confidence: distanceConfidence(distance) };
+      tied = false;
+    } else if (distance === best.distance && known.toUpperCase() !== best.callsign.toUpperCase()) {
+      tied = true;
+    }
+  }
+
+  if (best && tied) best.confidence = "low";
+  return best;
+}
+
+/** Confidence of a correction at the given Morse distance */
+export function distanceConfidence(distance: number): Confidence {
+  if (distance <= 0.5) return "high";
+  if (distance <= 1.5) return "medium";
+  return "low";
+}
+
+function gapCost(ch: string): number {
+  return ch === "?" ? UNKNOWN_COST : 1;
+}
+
+function substitutionCost(a: string, b: string): number {
+  if (a === b) return 0;
+  if (a === "?" || b === "?") return UNKNOWN_COST;
+  const pa = MORSE[a];
+  const pb = MORSE[b];
+  if (!pa || !pb) return 1;
+  return Math.min(1, ELEMENT_COST * levenshtein(pa, pb));
+}
+
+/** Cost of `whole` having been decoded as `first` followed by `second` */
+function splitCost(whole: string, first: string, second: string): number {
+  const pw = MORSE[whole];
+  const p1 = MORSE[first];
+  const p2 = MORSE[second];
+  if (!pw || !p1 || !p2) return Infinity;
+  return SPLIT_COST + ELEMENT_COST * levenshtein(pw, p1 + p2);
+}
+
 /**
  * Score confidence of a decoded string based on presence of uncertainty markers.
  */
@@ -77,56 +190,161 @@ export function scoreConfidence(decoded: string): Confidence {
   return ratio <= 0.2 ? "medium" : "low";
 }
 
+/** One character of a merged observation */
+export interface MergedCharacter {
+  char: string;
+  /** Share of the observations that voted for this character (0 for an unresolved '?') */
+  agreement: number;
+}
+
+/** Result of merging repeated observations, with per-character agreement */
+export interface MergedObservation extends ScoredValue {
+  characters: MergedCharacter[];
+}
+
+/** An observation aligned to the centre: one slot per centre character, insertions around them */
+interface Alignment {
+  /** Character aligned with each centre character, or null where the observation has none */
+  aligned: Array<string | null>;
+  /** Characters the observation has before each centre character (and after the last) */
+  inserted: string[];
+}
+
 /**
  * Merge multiple noisy observations of the same callsign into a single
- * best-effort decode. Each position is resolved by majority vote among
- * observations that have a non-'?' character at that position.
+ * best-effort decode.
+ *
+ * Observations are aligned to a centre observation (the one closest to all
+ * others by Morse distance), so an inserted or dropped character shifts
+ * nothing: DL2ABC, DL2ABBC and L2ABC merge to DL2ABC. A centre character is
+ * dropped when most observations lack it, otherwise decided by majority vote
+ * among the observations with a readable character there; a character
+ * inserted by at least half of the observations is kept.
  *
  * Example: ["DL2A?C", "DL2AB?", "?L2ABC"] → "DL2ABC"
  */
-export function mergeObservations(observations: string[]): ScoredValue {
+export function mergeObservations(observations: string[]): MergedObservation {
   if (observations.length === 0) {
-    return { value: "", confidence: "low" };
+    return { value: "", confidence: "low", characters: [] };
   }
 
-  if (observations.length === 1) {
-    return { value: observations[0], confidence: scoreConfidence(observations[0]) };
+  const upper = observations.map((o) => o.toUpperCase());
+  const center = pickCenter(upper);
+  const alignments = upper.map((obs) => alignTo(center, obs));
+  const characters: MergedCharacter[] = [];
+
+  for (let i = 0; i <= center.length; i++) {
+    characters.push(...voteInsertion(alignments.map((a) => a.inserted[i])));
+    if (i < center.length) {
+      const merged = voteColumn(alignments.map((a) => a.aligned[i]));
+      if (merged) characters.push(merged);
+    }
   }
 
-  const maxLen = Math.max(...observations.map((o) => o.length));
-  const result: string[] = [];
-  let uncertainCount = 0;
-
-  for (let i = 0; i < maxLen; i++) {
-    // Collect non-'?' characters at this position from all observations
-    const candidates: string[] = [];
-    for (const obs of observations) {
-      if (i < obs.length && obs[i] !== "?") {
-        candidates.push(obs[i]);
-      }
+  const value = characters.map((c) => c.char).join("");
+  let confidence = scoreConfidence(value);
+  // A character that won without a majority is a guess
+  if (confidence === "high" && characters.some((c) => c.agreement <= 0.5)) confidence = "medium";
+  return { value, confidence, characters };
+}
+
+/** The observation with the smallest total Morse distance to the others; longer wins a tie */
+function pickCenter(observations: string[]): string {
+  let best = observations[0];
+  let bestTotal = Infinity;
+  for (const candidate of observations) {
+    const total = observations.reduce((sum, other) => sum + morseDistance(candidate, other), 0);
+    if (total < bestTotal || (total === bestTotal && candidate.length > best.length)) {
+      best = candidate;
+      bestTotal = total;
     }
+  }
+  return best;
+}
 
-    if (candidates.length === 0) {
-      result.push("?");
-      uncertainCount++;
+/** Global alignment of `obs` to `center` with the Morse substitution costs */
+function alignTo(center: string, obs: string): Alignment {
+  const x = [...center];
+  const y = [...obs];
+  const m = x.length;
+  const n = y.length;
+  const dp: number[][] = Array.from({ length: m + 1 }, () => Array(n + 1).fill(0));
+
+  for (let i = 1; i <= m; i++) dp[i][0] = dp[i - 1][0] + gapCost(x[i - 1]);
+  for (let j = 1; j <= n; j++) dp[0][j] = dp[0][j - 1] + gapCost(y[j - 1]);
+  for (let i = 1; i <= m; i++) {
+    for (let j = 1; j <= n; j++) {
+      dp[i][j] = Math.min(
+        dp[i - 1][j - 1] + substitutionCost(x[i - 1], y[j - 1]),
+        dp[i - 1][j] + gapCost(x[i - 1]),
+        dp[i][j - 1] + gapCost(y[j - 1]),
+      );
+    }
+  }
+
+  const aligned: Array<string | null> = Array(m).fill(null);
+  const inserted: string[] = Array(m + 1).fill("");
+  let i = m;
+  let j = n;
+  while (i > 0 || j > 0) {
+    if (i > 0 && j > 0 && dp[i][j] === dp[i - 1][j - 1] + substitutionCost(x[i - 1], y[j - 1])) {
+      aligned[i - 1] = y[j - 1];
+      i--;
+      j--;
+    } else if (i > 0 && dp[i][j] === dp[i - 1][j] + gapCost(x[i - 1])) {
+      i--;
     } else {
-      // Majority vote
-      const freq = new Map<string, number>();
-      for (const c of candidates) {
-        freq.set(c, (freq.get(c) ?? 0) + 1);
-      }
-      let best = candidates[0];
-      let bestCount = 0;
-      for (const [ch, count] of freq) {
-        if (count > bestCount) {
-          best = ch;
-          bestCount = count;
-        }
-      }
-      result.push(best);
+      inserted[i] = y[j - 1] + inserted[i];
+      j--;
+    }
+  }
+
+  return { aligned, inserted };
+}
+
+/**
+ * Majority vote over one centre position; null when more observations lack
+ * the character than have it. '?' counts as having an unknown character.
+ */
+function voteColumn(column: Array<string | null>): MergedCharacter | null {
+  const missing = column.filter((c) => c === null).length;
+  if (missing * 2 > column.length) return null;
+
+  const votes = new Map<string, number>();
+  for (const c of column) {
+    if (c !== null && c !== "?") votes.set(c, (votes.get(c) ?? 0) + 1);
+  }
+  if (votes.size === 0) return { char: "?", agreement: 0 };
+
+  let best = "";
+  let bestCount = 0;
+  for (const [c, count] of votes) {
+    if (count > bestCount) {
+      best = c;
+      bestCount = count;
     }
   }
 
-  const merged = result.join("");
-  return { value: merged, confidence: scoreConfidence(merged) };
+  const known = [...votes.values()].reduce((sum, count) => sum + count, 0);
+  return { char: best, agreement: bestCount / (known + missing) };
+}
+
+/** Characters inserted at one slot, kept if at least half the observations have them */
+function voteInsertion(slot: string[]): MergedCharacter[] {
+  const votes = new Map<string, number>();
+  for (const text of slot) {
+    if (text) votes.set(text, (votes.get(text) ?? 0) + 1);
+  }
+  const inserting = [...votes.values()].reduce((sum, count) => sum + count, 0);
+  if (inserting * 2 < slot.length) return [];
+
+  let best = "";
+  let bestCount = 0;
+  for (const [text, count] of votes) {
+    if (count > bestCount) {
+      best = text;
+      bestCount = count;
+    }
+  }
+  return [...best].map((char) => ({ char, agreement: char === "?" ? 0 : bestCount / slot.length }));
 }
@@ -3,12 +3,18 @@
  * Registers the morse-radio channel and background service with the gateway.
  */
 
+import os from "node:os";
+import path from "node:path";
 import type { OpenClawApi } from "./openclaw-api.js";
-import { createSendTextHandler } from "./outbound.js";
+import { createRoutedSendTextHandler, type TransmitRoute } from "./outbound.js";
 import { createService } from "./service.js";
-import { resolveConfig } from "./config.js";
+import { receiverChannelConfig, resolveConfig } from "./config.js";
 import { FldigiClient } from "./fldigi-client.js";
+import { CarrierTuner } from "./carrier-tuner.js";
+import { ReceiverRouter } from "./receiver-router.js";
 import { Transmitter, type TransmitLog } from "./transmitter.js";
+import { PipelineMetrics } from "./metrics.js";
+import { TranscriptJournal } from "./transcript-journal.js";
 
 const CHANNEL_DEFINITION = {
   id: "morse-radio",
@@ -22,43 +28,73 @@ export function register(api: OpenClawApi): void {
   console.log("[cqlaw] Registering morse-radio channel");
 
   const config = resolveConfig({});
-  const txClient = new FldigiClient({
-    host: config.fldigi.host,
-    port: config.fldigi.port,
-    timeoutMs: 5000,
-  });
-  const transmitter = new Transmitter(txClient, config, {
-    onTransmitLog: (log: TransmitLog) => {
-      console.log(
-        `[transmitter] log ts=${log.timestamp} wpm=${log.wpm} dur=${log.durationSeconds}s freq=${log.frequency} call=${log.callsign} text="${log.text}"`,
-      );
-    },
-    onLegalId: (callsign: string) => {
-      console.log(`[transmitter] legal-id ${callsign}`);
-    },
-  });
+  const receiverRouter = new ReceiverRouter();
+  const metrics = new PipelineMetrics();
+  const journal = config.journal.enabled
+    ? new TranscriptJournal({
+      basePath: path.join(os.homedir(), ".openclaw", "cqlaw", "transcripts", "transcript.jsonl"),
+      policy: config.journal.rotation,
+      maxBytes: config.journal.maxBytes,
+    })
+    : undefined;
+  const pollerRefs = new Map<string, { getDetectedWpm?: () => number | undefined }>();
+  const transmitters = new Map<string, Transmitter>();
+  const tuners = new Map<string, CarrierTuner>();
 
-  let pollerRef: { getDetectedWpm?: () => number | undefined } | null = null;
-  const sendText = createSendTextHandler(transmitter, () => pollerRef?.getDetectedWpm?.());
+  // One control client per receiver: carrier tuning, plus TX where the receiver may key its fldigi
+  for (const receiver of config.receivers) {
+    const controlClient = new FldigiClient({
+      host: receiver.fldigi.host,
+      port: receiver.fldigi.port,
+      timeoutMs: 5000,
+    });
+    tuners.set(receiver.id, new CarrierTuner(controlClient));
+    if (!receiver.transmit) continue;
 
-  api.registerChannel(CHANNEL_DEFINITION, {
-    sendText,
-  });
+    transmitters.set(receiver.id, new Transmitter(controlClient, receiverChannelConfig(config, receiver), {
+      onTransmitLog: (log: TransmitLog) => {
+        metrics.txTotal.inc({ receiver: receiver.id });
+        metrics.txDuration.observe(log.durationSeconds, { receiver: receiver.id });
+        journal?.append({ type: "tx", receiverId: receiver.id, ...log });
+        service.noteTransmit(log);
+        console.log(
+          `[transmitter] log rx=${receiver.id} ts=${log.timestamp} wpm=${log.wpm} dur=${log.durationSeconds}s freq=${log.frequency} call=${log.callsign} text="${log.text}"`,
+        );
+      },
+      onLegalId: (callsign: string) => {
+        console.log(`[transmitter] legal-id ${callsign}`);
+      },
+    }));
+  }
 
+  const routes: TransmitRoute[] = [...transmitters].map(([receiverId, transmitter]) => ({
+    receiverId,
+    transmitter,
+    getDetectedWpm: () => pollerRefs.get(receiverId)?.getDetectedWpm?.(),
+    frequency: config.receivers.find((receiver) => receiver.id === receiverId)?.frequency,
+  }));
   const service = createService(api, {
     config,
-    onPollerCreated: (poller) => {
-      pollerRef = poller;
+    receiverRouter,
+    metrics,
+    journal,
+    onPollerCreated: (poller, receiverId) => {
+      pollerRefs.set(receiverId, poller);
     },
-    onStatusChange: (status) => {
+    onStatusChange: (status, receiverId) => {
       if (status === "connected") {
-        transmitter.markListenStart();
+        transmitters.get(receiverId)?.markListenStart();
       }
     },
     onStop: async () => {
-      await transmitter.destroy();
+      await Promise.all([...transmitters.values()].map((transmitter) => transmitter.destroy()));
     },
   });
+  const sendText = createRoutedSendTextHandler(routes, receiverRouter, tuners, service);
+
+  api.registerChannel(CHANNEL_DEFINITION, {
+    sendText,
+  });
   api.registerService(service);
 
   console.log("[cqlaw] Registration complete");
@@ -0,0 +1,224 @@
+/**
+ * Callsign validation against the ITU allocation of international call sign
+ * series (Radio Regulations, Appendix 42).
+ *
+ * isCallsign() only checks the shape, so a decoding error that happens to
+ * look like a callsign (QRZ1A, EI5EE) passes. validateCallsign() also looks
+ * up which country the prefix series belongs to and returns a verdict:
+ * - valid: an allocated series, in the standard or special-event format
+ * - unallocated: no country holds the series (Q, 0, 1, S4, ...)
+ * - suspicious: allocated, but with a mark of noise, or not callsign-shaped
+ *
+ * Series are allocated by their first two characters (AM–AO Spain, A4 Oman,
+ * 9A Croatia), except for the letters held whole by one country (K, W, F, G,
+ * ...), which also cover a letter followed by the call-area digit (W1AW,
+ * F5ABC). A few series are split at the third character (3DA–3DM Eswatini,
+ * 3DN–3DZ Fiji).
+ */
+
+import { isCallsign } from "./cw-tokens.js";
+
+export type CallsignValidity = "valid" | "unallocated" | "suspicious";
+
+export interface CallsignVerdict {
+  callsign: string;
+  validity: CallsignValidity;
+  /** Standard: 1-3 letter suffix; special-event: longer suffix or a two-digit number (GB13YOTA) */
+  format?: "standard" | "special-event";
+  /** Country the prefix series is allocated to */
+  country?: string;
+  /** Why the call is unallocated or suspicious */
+  reason?: string;
+}
+
+/** Series ranges on the first two characters: [from, to, country] */
+const SERIES: ReadonlyArray<readonly [string, string, string]> = [
+  ["AA", "AL", "United States"], ["AM", "AO", "Spain"], ["AP", "AS", "Pakistan"], ["AT", "AW", "India"],
+  ["AX", "AX", "Australia"], ["AY", "AZ", "Argentina"], ["A2", "A2", "Botswana"], ["A3", "A3", "Tonga"],
+  ["A4", "A4", "Oman"], ["A5", "A5", "Bhutan"], ["A6", "A6", "United Arab Emirates"], ["A7", "A7", "Qatar"],
+  ["A8", "A8", "Liberia"], ["A9", "A9", "Bahrain"],
+  ["CA", "CE", "Chile"], ["CF", "CK", "Canada"], ["CL", "CM", "Cuba"], ["CN", "CN", "Morocco"], ["CO", "CO", "Cuba"],
+  ["CP", "CP", "Bolivia"], ["CQ", "CU", "Portugal"], ["CV", "CX", "Uruguay"], ["CY", "CZ", "Canada"],
+  ["C2", "C2", "Nauru"], ["C3", "C3", "Andorra"], ["C4", "C4", "Cyprus"], ["C5", "C5", "Gambia"],
+  ["C6", "C6", "Bahamas"], ["C7", "C7", "World Meteorological Organization"], ["C8", "C9", "Mozambique"],
+  ["DA", "DR", "Germany"], ["DS", "DT", "Korea (Republic of)"], ["DU", "DZ", "Philippines"], ["D2", "D3", "Angola"],
+  ["D4", "D4", "Cape Verde"], ["D5", "D5", "Liberia"], ["D6", "D6", "Comoros"], ["D7", "D9", "Korea (Republic of)"],
+  ["EA", "EH", "Spain"], ["EI", "EJ", "Ireland"], ["EK", "EK", "Armenia"], ["EL", "EL", "Liberia"],
+  ["EM", "EO", "Ukraine"], ["EP", "EQ", "Iran"], ["ER", "ER", "Moldova"], ["ES", "ES", "Estonia"],
+  ["ET", "ET", "Ethiopia"], ["EU", "EW", "Belarus"], ["EX", "EX", "Kyrgyzstan"], ["EY", "EY", "Tajikistan"],
+  ["EZ", "EZ", "Turkmenistan"], ["E2", "E2", "Thailand"], ["E3", "E3", "Eritrea"], ["E4", "E4", "Palestine"],
+  ["E5", "E5", "Cook Islands"], ["E6", "E6", "Niue"], ["E7", "E7", "Bosnia and Herzegovina"],
+  ["HA", "HA", "Hungary"], ["HB", "HB", "Switzerland"], ["HC", "HD", "Ecuador"], ["HE", "HE", "Switzerland"],
+  ["HF", "HF", "Poland"], ["HG", "HG", "Hungary"], ["HH", "HH", "Haiti"], ["HI", "HI", "Dominican Republic"],
+  ["HJ", "HK", "Colombia"], ["HL", "HL", "Korea (Republic of)"], ["HM", "HM", "Korea (DPR)"], ["HN", "HN", "Iraq"],
+  ["HO", "HP", "Panama"], ["HQ", "HR", "Honduras"], ["HS", "HS", "Thailand"], ["HT", "HT", "Nicaragua"],
+  ["HU", "HU", "El Salvador"], ["HV", "HV", "Vatican"], ["HW", "HY", "France"], ["HZ", "HZ", "Saudi Arabia"],
+  ["H2", "H2", "Cyprus"], ["H3", "H3", "Panama"], ["H4", "H4", "Solomon Islands"], ["H6", "H7", "Nicaragua"],
+  ["H8", "H9", "Panama"],
+  ["JA", "JS", "Japan"], ["JT", "JV", "Mongolia"], ["JW", "JX", "Norway"], ["JY", "JY", "Jordan"],
+  ["JZ", "JZ", "Indonesia"], ["J2", "J2", "Djibouti"], ["J3", "J3", "Grenada"], ["J4", "J4", "Greece"],
+  ["J5", "J5", "Guinea-Bissau"], ["J6", "J6", "Saint Lucia"], ["J7", "J7", "Dominica"],
+  ["J8", "J8", "Saint Vincent and the Grenadines"],
+  ["LA", "LN", "Norway"], ["LO", "LW", "Argentina"], ["LX", "LX", "Luxembourg"], ["LY", "LY", "Lithuania"],
+  ["LZ", "LZ", "Bulgaria"], ["L2", "L9", "Argentina"],
+  ["OA", "OC", "Peru"], ["OD", "OD", "Lebanon"], ["OE", "OE", "Austria"], ["OF", "OJ", "Finland"],
+  ["OK", "OL", "Czech Republic"], ["OM", "OM", "Slovakia"], ["ON", "OT", "Belgium"], ["OU", "OZ", "Denmark"],
+  ["PA", "PJ", "Netherlands"], ["PK", "PO", "Indonesia"], ["PP", "PY", "Brazil"], ["PZ", "PZ", "Suriname"],
+  ["P2", "P2", "Papua New Guinea"], ["P3", "P3", "Cyprus"], ["P4", "P4", "Aruba"], ["P5", "P9", "Korea (DPR)"],
+  ["SA", "SM", "Sweden"], ["SN", "SR", "Poland"], ["SS", "SS", "Egypt"], ["ST", "ST", "Sudan"], ["SU", "SU", "Egypt"],
+  ["SV", "SZ", "Greece"], ["S2", "S3", "Bangladesh"], ["S5", "S5", "Slovenia"], ["S6", "S6", "Singapore"],
+  ["S7", "S7", "Seychelles"], ["S8", "S8", "South Africa"], ["S9", "S9", "Sao Tome and Principe"],
+  ["TA", "TC", "Turkey"], ["TD", "TD", "Guatemala"], ["TE", "TE", "Costa Rica"], ["TF", "TF", "Iceland"],
+  ["TG", "TG", "Guatemala"], ["TH", "TH", "France"], ["TI", "TI", "Costa Rica"], ["TJ", "TJ", "Cameroon"],
+  ["TK", "TK", "France"], ["TL", "TL", "Central African Republic"], ["TM", "TM", "France"], ["TN", "TN", "Congo"],
+  ["TO", "TQ", "France"], ["TR", "TR", "Gabon"], ["TS", "TS", "Tunisia"], ["TT", "TT", "Chad"],
+  ["TU", "TU", "Cote d'Ivoire"], ["TV", "TX", "France"], ["TY", "TY", "Benin"], ["TZ", "TZ", "Mali"],
+  ["T2", "T2", "Tuvalu"], ["T3", "T3", "Kiribati"], ["T4", "T4", "Cuba"], ["T5", "T5", "Somalia"],
+  ["T6", "T6", "Afghanistan"], ["T7", "T7", "San Marino"], ["T8", "T8", "Palau"],
+  ["UA", "UI", "Russia"], ["UJ", "UM", "Uzbekistan"], ["UN", "UQ", "Kazakhstan"], ["UR", "UZ", "Ukraine"],
+  ["VA", "VG", "Canada"], ["VH", "VN", "Australia"], ["VO", "VO", "Canada"], ["VP", "VQ", "United Kingdom"],
+  ["VR", "VR", "China (Hong Kong)"], ["VS", "VS", "United Kingdom"], ["VT", "VW", "India"], ["VX", "VY", "Canada"],
+  ["VZ", "VZ", "Australia"], ["V2", "V2", "Antigua and Barbuda"], ["V3", "V3", "Belize"],
+  ["V4", "V4", "Saint Kitts and Nevis"], ["V5", "V5", "Namibia"], ["V6", "V6", "Micronesia"],
+  ["V7", "V7", "Marshall Islands"], ["V8", "V8", "Brunei"],
+  ["XA", "XI", "Mexico"], ["XJ", "XO", "Canada"], ["XP", "XP", "Denmark"], ["XQ", "XR", "Chile"], ["XS", "XS", "China"],
+  ["XT", "XT", "Burkina Faso"], ["XU", "XU", "Cambodia"], ["XV", "XV", "Viet Nam"], ["XW", "XW", "Laos"],
+  ["XX", "XX", "China (Macao)"], ["XY", "XZ", "Myanmar"],
+  ["YA", "YA", "Afghanistan"], ["YB", "YH", "Indonesia"], ["YI", "YI", "Iraq"], ["YJ", "YJ", "Vanuatu"],
+  ["YK", "YK", "Syria"], ["YL", "YL", "Latvia"], ["YM", "YM", "Turkey"], ["YN", "YN", "Nicaragua"],
+  ["YO", "YR", "Romania"], ["YS", "YS", "El Salvador"], ["YT", "YU", "Serbia"], ["YV", "YY", "Venezuela"],
+  ["YZ", "YZ", "Serbia"], ["Y2", "Y9", "Germany"],
+  ["ZA", "ZA", "Albania"], ["ZB", "ZJ", "United Kingdom"], ["ZK", "ZM", "New Zealand"], ["ZN", "ZO", "United Kingdom"],
+  ["ZP", "ZP", "Paraguay"], ["ZQ", "ZQ", "United Kingdom"], ["ZR", "ZU", "South Africa"], ["ZV", "ZZ", "Brazil"],
+  ["Z2", "Z2", "Zimbabwe"], ["Z3", "Z3", "North Macedonia"], ["Z8", "Z8", "South Sudan"],
+  ["2A", "2Z", "United Kingdom"],
+  ["3A", "3A", "Monaco"], ["3B", "3B", "Mauritius"], ["3C", "3C", "Equatorial Guinea"], ["3E", "3F", "Panama"],
+  ["3G", "3G", "Chile"], ["3H", "3U", "China"], ["3V", "3V", "Tunisia"], ["3W", "3W", "Viet Nam"],
+  ["3X", "3X", "Guinea"], ["3Y", "3Y", "Norway"], ["3Z", "3Z", "Poland"],
+  ["4A", "4C", "Mexico"], ["4D", "4I", "Philippines"], ["4J", "4K", "Azerbaijan"], ["4L", "4L", "Georgia"],
+  ["4M", "4M", "Venezuela"], ["4O", "4O", "Montenegro"], ["4P", "4S", "Sri Lanka"], ["4T", "4T", "Peru"],
+  ["4U", "4U", "United Nations"], ["4V", "4V", "Haiti"], ["4W", "4W", "Timor-Leste"], ["4X", "4X", "Israel"],
+  ["4Y", "4Y", "International Civil Aviation Organization"], ["4Z", "4Z", "Israel"],
+  ["5A", "5A", "Libya"], ["5B", "5B", "Cyprus"], ["5C", "5G", "Morocco"], ["5H", "5I", "Tanzania"],
+  ["5J", "5K", "Colombia"], ["5L", "5M", "Liberia"], ["5N", "5O", "Nigeria"], ["5P", "5Q", "Denmark"],
+  ["5R", "5S", "Madagascar"], ["5T", "5T", "Mauritania"], ["5U", "5U", "Niger"], ["5V", "5V", "Togo"],
+  ["5W", "5W", "Samoa"], ["5X", "5X", "Uganda"], ["5Y", "5Z", "Kenya"],
+  ["6A", "6B", "Egypt"], ["6C", "6C", "Syria"], ["6D", "6J", "Mexico"], ["6K", "6N", "Korea (Republic of)"],
+  ["6O", "6O", "Somalia"], ["6P", "6S", "Pakistan"], ["6T", "6U", "Sudan"], ["6V", "6W", "Senegal"],
+  ["6X", "6X", "Madagascar"], ["6Y", "6Y", "Jamaica"], ["6Z", "6Z", "Liberia"],
+  ["7A", "7I", "Indonesia"], ["7J", "7N", "Japan"], ["7O", "7O", "Yemen"], ["7P", "7P", "Lesotho"],
+  ["7Q", "7Q", "Malawi"], ["7R", "7R", "Algeria"], ["7S", "7S", "Sweden"], ["7T", "7Y", "Algeria"],
+  ["7Z", "7Z", "Saudi Arabia"],
+  ["8A", "8I", "Indonesia"], ["8J", "8N", "Japan"], ["8O", "8O", "Botswana"], ["8P", "8P", "Barbados"],
+  ["8Q", "8Q", "Maldives"], ["8R", "8R", "Guyana"], ["8S", "8S", "Sweden"], ["8T", "8Y", "India"],
+  ["8Z", "8Z", "Saudi Arabia"],
+  ["9A", "9A", "Croatia"], ["9B", "9D", "Iran"], ["9E", "9F", "Ethiopia"], ["9G", "9G", "Ghana"], ["9H", "9H", "Malta"],
+  ["9I", "9J", "Zambia"], ["9K", "9K", "Kuwait"], ["9L", "9L", "Sierra Leone"], ["9M", "9M", "Malaysia"],
+  ["9N", "9N", "Nepal"], ["9O", "9T", "Congo (Democratic Republic of)"], ["9U", "9U", "Burundi"],
+  ["9V", "9V", "Singapore"], ["9W", "9W", "Malaysia"], ["9X", "9X", "Rwanda"], ["9Y", "9Z", "Trinidad and Tobago"],
+];
+
+/** Series split at the third character: [from, to, country] */
+const SPLIT_SERIES: ReadonlyArray<readonly [string, string, string]> = [
+  // Fiji stations sign 3D2
+  ["3D0", "3D9", "Fiji"], ["3DA", "3DM", "Eswatini"], ["3DN", "3DZ", "Fiji"],
+];
+
+/** Letters held whole by one country */
+const WHOLE_LETTERS: Readonly<Record<string, string>> = {
+  B: "China", F: "France", G: "United Kingdom", I: "Italy", K: "United States", M: "United Kingdom",
+  N: "United States", R: "Russia", W: "United States",
+};
+
+/** DXCC entities on series the ITU never allocated */
+const NON_ITU_PREFIXES: Readonly<Record<string, string>> = {
+  "1A": "Sovereign Military Order of Malta",
+  "1S": "Spratly Islands",
+};
+
+/** Suffixes after a slash that say where or how the station operates */
+const OPERATING_SUFFIXES = new Set(["P", "M", "MM", "AM", "QRP", "A", "B", "LH"]);
+
+/** Characters of one or two elements (E, I, S, H, T, M) that noise decodes into */
+const SHORT_ELEMENT_CALL = /^[EISHTM]+\d[EISHTM]+$/;
+
+const CALL_PARTS = /^([A-Z0-9]*?)(\d+)([A-Z]+)$/;
+
+const VALIDITY_RANK: Record<CallsignValidity, number> = { valid: 2, suspicious: 1, unallocated: 0 };
+
+/** Check a callsign against the ITU series allocation. */
+export function validateCallsign(callsign: string): CallsignVerdict {
+  const call = callsign.toUpperCase().trim();
+  const readable = call.replace(/\?/g, "A");
+  if (!isCallsign(call) && !isCallsign(readable)) {
+    return { callsign: call, validity: "suspicious", reason: "not shaped like a callsign" };
+  }
+
+  const { base, prefix } = splitCall(call);
+  const series = prefix ?? base;
+  const country = seriesCountry(series);
+  const format = callFormat(base);
+
+  if (!country) {
+    const nonItu = NON_ITU_PREFIXES[series.slice(0, 2)];
+    if (nonItu) {
+      return { callsign: call, validity: "suspicious", format, country: nonItu, reason: `${series.slice(0, 2)} is not an ITU series` };
+    }
+    return { callsign: call, validity: "unallocated", format, reason: `prefix ${series.slice(0, 2)} is not allocated` };
+  }
+  if (call.includes("?")) {
+    return { callsign: call, validity: "suspicious", format, country, reason: "unreadable characters" };
+  }
+  if (SHORT_ELEMENT_CALL.test(base)) {
+    return { callsign: call, validity: "suspicious", format, country, reason: "only short-element characters, typical of noise" };
+  }
+  return { callsign: call, validity: "valid", format, country };
+}
+
+/**
+ * The most plausible of several decoded callsigns: valid before suspicious,
+ * the later one among equals. Unallocated calls are never chosen.
+ */
+export function bestCallsign(calls: string[]): string | undefined {
+  let best: string | undefined;
+  let bestRank = VALIDITY_RANK.suspicious;
+  for (const call of calls) {
+    const rank = VALIDITY_RANK[validateCallsign(call).validity];
+    if (rank >= bestRank) {
+      best = call;
+      bestRank = rank;
+    }
+  }
+  return best;
+}
+
+/** Country holding the series a prefix or callsign starts with */
+function seriesCountry(text: string): string | undefined {
+  for (const [from, to, country] of SPLIT_SERIES) {
+    const key = text.slice(0, from.length);
+    if (key >= from && key <= to) return country;
+  }
+  const key = text.slice(0, 2);
+  for (const [from, to, country] of SERIES) {
+    if (key >= from && key <= to) return country;
+  }
+  return WHOLE_LETTERS[key[0]];
+}
+
+/** Special-event calls have a two-digit number (GB13YOTA) or a suffix of more than three letters */
+function callFormat(base: string): "standard" | "special-event" {
+  const parts = CALL_PARTS.exec(base.replace(/\?/g, "A"));
+  if (!parts) return "standard";
+  const [, letters, digits, suffix] = parts;
+  // A4, E5, S5: the series itself ends in a digit (A41KJ, E51ABC)
+  const areaDigits = letters.length === 1 && !WHOLE_LETTERS[letters] ? digits.length - 1 : digits.length;
+  return areaDigits > 1 || suffix.length > 3 ? "special-event" : "standard";
+}
+
+/** The station's own call and, for EA8/ON4UN or ON4UN/EA8, the prefix it operates under */
+function splitCall(call: string): { base: string; prefix?: string } {
+  const parts = call.split("/").filter(Boolean);
+  const base = parts.reduce((longest, part) => (part.length > longest.length ? part : longest), "");
+  const prefix = parts.find((part) => part !== base && !OPERATING_SUFFIXES.has(part) && !/^\d$/.test(part));
+  return { base, prefix };
+}
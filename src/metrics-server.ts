@@ -0,0 +1,64 @@
+/**
+ * Optional local HTTP endpoint for the metrics registry.
+ *
+ *   GET /metrics  Prometheus text format
+ *   GET /health   JSON snapshot (for humans and ad-hoc scripts)
+ *
+ * Binds to loopback by default: the data is operational, not for the internet.
+ */
+
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import type { MetricsRegistry } from "./metrics.js";
+
+const PROMETHEUS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+export interface MetricsServerOptions {
+  host: string;
+  /** TCP port; 0 picks a free one (tests) */
+  port: number;
+}
+
+export interface MetricsServer {
+  /** Port actually bound */
+  port: number;
+  close(): Promise<void>;
+}
+
+export async function startMetricsServer(registry: MetricsRegistry, options: MetricsServerOptions): Promise<MetricsServer> {
+  const server = http.createServer((req, res) => {
+    const pathname = (req.url ?? "/").split("?")[0];
+    if (req.method !== "GET" && req.method !== "HEAD") {
+      res.writeHead(405, { Allow: "GET, HEAD" }).end();
+      return;
+    }
+    if (pathname === "/metrics") {
+      res.writeHead(200, { "Content-Type": PROMETHEUS_CONTENT_TYPE });
+      res.end(req.method === "HEAD" ? undefined : registry.renderPrometheus());
+      return;
+    }
+    if (pathname === "/health") {
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(req.method === "HEAD" ? undefined : JSON.stringify(registry.snapshot()));
+      return;
+    }
+    res.writeHead(404).end();
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(options.port, options.host, () => {
+      server.off("error", reject);
+      resolve();
+    });
+  });
+
+  return {
+    port: (server.address() as AddressInfo).port,
+    close: () =>
+      new Promise<void>((resolve) => {
+        server.closeAllConnections();
+        server.close(() => resolve());
+      }),
+  };
+}
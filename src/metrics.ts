@@ -0,0 +1,296 @@
+/**
+ * Metrics registry for the receive (and transmit) pipeline.
+ *
+ * Counters, gauges and histograms keyed by label set, exported as a plain
+ * snapshot object and in Prometheus text exposition format. PipelineMetrics
+ * names the series CQlaw records; the registry itself knows nothing about radio.
+ */
+
+export type MetricLabels = Record<string, string>;
+
+export type MetricType = "counter" | "gauge" | "histogram";
+
+export interface HistogramValue {
+  /** Cumulative count per finite upper bound; `count` is the implicit "+Inf" bucket */
+  buckets: Array<{ le: number; count: number }>;
+  sum: number;
+  count: number;
+}
+
+export interface MetricSample<V> {
+  labels: MetricLabels;
+  value: V;
+}
+
+export interface MetricSnapshot {
+  name: string;
+  help: string;
+  type: MetricType;
+  samples: Array<MetricSample<number | HistogramValue>>;
+}
+
+export interface MetricsSnapshot {
+  timestamp: string;
+  metrics: MetricSnapshot[];
+}
+
+/** Default latency buckets (seconds), suited to local XML-RPC round trips */
+export const LATENCY_BUCKETS_SECONDS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5];
+
+/** Buckets (seconds) for transmission lengths */
+export const TX_DURATION_BUCKETS_SECONDS = [1, 2, 5, 10, 20, 30, 60, 120];
+
+const METRIC_NAME_PATTERN = /^[a-zA-Z_:][a-zA-Z0-9_:]*$/;
+
+abstract class Metric<V> {
+  protected readonly series = new Map<string, MetricSample<V>>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly type: MetricType,
+  ) {}
+
+  protected entry(labels: MetricLabels, init: () => V): MetricSample<V> {
+    const key = labelKey(labels);
+    let sample = this.series.get(key);
+    if (!sample) {
+      sample = { labels: { ...labels }, value: init() };
+      this.series.set(key, sample);
+    }
+    return sample;
+  }
+
+  samples(): Array<MetricSample<V>> {
+    return [...this.series.values()];
+  }
+
+  abstract snapshotValue(value: V): number | HistogramValue;
+}
+
+export class Counter extends Metric<number> {
+  constructor(name: string, help: string) {
+    super(name, help, "counter");
+  }
+
+  inc(labels: MetricLabels = {}, amount = 1): void {
+    if (!(amount >= 0)) return;
+    this.entry(labels, () => 0).value += amount;
+  }
+
+  get(labels: MetricLabels = {}): number {
+    return this.series.get(labelKey(labels))?.value ?? 0;
+  }
+
+  snapshotValue(value: number): number {
+    return value;
+  }
+}
+
+export class Gauge extends Metric<number> {
+  constructor(name: string, help: string) {
+    super(name, help, "gauge");
+  }
+
+  set(value: number, labels: MetricLabels = {}): void {
+    if (!Number.isFinite(value)) return;
+    this.entry(labels, () => 0).value = value;
+  }
+
+  get(labels: MetricLabels = {}): number | undefined {
+    return this.series.get(labelKey(labels))?.value;
+  }
+
+  snapshotValue(value: number): number {
+    return value;
+  }
+}
+
+interface HistogramState {
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+export class Histogram extends Metric<HistogramState> {
+  private readonly bounds: number[];
+
+  constructor(name: string, help: string, buckets: number[]) {
+    super(name, help, "histogram");
+    this.bounds = [...new Set(buckets)].filter(Number.isFinite).sort((a, b) => a - b);
+  }
+
+  observe(value: number, labels: MetricLabels = {}): void {
+    if (!Number.isFinite(value)) return;
+    const state = this.entry(labels, () => ({ counts: new Array(this.bounds.length).fill(0), sum: 0, count: 0 })).value;
+    const index = this.bounds.findIndex((bound) => value <= bound);
+    if (index >= 0) state.counts[index]++;
+    state.sum += value;
+    state.count++;
+  }
+
+  snapshotValue(state: HistogramState): HistogramValue {
+    let cumulative = 0;
+    const buckets = this.bounds.map((le, i) => {
+      cumulative += state.counts[i];
+      return { le, count: cumulative };
+    });
+    return { buckets, sum: state.sum, count: state.count };
+  }
+}
+
+export class MetricsRegistry {
+  private readonly metrics = new Map<string, Metric<unknown>>();
+
+  counter(name: string, help: string): Counter {
+    return this.register(name, () => new Counter(name, help), Counter);
+  }
+
+  gauge(name: string, help: string): Gauge {
+    return this.register(name, () => new Gauge(name, help), Gauge);
+  }
+
+  histogram(name: string, help: string, buckets: number[] = LATENCY_BUCKETS_SECONDS): Histogram {
+    return this.register(name, () => new Histogram(name, help, buckets), Histogram);
+  }
+
+  /** Every metric with its current samples, as a plain object */
+  snapshot(): MetricsSnapshot {
+    return {
+      timestamp: new Date().toISOString(),
+      metrics: [...this.metrics.values()].map((metric) => ({
+        name: metric.name,
+        help: metric.help,
+        type: metric.type,
+        samples: metric.samples().map((sample) => ({
+          labels: { ...sample.labels },
+          value: metric.snapshotValue(sample.value),
+        })),
+      })),
+    };
+  }
+
+  /** Prometheus text exposition format (version 0.0.4) */
+  renderPrometheus(): string {
+    const lines: string[] = [];
+    for (const metric of this.snapshot().metrics) {
+      lines.push(`# HELP ${metric.name} ${escapeHelp(metric.help)}`);
+      lines.push(`# TYPE ${metric.name} ${metric.type}`);
+      for (const sample of metric.samples) {
+        if (typeof sample.value === "number") {
+          lines.push(`${metric.name}${formatLabels(sample.labels)} ${formatNumber(sample.value)}`);
+          continue;
+        }
+        for (const bucket of sample.value.buckets) {
+          lines.push(`${metric.name}_bucket${formatLabels({ ...sample.labels, le: String(bucket.le) })} ${bucket.count}`);
+        }
+        lines.push(`${metric.name}_bucket${formatLabels({ ...sample.labels, le: "+Inf" })} ${sample.value.count}`);
+        lines.push(`${metric.name}_sum${formatLabels(sample.labels)} ${formatNumber(sample.value.sum)}`);
+        lines.push(`${metric.name}_count${formatLabels(sample.labels)} ${sample.value.count}`);
+      }
+    }
+    return lines.length > 0 ? `${lines.join("\n")}\n` : "";
+  }
+
+  private register<M extends Metric<unknown>>(
+    name: string,
+    create: () => M,
+    kind: abstract new (...args: never[]) => M,
+  ): M {
+    if (!METRIC_NAME_PATTERN.test(name)) {
+      throw new Error(`Invalid metric name '${name}'`);
+    }
+    const existing = this.metrics.get(name);
+    if (existing) {
+      if (!(existing instanceof kind)) {
+        throw new Error(`Metric '${name}' is already registered as a ${existing.type}`);
+      }
+      return existing;
+    }
+    const metric = create();
+    this.metrics.set(name, metric);
+    return metric;
+  }
+}
+
+/**
+ * The series CQlaw records. Receiver-scoped series carry a `receiver` label so
+ * several fldigi instances can be told apart (and alerted on) individually.
+ */
+export class PipelineMetrics {
+  readonly registry: MetricsRegistry;
+  readonly pollLatency: Histogram;
+  readonly polls: Counter;
+  readonly pollErrors: Counter;
+  readonly reconnects: Counter;
+  readonly connected: Gauge;
+  readonly rxBytes: Counter;
+  readonly rxMessages: Counter;
+  readonly rxFlushes: Counter;
+  readonly rxGaps: Counter;
+  readonly rxSuppressed: Counter;
+  readonly lastDecode: Gauge;
+  readonly txTotal: Counter;
+  readonly txDuration: Histogram;
+  readonly sdrRestarts: Counter;
+
+  constructor(registry: MetricsRegistry = new MetricsRegistry()) {
+    this.registry = registry;
+    this.pollLatency = registry.histogram("cqlaw_fldigi_poll_latency_seconds", "Round-trip time of one fldigi RX poll");
+    this.polls = registry.counter("cqlaw_fldigi_polls_total", "Completed fldigi RX polls");
+    this.pollErrors = registry.counter("cqlaw_fldigi_poll_errors_total", "fldigi RX polls that failed");
+    this.reconnects = registry.counter("cqlaw_fldigi_reconnects_total", "Successful reconnects to fldigi after an outage");
+    this.connected = registry.gauge("cqlaw_fldigi_connected", "1 while the poller is connected to fldigi, else 0");
+    this.rxBytes = registry.counter("cqlaw_rx_bytes_total", "Decoded characters read from fldigi's RX buffer");
+    this.rxMessages = registry.counter("cqlaw_rx_messages_total", "Inbound messages dispatched to the gateway");
+    this.rxFlushes = registry.counter("cqlaw_rx_flushes_total", "Sentence buffer flushes by reason");
+    this.rxGaps = registry.counter("cqlaw_rx_gaps_total", "Detected losses of decoded RX text");
+    this.rxSuppressed = registry.counter("cqlaw_rx_suppressed_total", "Decoded overs dropped as noise");
+    this.lastDecode = registry.gauge(
+      "cqlaw_rx_last_decode_timestamp_seconds",
+      "Unix time of the last decoded text; alert when it stops advancing",
+    );
+    this.txTotal = registry.counter("cqlaw_tx_total", "Transmissions keyed through fldigi");
+    this.txDuration = registry.histogram(
+      "cqlaw_tx_duration_seconds",
+      "Estimated length of each transmission",
+      TX_DURATION_BUCKETS_SECONDS,
+    );
+    this.sdrRestarts = registry.counter("cqlaw_sdr_restarts_total", "Automatic restarts of the rtl_fm pipeline");
+  }
+
+  snapshot(): MetricsSnapshot {
+    return this.registry.snapshot();
+  }
+
+  renderPrometheus(): string {
+    return this.registry.renderPrometheus();
+  }
+}
+
+function labelKey(labels: MetricLabels): string {
+  return Object.keys(labels)
+    .sort()
+    .map((key) => `${key}=${labels[key]}`)
+    .join(",");
+}
+
+function formatLabels(labels: MetricLabels): string {
+  const keys = Object.keys(labels);
+  if (keys.length === 0) return "";
+  return `{${keys.map((key) => `${key}="${escapeLabelValue(labels[key])}"`).join(",")}}`;
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+}
+
+function escapeHelp(help: string): string {
+  return help.replace(/\\/g, "\\\\").replace(/\n/g, "\\n");
+}
+
+function formatNumber(value: number): string {
+  if (value === Infinity) return "+Inf";
+  if (value === -Infinity) return "-Inf";
+  return String(value);
+}
@@ -31,6 +31,8 @@ export interface OutboundMessage {
 export interface SendResult {
   success: boolean;
   error?: string;
+  /** What a command changed, for the agent (e.g. the carrier a /tune moved to) */
+  metadata?: Record<string, unknown>;
 }
 
 export interface ServiceDefinition {
@@ -1,15 +1,39 @@
 /**
  * Outbound message handler for the morse-radio channel.
  * Routes agent text through the Transmitter for CW transmission via fldigi.
+ * With several receivers, replies go out via the fldigi the peer was heard on.
+ * "/tune ..." moves that receiver's carrier instead of transmitting,
+ * "/log [CALL]" closes the QSO with the peer and writes it to the log, and
+ * "/review ..." lists, edits, approves or rejects QSOs awaiting review.
  */
 
 import type { OutboundMessage, SendResult } from "./openclaw-api.js";
 import type { Transmitter } from "./transmitter.js";
 import type { TxIntent } from "./cw-format.js";
 import { isCallsign } from "./callsign.js";
+import { frequencyToBand } from "./adif.js";
+import type { ReceiverRouter } from "./receiver-router.js";
+import { parseTuneCommand, type CarrierTuner } from "./carrier-tuner.js";
+import { parseReviewCommand, type PendingQso, type PendingQsoEdit } from "./qso-review.js";
 
 const VALID_INTENTS: ReadonlySet<TxIntent> = new Set(["cq", "reply", "signoff", "default"]);
 const STOP_TX_COMMAND = "/stop-tx";
+const TUNE_COMMAND_PATTERN = /^\/tune(?:\s+(.*))?$/i;
+const TUNE_USAGE = "Usage: /tune +N | -N | <Hz> | next | prev | afc on|off | bw <Hz>";
+const LOG_COMMAND_PATTERN = /^\/log(?:\s+(\S+))?$/i;
+const REVIEW_COMMAND_PATTERN = /^\/review(?:\s+(.*))?$/i;
+const REVIEW_USAGE = "Usage: /review [list] | edit <id> FIELD=VALUE ... | approve <id> | reject <id>";
+
+/** The QSO log behind /log and /review (the service implements it) */
+export interface QsoLogControl {
+  /** Sign off and log the QSO with a peer; false when there is none */
+  closeQso(peer: string): boolean;
+  /** Send the review queue to the agent; returns the number of entries */
+  reportPendingQsos(peer: string): number;
+  editPendingQso(id: string, changes: PendingQsoEdit): PendingQso | null;
+  approvePendingQso(id: string): boolean;
+  rejectPendingQso(id: string): boolean;
+}
 
 function resolveIntent(metadata: Record<string, unknown> | undefined): TxIntent {
   const candidate = metadata?.txIntent;
@@ -56,3 +80,133 @@ export function createSendTextHandler(
     return { success: result.success, error: result.error };
   };
 }
+
+/** A transmitter keyed through one receiver's fldigi */
+export interface TransmitRoute {
+  receiverId: string;
+  transmitter: Transmitter;
+  getDetectedWpm?: () => number | undefined;
+  /** Dial frequency (Hz) of the receiver, for answering peers heard on a listen-only receiver of the same band */
+  frequency?: number;
+}
+
+/**
+ * Create an outbound sendText handler for several receivers. The route is chosen by
+ * metadata.receiverId, else the receiver the peer was last heard on, else the first
+ * route. A peer last heard on a listen-only receiver is answered through a transmitter
+ * on the same band (reported as metadata.receiverId), or not at all; an explicit
+ * receiverId is never rerouted. /stop-tx stops every transmitter; /tune goes to that
+ * receiver's tuner; /log and /review go to `qsoLog`.
+ */
+export function createRoutedSendTextHandler(
+  routes: TransmitRoute[],
+  router?: ReceiverRouter,
+  tuners: ReadonlyMap<string, CarrierTuner> = new Map(),
+  qsoLog?: QsoLogControl
+): (message: OutboundMessage) => Promise<SendResult> {
+  const stub = routes.length === 0 ? createSendTextHandler(null) : null;
+  const handlers = new Map(
+    routes.map((route) => [route.receiverId, createSendTextHandler(route.transmitter, route.getDetectedWpm)]),
+  );
+  const defaultReceiver = routes[0]?.receiverId ?? tuners.keys().next().value;
+
+  const resolveReceiver = (message: OutboundMessage): string | undefined => {
+    const explicit = message.metadata?.receiverId;
+    return typeof explicit === "string" ? explicit : router?.receiverFor(message.peer) ?? defaultReceiver;
+  };
+
+  return async (message: OutboundMessage): Promise<SendResult> => {
+    const tune = message.text.trim().match(TUNE_COMMAND_PATTERN);
+    if (tune) {
+      return runTuneCommand(tune[1] ?? "", resolveReceiver(message), tuners);
+    }
+    const log = message.text.trim().match(LOG_COMMAND_PATTERN);
+    if (log) {
+      return runLogCommand(log[1] ?? message.peer, qsoLog);
+    }
+    const review = message.text.trim().match(REVIEW_COMMAND_PATTERN);
+    if (review) {
+      return runReviewCommand(review[1] ?? "", message.peer, qsoLog);
+    }
+    if (stub) return stub(message);
+
+    if (message.text.trim().toLowerCase() === STOP_TX_COMMAND) {
+      const results = await Promise.all([...handlers.values()].map((handler) => handler(message)));
+      const failed = results.find((result) => !result.success);
+      return failed ?? { success: true };
+    }
+
+    const receiverId = resolveReceiver(message) ?? routes[0].receiverId;
+    const handler = handlers.get(receiverId);
+    if (handler) return handler(message);
+
+    const heard = typeof message.metadata?.receiverId === "string" ? undefined : router?.lookup(message.peer);
+    const sameBand = heard ? sameBandRoute(routes, heard.frequency) : undefined;
+    const fallback = sameBand && handlers.get(sameBand.receiverId);
+    if (!sameBand || !fallback) {
+      return { success: false, error: `No transmitter for receiver '${receiverId}'` };
+    }
+    const result = await fallback(message);
+    return { ...result, metadata: { ...result.metadata, receiverId: sameBand.receiverId, heardOn: receiverId } };
+  };
+}
+
+/** First route whose receiver is on the same amateur band as `frequency` */
+function sameBandRoute(routes: readonly TransmitRoute[], frequency: number): TransmitRoute | undefined {
+  const band = frequencyToBand(frequency);
+  if (!band) return undefined;
+  return routes.find((route) => route.frequency !== undefined && frequencyToBand(route.frequency) === band);
+}
+
+async function runTuneCommand(
+  args: string,
+  receiverId: string | undefined,
+  tuners: ReadonlyMap<string, CarrierTuner>
+): Promise<SendResult> {
+  const command = parseTuneCommand(args);
+  if (!command) return { success: false, error: TUNE_USAGE };
+
+  const tuner = receiverId !== undefined ? tuners.get(receiverId) : undefined;
+  if (!tuner) return { success: false, error: `No tuner for receiver '${receiverId ?? "unknown"}'` };
+
+  try {
+    const { summary, result } = await tuner.run(command);
+    console.log(`[outbound] tune ${receiverId}: ${summary}`);
+    return { success: true, metadata: { receiverId, tune: summary, ...result } };
+  } catch (err) {
+    return { success: false, error: `Failed to tune: ${err instanceof Error ? err.message : err}` };
+  }
+}
+
+function runLogCommand(peer: string, qsoLog: QsoLogControl | undefined): SendResult {
+  if (!qsoLog) return { success: false, error: "QSO logging is not available" };
+  const call = resolvePeerCall(peer);
+  if (!call) return { success: false, error: `Not a callsign: '${peer}'` };
+  if (!qsoLog.closeQso(call)) return { success: false, error: `No open QSO with ${call} to log` };
+  console.log(`[outbound] closed QSO with ${call}`);
+  return { success: true };
+}
+
+function runReviewCommand(args: string, peer: string, qsoLog: QsoLogControl | undefined): SendResult {
+  if (!qsoLog) return { success: false, error: "QSO logging is not available" };
+  const command = parseReviewCommand(args);
+  if (!command) return { success: false, error: REVIEW_USAGE };
+
+  switch (command.kind) {
+    case "list":
+      console.log(`[outbound] review: ${qsoLog.reportPendingQsos(peer)} pending`);
+      return { success: true };
+    case "edit":
+      return qsoLog.editPendingQso(command.id, command.changes)
+        ? { success: true }
+        : { success: false, error: `No pending QSO #${command.id}` };
+    case "approve":
+      return qsoLog.approvePendingQso(command.id)
+        ? { success: true }
+        : { success: false, error: `Could not log pending QSO #${command.id}` };
+    case "reject":
+      return qsoLog.rejectPendingQso(command.id)
+        ? { success: true }
+        : { success: false, error: `No pending QSO #${command.id}` };
+  }
+}
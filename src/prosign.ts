@@ -0,0 +1,163 @@
+/**
+ * Canonical prosign tokens for decoded CW.
+ *
+ * fldigi renders the same prosign in several ways depending on its settings
+ * and on how cleanly it was keyed:
+ * - bracketed: <AR>, <SK>, <KN>, <BT>, <VA>
+ * - as the ITU punctuation sharing its code: + (AR), = (BT), ( (KN)
+ * - as run-together letters glued to the previous word: 73SK, DL2ABCKN
+ *
+ * normalizeProsigns() maps all of these to bare, space-separated tokens
+ * (AR, SK, KN, BT, ...) — the form SentenceBuffer and the extractors expect.
+ */
+
+import { extractDirectedExchanges, isCallsign } from "./callsign.js";
+
+/** Prosigns that close an over, from most to least specific */
+export type ClosingProsign = "KN" | "SK" | "AR" | "BK" | "K";
+
+/** Alternative names fldigi may print for a prosign */
+const PROSIGN_ALIASES: Record<string, string> = {
+  VA: "SK",
+};
+
+/** ITU punctuation whose Morse code is a prosign */
+const PUNCTUATION_PROSIGNS: Record<string, string> = {
+  "+": "AR",
+  "=": "BT",
+  "(": "KN",
+};
+
+const BRACKETED_PROSIGN = /<\s*([A-Z]{2,3})\s*>/gi;
+
+/** A lone +, = or ( — runs of punctuation are decode noise, not prosigns */
+const PUNCTUATION_PROSIGN = /(?<![=+(~*#])[=+(](?![=+(~*#])/g;
+
+/** A word ending in a closing prosign with no space before it */
+const RUN_TOGETHER = /\b([A-Z0-9/]+?)(KN|SK|AR)(?=\s|$)/g;
+
+/** An incomplete bracketed prosign at the end of a chunk */
+const OPEN_BRACKET = /<[A-Z ]{0,4}$/i;
+
+const CLOSING_PATTERN = /\b(KN|SK|AR|BK|K)\s*$/;
+
+/**
+ * Map every prosign rendering in `text` to its canonical token.
+ * Whitespace at the edges is kept so chunks can be fed on to the SentenceBuffer.
+ */
+export function normalizeProsigns(text: string): string {
+  return normalizeRenderings(text).replace(RUN_TOGETHER, (word, lead: string, prosign: string) =>
+    isRunTogether(lead, word) ? `${lead} ${prosign}` : word);
+}
+
+/** Bracketed and punctuation renderings only: safe on a fragment of a word */
+function normalizeRenderings(text: string): string {
+  const normalized = text
+    .replace(BRACKETED_PROSIGN, (_m, name: string) => ` ${canonicalName(name)} `)
+    .replace(PUNCTUATION_PROSIGN, (char) => ` ${PUNCTUATION_PROSIGNS[char]} `)
+    .replace(/ {2,}/g, " ");
+  return /\s$/.test(text) ? normalized : normalized.trimEnd();
+}
+
+/**
+ * Whether `word` is `lead` with a prosign glued on. A number (73SK) always is;
+ * a callsign only when the whole word would need an unusual 4+ letter suffix,
+ * so DL2ABCKN splits but DL2AKN stays a callsign.
+ */
+function isRunTogether(lead: string, word: string): boolean {
+  if (/^\d+$/.test(lead)) return true;
+  if (!isCallsign(lead)) return false;
+  const suffix = word.match(/\d([A-Z]+)$/);
+  return !isCallsign(word) || (suffix !== null && suffix[1].length >= 4);
+}
+
+function canonicalName(name: string): string {
+  const upper = name.toUpperCase();
+  return PROSIGN_ALIASES[upper] ?? upper;
+}
+
+/**
+ * Normalises a stream of RX chunks. A bracketed prosign split across chunks
+ * ("<A", "R>") is held back until its closing bracket arrives. Run-together
+ * prosigns are split as soon as their word is complete, so "73SK" ends the
+ * over in the SentenceBuffer like "73 SK" would; a number or callsign at the
+ * end of a chunk that may still grow into one ("73S") is held back too.
+ */
+export class ProsignStream {
+  private held = "";
+  /** Start of the last word, already returned; the next chunk may continue it */
+  private word = "";
+
+  push(chunk: string): string {
+    let text = this.held + chunk;
+    this.held = "";
+    const open = text.match(OPEN_BRACKET);
+    if (open && open.index !== undefined) {
+      this.held = open[0];
+      text = text.slice(0, open.index);
+    }
+    return this.splitRunTogether(normalizeRenderings(text));
+  }
+
+  /** Text held back waiting for a closing bracket or the rest of a word */
+  get pending(): string {
+    return this.held;
+  }
+
+  /**
+   * Release held text at the end of an over, e.g. when silence flushes it,
+   * to be appended to the text returned so far.
+   */
+  flush(): string {
+    const held = this.held && `${this.word ? "" : " "}${normalizeRenderings(this.held)}`;
+    this.reset();
+    return held;
+  }
+
+  reset(): void {
+    this.held = "";
+    this.word = "";
+  }
+
+  private splitRunTogether(text: string): string {
+    const seen = this.word;
+    const full = seen + text;
+    const wordStart = full.search(/\S*$/);
+    const complete = full.slice(0, wordStart).replace(RUN_TOGETHER, (word, lead: string, prosign: string) =>
+      isRunTogether(lead, word) ? `${lead} ${prosign}` : word);
+    let last = full.slice(wordStart);
+
+    const glued = last.match(/^([A-Z0-9/]+?)(KN|SK|AR)$/);
+    const growing = last.match(/^([A-Z0-9/]+?)[KSA]$/);
+    if (glued && isRunTogether(glued[1], last)) {
+      last = `${glued[1]} ${glued[2]}`;
+    } else if (growing && !this.held && (/^\d+$/.test(growing[1]) || isCallsign(growing[1]))) {
+      // Hold back the part of the word not returned yet; the next chunk decides
+      const unseen = Math.max(0, seen.length - wordStart);
+      this.held = last.slice(unseen);
+      last = last.slice(0, unseen);
+    }
+
+    const out = complete + last;
+    this.word = out.slice(out.search(/\S*$/));
+    return out.startsWith(seen) ? out.slice(seen.length) : text;
+  }
+}
+
+/** The prosign that closes a message, if it ends with one */
+export function detectClosingProsign(message: string): ClosingProsign | undefined {
+  const match = message.toUpperCase().match(CLOSING_PATTERN);
+  return match ? (match[1] as ClosingProsign) : undefined;
+}
+
+/**
+ * Whether a message closing with `closing` invites `ownCall` to transmit:
+ * K and BK invite anyone, KN only the station the over was addressed to,
+ * SK and AR (end of contact / end of message) nobody.
+ */
+export function invitesReply(message: string, closing: ClosingProsign | undefined, ownCall: string): boolean {
+  if (closing === "K" || closing === "BK") return true;
+  if (closing !== "KN" || !ownCall) return false;
+  const own = ownCall.toUpperCase();
+  return extractDirectedExchanges(message).some((exchange) => exchange.to === own);
+}
@@ -1,11 +1,16 @@
 /**
  * Structured extraction from decoded QSO text (rule-based, no external dependencies).
+ * Fields are read from the typed token stream (cw-tokens.ts): the contest
+ * exchange and what a rag-chew adds (RIG, ANT, PWR, WX, AGE, OP, locator).
  */
 
-import { extractCallsigns, extractCqCalls, extractDirectedExchanges, isCallsign } from "./callsign.js";
+import { extractCqCalls, extractDirectedExchanges, isCallsign } from "./callsign.js";
+import { tokenizeCw, type CwToken } from "./cw-tokens.js";
 import { scoreConfidence, type Confidence } from "./fuzzy-match.js";
 import { reconstructRst, reconstructSerial, reconstructZone } from "./context-reconstruct.js";
 import { getContestProfile, parseContestExchange } from "./contest.js";
+import type { DxccDatabase } from "./dxcc.js";
+import { bestCallsign, validateCallsign } from "./itu-prefixes.js";
 
 export interface ExtractedField {
   value: string;
@@ -19,11 +24,21 @@ export interface ExtractedQsoFields {
   serial?: ExtractedField;
   name?: ExtractedField;
   qth?: ExtractedField;
+  /** Rag-chew details: free text as sent, power in watts, age in years */
+  rig?: ExtractedField;
+  antenna?: ExtractedField;
+  power?: ExtractedField;
+  weather?: ExtractedField;
+  age?: ExtractedField;
+  /** Maidenhead locator, 4 or 6 characters */
+  grid?: ExtractedField;
 }
 
 export interface QsoExtractOptions {
   peerHint?: string;
   previousSerial?: number;
+  /** Country file for the CQ zone expected from the callsign */
+  dxcc?: DxccDatabase | null;
 }
 
 export interface MultiQsoExtractEntry {
@@ -31,47 +46,92 @@ export interface MultiQsoExtractEntry {
   fields: ExtractedQsoFields;
 }
 
-const RST_PATTERN = /\b([1-5][1-9][1-9])\b/g;
-const RST_NOISY_PATTERN = /\b([1-5?][1-9?][1-9?])\b/g;
-const ZONE_PATTERN = /\b(?:ZONE|ZN|Z)\s+([0-9?]{1,2})\b/;
-const SERIAL_PATTERN = /\b(?:NR|SER|SN)\s+([0-9?]{1,4})\b/;
-const NAME_PATTERN = /\b(?:NAME|NM)\s+([A-Z]{2,12})\b/;
-const QTH_PATTERN = /\bQTH\s+([A-Z0-9\/-]{2,20})\b/;
+const ZONE_KEYWORDS = ["ZONE", "ZN", "Z"];
+const NAME_KEYWORDS = ["NAME", "NM"];
+/** "OP" also means operator in general ("DR OP", "FB OP"), so only a plain word after it is a name */
+const OPERATOR_KEYWORDS = ["OP"];
+const QTH_KEYWORDS = ["QTH"];
+const RIG_KEYWORDS = ["RIG", "TRX"];
+const ANT_KEYWORDS = ["ANT", "ANTENNA"];
+const PWR_KEYWORDS = ["PWR", "POWER"];
+const WX_KEYWORDS = ["WX"];
+const AGE_KEYWORDS = ["AGE"];
+const GRID_KEYWORDS = ["LOC", "GRID", "QRA", "LOCATOR"];
+/** Words between a keyword and its value: "NAME HR IS HANS" */
+const FILLER_WORDS = new Set(["HR", "IS", "ABT"]);
+/**
+ * Free-text values run until the next keyword, abbreviation or prosign: "RIG IC7300 ES ANT ...".
+ * Callsign-shaped words don't end them: 100W, 20C and FT991A have the shape of a call.
+ */
+const PHRASE_STOP_KINDS = new Set(["prosign", "abbreviation", "qcode", "rst", "grid"]);
+const MAX_PHRASE_WORDS = 4;
+
+const ZONE_VALUE = /^[0-9?]{1,2}$/;
+const NAME_VALUE = /^[A-Z]{2,12}$/;
+const QTH_VALUE = /^[A-Z0-9/-]{2,20}$/;
+const POWER_VALUE = /^([0-9?]+(?:\.\d+)?) ?(KW|W|WATTS?)?$/;
+const MIN_AGE = 5;
+const MAX_AGE = 110;
 
 export function extractQsoFields(text: string, options: QsoExtractOptions = {}): ExtractedQsoFields {
-  const upper = text.toUpperCase();
+  const tokens = tokenizeCw(text);
   const out: ExtractedQsoFields = {};
 
-  const call = extractCallsign(upper, options.peerHint);
+  const call = extractCallsign(tokens, options.peerHint);
   if (call) {
     out.callsign = { value: call, confidence: scoreConfidence(call) };
   }
 
-  const rst = extractRst(upper);
+  const rst = extractRst(tokens);
   if (rst) {
     out.rstRcvd = rst;
   }
 
-  const zone = extractZone(upper, call);
+  const zone = extractZone(tokens, call, options.dxcc);
   if (zone) {
     out.zone = zone;
   }
 
-  const serial = extractSerial(upper, options.previousSerial);
+  const serial = extractSerial(tokens, options.previousSerial);
   if (serial) {
     out.serial = serial;
   }
 
-  const nameMatch = upper.match(NAME_PATTERN);
-  if (nameMatch) {
-    out.name = { value: nameMatch[1], confidence: scoreConfidence(nameMatch[1]) };
+  const name =
+    valueAfter(tokens, NAME_KEYWORDS, (token) => NAME_VALUE.test(token.text) && token.kind !== "prosign") ??
+    valueAfter(tokens, OPERATOR_KEYWORDS, (token) => NAME_VALUE.test(token.text) && token.kind === "unknown");
+  if (name) {
+    out.name = { value: name.text, confidence: scoreConfidence(name.text) };
   }
 
-  const qthMatch = upper.match(QTH_PATTERN);
-  if (qthMatch) {
-    out.qth = { value: qthMatch[1], confidence: scoreConfidence(qthMatch[1]) };
+  const qth = valueAfter(tokens, QTH_KEYWORDS, (token) => QTH_VALUE.test(token.text) && token.kind !== "prosign");
+  if (qth) {
+    out.qth = { value: qth.text, confidence: scoreConfidence(qth.text) };
+  }
+
+  const rig = phraseAfter(tokens, RIG_KEYWORDS);
+  if (rig) out.rig = rig;
+
+  const antenna = phraseAfter(tokens, ANT_KEYWORDS);
+  if (antenna) out.antenna = antenna;
+
+  const power = extractPower(tokens);
+  if (power) out.power = power;
+
+  const weather = phraseAfter(tokens, WX_KEYWORDS);
+  if (weather) out.weather = weather;
+
+  const age = valueAfter(tokens, AGE_KEYWORDS, (token) => token.kind === "number");
+  const years = age ? Number.parseInt(age.value, 10) : Number.NaN;
+  if (age?.value.includes("?")) {
+    out.age = { value: age.value, confidence: "low" };
+  } else if (age && years >= MIN_AGE && years <= MAX_AGE) {
+    out.age = { value: String(years), confidence: age.confidence };
   }
 
+  const grid = extractGrid(tokens);
+  if (grid) out.grid = grid;
+
   return out;
 }
 
@@ -100,16 +160,12 @@ export function extractContestQsoFields(text: string, contestId: "CQWW" | "CQ-WP
 }
 
 export function splitQsoTranscript(transcript: string): string[] {
-  const normalized = transcript.toUpperCase().replace(/\s+/g, " ").trim();
-  if (!normalized) return [];
-
   const segments: string[] = [];
-  const tokens = normalized.split(" ");
   let current: string[] = [];
 
-  for (const token of tokens) {
-    current.push(token);
-    if (token === "SK" || token === "AR") {
+  for (const token of tokenizeCw(transcript)) {
+    current.push(token.text);
+    if (token.kind === "prosign" && (token.text === "SK" || token.text === "AR")) {
       const segment = current.join(" ").trim();
       if (segment) segments.push(segment);
       current = [];
@@ -143,12 +199,12 @@ export function extractMultipleQsoFields(
   });
 }
 
-function extractCallsign(text: string, peerHint?: string): string | undefined {
+function extractCallsign(tokens: CwToken[], peerHint?: string): string | undefined {
   const normalizedHint = peerHint && isCallsign(peerHint) ? peerHint.toUpperCase() : undefined;
 
   // Directed exchange: "<to> DE <from>".
   // For logging, prefer the counterparty callsign.
-  const directed = extractDirectedExchanges(text);
+  const directed = extractDirectedExchanges(tokens);
   if (directed.length > 0) {
     const last = directed[directed.length - 1];
     if (normalizedHint) {
@@ -159,44 +215,98 @@ function extractCallsign(text: string, peerHint?: string): string | undefined {
   }
 
   // CQ pattern: "CQ ... DE <call>".
-  const cqCalls = extractCqCalls(text);
-  if (cqCalls.length > 0) {
-    return cqCalls[cqCalls.length - 1].from;
+  const cqCall = bestCallsign(extractCqCalls(tokens).map((cq) => cq.from));
+  if (cqCall) {
+    return cqCall;
   }
 
   if (normalizedHint) {
     return normalizedHint;
   }
 
-  const calls = extractCallsigns(text);
+  // Last resort: the last callsign token on an allocated series, including one
+  // with unreadable characters — a partial copy of the sender's call outranks
+  // a clean call heard earlier in the over
+  const calls = tokens.filter(
+    (token) => token.kind === "callsign" && validateCallsign(token.value).validity !== "unallocated",
+  );
   if (calls.length === 0) return undefined;
-  return calls[calls.length - 1].callsign;
+  return calls[calls.length - 1].value;
 }
 
-function extractZone(text: string, callsign?: string): ExtractedField | undefined {
-  const zoneMatch = text.match(ZONE_PATTERN);
-  const reconstructed = reconstructZone(zoneMatch?.[1], callsign);
+function extractZone(tokens: CwToken[], callsign?: string, dxcc?: DxccDatabase | null): ExtractedField | undefined {
+  const zone = valueAfter(tokens, ZONE_KEYWORDS, (token) => ZONE_VALUE.test(token.text));
+  const reconstructed = reconstructZone(zone?.text, callsign, dxcc);
   if (!reconstructed) return undefined;
   return reconstructed;
 }
 
-function extractSerial(text: string, previousSerial?: number): ExtractedField | undefined {
-  const serialMatch = text.match(SERIAL_PATTERN);
-  const reconstructed = reconstructSerial(serialMatch?.[1], previousSerial);
+function extractSerial(tokens: CwToken[], previousSerial?: number): ExtractedField | undefined {
+  const serial = tokens.find((token) => token.kind === "serial");
+  const reconstructed = reconstructSerial(serial?.value, previousSerial);
   if (!reconstructed) return undefined;
   return reconstructed;
 }
 
-function extractRst(text: string): ExtractedField | undefined {
-  const clean = Array.from(text.matchAll(RST_PATTERN));
-  if (clean.length > 0) {
-    const value = clean[0][1];
-    return { value, confidence: scoreConfidence(value) };
+function extractRst(tokens: CwToken[]): ExtractedField | undefined {
+  const rsts = tokens.filter((token) => token.kind === "rst");
+  const clean = rsts.find((token) => !token.value.includes("?"));
+  if (clean) {
+    return { value: clean.value, confidence: scoreConfidence(clean.value) };
   }
 
-  const noisy = Array.from(text.matchAll(RST_NOISY_PATTERN));
-  if (noisy.length === 0) return undefined;
-  const reconstructed = reconstructRst(noisy[0][1]);
+  if (rsts.length === 0) return undefined;
+  const reconstructed = reconstructRst(rsts[0].value);
   if (!reconstructed) return undefined;
   return reconstructed;
 }
+
+/** Power after PWR in watts: "100W", "100 W", "1KW", "5 WATTS" */
+function extractPower(tokens: CwToken[]): ExtractedField | undefined {
+  const phrase = phraseAfter(tokens, PWR_KEYWORDS, 2);
+  const match = phrase?.value.match(POWER_VALUE);
+  if (!phrase || !match) return undefined;
+  if (match[1].includes("?")) return { value: match[1], confidence: "low" };
+
+  const watts = Number.parseFloat(match[1]) * (match[2] === "KW" ? 1000 : 1);
+  return { value: String(watts), confidence: phrase.confidence };
+}
+
+/** A locator after LOC/GRID/QRA, else the first token shaped like one */
+function extractGrid(tokens: CwToken[]): ExtractedField | undefined {
+  const keyed = valueAfter(tokens, GRID_KEYWORDS, (token) => token.kind === "grid");
+  if (keyed) return { value: keyed.text, confidence: keyed.confidence };
+  const bare = tokens.find((token) => token.kind === "grid");
+  if (!bare) return undefined;
+  return { value: bare.text, confidence: bare.confidence === "high" ? "medium" : bare.confidence };
+}
+
+/** The words after one of `keywords` (skipping filler words), up to the next keyword or prosign */
+function phraseAfter(tokens: CwToken[], keywords: string[], maxWords = MAX_PHRASE_WORDS): ExtractedField | undefined {
+  for (let i = 0; i < tokens.length; i++) {
+    if (!keywords.includes(tokens[i].text)) continue;
+    let j = i + 1;
+    while (tokens[j] && FILLER_WORDS.has(tokens[j].text)) j++;
+    const words: string[] = [];
+    while (tokens[j] && words.length < maxWords && !PHRASE_STOP_KINDS.has(tokens[j].kind)) {
+      words.push(tokens[j].text);
+      j++;
+    }
+    if (words.length > 0) {
+      const value = words.join(" ");
+      return { value, confidence: scoreConfidence(value) };
+    }
+  }
+  return undefined;
+}
+
+/** The first token after one of `keywords` (skipping filler words) that `accept` takes */
+function valueAfter(tokens: CwToken[], keywords: string[], accept: (token: CwToken) => boolean): CwToken | undefined {
+  for (let i = 0; i < tokens.length; i++) {
+    if (!keywords.includes(tokens[i].text)) continue;
+    let j = i + 1;
+    while (tokens[j] && FILLER_WORDS.has(tokens[j].text)) j++;
+    if (tokens[j] && accept(tokens[j])) return tokens[j];
+  }
+  return undefined;
+}
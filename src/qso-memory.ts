@@ -10,9 +10,17 @@ export interface QsoMemoryRecord {
   timestamp: string;
   frequency: number;
   band: string;
+  rstSent?: string;
   rstRcvd?: string;
   name?: string;
   qth?: string;
+  /** Rag-chew details the peer sent: rig, antenna, power (W), weather, age, locator */
+  rig?: string;
+  antenna?: string;
+  power?: string;
+  weather?: string;
+  age?: string;
+  grid?: string;
   remarks?: string;
   note?: string;
 }
@@ -51,9 +59,16 @@ export class QsoMemoryStore {
               timestamp: item.timestamp,
               frequency: Number(item.frequency) || 0,
               band: typeof item.band === "string" ? item.band : "unknown",
+              rstSent: typeof item.rstSent === "string" ? item.rstSent : undefined,
               rstRcvd: typeof item.rstRcvd === "string" ? item.rstRcvd : undefined,
               name: typeof item.name === "string" ? item.name : undefined,
               qth: typeof item.qth === "string" ? item.qth : undefined,
+              rig: typeof item.rig === "string" ? item.rig : undefined,
+              antenna: typeof item.antenna === "string" ? item.antenna : undefined,
+              power: typeof item.power === "string" ? item.power : undefined,
+              weather: typeof item.weather === "string" ? item.weather : undefined,
+              age: typeof item.age === "string" ? item.age : undefined,
+              grid: typeof item.grid === "string" ? item.grid : undefined,
               remarks: typeof item.remarks === "string" ? item.remarks : undefined,
               note: typeof item.note === "string" ? item.note : undefined,
             });
@@ -0,0 +1,220 @@
+/**
+ * Operator review queue for automatically extracted QSOs (JSON).
+ *
+ * A QSO with a field copied at low confidence is not written to the ADIF log
+ * straight away: it waits here until the operator (or the agent on their
+ * behalf) edits the doubtful fields and approves it, or rejects it. The queue
+ * survives restarts; the file is only written once something is queued.
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type { AdifRecord } from "./adif.js";
+
+export interface PendingQso {
+  /** Short id for review commands, e.g. "3" */
+  id: string;
+  /** ISO timestamp the QSO was queued */
+  queuedAt: string;
+  /** Callsign the QSO was tracked under, before any edit */
+  peer: string;
+  /** ISO start of the QSO and its frequency (Hz), for QSO memory */
+  startedAt: string;
+  frequency: number;
+  /** The log entry as it will be written on approval */
+  record: AdifRecord;
+  /** Fields still doubtful; an edit clears the field it sets */
+  lowConfidenceFields: string[];
+}
+
+/** Fields an operator may correct; names follow the extracted QSO fields */
+export interface PendingQsoEdit {
+  callsign?: string;
+  rstSent?: string;
+  rstRcvd?: string;
+  name?: string;
+  qth?: string;
+  comment?: string;
+}
+
+export type ReviewCommand =
+  | { kind: "list" }
+  | { kind: "edit"; id: string; changes: PendingQsoEdit }
+  | { kind: "approve"; id: string }
+  | { kind: "reject"; id: string };
+
+interface QsoReviewData {
+  nextId: number;
+  entries: PendingQso[];
+}
+
+const EDIT_FIELDS: Record<string, keyof PendingQsoEdit> = {
+  call: "callsign",
+  callsign: "callsign",
+  rstsent: "rstSent",
+  rst_sent: "rstSent",
+  rstrcvd: "rstRcvd",
+  rst_rcvd: "rstRcvd",
+  name: "name",
+  qth: "qth",
+  comment: "comment",
+};
+
+const RECORD_KEYS: Record<keyof PendingQsoEdit, keyof AdifRecord> = {
+  callsign: "call",
+  rstSent: "rstSent",
+  rstRcvd: "rstRcvd",
+  name: "name",
+  qth: "qth",
+  comment: "comment",
+};
+
+export class QsoReviewQueue {
+  private readonly filePath: string;
+  private readonly now: () => Date;
+  private entries: PendingQso[] = [];
+  private nextId = 1;
+
+  constructor(filePath: string, now: () => Date = () => new Date()) {
+    this.filePath = filePath;
+    this.now = now;
+  }
+
+  initialize(): void {
+    if (!fs.existsSync(this.filePath)) return;
+
+    try {
+      const parsed = JSON.parse(fs.readFileSync(this.filePath, "utf-8")) as Partial<QsoReviewData>;
+      if (Array.isArray(parsed.entries)) {
+        this.entries = parsed.entries.filter(
+          (entry) => entry && typeof entry.id === "string" && typeof entry.record?.call === "string",
+        ).map((entry) => ({
+          ...entry,
+          lowConfidenceFields: Array.isArray(entry.lowConfidenceFields) ? entry.lowConfidenceFields : [],
+        }));
+      }
+      const highestId = Math.max(0, ...this.entries.map((entry) => Number.parseInt(entry.id, 10) || 0));
+      this.nextId = Math.max(Number(parsed.nextId) || 1, highestId + 1);
+    } catch {
+      // If corrupted, start with an empty queue and overwrite on next write.
+    }
+  }
+
+  /** Queue a log entry for review and return it */
+  add(entry: Omit<PendingQso, "id" | "queuedAt">): PendingQso {
+    const pending: PendingQso = {
+      ...entry,
+      id: String(this.nextId++),
+      queuedAt: this.now().toISOString(),
+      record: { ...entry.record },
+      lowConfidenceFields: [...entry.lowConfidenceFields],
+    };
+    this.entries.push(pending);
+    this.flush();
+    return pending;
+  }
+
+  /** Pending entries, oldest first */
+  list(): PendingQso[] {
+    return this.entries.map(copy);
+  }
+
+  get(id: string): PendingQso | undefined {
+    const entry = this.entries.find((candidate) => candidate.id === id);
+    return entry ? copy(entry) : undefined;
+  }
+
+  /** Correct fields of a pending entry; an empty value clears the field. Null when there is no such entry. */
+  edit(id: string, changes: PendingQsoEdit): PendingQso | null {
+    const entry = this.entries.find((candidate) => candidate.id === id);
+    if (!entry) return null;
+
+    for (const [key, value] of Object.entries(changes) as [keyof PendingQsoEdit, string | undefined][]) {
+      if (value === undefined) continue;
+      const recordKey = RECORD_KEYS[key];
+      const trimmed = value.trim();
+      if (recordKey === "call") {
+        if (trimmed) entry.record.call = trimmed.toUpperCase();
+      } else if (trimmed) {
+        entry.record[recordKey] = key === "rstSent" || key === "rstRcvd" ? trimmed.toUpperCase() : trimmed;
+      } else {
+        delete entry.record[recordKey];
+      }
+      entry.lowConfidenceFields = entry.lowConfidenceFields.filter((field) => field !== key);
+    }
+    this.flush();
+    return copy(entry);
+  }
+
+  /** Drop an entry from the queue; false when there is no such entry */
+  remove(id: string): boolean {
+    const before = this.entries.length;
+    this.entries = this.entries.filter((entry) => entry.id !== id);
+    if (this.entries.length === before) return false;
+    this.flush();
+    return true;
+  }
+
+  /** Write the queue. Failures are logged, never thrown: the queue stays in memory and RX/TX go on. */
+  private flush(): void {
+    try {
+      const dir = path.dirname(this.filePath);
+      if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir, { recursive: true });
+      }
+      const data: QsoReviewData = { nextId: this.nextId, entries: this.entries };
+      fs.writeFileSync(this.filePath, JSON.stringify(data, null, 2), "utf-8");
+    } catch (err) {
+      console.error(`[qso-review] Failed to write ${this.filePath}: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+}
+
+/**
+ * Parse the arguments of a review command:
+ *   "" / "list"                    list the pending entries
+ *   "edit 3 name=HANS qth=NEW YORK" correct fields of entry 3
+ *   "approve 3" / "reject 3"       commit entry 3 to the log, or drop it
+ * Returns null for anything else.
+ */
+export function parseReviewCommand(args: string): ReviewCommand | null {
+  const trimmed = args.trim();
+  const [head = "", id, ...rest] = trimmed.split(/\s+/);
+  const action = head.toLowerCase();
+
+  if (action === "" || action === "list") return id ? null : { kind: "list" };
+  if (!id || !/^\d+$/.test(id)) return null;
+  if (action === "approve" || action === "reject") return rest.length === 0 ? { kind: action, id } : null;
+  if (action !== "edit") return null;
+
+  const changes: PendingQsoEdit = {};
+  const assignments = rest.join(" ");
+  const pattern = /(\w+)=(.*?)(?=\s+\w+=|$)/g;
+  let consumed = 0;
+  for (const match of assignments.matchAll(pattern)) {
+    const key = EDIT_FIELDS[match[1].toLowerCase()];
+    if (!key || assignments.slice(consumed, match.index).trim()) return null;
+    changes[key] = match[2];
+    consumed = (match.index ?? 0) + match[0].length;
+  }
+  if (consumed === 0 || assignments.slice(consumed).trim()) return null;
+  return { kind: "edit", id, changes };
+}
+
+/** One line per pending entry, for the agent */
+export function formatPendingQsos(entries: readonly PendingQso[]): string {
+  if (entries.length === 0) return "No QSOs awaiting review";
+  return entries.map((entry) => {
+    const { record } = entry;
+    const parts = [`#${entry.id}`, record.call, `${record.qsoDate} ${record.timeOn.slice(0, 4)}`, record.band];
+    if (record.rstSent || record.rstRcvd) parts.push(`RST ${record.rstSent ?? "-"}/${record.rstRcvd ?? "-"}`);
+    if (record.name) parts.push(`NAME ${record.name}`);
+    if (record.qth) parts.push(`QTH ${record.qth}`);
+    const doubtful = entry.lowConfidenceFields.length > 0 ? ` (doubtful: ${entry.lowConfidenceFields.join(", ")})` : "";
+    return `${parts.join(" ")}${doubtful}`;
+  }).join("\n");
+}
+
+function copy(entry: PendingQso): PendingQso {
+  return { ...entry, record: { ...entry.record }, lowConfidenceFields: [...entry.lowConfidenceFields] };
+}
@@ -0,0 +1,289 @@
+/**
+ * Follows each peer through a QSO, from inbound overs and our own transmissions.
+ *
+ * A ragchew or contest QSO moves through the same stages: a CQ is heard, one
+ * station answers the other, reports are exchanged, then name and QTH, and it
+ * ends with 73/SK. The tracker keeps one QSO per peer callsign, moves it
+ * forward as overs come in either direction (a stage is never left for an
+ * earlier one) and lists what is still missing for a complete contact.
+ *
+ * A QSO that is not signed off within the timeout is abandoned: expire()
+ * returns it once and the peer starts over with its next over. A signed-off
+ * QSO we transmitted in is complete and ready for the log (see isLoggable()).
+ * Fields last copied with low confidence are listed so the log entry can go
+ * to operator review instead.
+ */
+
+import { extractCqCalls, extractDirectedExchanges } from "./callsign.js";
+import { tokenizeCw } from "./cw-tokens.js";
+import { detectClosingProsign } from "./prosign.js";
+import { extractQsoFields, type ExtractedQsoFields } from "./qso-extract.js";
+import type { TxIntent } from "./cw-format.js";
+
+export type QsoStage =
+  | "cq-heard"          // The peer called CQ
+  | "we-answered"       // We called the peer
+  | "they-answered"     // The peer called us
+  | "reports-exchanged" // An RST went either way
+  | "info-exchanged"    // Name or QTH went either way
+  | "signed-off"        // 73 or SK from either side
+  | "abandoned";        // Timed out before signing off
+
+/** Items a complete QSO has; name and QTH are the peer's */
+export type QsoItem = "rstRcvd" | "rstSent" | "name" | "qth";
+
+/** Inbound fields whose copy can be doubtful */
+export type QsoDoubtfulField = "callsign" | "rstRcvd" | "name" | "qth";
+
+export interface QsoState {
+  peer: string;
+  stage: QsoStage;
+  /** Items not yet exchanged, in QSO order */
+  missing: QsoItem[];
+  rstRcvd?: string;
+  rstSent?: string;
+  name?: string;
+  qth?: string;
+  /** What the peer told us about their station and themselves (see ExtractedQsoFields) */
+  rig?: string;
+  antenna?: string;
+  power?: string;
+  weather?: string;
+  age?: string;
+  grid?: string;
+  /** ISO timestamps: start of the first over and end of the last, either way */
+  startedAt: string;
+  lastActivity: string;
+  /** Frequency (Hz) the QSO was heard on */
+  frequency?: number;
+  /** Our most recent transmit speed */
+  wpm?: number;
+  /** Whether we transmitted to the peer; otherwise we only listened */
+  transmitted: boolean;
+  /** Whether the QSO has been written to the log */
+  logged: boolean;
+  /** Fields whose latest copy from the peer was decoded with low confidence */
+  lowConfidenceFields: QsoDoubtfulField[];
+  /** Id of the pending-review entry the QSO went to instead of the log */
+  reviewId?: string;
+}
+
+/** Timing and frequency of one over */
+export interface QsoOver {
+  /** ISO timestamps; default: now */
+  startTime?: string;
+  endTime?: string;
+  frequency?: number;
+  /** Our speed, for transmissions */
+  wpm?: number;
+}
+
+export interface QsoTrackerOptions {
+  /** Our callsign, to recognise overs addressed to us. Default: none. */
+  ownCall?: string;
+  /** Abandon a QSO with no activity for this long. Default 10 minutes. */
+  timeoutMs?: number;
+  /** Injectable clock for tests */
+  now?: () => number;
+}
+
+interface TrackedQso {
+  state: QsoState;
+  lastActivity: number;
+}
+
+const STAGE_ORDER: readonly QsoStage[] = [
+  "cq-heard", "we-answered", "they-answered", "reports-exchanged", "info-exchanged", "signed-off", "abandoned",
+];
+const QSO_ITEMS: readonly QsoItem[] = ["rstRcvd", "rstSent", "name", "qth"];
+const DOUBTFUL_FIELDS: readonly QsoDoubtfulField[] = ["callsign", "rstRcvd", "name", "qth"];
+const DETAIL_FIELDS = ["rig", "antenna", "power", "weather", "age", "grid"] as const;
+
+export class QsoTracker {
+  private readonly ownCall: string;
+  private readonly timeoutMs: number;
+  private readonly now: () => number;
+  private readonly qsos = new Map<string, TrackedQso>();
+
+  constructor(options: QsoTrackerOptions = {}) {
+    this.ownCall = (options.ownCall ?? "").toUpperCase().trim();
+    this.timeoutMs = options.timeoutMs ?? 10 * 60 * 1000;
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Record an over heard from `peer` and return its QSO, or null when the
+   * over neither starts a QSO nor belongs to one.
+   * `fields` are the QSO fields extracted from the over, when already known.
+   */
+  noteInbound(
+    peer: string,
+    text: string,
+    fields: ExtractedQsoFields = extractQsoFields(text, { peerHint: peer }),
+    over: QsoOver = {},
+  ): QsoState | null {
+    const call = peer.toUpperCase().trim();
+    if (!call) return null;
+
+    const calledCq = extractCqCalls(text).some((cq) => cq.from === call);
+    const calledUs = !!this.ownCall && extractDirectedExchanges(text).some(
+      (exchange) => exchange.from === call && exchange.to === this.ownCall,
+    );
+    const signedOff = isSignoff(text);
+    const info = !!(fields.name || fields.qth);
+
+    let qso = this.active(call);
+    if (qso && qso.state.stage === "signed-off" && calledCq) qso = undefined;
+    if (!qso) {
+      if (!calledCq && !calledUs && !fields.rstRcvd && !info && !signedOff) return null;
+      qso = this.start(call, over);
+    }
+
+    const state = qso.state;
+    state.rstRcvd = fields.rstRcvd?.value ?? state.rstRcvd;
+    state.name = fields.name?.value ?? state.name;
+    state.qth = fields.qth?.value ?? state.qth;
+    for (const key of DETAIL_FIELDS) {
+      state[key] = fields[key]?.value ?? state[key];
+    }
+    for (const key of DOUBTFUL_FIELDS) {
+      const field = fields[key];
+      if (!field) continue;
+      const doubtful = state.lowConfidenceFields.filter((name) => name !== key);
+      state.lowConfidenceFields = field.confidence === "low" ? [...doubtful, key] : doubtful;
+    }
+
+    if (calledCq) advance(state, "cq-heard");
+    if (calledUs) advance(state, "they-answered");
+    if (fields.rstRcvd) advance(state, "reports-exchanged");
+    if (info) advance(state, "info-exchanged");
+    if (signedOff) advance(state, "signed-off");
+    return this.touch(qso, over);
+  }
+
+  /**
+   * Record one of our transmissions and return the QSO it belongs to.
+   * A CQ or a transmission without a peer belongs to no QSO.
+   */
+  noteTransmit(peer: string | undefined, text: string, intent: TxIntent = "default", over: QsoOver = {}): QsoState | null {
+    const call = peer?.toUpperCase().trim();
+    if (!call || intent === "cq") return null;
+
+    const qso = this.active(call) ?? this.start(call, over);
+    const state = qso.state;
+    const fields = extractQsoFields(text, { peerHint: call });
+
+    // Our report to them reads as a received report in our own text
+    state.rstSent = fields.rstRcvd?.value ?? state.rstSent;
+    state.wpm = over.wpm ?? state.wpm;
+    state.transmitted = true;
+
+    advance(state, "we-answered");
+    if (fields.rstRcvd) advance(state, "reports-exchanged");
+    if (fields.name || fields.qth) advance(state, "info-exchanged");
+    if (intent === "signoff" || isSignoff(text)) advance(state, "signed-off");
+    return this.touch(qso, over);
+  }
+
+  /** Sign off the QSO with a peer on the operator's word; null when there is none */
+  close(peer: string): QsoState | null {
+    const qso = this.active(peer.toUpperCase().trim());
+    if (!qso) return null;
+    advance(qso.state, "signed-off");
+    return this.touch(qso);
+  }
+
+  /** Record that the QSO with a peer has been written to the log */
+  markLogged(peer: string): void {
+    const qso = this.active(peer.toUpperCase().trim());
+    if (!qso) return;
+    qso.state.logged = true;
+    qso.state.reviewId = undefined;
+  }
+
+  /** Record that the QSO with a peer awaits operator review as entry `reviewId` */
+  markPendingReview(peer: string, reviewId: string): void {
+    const qso = this.active(peer.toUpperCase().trim());
+    if (qso) qso.state.reviewId = reviewId;
+  }
+
+  /** Current QSO with a peer, if one is active */
+  get(peer: string): QsoState | undefined {
+    const state = this.active(peer.toUpperCase().trim())?.state;
+    return state ? snapshot(state) : undefined;
+  }
+
+  /**
+   * Drop QSOs with no activity within the timeout. Returns those that were
+   * not signed off, now at stage "abandoned".
+   */
+  expire(): QsoState[] {
+    const now = this.now();
+    const abandoned: QsoState[] = [];
+    for (const [call, qso] of this.qsos) {
+      if (now - qso.lastActivity <= this.timeoutMs) continue;
+      this.qsos.delete(call);
+      if (qso.state.stage !== "signed-off") {
+        qso.state.stage = "abandoned";
+        abandoned.push(snapshot(qso.state));
+      }
+    }
+    return abandoned;
+  }
+
+  private active(call: string): TrackedQso | undefined {
+    const qso = this.qsos.get(call);
+    if (!qso || this.now() - qso.lastActivity > this.timeoutMs) return undefined;
+    return qso;
+  }
+
+  private start(call: string, over: QsoOver): TrackedQso {
+    const timestamp = over.startTime ?? new Date(this.now()).toISOString();
+    const qso: TrackedQso = {
+      state: {
+        peer: call,
+        stage: "cq-heard",
+        missing: [...QSO_ITEMS],
+        startedAt: timestamp,
+        lastActivity: timestamp,
+        transmitted: false,
+        logged: false,
+        lowConfidenceFields: [],
+      },
+      lastActivity: this.now(),
+    };
+    this.qsos.set(call, qso);
+    return qso;
+  }
+
+  private touch(qso: TrackedQso, over: QsoOver = {}): QsoState {
+    qso.lastActivity = this.now();
+    const state = qso.state;
+    state.lastActivity = over.endTime ?? over.startTime ?? new Date(qso.lastActivity).toISOString();
+    state.frequency = over.frequency ?? state.frequency;
+    state.missing = QSO_ITEMS.filter((item) => state[item] === undefined);
+    return snapshot(state);
+  }
+}
+
+/**
+ * Whether a QSO is complete and neither logged nor queued for review: signed
+ * off, and either we transmitted in it or the operator closed it explicitly.
+ */
+export function isLoggable(qso: QsoState, explicit = false): boolean {
+  return qso.stage === "signed-off" && !qso.logged && qso.reviewId === undefined && (qso.transmitted || explicit);
+}
+
+function snapshot(state: QsoState): QsoState {
+  return { ...state, missing: [...state.missing], lowConfidenceFields: [...state.lowConfidenceFields] };
+}
+
+/** Move a QSO forward to `stage`; never back */
+function advance(state: QsoState, stage: QsoStage): void {
+  if (STAGE_ORDER.indexOf(stage) > STAGE_ORDER.indexOf(state.stage)) state.stage = stage;
+}
+
+/** An over that ends the QSO: closed with SK, or carrying 73 */
+function isSignoff(text: string): boolean {
+  return detectClosingProsign(text) === "SK" || tokenizeCw(text).some((token) => token.text === "73" || token.text === "SK");
+}
@@ -0,0 +1,44 @@
+/**
+ * Remembers which receiver each peer was last heard on, so replies can be
+ * keyed through the fldigi (transmitter) paired with that receiver.
+ */
+
+const DEFAULT_MAX_PEERS = 500;
+
+export interface HeardPeer {
+  receiverId: string;
+  frequency: number;
+  lastHeard: string;
+}
+
+export class ReceiverRouter {
+  private readonly heard = new Map<string, HeardPeer>();
+  private readonly maxPeers: number;
+
+  constructor(options: { maxPeers?: number } = {}) {
+    this.maxPeers = options.maxPeers ?? DEFAULT_MAX_PEERS;
+  }
+
+  /** Record that `peer` was just decoded on the given receiver. */
+  noteHeard(peer: string, receiverId: string, frequency: number, at: Date = new Date()): void {
+    const key = peer.toUpperCase().trim();
+    if (!key) return;
+    // Re-insert so Map iteration order stays least-recently-heard first
+    this.heard.delete(key);
+    this.heard.set(key, { receiverId, frequency, lastHeard: at.toISOString() });
+    if (this.heard.size > this.maxPeers) {
+      const oldest = this.heard.keys().next().value;
+      if (oldest !== undefined) this.heard.delete(oldest);
+    }
+  }
+
+  /** Receiver the peer was last heard on, if any. */
+  receiverFor(peer: string): string | undefined {
+    return this.heard.get(peer.toUpperCase().trim())?.receiverId;
+  }
+
+  /** Full routing entry for a peer, if heard. */
+  lookup(peer: string): HeardPeer | undefined {
+    return this.heard.get(peer.toUpperCase().trim());
+  }
+}
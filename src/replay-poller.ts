@@ -0,0 +1,236 @@
+/**
+ * Offline replacement for FldigiPoller that replays recorded RX text.
+ *
+ * Sources are transcript journal entries (see transcript-journal.ts) or the
+ * decoder fixtures from test/fixtures/decoder-tests.yaml, converted with
+ * fixturesToTranscript(). Chunks go through the same RxAssembler as live RX,
+ * so createService's enrichment sees identical metadata. Timing follows the
+ * recording: real time at speed 1, accelerated at higher speeds, or as fast
+ * as possible at speed Infinity. Silence flushes are decided on the recorded
+ * timestamps, so results do not depend on the replay speed.
+ *
+ * With config.replay.path set, createService replays that journal in place of
+ * live fldigi (see createReplayPollerFactory()).
+ */
+
+import { DEFAULT_RECEIVER_ID, type ChannelConfig } from "./config.js";
+import type { ChannelStatus, FldigiPollerCallbacks } from "./fldigi-poller.js";
+import type { PipelineMetrics } from "./metrics.js";
+import { RxAssembler } from "./rx-assembler.js";
+import {
+  readTranscriptJournal, type GapTranscriptEntry, type RxTranscriptEntry, type TranscriptEntry,
+} from "./transcript-journal.js";
+
+/** Pause inserted between decoder fixtures, past the default rx.maxSilenceMs so each over ends on silence */
+const FIXTURE_GAP_MS = 10000;
+
+export interface ReplayPollerOptions {
+  /** Recorded entries; TX entries are ignored, RX and gap entries replayed in order */
+  entries: TranscriptEntry[];
+  /** Replay only this receiver's entries. Default: all entries. */
+  receiverId?: string;
+  /** Playback speed multiplier. 1 = real time, Infinity = no waiting. Default 1. */
+  speed?: number;
+  /** Called once every entry has been replayed and the last message flushed */
+  onComplete?: () => void;
+  /** Injectable delay for tests */
+  sleep?: (ms: number) => Promise<void>;
+  /** RX metrics, labelled with the receiver like the live FldigiPoller's */
+  metrics?: PipelineMetrics;
+}
+
+/** One entry of test/fixtures/decoder-tests.yaml (the fields replay needs) */
+export interface DecoderFixture {
+  id: string;
+  text: string;
+  wpm: number;
+  noise?: "none" | { type: string; snr_db: number };
+}
+
+export interface FixtureTranscriptOptions {
+  receiverId?: string;
+  frequency?: number;
+  /** Time of the first fixture. Default 2026-01-01T00:00:00Z. */
+  start?: Date;
+}
+
+export class ReplayPoller {
+  private readonly callbacks: FldigiPollerCallbacks;
+  private readonly entries: Array<RxTranscriptEntry | GapTranscriptEntry>;
+  private readonly speed: number;
+  private readonly onComplete: (() => void) | undefined;
+  private readonly sleep: (ms: number) => Promise<void>;
+  private readonly assembler: RxAssembler;
+
+  private running = false;
+  private clock = 0;
+  private status: ChannelStatus = "disconnected";
+  private done: Promise<void> = Promise.resolve();
+
+  constructor(config: ChannelConfig, callbacks: FldigiPollerCallbacks, options: ReplayPollerOptions) {
+    this.callbacks = callbacks;
+    this.entries = options.entries
+      .filter((entry): entry is RxTranscriptEntry | GapTranscriptEntry => entry.type === "rx" || entry.type === "gap")
+      .filter((entry) => options.receiverId === undefined || entry.receiverId === options.receiverId)
+      .filter((entry) => Number.isFinite(Date.parse(entry.timestamp)));
+    this.speed = options.speed ?? 1;
+    this.onComplete = options.onComplete;
+    this.sleep = options.sleep ?? ((ms) => new Promise((resolve) => setTimeout(resolve, ms)));
+    // Silence is judged on recorded time below, not by the buffer's wall-clock timer
+    this.assembler = new RxAssembler(config, callbacks.onMessage, {
+      silenceTimer: false,
+      now: () => this.clock,
+      metrics: options.metrics,
+      metricLabels: { receiver: config.receivers[0]?.id ?? DEFAULT_RECEIVER_ID },
+      onPartial: callbacks.onPartial,
+      suppressNoise: config.rx.suppressNoise,
+    });
+  }
+
+  /** Begin replaying in the background; resolves once "connected". */
+  async start(): Promise<void> {
+    this.running = true;
+    this.assembler.reset();
+    this.setStatus("connected");
+    this.done = this.replay();
+  }
+
+  /** Stop replaying; a pending delay finishes in the background and emits nothing. */
+  async stop(): Promise<void> {
+    this.running = false;
+    this.assembler.reset();
+    this.setStatus("disconnected");
+  }
+
+  /** Resolves when the replay has finished (or was stopped). */
+  whenDone(): Promise<void> {
+    return this.done;
+  }
+
+  getDetectedWpm(): number | undefined {
+    return this.assembler.wpm;
+  }
+
+  getCapabilities(): null {
+    return null;
+  }
+
+  // --- internals ---
+
+  private async replay(): Promise<void> {
+    let previous: number | null = null;
+
+    for (const entry of this.entries) {
+      if (!this.running) return;
+      const at = Date.parse(entry.timestamp);
+      const elapsed = previous === null ? 0 : Math.max(0, at - previous);
+      const thresholdMs = this.assembler.silenceThresholdMs;
+      if (previous !== null && elapsed >= thresholdMs) {
+        // The over ended in the recording: flush once the silence threshold has passed
+        await this.wait(thresholdMs);
+        if (!this.running) return;
+        this.clock = previous + thresholdMs;
+        this.assembler.flush("silence");
+        await this.wait(elapsed - thresholdMs);
+      } else {
+        await this.wait(elapsed);
+      }
+      if (!this.running) return;
+      this.clock = at;
+      previous = at;
+
+      if (entry.type === "gap") {
+        this.assembler.noteGap({
+          reason: entry.reason,
+          detectedAt: entry.detectedAt,
+          skippedChars: entry.skippedChars,
+          outageMs: entry.outageMs,
+        });
+        continue;
+      }
+
+      this.assembler.addSignalSample({
+        wpm: entry.wpm, snr: entry.snr, carrier: entry.carrierHz, dialHz: entry.dialHz, rigMode: entry.rigMode,
+      });
+      this.callbacks.onRxChunk?.({
+        text: entry.text,
+        timestamp: entry.timestamp,
+        frequency: entry.frequency,
+        wpm: entry.wpm,
+        snr: entry.snr,
+        carrierHz: entry.carrierHz,
+        dialHz: entry.dialHz,
+        rigMode: entry.rigMode,
+      });
+      this.assembler.push(entry.text, at);
+    }
+
+    if (!this.running) return;
+    if (previous !== null) this.clock = previous + this.assembler.silenceThresholdMs;
+    this.assembler.flush("silence");
+    this.onComplete?.();
+  }
+
+  /** Sleep for `recordedMs` of recording time, scaled by the replay speed */
+  private async wait(recordedMs: number): Promise<void> {
+    if (recordedMs > 0 && Number.isFinite(this.speed) && this.speed > 0) {
+      await this.sleep(recordedMs / this.speed);
+    }
+  }
+
+  private setStatus(status: ChannelStatus): void {
+    if (this.status !== status) {
+      this.status = status;
+      this.callbacks.onStatusChange(status);
+    }
+  }
+}
+
+/**
+ * Poller factory replaying the journal at config.replay.path, read once on the
+ * first call. With several receivers each replays its own entries; a single
+ * receiver replays the whole journal.
+ */
+export function createReplayPollerFactory(
+  config: ChannelConfig,
+): (receiverConfig: ChannelConfig, callbacks: FldigiPollerCallbacks, metrics?: PipelineMetrics) => ReplayPoller {
+  let entries: TranscriptEntry[] | null = null;
+  return (receiverConfig, callbacks, metrics) => {
+    if (!entries) {
+      entries = readTranscriptJournal(config.replay.path);
+      if (entries.length === 0) console.warn(`[replay-poller] Nothing to replay in ${config.replay.path}`);
+    }
+    return new ReplayPoller(receiverConfig, callbacks, {
+      entries,
+      receiverId: config.receivers.length > 1 ? receiverConfig.receivers[0]?.id : undefined,
+      speed: config.replay.speed,
+      metrics,
+    });
+  };
+}
+
+/**
+ * Turn decoder fixtures into an RX transcript: each fixture is decoded character
+ * by character at its WPM (PARIS timing, ~5 characters per word), with a silent
+ * pause between fixtures. S/N comes from the fixture's noise settings.
+ */
+export function fixturesToTranscript(fixtures: DecoderFixture[], options: FixtureTranscriptOptions = {}): RxTranscriptEntry[] {
+  const receiverId = options.receiverId ?? "main";
+  const frequency = options.frequency ?? 7030000;
+  let clock = (options.start ?? new Date("2026-01-01T00:00:00.000Z")).getTime();
+  const entries: RxTranscriptEntry[] = [];
+
+  for (const fixture of fixtures) {
+    const wpm = Math.max(5, fixture.wpm);
+    const msPerChar = 60000 / (wpm * 5);
+    const snr = typeof fixture.noise === "object" ? fixture.noise.snr_db : undefined;
+    // fldigi emits decoded text a character at a time; a word space rides with the next character
+    for (const char of fixture.text.trim().replace(/\s+/g, " ").match(/ ?\S/g) ?? []) {
+      clock += char.length * msPerChar;
+      entries.push({ type: "rx", timestamp: new Date(clock).toISOString(), receiverId, frequency, text: char, wpm, snr });
+    }
+    clock += FIXTURE_GAP_MS;
+  }
+
+  return entries;
+}
@@ -17,8 +17,9 @@
 import { spawn, type ChildProcess } from "node:child_process";
 import { execFile } from "node:child_process";
 import { promisify } from "node:util";
-import type { SdrConfig } from "./config.js";
+import { DEFAULT_RECEIVER_ID, type SdrConfig } from "./config.js";
 import { checkCwBandPlan } from "./cw-band-plan.js";
+import type { PipelineMetrics } from "./metrics.js";
 
 const execFileAsync = promisify(execFile);
 
@@ -57,6 +58,10 @@ export interface RtlSdrManagerOptions {
   spawnFn?: typeof spawn;
   /** Injected binary-check function for testing */
   checkBinaryFn?: () => Promise<boolean>;
+  /** Records automatic restarts, labelled with receiverId */
+  metrics?: PipelineMetrics;
+  /** Receiver this SDR feeds (metrics label). Default "main". */
+  receiverId?: string;
 }
 
 /**
@@ -71,6 +76,8 @@ export class RtlSdrManager {
   private readonly audioSinkCommand: string[];
   private readonly spawnFn: typeof spawn;
   private readonly checkBinaryFn: () => Promise<boolean>;
+  private readonly metrics: PipelineMetrics | undefined;
+  private readonly receiverId: string;
 
   private rtlFmProcess: ChildProcess | null = null;
   private audioProcess: ChildProcess | null = null;
@@ -87,6 +94,8 @@ export class RtlSdrManager {
     this.callbacks = callbacks;
     this.spawnFn = options.spawnFn ?? spawn;
     this.checkBinaryFn = options.checkBinaryFn ?? RtlSdrManager.defaultCheckBinary;
+    this.metrics = options.metrics;
+    this.receiverId = options.receiverId ?? DEFAULT_RECEIVER_ID;
 
     // Default audio sink: PulseAudio client at the configured sample rate
     this.audioSinkCommand = options.audioSinkCommand ?? [
@@ -260,6 +269,7 @@ export class RtlSdrManager {
     this.restartTimer = setTimeout(async () => {
       this.restartTimer = null;
       if (!this.running) return;
+      this.metrics?.sdrRestarts.inc({ receiver: this.receiverId });
       await this.terminatePipeline();
       this.running = await this.spawnPipeline();
     }, this.backoffMs);
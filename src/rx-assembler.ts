@@ -0,0 +1,275 @@
+/**
+ * Turns a stream of decoded RX chunks into inbound messages.
+ *
+ * Shared by the live FldigiPoller and the offline ReplayPoller so both emit
+ * identical metadata: noise filtering, prosign normalisation, peer tracking, the SentenceBuffer, the
+ * per-message RxTimeline, signal state and pending RX gap markers.
+ *
+ * Every over gets an id (`<receiver>-<start epoch ms>`) carried by the final
+ * message and, with rx.partialUpdates, by the partial messages dispatched
+ * while the over is still being sent (`partial: true`).
+ *
+ * With the suppressNoise option, overs the language model scores as decoded
+ * noise (see isLikelyNoise()) are dropped instead of dispatched.
+ */
+
+import { SentenceBuffer, type FlushReason } from "./sentence-buffer.js";
+import { extractCqCalls, extractDirectedExchanges, extractCallsigns } from "./callsign.js";
+import { bestCallsign } from "./itu-prefixes.js";
+import { DEFAULT_RECEIVER_ID, type ChannelConfig } from "./config.js";
+import { filterDecodeNoise, isLikelyNoise } from "./decode-quality.js";
+import { ProsignStream, detectClosingProsign, invitesReply, normalizeProsigns } from "./prosign.js";
+import { RxTimeline } from "./rx-timeline.js";
+import { rfFrequency, sidebandOf } from "./carrier-tuner.js";
+import type { RxGap } from "./rx-resync.js";
+import type { MetricLabels, PipelineMetrics } from "./metrics.js";
+
+const CHANNEL_ID = "morse-radio";
+const UNKNOWN_PEER = "UNKNOWN";
+
+export type RxMessageCallback = (text: string, peer: string, metadata: Record<string, unknown>) => void;
+
+export interface RxSignalSample {
+  wpm?: number;
+  snr?: number;
+  carrier?: number;
+  /** Rig dial frequency (Hz) and CAT mode; without them the configured frequency and upper sideband are assumed */
+  dialHz?: number;
+  rigMode?: string;
+}
+
+export interface RxAssemblerOptions {
+  /** Run the SentenceBuffer's silence timer. Default true. */
+  silenceTimer?: boolean;
+  /** Clock for the metadata timestamp; replay uses the recording's clock. Default Date.now. */
+  now?: () => number;
+  metrics?: PipelineMetrics;
+  metricLabels?: MetricLabels;
+  /** Receives partial messages of the open over when rx.partialUpdates is enabled */
+  onPartial?: RxMessageCallback;
+  /** Drop messages that are implausible as QSO text. Default false. */
+  suppressNoise?: boolean;
+}
+
+export class RxAssembler {
+  private readonly config: ChannelConfig;
+  private readonly onMessage: RxMessageCallback;
+  private readonly sentenceBuffer: SentenceBuffer;
+  private readonly timeline = new RxTimeline();
+  private readonly prosigns = new ProsignStream();
+  private readonly now: () => number;
+  private readonly metrics: PipelineMetrics | undefined;
+  private readonly metricLabels: MetricLabels;
+  private readonly onPartial: RxMessageCallback | undefined;
+  private readonly suppressNoise: boolean;
+
+  private currentPeer = UNKNOWN_PEER;
+  private detectedWpm: number | undefined;
+  private signalNoiseRatio: number | undefined;
+  private carrierHz: number | undefined;
+  private dialHz: number | undefined;
+  private rigMode: string | undefined;
+  private pendingGap: RxGap | null = null;
+  private overId: string | null = null;
+  private overStartMs = 0;
+
+  constructor(config: ChannelConfig, onMessage: RxMessageCallback, options: RxAssemblerOptions = {}) {
+    this.config = config;
+    this.onMessage = onMessage;
+    this.now = options.now ?? Date.now;
+    this.metrics = options.metrics;
+    this.metricLabels = options.metricLabels ?? {};
+    this.onPartial = config.rx.partialUpdates ? options.onPartial : undefined;
+    this.suppressNoise = options.suppressNoise ?? false;
+    this.sentenceBuffer = new SentenceBuffer(
+      (message, reason, silenceThresholdMs) => this.handleFlush(message, reason, silenceThresholdMs),
+      {
+        silenceThresholdMs: config.rx.defaultSilenceMs,
+        adaptiveSilence: {
+          wordGaps: config.rx.silenceWordGaps,
+          hysteresis: config.rx.silenceHysteresis,
+          minMs: config.rx.minSilenceMs,
+          maxMs: config.rx.maxSilenceMs,
+        },
+        silenceTimer: options.silenceTimer,
+        now: this.now,
+        onPartial: this.onPartial ? (message) => this.handlePartial(message) : undefined,
+        partialEveryWords: config.rx.partialEveryWords,
+      },
+    );
+  }
+
+  /** Most recent detected RX speed (WPM), if available. */
+  get wpm(): number | undefined {
+    return this.detectedWpm;
+  }
+
+  get snr(): number | undefined {
+    return this.signalNoiseRatio;
+  }
+
+  get carrier(): number | undefined {
+    return this.carrierHz;
+  }
+
+  get dial(): number | undefined {
+    return this.dialHz;
+  }
+
+  get mode(): string | undefined {
+    return this.rigMode;
+  }
+
+  /** Silence timeout (ms) that currently ends the open over */
+  get silenceThresholdMs(): number {
+    return this.sentenceBuffer.silenceThresholdMs;
+  }
+
+  /** Record a signal sample; missing fields keep their previous value. */
+  addSignalSample(sample: RxSignalSample): void {
+    if (sample.wpm !== undefined) this.detectedWpm = sample.wpm;
+    this.sentenceBuffer.setWpm(sample.wpm);
+    if (sample.snr !== undefined) this.signalNoiseRatio = sample.snr;
+    if (sample.carrier !== undefined) this.carrierHz = sample.carrier;
+    if (sample.dialHz !== undefined) this.dialHz = sample.dialHz;
+    if (sample.rigMode !== undefined) this.rigMode = sample.rigMode;
+    this.timeline.addSignalSample({ wpm: sample.wpm, snr: sample.snr });
+  }
+
+  /** Feed raw decoded text read at `at` (epoch ms). Noise-only chunks are dropped. */
+  push(rawText: string, at: number): void {
+    if (!rawText) return;
+    const filtered = filterDecodeNoise(rawText);
+    const chunk = this.prosigns.push(preserveChunkEdges(filtered, rawText));
+    if (!chunk.trim()) return;
+
+    if (this.overId === null || !this.sentenceBuffer.pending.trim()) {
+      this.overId = `${this.config.receivers[0]?.id ?? DEFAULT_RECEIVER_ID}-${at}`;
+      this.overStartMs = at;
+    }
+    this.updatePeer(chunk);
+    this.timeline.addChunk(chunk, at);
+    this.metrics?.lastDecode.set(at / 1000, this.metricLabels);
+    this.sentenceBuffer.push(chunk);
+  }
+
+  /** Attach a gap marker to the next flushed message. */
+  noteGap(gap: RxGap): void {
+    this.pendingGap = gap;
+  }
+
+  flush(reason?: FlushReason): void {
+    this.sentenceBuffer.flush(reason);
+  }
+
+  /** Discard the open message and all signal state. */
+  reset(): void {
+    this.sentenceBuffer.reset();
+    this.prosigns.reset();
+    this.timeline.clearMessage();
+    this.currentPeer = UNKNOWN_PEER;
+    this.detectedWpm = undefined;
+    this.signalNoiseRatio = undefined;
+    this.carrierHz = undefined;
+    this.dialHz = undefined;
+    this.rigMode = undefined;
+    this.pendingGap = null;
+    this.overId = null;
+  }
+
+  /**
+   * Extract the most recent callsign from decoded text to use as peer.
+   * Within each pattern, calls on allocated ITU series win over suspicious
+   * ones and unallocated ones are never used (see validateCallsign()).
+   */
+  private updatePeer(text: string): void {
+    // Prefer CQ DE <call> — that's the station transmitting
+    // Then a directed exchange: <to> DE <from> — the "from" is the station transmitting
+    // Fall back to any callsign found
+    const peer =
+      bestCallsign(extractCqCalls(text).map((cq) => cq.from)) ??
+      bestCallsign(extractDirectedExchanges(text).map((exchange) => exchange.from)) ??
+      bestCallsign(extractCallsigns(text).map((match) => match.callsign));
+    if (peer) this.currentPeer = peer;
+  }
+
+  /** Called by SentenceBuffer when a complete message is ready */
+  private handleFlush(message: string, reason: FlushReason, silenceThresholdMs: number): void {
+    this.metrics?.rxFlushes.inc({ ...this.metricLabels, reason });
+    const timeline = this.timeline.takeMessage();
+    const held = this.prosigns.flush();
+    // A call at the very end of the over may have been held back by the ProsignStream
+    if (held.trim()) this.updatePeer(message + held);
+    const text = normalizeProsigns(message + held);
+    if (this.suppressNoise && isLikelyNoise(text)) {
+      this.metrics?.rxSuppressed.inc(this.metricLabels);
+      this.overId = null;
+      this.currentPeer = UNKNOWN_PEER;
+      return;
+    }
+    this.metrics?.rxMessages.inc(this.metricLabels);
+    const closingProsign = detectClosingProsign(text);
+    const metadata: Record<string, unknown> = {
+      timestamp: new Date(this.now()).toISOString(),
+      frequency: this.config.frequency,
+      channel: CHANNEL_ID,
+      detectedWpm: this.detectedWpm,
+      snr: this.signalNoiseRatio,
+      carrierHz: this.carrierHz,
+      rfFrequency: this.stationFrequency(),
+      startTime: timeline?.startTime,
+      endTime: timeline?.endTime,
+      durationMs: timeline?.durationMs,
+      wpmStats: timeline?.wpm,
+      snrStats: timeline?.snr,
+      rxSegments: timeline?.segments,
+      gap: this.pendingGap ?? undefined,
+      flushReason: reason,
+      silenceThresholdMs,
+      closingProsign,
+      replyInvited: invitesReply(text, closingProsign, this.config.tx.callsign),
+      overId: this.overId ?? undefined,
+      partial: false,
+    };
+    this.pendingGap = null;
+    this.overId = null;
+
+    this.onMessage(text, this.currentPeer, metadata);
+    this.currentPeer = UNKNOWN_PEER;
+  }
+
+  /** RF frequency of the station on the carrier, from the rig's dial when it was sampled */
+  private stationFrequency(): number | undefined {
+    return rfFrequency(this.dialHz ?? this.config.frequency, this.carrierHz, sidebandOf(this.rigMode));
+  }
+
+  /** Called by SentenceBuffer with the open over so far */
+  private handlePartial(message: string): void {
+    if (!this.onPartial || this.overId === null) return;
+    const text = normalizeProsigns(message);
+    if (this.suppressNoise && isLikelyNoise(text)) return;
+    const metadata: Record<string, unknown> = {
+      timestamp: new Date(this.now()).toISOString(),
+      frequency: this.config.frequency,
+      channel: CHANNEL_ID,
+      detectedWpm: this.detectedWpm,
+      snr: this.signalNoiseRatio,
+      carrierHz: this.carrierHz,
+      rfFrequency: this.stationFrequency(),
+      startTime: new Date(this.overStartMs).toISOString(),
+      overId: this.overId,
+      partial: true,
+    };
+    this.onPartial(text, this.currentPeer, metadata);
+  }
+}
+
+function preserveChunkEdges(filtered: string, rawChunk: string): string {
+  if (!filtered) return "";
+  const hasLeadingSpace = /^\s/.test(rawChunk);
+  const hasTrailingSpace = /\s$/.test(rawChunk);
+  let chunk = filtered;
+  if (hasLeadingSpace) chunk = ` ${chunk}`;
+  if (hasTrailingSpace) chunk = `${chunk} `;
+  return chunk;
+}
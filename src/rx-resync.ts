@@ -0,0 +1,103 @@
+/**
+ * Content-anchored resynchronisation of the fldigi RX read offset.
+ *
+ * A byte offset alone cannot tell "fldigi kept decoding while we were away"
+ * from "fldigi restarted and the buffer is new": both can leave the length
+ * at or above our offset. The poller therefore remembers a short tail
+ * fingerprint of the text it last read and, when continuity is in doubt,
+ * looks for that fingerprint in the current buffer to decide where to resume
+ * and whether text was really lost.
+ */
+
+/** Characters of already-read text kept as the continuity fingerprint */
+export const RX_TAIL_FINGERPRINT_CHARS = 48;
+
+/** Most recent buffer text inspected (and recovered) when resyncing */
+export const RX_RECOVERY_WINDOW_CHARS = 16384;
+
+/** Shorter fingerprints match too easily elsewhere in the buffer to relocate by */
+const MIN_RELOCATE_TAIL_CHARS = 8;
+
+export type RxGapReason = "restart" | "cleared" | "overflow";
+
+/** Marker attached to the next inbound message when decoded text was lost */
+export interface RxGap {
+  reason: RxGapReason;
+  /** When the discontinuity was detected (ISO 8601) */
+  detectedAt: string;
+  /** Characters known to have been skipped, when that can be counted */
+  skippedChars?: number;
+  /** How long the poller was disconnected, for gaps found on reconnect */
+  outageMs?: number;
+}
+
+export interface RxResyncInput {
+  /** Current RX buffer length */
+  length: number;
+  /** Buffer text from `windowStart` to `length` */
+  window: string;
+  windowStart: number;
+  /** Offset the poller would have read from next */
+  offset: number;
+  /** Fingerprint: the last characters read before `offset` */
+  tail: string;
+  /** True after an outage (reconnect), false while polling normally */
+  afterOutage: boolean;
+}
+
+export interface RxResyncResult {
+  /** Offset to resume reading from */
+  offset: number;
+  /** How continuity was established */
+  match: "anchored" | "relocated" | "lost";
+  /** Present when text was (or may have been) lost */
+  gap?: Omit<RxGap, "detectedAt" | "outageMs">;
+}
+
+/**
+ * Decide where to resume reading.
+ *
+ * - anchored: the fingerprint still sits right before `offset`; resume there
+ *   (text decoded meanwhile is recovered), unless the unread text has grown
+ *   beyond the recovery window, which is reported as an overflow gap.
+ * - relocated: the fingerprint is found elsewhere (buffer trimmed or shifted);
+ *   resume right after it.
+ * - lost: the fingerprint is gone, so the buffer was cleared or fldigi
+ *   restarted. Everything in the window is new and is read; after an outage,
+ *   whatever fldigi decoded before the restart is reported as a gap.
+ */
+export function resolveRxResync(input: RxResyncInput): RxResyncResult {
+  const { length, window, windowStart, offset, tail, afterOutage } = input;
+  if (!tail) return { offset: Math.min(offset, length), match: "anchored" };
+
+  const anchorStart = offset - tail.length;
+  if (offset <= length && anchorStart >= windowStart) {
+    const anchor = window.slice(anchorStart - windowStart, offset - windowStart);
+    if (anchor === tail) return { offset, match: "anchored" };
+  } else if (offset <= length && anchorStart < windowStart && anchorStart >= 0) {
+    // Unread text no longer fits the recovery window; continuity can't be checked
+    // cheaply, but the buffer did not shrink, so assume it is the same session.
+    return {
+      offset: windowStart,
+      match: "anchored",
+      gap: { reason: "overflow", skippedChars: windowStart - offset },
+    };
+  }
+
+  const found = tail.length >= MIN_RELOCATE_TAIL_CHARS ? window.lastIndexOf(tail) : -1;
+  if (found !== -1) {
+    return { offset: windowStart + found + tail.length, match: "relocated" };
+  }
+
+  const reason: RxGapReason = length < offset || afterOutage ? "restart" : "cleared";
+  return {
+    offset: windowStart,
+    match: "lost",
+    gap: afterOutage || windowStart > 0 ? { reason, skippedChars: windowStart > 0 ? windowStart : undefined } : undefined,
+  };
+}
+
+/** Last `RX_TAIL_FINGERPRINT_CHARS` characters of the previous tail plus newly read text. */
+export function nextRxTail(previousTail: string, text: string): string {
+  return (previousTail + text).slice(-RX_TAIL_FINGERPRINT_CHARS);
+}
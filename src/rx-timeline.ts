@@ -0,0 +1,116 @@
+/**
+ * Timeline of decoded RX chunks for the message currently being received.
+ *
+ * The poller records every chunk it pushes into the SentenceBuffer together
+ * with its arrival time and the latest WPM / S/N sample, plus every signal
+ * sample taken while the message is open. On flush the timeline is summarised
+ * into start/end times and min/avg/max statistics, so a long over carries its
+ * real TIME_ON/TIME_OFF and any QSB shows up as an S/N spread.
+ */
+
+/** Cap on segments kept per message; older segments are dropped, start time is kept */
+const MAX_SEGMENTS = 500;
+
+/** One decoded chunk as it arrived from fldigi */
+export interface RxSegment {
+  /** Arrival time (ISO 8601) */
+  at: string;
+  text: string;
+  /** WPM in effect when the chunk arrived */
+  wpm?: number;
+  /** S/N (dB) in effect when the chunk arrived */
+  snr?: number;
+}
+
+export interface MetricStats {
+  min: number;
+  avg: number;
+  max: number;
+  /** Number of samples the statistics are based on */
+  samples: number;
+}
+
+/** Summary of one flushed message */
+export interface RxMessageTimeline {
+  /** Arrival of the first chunk (ISO 8601) */
+  startTime: string;
+  /** Arrival of the last chunk (ISO 8601) */
+  endTime: string;
+  durationMs: number;
+  segments: RxSegment[];
+  wpm?: MetricStats;
+  snr?: MetricStats;
+}
+
+interface SignalSample {
+  wpm?: number;
+  snr?: number;
+}
+
+export class RxTimeline {
+  private segments: RxSegment[] = [];
+  private startMs: number | null = null;
+  private endMs = 0;
+  private wpmSamples: number[] = [];
+  private snrSamples: number[] = [];
+  private latest: SignalSample = {};
+
+  /** Record a WPM / S/N sample. Counted towards the open message, if any. */
+  addSignalSample(sample: SignalSample): void {
+    if (sample.wpm !== undefined) this.latest.wpm = sample.wpm;
+    if (sample.snr !== undefined) this.latest.snr = sample.snr;
+    if (this.startMs === null) return;
+    if (sample.wpm !== undefined) this.wpmSamples.push(sample.wpm);
+    if (sample.snr !== undefined) this.snrSamples.push(sample.snr);
+  }
+
+  /** Record a decoded chunk arriving at `atMs` (epoch ms). */
+  addChunk(text: string, atMs: number): void {
+    if (this.startMs === null) {
+      this.startMs = atMs;
+      // The sample in effect when the message started counts towards it
+      if (this.latest.wpm !== undefined) this.wpmSamples.push(this.latest.wpm);
+      if (this.latest.snr !== undefined) this.snrSamples.push(this.latest.snr);
+    }
+    this.endMs = atMs;
+    this.segments.push({ at: new Date(atMs).toISOString(), text, wpm: this.latest.wpm, snr: this.latest.snr });
+    if (this.segments.length > MAX_SEGMENTS) this.segments.shift();
+  }
+
+  /** Summarise the open message and start a new one. Returns null if nothing was recorded. */
+  takeMessage(): RxMessageTimeline | null {
+    if (this.startMs === null) return null;
+    const timeline: RxMessageTimeline = {
+      startTime: new Date(this.startMs).toISOString(),
+      endTime: new Date(this.endMs).toISOString(),
+      durationMs: this.endMs - this.startMs,
+      segments: this.segments,
+      wpm: stats(this.wpmSamples),
+      snr: stats(this.snrSamples),
+    };
+    this.clearMessage();
+    return timeline;
+  }
+
+  /** Drop the open message (e.g. fldigi buffer reset). Keeps the latest signal sample. */
+  clearMessage(): void {
+    this.segments = [];
+    this.startMs = null;
+    this.endMs = 0;
+    this.wpmSamples = [];
+    this.snrSamples = [];
+  }
+}
+
+function stats(samples: number[]): MetricStats | undefined {
+  if (samples.length === 0) return undefined;
+  let min = Infinity;
+  let max = -Infinity;
+  let sum = 0;
+  for (const value of samples) {
+    if (value < min) min = value;
+    if (value > max) max = value;
+    sum += value;
+  }
+  return { min, avg: Math.round((sum / samples.length) * 10) / 10, max, samples: samples.length };
+}
@@ -2,12 +2,24 @@
  * Accumulates decoded CW characters from the fldigi polling loop and
  * flushes complete messages based on silence timeout or prosign detection.
  *
+ * With adaptive silence, the timeout scales with the sender's speed: a number
+ * of word gaps (7 dits, 1200/WPM ms each) at the detected WPM, clamped to a
+ * range. Within one over the timeout never shrinks, and a long pause the
+ * sender made and then resumed from stretches it, so a slow or hesitant word
+ * doesn't split the message.
+ *
  * Prosigns that trigger an immediate flush:
  *   AR — end of message
  *   SK — end of contact
  *   K  — go ahead (end of word boundary, not mid-word "K")
  *   KN — go ahead, named station only
  *   BK — break
+ *
+ * Input is expected in canonical prosign tokens (see prosign.ts). BT, the
+ * paragraph separator, doesn't flush; it becomes a line break in the message.
+ *
+ * With onPartial, a long over is also reported while it is still being sent:
+ * the complete words so far, at every BT and every partialEveryWords words.
  */
 
 /** Prosigns that signal "my transmission is done" — flush immediately */
@@ -21,22 +33,91 @@ const FLUSH_PROSIGNS = [" AR", " SK", " KN", " BK"];
  */
 const K_PATTERN = / K$/;
 
+export interface AdaptiveSilenceOptions {
+  /** Silence, in word gaps at the detected WPM, that ends an over */
+  wordGaps: number;
+  /** Multiplier on the longest pause already seen within the open over */
+  hysteresis: number;
+  minMs: number;
+  maxMs: number;
+}
+
 export interface SentenceBufferOptions {
-  /** Silence duration (ms) before auto-flushing the buffer. Default 3000. */
+  /** Silence duration (ms) before auto-flushing; with adaptive silence, used until a WPM is known. Default 3000. */
   silenceThresholdMs?: number;
+  /** Derive the silence duration from the detected WPM (see setWpm) */
+  adaptiveSilence?: AdaptiveSilenceOptions;
+  /** Run the silence timer. Replay disables it and judges silence on recorded time. Default true. */
+  silenceTimer?: boolean;
+  /** Clock for measuring pauses between pushes. Default Date.now. */
+  now?: () => number;
+  /** Called with the over so far (complete words only) while it is still open */
+  onPartial?: PartialCallback;
+  /** Report a partial every this many words; 0 = only at BT. Default 10. */
+  partialEveryWords?: number;
 }
 
-export type FlushCallback = (message: string) => void;
+/** Why a message was flushed: a go-ahead prosign, the silence timer, or an explicit flush() */
+export type FlushReason = "prosign" | "silence" | "forced";
+
+/** `silenceThresholdMs` is the silence timeout in effect when the message was flushed */
+export type FlushCallback = (message: string, reason: FlushReason, silenceThresholdMs: number) => void;
+
+export type PartialCallback = (message: string) => void;
+
+const DIT_MS_AT_1_WPM = 1200;
+const DITS_PER_WORD_GAP = 7;
+
+/** Silence timeout (ms) for a sender at `wpm`: `wordGaps` word gaps, clamped to [minMs, maxMs]. */
+export function silenceThresholdForWpm(wpm: number, options: AdaptiveSilenceOptions): number {
+  const wordGapMs = (DIT_MS_AT_1_WPM / wpm) * DITS_PER_WORD_GAP;
+  return clamp(Math.round(wordGapMs * options.wordGaps), options.minMs, options.maxMs);
+}
 
 export class SentenceBuffer {
   private buffer = "";
   private silenceTimer: ReturnType<typeof setTimeout> | null = null;
-  private readonly silenceThresholdMs: number;
+  private readonly defaultThresholdMs: number;
+  private readonly adaptive: AdaptiveSilenceOptions | undefined;
+  private readonly timerEnabled: boolean;
+  private readonly now: () => number;
   private readonly onFlush: FlushCallback;
+  private readonly onPartial: PartialCallback | undefined;
+  private readonly partialEveryWords: number;
+  private wpm: number | undefined;
+  /** Highest timeout used in the open over (the timeout only ratchets up until flush) */
+  private overThresholdMs = 0;
+  private longestPauseMs = 0;
+  private lastPushAt: number | null = null;
+  /** Words and BTs in the open over when the last partial was reported */
+  private partialWords = 0;
+  private partialParagraphs = 0;
 
   constructor(onFlush: FlushCallback, options: SentenceBufferOptions = {}) {
-    this.silenceThresholdMs = options.silenceThresholdMs ?? 3000;
+    this.defaultThresholdMs = options.silenceThresholdMs ?? 3000;
+    this.adaptive = options.adaptiveSilence;
+    this.timerEnabled = options.silenceTimer ?? true;
+    this.now = options.now ?? Date.now;
     this.onFlush = onFlush;
+    this.onPartial = options.onPartial;
+    this.partialEveryWords = options.partialEveryWords ?? 10;
+  }
+
+  /** Tell the buffer the sender's detected speed (adaptive silence only). */
+  setWpm(wpm: number | undefined): void {
+    if (wpm !== undefined && Number.isFinite(wpm) && wpm > 0) {
+      this.wpm = wpm;
+    }
+  }
+
+  /** Silence timeout (ms) that currently applies to the open over. */
+  get silenceThresholdMs(): number {
+    if (!this.adaptive) return this.defaultThresholdMs;
+    const base = this.wpm !== undefined
+      ? silenceThresholdForWpm(this.wpm, this.adaptive)
+      : clamp(this.defaultThresholdMs, this.adaptive.minMs, this.adaptive.maxMs);
+    const stretched = Math.round(this.longestPauseMs * this.adaptive.hysteresis);
+    return Math.max(base, this.overThresholdMs, Math.min(stretched, this.adaptive.maxMs));
   }
 
   /**
@@ -46,29 +127,40 @@ export class SentenceBuffer {
   push(text: string): void {
     if (!text) return;
 
+    const now = this.now();
+    if (this.buffer && this.lastPushAt !== null) {
+      this.longestPauseMs = Math.max(this.longestPauseMs, now - this.lastPushAt);
+    }
+    this.lastPushAt = now;
     this.buffer += text;
+    this.overThresholdMs = this.silenceThresholdMs;
     this.resetSilenceTimer();
 
     if (this.shouldFlushOnProsign()) {
-      this.flush();
+      this.flush("prosign");
+    } else {
+      this.reportPartial();
     }
   }
 
   /** Force-flush whatever is in the buffer. No-op if buffer is empty. */
-  flush(): void {
+  flush(reason: FlushReason = "forced"): void {
     this.clearSilenceTimer();
 
+    const thresholdMs = this.silenceThresholdMs;
     const message = this.normalize(this.buffer);
     this.buffer = "";
+    this.resetOver();
 
     if (message) {
-      this.onFlush(message);
+      this.onFlush(message, reason, thresholdMs);
     }
   }
 
   /** Discard buffer contents and cancel pending timers. */
   reset(): void {
     this.buffer = "";
+    this.resetOver();
     this.clearSilenceTimer();
   }
 
@@ -100,11 +192,36 @@ export class SentenceBuffer {
 
   private resetSilenceTimer(): void {
     this.clearSilenceTimer();
+    if (!this.timerEnabled) return;
     this.silenceTimer = setTimeout(() => {
-      this.flush();
+      this.flush("silence");
     }, this.silenceThresholdMs);
   }
 
+  private resetOver(): void {
+    this.overThresholdMs = 0;
+    this.longestPauseMs = 0;
+    this.lastPushAt = null;
+    this.partialWords = 0;
+    this.partialParagraphs = 0;
+  }
+
+  /** Report the complete words so far if a BT or another partialEveryWords words arrived */
+  private reportPartial(): void {
+    if (!this.onPartial) return;
+    const complete = this.buffer.slice(0, this.buffer.search(/\s\S*$/) + 1);
+    const tokens = complete.split(/\s+/).filter(Boolean);
+    const paragraphs = tokens.filter((token) => /^BT$/i.test(token)).length;
+    const words = tokens.length - paragraphs;
+    const wordsDue = this.partialEveryWords > 0 && words - this.partialWords >= this.partialEveryWords;
+    if (!wordsDue && paragraphs <= this.partialParagraphs) return;
+
+    this.partialWords = words;
+    this.partialParagraphs = paragraphs;
+    const message = this.normalize(complete);
+    if (message) this.onPartial(message);
+  }
+
   private clearSilenceTimer(): void {
     if (this.silenceTimer) {
       clearTimeout(this.silenceTimer);
@@ -112,8 +229,17 @@ export class SentenceBuffer {
     }
   }
 
-  /** Strip edges and collapse internal whitespace runs. */
+  /** Strip edges, collapse internal whitespace runs and break paragraphs at BT. */
   private normalize(text: string): string {
-    return text.replace(/\s+/g, " ").trim();
+    return text
+      .replace(/\s+/g, " ")
+      .split(/\bBT\b/i)
+      .map((paragraph) => paragraph.trim())
+      .filter(Boolean)
+      .join("\n");
   }
 }
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
@@ -1,31 +1,55 @@
 /**
  * Background service for the morse-radio channel.
- * Hosts the fldigi polling loop and dispatches inbound decoded text to OpenClaw.
+ * Hosts the fldigi polling loop (and the rtl_fm pipeline of SDR receivers) and
+ * dispatches inbound decoded text to OpenClaw.
  */
 
 import os from "node:os";
 import path from "node:path";
 import type { OpenClawApi, ServiceDefinition } from "./openclaw-api.js";
-import { resolveConfig, validateConfig, type ChannelConfig, type PartialChannelConfig } from "./config.js";
+import {
+  receiverChannelConfig, resolveConfig, validateConfig, type ChannelConfig, type PartialChannelConfig, type ReceiverConfig,
+} from "./config.js";
 import { FldigiPoller, type FldigiPollerCallbacks, type ChannelStatus } from "./fldigi-poller.js";
-import { AdifLogger, frequencyToBand } from "./adif.js";
+import { RtlSdrManager } from "./rtlsdr-manager.js";
+import { createReplayPollerFactory } from "./replay-poller.js";
+import type { FldigiCapabilityReport } from "./fldigi-client.js";
+import { AdifLogger, createRecord, frequencyToBand, type AdifRecord } from "./adif.js";
 import { scoreMessageConfidence } from "./decode-quality.js";
-import { extractQsoFields, lowConfidenceFields, type ExtractedQsoFields } from "./qso-extract.js";
+import { extractQsoFields, lowConfidenceFields, type ExtractedQsoFields, type QsoExtractOptions } from "./qso-extract.js";
 import { QsoMemoryStore, type QsoMemoryRecord } from "./qso-memory.js";
-import { isCallsign } from "./callsign.js";
-import { fuzzyMatchCallsign, type Confidence } from "./fuzzy-match.js";
+import { QsoReviewQueue, formatPendingQsos, type PendingQso, type PendingQsoEdit } from "./qso-review.js";
+import { extractSenderObservations, isCallsign } from "./callsign.js";
+import { CallsignObservations } from "./callsign-observations.js";
+import { CallHistory, crossCheckExchange, type CallHistoryCandidate, type CallHistoryEntry } from "./call-history.js";
+import { DxccDatabase } from "./dxcc.js";
+import { QsoTracker, isLoggable, type QsoState } from "./qso-tracker.js";
+import type { TransmitLog } from "./transmitter.js";
+import { glossCw } from "./cw-abbreviations.js";
+import { matchKnownCallsign, mergeObservations, type Confidence } from "./fuzzy-match.js";
 import { createCallsignLookupService, type CallsignProfile } from "./callsign-lookup.js";
+import { ReceiverRouter } from "./receiver-router.js";
+import { PipelineMetrics, type MetricsSnapshot } from "./metrics.js";
+import { startMetricsServer, type MetricsServer } from "./metrics-server.js";
+import type { TranscriptEntry } from "./transcript-journal.js";
 
 interface PollerLike {
   start(): Promise<void>;
   stop(): Promise<void>;
   getDetectedWpm?(): number | undefined;
+  getCapabilities?(): FldigiCapabilityReport | null;
+}
+
+interface SdrManagerLike {
+  start(): Promise<void>;
+  stop(): Promise<void>;
 }
 
 interface DupeStore {
   initialize(): void;
   loadExisting(): void;
   isDupe(call: string, band: string): boolean;
+  log(record: AdifRecord): void;
 }
 
 interface MemoryStore {
@@ -35,42 +59,109 @@ interface MemoryStore {
   getKnownCallsigns(): string[];
 }
 
+interface JournalStore {
+  initialize(): void;
+  append(entry: TranscriptEntry): void;
+  /** Write buffered entries out */
+  flush?(): void;
+}
+
 interface CallsignLookup {
   lookup(callsign: string): Promise<CallsignProfile | null>;
 }
 
+interface CallHistoryStore {
+  search(partial: string, limit?: number): CallHistoryCandidate[];
+  lookup(callsign: string): CallHistoryEntry | undefined;
+}
+
 export interface ServiceOptions {
   config?: PartialChannelConfig;
-  createPoller?: (config: ChannelConfig, callbacks: FldigiPollerCallbacks) => PollerLike;
+  createPoller?: (config: ChannelConfig, callbacks: FldigiPollerCallbacks, metrics: PipelineMetrics) => PollerLike;
+  /** rtl_fm pipeline for each receiver with sdr.enabled; started before its poller */
+  createSdrManager?: (receiver: ReceiverConfig, metrics: PipelineMetrics) => SdrManagerLike;
   adifPath?: string;
   memoryPath?: string;
+  /** Pending-review queue for QSOs with low-confidence fields */
+  reviewPath?: string;
   createDupeStore?: (filePath: string) => DupeStore;
   createMemoryStore?: (filePath: string) => MemoryStore;
-  extractFields?: (text: string, options?: { peerHint?: string }) => ExtractedQsoFields;
-  onPollerCreated?: (poller: PollerLike) => void;
-  onStatusChange?: (status: ChannelStatus) => void;
+  extractFields?: (text: string, options?: QsoExtractOptions) => ExtractedQsoFields;
+  /** Called once per receiver with the poller created for it */
+  onPollerCreated?: (poller: PollerLike, receiverId: string) => void;
+  /** Receiver status changes, with the capability report of the receiver's fldigi build once probed */
+  onStatusChange?: (status: ChannelStatus, receiverId: string, capabilities: FldigiCapabilityReport | null) => void;
   onStop?: () => Promise<void> | void;
   callsignLookup?: CallsignLookup;
+  /** SCP/call history; default: loaded from config.callHistory paths on start */
+  callHistory?: CallHistoryStore;
+  /** DXCC country file; default: loaded from config.dxcc.ctyPath on start */
+  dxcc?: DxccDatabase;
+  /** Shared with the outbound handler so replies go out via the receiver a peer was heard on */
+  receiverRouter?: ReceiverRouter;
+  /** Shared with the transmitters so TX counts land in the same registry */
+  metrics?: PipelineMetrics;
+  /** Raw RX transcript sink; shared with the transmitters so TX text lands in the same journal */
+  journal?: JournalStore;
+  /** Per-peer QSO stages; our own overs come in through noteTransmit() */
+  qsoTracker?: QsoTracker;
+}
+
+export interface MorseRadioService extends ServiceDefinition {
+  /** Current pipeline metrics (the same data the metrics endpoint exports) */
+  getMetrics(): MetricsSnapshot;
+  /** Move the QSO with the addressed peer along; logs it when our transmission signs it off */
+  noteTransmit(log: TransmitLog): void;
+  /** Sign off and log (or queue for review) the QSO with a peer on the agent's word; false when there is none */
+  closeQso(peer: string): boolean;
+  /** QSOs awaiting operator review, oldest first */
+  listPendingQsos(): PendingQso[];
+  /** Send the review queue to the agent as an inbound message from `peer`; returns the number of entries */
+  reportPendingQsos(peer: string): number;
+  /** Correct fields of a pending QSO; null when there is no such entry */
+  editPendingQso(id: string, changes: PendingQsoEdit): PendingQso | null;
+  /** Write a pending QSO to the log; false when there is no such entry or logging fails */
+  approvePendingQso(id: string): boolean;
+  /** Drop a pending QSO without logging it; false when there is no such entry */
+  rejectPendingQso(id: string): boolean;
 }
 
 const CHANNEL_ID = "morse-radio";
 const LOW_CONFIDENCE_PREFIX = "[LOW-CONFIDENCE]";
 const DUPE_PREFIX = "[DUPE]";
+const REVIEW_PREFIX = "[REVIEW]";
 
-export function createService(api: OpenClawApi, options: ServiceOptions = {}): ServiceDefinition {
+export function createService(api: OpenClawApi, options: ServiceOptions = {}): MorseRadioService {
   const config = resolveConfig(options.config ?? {});
-  const createPoller = options.createPoller ?? ((cfg, callbacks) => new FldigiPoller(cfg, callbacks));
+  const createPoller = options.createPoller ?? (config.replay.path
+    ? createReplayPollerFactory(config)
+    : (cfg, callbacks, metrics) => new FldigiPoller(cfg, callbacks, metrics));
+  const createSdrManager = options.createSdrManager ?? ((receiver, metrics) => new RtlSdrManager(
+    { sdr: receiver.sdr, frequency: receiver.frequency, metrics, receiverId: receiver.id },
+    { onStatusChange: (status) => console.log(`[morse-radio-service] SDR ${receiver.id}: ${status}`) },
+  ));
   const adifPath = options.adifPath ?? path.join(os.homedir(), ".openclaw", "cqlaw", "log.adi");
   const memoryPath = options.memoryPath ?? path.join(os.homedir(), ".openclaw", "cqlaw", "qso-memory.json");
+  const reviewPath = options.reviewPath ?? path.join(os.homedir(), ".openclaw", "cqlaw", "pending-qsos.json");
   const createDupeStore = options.createDupeStore ?? ((filePath) => new AdifLogger(filePath));
   const createMemoryStore = options.createMemoryStore ?? ((filePath) => new QsoMemoryStore(filePath));
   const extractFields = options.extractFields ?? extractQsoFields;
   const callsignLookup = options.callsignLookup ?? createCallsignLookupService(config);
+  const receiverRouter = options.receiverRouter ?? new ReceiverRouter();
+  const journal = options.journal;
+  const metrics = options.metrics ?? new PipelineMetrics();
+  const qsoTracker = options.qsoTracker ?? new QsoTracker({ ownCall: config.tx.callsign });
 
   const dupeStore = createDupeStore(adifPath);
   const memoryStore = createMemoryStore(memoryPath);
+  const reviewQueue = new QsoReviewQueue(reviewPath);
+  const qsoLog: QsoLog = { config, dupeStore, memoryStore, reviewQueue, qsoTracker };
 
-  let poller: PollerLike | null = null;
+  let callHistory: CallHistoryStore | null = options.callHistory ?? null;
+  let dxcc: DxccDatabase | null = options.dxcc ?? null;
+  const pollers = new Map<string, PollerLike>();
+  const sdrManagers = new Map<string, SdrManagerLike>();
+  let metricsServer: MetricsServer | null = null;
   let started = false;
 
   return {
@@ -89,23 +180,64 @@ export function createService(api: OpenClawApi, options: ServiceOptions = {}): S
         return;
       }
 
-      console.log(`[morse-radio-service] Starting with fldigi at ${config.fldigi.host}:${config.fldigi.port}`);
       dupeStore.initialize();
       dupeStore.loadExisting();
       memoryStore.initialize();
+      reviewQueue.initialize();
+      journal?.initialize();
+      callHistory ??= loadCallHistory(config);
+      dxcc ??= loadDxcc(config);
 
-      poller = createPoller(config, {
-        onMessage: (text, peer, metadata) => {
-          void dispatchEnrichedInbound(api, text, peer, metadata, config, dupeStore, memoryStore, extractFields, callsignLookup);
-        },
-        onStatusChange: (status) => {
-          console.log(`[morse-radio-service] Status: ${status}`);
-          options.onStatusChange?.(status);
-        },
-      });
-      options.onPollerCreated?.(poller);
+      for (const receiver of config.receivers) {
+        const receiverConfig = receiverChannelConfig(config, receiver);
+        const label = config.receivers.length > 1 ? ` ${receiver.id}` : "";
+        const observations = new CallsignObservations();
+        const source = config.replay.path
+          ? `replaying ${config.replay.path}`
+          : `with fldigi at ${receiver.fldigi.host}:${receiver.fldigi.port}`;
+        console.log(`[morse-radio-service] Starting receiver${label} ${source} (${receiver.frequency} Hz)`);
 
-      await poller.start();
+        const poller = createPoller(receiverConfig, {
+          onMessage: (text, peer, metadata) => {
+            void dispatchEnrichedInbound(
+              api, text, peer, { ...metadata, receiverId: receiver.id }, receiverConfig,
+              dupeStore, memoryStore, extractFields, callsignLookup, receiverRouter, observations, callHistory, dxcc, qsoLog,
+            ).catch((err) => {
+              console.error(`[morse-radio-service] Failed to dispatch message from ${peer}: ${err instanceof Error ? err.message : err}`);
+            });
+          },
+          onPartial: (text, peer, metadata) => {
+            dispatchPartialInbound(api, text, peer, { ...metadata, receiverId: receiver.id }, extractFields, dxcc);
+          },
+          onStatusChange: (status) => {
+            const capabilities = pollers.get(receiver.id)?.getCapabilities?.() ?? null;
+            const version = status === "connected" && capabilities ? ` (fldigi ${capabilities.version})` : "";
+            console.log(`[morse-radio-service] Status${label}: ${status}${version}`);
+            options.onStatusChange?.(status, receiver.id, capabilities);
+          },
+          onRxChunk: journal
+            ? (chunk) => journal.append({ type: "rx", receiverId: receiver.id, ...chunk })
+            : undefined,
+          onRxGap: journal
+            ? (gap) => journal.append({ type: "gap", timestamp: gap.detectedAt, receiverId: receiver.id, frequency: receiver.frequency, ...gap })
+            : undefined,
+        }, metrics);
+        pollers.set(receiver.id, poller);
+        options.onPollerCreated?.(poller, receiver.id);
+        if (receiver.sdr.enabled) sdrManagers.set(receiver.id, createSdrManager(receiver, metrics));
+      }
+
+      if (config.metrics.enabled) {
+        try {
+          metricsServer = await startMetricsServer(metrics.registry, config.metrics);
+          console.log(`[morse-radio-service] Metrics on http://${config.metrics.host}:${metricsServer.port}/metrics`);
+        } catch (err) {
+          console.error(`[morse-radio-service] Metrics endpoint failed to start: ${err instanceof Error ? err.message : err}`);
+        }
+      }
+
+      await Promise.all([...sdrManagers.values()].map((sdr) => sdr.start()));
+      await Promise.all([...pollers.values()].map((poller) => poller.start()));
     },
 
     async stop() {
@@ -113,15 +245,69 @@ export function createService(api: OpenClawApi, options: ServiceOptions = {}): S
       started = false;
 
       console.log("[morse-radio-service] Stopping...");
-      if (poller) {
-        await poller.stop();
-        poller = null;
-      }
+      await Promise.all([...pollers.values()].map((poller) => poller.stop()));
+      pollers.clear();
+      await Promise.all([...sdrManagers.values()].map((sdr) => sdr.stop()));
+      sdrManagers.clear();
+      await metricsServer?.close();
+      metricsServer = null;
       try {
         await options.onStop?.();
       } catch (err) {
         console.error(`[morse-radio-service] stop hook failed: ${err instanceof Error ? err.message : err}`);
       }
+      journal?.flush?.();
+    },
+
+    getMetrics() {
+      return metrics.snapshot();
+    },
+
+    noteTransmit(log) {
+      const endTime = new Date(Date.parse(log.timestamp) + log.durationSeconds * 1000).toISOString();
+      const qso = qsoTracker.noteTransmit(log.peerCall, log.text, log.intent, {
+        startTime: log.timestamp, endTime, frequency: log.frequency, wpm: log.wpm,
+      });
+      if (qso && isLoggable(qso)) commitQso(qso, qsoLog);
+    },
+
+    closeQso(peer) {
+      const qso = qsoTracker.close(peer);
+      return !!qso && isLoggable(qso, true) && commitQso(qso, qsoLog) !== null;
+    },
+
+    listPendingQsos() {
+      return reviewQueue.list();
+    },
+
+    reportPendingQsos(peer) {
+      const entries = reviewQueue.list();
+      api.dispatchInbound({
+        text: `${REVIEW_PREFIX} ${formatPendingQsos(entries)}`,
+        peer,
+        channel: CHANNEL_ID,
+        metadata: { pendingQsos: entries },
+      });
+      return entries.length;
+    },
+
+    editPendingQso(id, changes) {
+      return reviewQueue.edit(id, changes);
+    },
+
+    approvePendingQso(id) {
+      const entry = reviewQueue.get(id);
+      if (!entry || !writeLogEntry(entry.record, entry.startedAt, entry.frequency, qsoLog)) return false;
+      reviewQueue.remove(id);
+      qsoTracker.markLogged(entry.peer);
+      console.log(`[morse-radio-service] Pending QSO #${id} with ${entry.record.call} approved and logged`);
+      return true;
+    },
+
+    rejectPendingQso(id) {
+      const removed = reviewQueue.remove(id);
+      if (removed) console.log(`[morse-radio-service] Pending QSO #${id} rejected`);
+      return removed;
     },
   };
 }
@@ -134,10 +320,20 @@ async function dispatchEnrichedInbound(
   config: ChannelConfig,
   dupeStore: DupeStore,
   memoryStore: MemoryStore,
-  extractFields: (text: string, options?: { peerHint?: string }) => ExtractedQsoFields,
+  extractFields: (text: string, options?: QsoExtractOptions) => ExtractedQsoFields,
   callsignLookup: CallsignLookup,
+  receiverRouter: ReceiverRouter,
+  observations: CallsignObservations,
+  callHistory: CallHistoryStore | null,
+  dxcc: DxccDatabase | null,
+  qsoLog: QsoLog,
 ): Promise<void> {
-  const enriched = await enrichInbound(text, peer, metadata, config, dupeStore, memoryStore, extractFields, callsignLookup);
+  const enriched = await enrichInbound(
+    text, peer, metadata, config, dupeStore, memoryStore, extractFields, callsignLookup, observations, callHistory, dxcc, qsoLog,
+  );
+  if (typeof metadata.receiverId === "string") {
+    receiverRouter.noteHeard(enriched.peer, metadata.receiverId, config.frequency);
+  }
   api.dispatchInbound({
     text: enriched.text,
     peer: enriched.peer,
@@ -146,6 +342,31 @@ async function dispatchEnrichedInbound(
   });
 }
 
+/**
+ * Dispatch an over that is still being sent so the agent can start on a reply.
+ * Only side-effect-free enrichment applies: logging, memory and lookups wait
+ * for the final message with the same overId.
+ */
+function dispatchPartialInbound(
+  api: OpenClawApi,
+  text: string,
+  peer: string,
+  metadata: Record<string, unknown>,
+  extractFields: (text: string, options?: QsoExtractOptions) => ExtractedQsoFields,
+  dxcc: DxccDatabase | null,
+): void {
+  api.dispatchInbound({
+    text,
+    peer,
+    channel: CHANNEL_ID,
+    metadata: {
+      ...metadata,
+      qsoFields: extractFields(text, { peerHint: isCallsign(peer) ? peer : undefined, dxcc }),
+      gloss: glossCw(text),
+    },
+  });
+}
+
 interface EnrichedInbound {
   text: string;
   peer: string;
@@ -159,40 +380,101 @@ async function enrichInbound(
   config: ChannelConfig,
   dupeStore: DupeStore,
   memoryStore: MemoryStore,
-  extractFields: (text: string, options?: { peerHint?: string }) => ExtractedQsoFields,
+  extractFields: (text: string, options?: QsoExtractOptions) => ExtractedQsoFields,
   callsignLookup: CallsignLookup,
+  observations: CallsignObservations,
+  callHistory: CallHistoryStore | null,
+  dxcc: DxccDatabase | null,
+  qsoLog: QsoLog,
 ): Promise<EnrichedInbound> {
+  const { qsoTracker, reviewQueue } = qsoLog;
   const messageConfidence = scoreMessageConfidence(text);
-  const fields = extractFields(text, { peerHint: isCallsign(peer) ? peer : undefined });
+  const fields = extractFields(text, { peerHint: isCallsign(peer) ? peer : undefined, dxcc });
   const knownCallsigns = memoryStore.getKnownCallsigns();
 
+  // Merge every copy of the sender's call heard so far, in this over and earlier ones
+  const senderCalls = extractSenderObservations(text);
+  const station = observations.observe(
+    senderCalls.length > 0 ? senderCalls : fields.callsign ? [fields.callsign.value] : [],
+    peer,
+  );
+  // The merge only stands in for a copy of the sender's call we could not read
+  // cleanly, or confirms it; it never overwrites a clean copy with another call
+  const heard = senderCalls.length > 0 ? mergeObservations(senderCalls) : fields.callsign;
+  const doubtfulCall = !heard || heard.value.includes("?") || heard.confidence === "low";
+  if (station && station.observations > 1 && (doubtfulCall || station.value === heard.value)) {
+    fields.callsign = { value: station.value, confidence: station.confidence };
+  }
+
+  let callsignCorrection: { decoded: string; distance: number } | undefined;
   if (fields.callsign && (fields.callsign.value.includes("?") || fields.callsign.confidence === "low")) {
-    const matched = fuzzyMatchCallsign(fields.callsign.value, knownCallsigns, 2);
+    const matched = matchKnownCallsign(fields.callsign.value, knownCallsigns, 2);
     if (matched) {
-      fields.callsign = { value: matched.toUpperCase(), confidence: "medium" };
+      callsignCorrection = { decoded: fields.callsign.value, distance: matched.distance };
+      fields.callsign = { value: matched.callsign.toUpperCase(), confidence: matched.confidence };
     }
   }
 
+  // Super Check Partial: ranked completions of a call we are still unsure of
+  const callsignCandidates = callHistory && fields.callsign
+    && (fields.callsign.value.includes("?") || fields.callsign.confidence !== "high")
+    ? callHistory.search(fields.callsign.value, 5)
+    : undefined;
+
   const lowFields = lowConfidenceFields(fields);
 
   const callsign = fields.callsign?.value ?? (isCallsign(peer) ? peer.toUpperCase() : undefined);
-  const band = frequencyToBand(config.frequency) ?? "unknown";
+  // Receivers sit on different bands: dupes are per band of the receiver that heard the call
+  const frequency = typeof metadata.frequency === "number" && metadata.frequency > 0 ? metadata.frequency : config.frequency;
+  const band = frequencyToBand(frequency) ?? "unknown";
   const previousContacts = callsign ? memoryStore.getByCallsign(callsign) : [];
   const callsignProfile = callsign ? await callsignLookup.lookup(callsign) : null;
   const previousQsoContext = previousContacts.length > 0
     ? summarizePreviousQso(previousContacts[0])
     : undefined;
   const isDupeCall = callsign ? dupeStore.isDupe(callsign, band) : false;
+  const entity = callsign ? dxcc?.resolve(callsign) ?? undefined : undefined;
+  const expectedExchange = callsign ? callHistory?.lookup(callsign) : undefined;
+  const decodedZone = fields.zone ? Number.parseInt(fields.zone.value, 10) : Number.NaN;
+  const exchangeMismatches = expectedExchange
+    ? crossCheckExchange(expectedExchange, {
+      name: fields.name?.value,
+      zone: Number.isFinite(decodedZone) ? decodedZone : undefined,
+    })
+    : undefined;
+
+  for (const stale of qsoTracker.expire()) {
+    console.log(`[morse-radio-service] QSO with ${stale.peer} abandoned (missing: ${stale.missing.join(", ") || "none"})`);
+  }
+  const qso = callsign
+    ? qsoTracker.noteInbound(callsign, text, fields, {
+      startTime: typeof metadata.startTime === "string" ? metadata.startTime : undefined,
+      endTime: typeof metadata.endTime === "string" ? metadata.endTime : undefined,
+      frequency,
+    }) ?? undefined
+    : undefined;
+  if (qso && isLoggable(qso)) {
+    const outcome = commitQso(qso, qsoLog);
+    if (outcome === "logged") qso.logged = true;
+    else if (outcome) qso.reviewId = outcome.id;
+  }
+  const pendingReview = qso?.reviewId ? reviewQueue.get(qso.reviewId) : undefined;
 
   if (callsign) {
     memoryStore.addRecord({
       callsign,
-      timestamp: new Date().toISOString(),
-      frequency: config.frequency,
+      timestamp: typeof metadata.startTime === "string" ? metadata.startTime : new Date().toISOString(),
+      frequency,
       band,
       rstRcvd: fields.rstRcvd?.value,
       name: fields.name?.value,
       qth: fields.qth?.value,
+      rig: fields.rig?.value,
+      antenna: fields.antenna?.value,
+      power: fields.power?.value,
+      weather: fields.weather?.value,
+      age: fields.age?.value,
+      grid: fields.grid?.value,
       remarks: text,
       note: "inbound",
     });
@@ -203,6 +485,9 @@ async function enrichInbound(
     tags.push(DUPE_PREFIX);
     console.warn(`[morse-radio-service] Duplicate contact detected: ${callsign} on ${band}`);
   }
+  if (pendingReview) {
+    tags.push(REVIEW_PREFIX);
+  }
   if (messageConfidence === "low" || lowFields.length > 0) {
     tags.push(LOW_CONFIDENCE_PREFIX);
     console.warn(`[morse-radio-service] Low-confidence decode${lowFields.length ? ` (${lowFields.join(", ")})` : ""}: ${text}`);
@@ -216,9 +501,22 @@ async function enrichInbound(
     peer: finalPeer,
     metadata: {
       ...metadata,
+      frequency,
+      band,
       decodeConfidence: messageConfidence as Confidence,
       lowConfidenceFields: lowFields,
       qsoFields: fields,
+      callsignCorrection,
+      callsignObservations: station ? { count: station.observations, characters: station.characters } : undefined,
+      callsignCandidates,
+      expectedExchange,
+      exchangeMismatches,
+      dxcc: entity,
+      qso,
+      pendingReview: pendingReview
+        ? { id: pendingReview.id, lowConfidenceFields: pendingReview.lowConfidenceFields }
+        : undefined,
+      gloss: glossCw(text),
       dupe: isDupeCall,
       previousContacts,
       previousQsoContext,
@@ -227,6 +525,94 @@ async function enrichInbound(
   };
 }
 
+/** Where completed QSOs go: the ADIF log and QSO memory, or the review queue */
+interface QsoLog {
+  config: ChannelConfig;
+  dupeStore: DupeStore;
+  memoryStore: MemoryStore;
+  reviewQueue: QsoReviewQueue;
+  qsoTracker: QsoTracker;
+}
+
+/**
+ * Write a completed QSO to the log, or queue it for operator review when a
+ * field was copied at low confidence. Returns "logged", the pending entry,
+ * or null when logging failed.
+ */
+function commitQso(qso: QsoState, log: QsoLog): "logged" | PendingQso | null {
+  const frequency = qso.frequency ?? log.config.frequency;
+  const record = createRecord(qso.peer, frequency, {
+    startTime: new Date(qso.startedAt),
+    endTime: new Date(qso.lastActivity),
+    rstSent: qso.rstSent,
+    rstRcvd: qso.rstRcvd,
+    name: qso.name,
+    qth: qso.qth,
+    gridsquare: qso.grid,
+    rig: stationDescription(qso.rig, qso.antenna),
+    rxPwr: qso.power,
+    age: qso.age,
+    comment: qso.wpm ? `${qso.wpm} WPM` : undefined,
+  });
+
+  if (qso.lowConfidenceFields.length > 0) {
+    const pending = log.reviewQueue.add({
+      peer: qso.peer,
+      startedAt: qso.startedAt,
+      frequency,
+      record,
+      lowConfidenceFields: qso.lowConfidenceFields,
+    });
+    log.qsoTracker.markPendingReview(qso.peer, pending.id);
+    console.warn(
+      `[morse-radio-service] QSO with ${qso.peer} awaits review as #${pending.id} (doubtful: ${qso.lowConfidenceFields.join(", ")})`,
+    );
+    return pending;
+  }
+
+  if (!writeLogEntry(record, qso.startedAt, frequency, log)) return null;
+  log.qsoTracker.markLogged(qso.peer);
+  return "logged";
+}
+
+/**
+ * Write a log entry to the ADIF log and, as one consolidated entry, to QSO
+ * memory. Returns whether it was logged.
+ */
+function writeLogEntry(record: AdifRecord, startedAt: string, frequency: number, log: QsoLog): boolean {
+  try {
+    log.dupeStore.log(record);
+  } catch (err) {
+    console.error(`[morse-radio-service] Logging QSO with ${record.call} failed: ${err instanceof Error ? err.message : err}`);
+    return false;
+  }
+  log.memoryStore.addRecord({
+    callsign: record.call,
+    timestamp: startedAt,
+    frequency,
+    band: record.band,
+    rstSent: record.rstSent,
+    rstRcvd: record.rstRcvd,
+    name: record.name,
+    qth: record.qth,
+    rig: record.rig,
+    power: record.rxPwr,
+    age: record.age,
+    grid: record.gridsquare,
+    note: "logged",
+  });
+  return true;
+}
+
+/**
+ * ADIF's RIG describes the contacted station's equipment; its ANT_* fields
+ * are our own antenna's pointing, so the peer's antenna goes into RIG too.
+ */
+function stationDescription(rig: string | undefined, antenna: string | undefined): string | undefined {
+  const parts = [rig, antenna ? `ANT ${antenna}` : undefined].filter(Boolean);
+  return parts.length > 0 ? parts.join(" ") : undefined;
+}
+
 function summarizePreviousQso(record: QsoMemoryRecord): Record<string, unknown> {
   return {
     lastContactTimestamp: record.timestamp,
@@ -235,6 +621,39 @@ function summarizePreviousQso(record: QsoMemoryRecord): Record<string, unknown>
     lastRstRcvd: record.rstRcvd,
     lastName: record.name,
     lastQth: record.qth,
+    lastRig: record.rig,
+    lastGrid: record.grid,
     lastRemarks: record.remarks,
   };
 }
+
+/** SCP and call history files named in the config; null when none is configured or loads */
+function loadCallHistory(config: ChannelConfig): CallHistory | null {
+  const paths = [config.callHistory.scpPath, config.callHistory.historyPath].filter(Boolean);
+  if (paths.length === 0) return null;
+
+  const history = new CallHistory();
+  for (const filePath of paths) {
+    try {
+      history.loadFile(filePath);
+    } catch (err) {
+      console.error(`[morse-radio-service] Call history ${filePath} failed to load: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+  console.log(`[morse-radio-service] Call history: ${history.size} calls`);
+  return history.size > 0 ? history : null;
+}
+
+/** Country file named in the config; null when none is configured or loads */
+function loadDxcc(config: ChannelConfig): DxccDatabase | null {
+  if (!config.dxcc.ctyPath) return null;
+  const dxcc = new DxccDatabase();
+  try {
+    dxcc.loadFile(config.dxcc.ctyPath);
+  } catch (err) {
+    console.error(`[morse-radio-service] Country file ${config.dxcc.ctyPath} failed to load: ${err instanceof Error ? err.message : err}`);
+    return null;
+  }
+  console.log(`[morse-radio-service] Country file: ${dxcc.size} DXCC entities`);
+  return dxcc.size > 0 ? dxcc : null;
+}
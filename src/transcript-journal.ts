@@ -0,0 +1,230 @@
+/**
+ * Append-only transcript journal (JSONL) of everything heard and sent.
+ *
+ * One line per raw RX chunk read from fldigi, per detected RX gap, and per
+ * transmission, so a band session can be audited, searched and reprocessed
+ * with improved extraction later. Files rotate like the ADIF log:
+ * - daily: transcript-YYYYMMDD.jsonl
+ * - size: transcript-001.jsonl, transcript-002.jsonl, ... past maxBytes
+ *
+ * RX arrives a few characters at a time, so entries are buffered and written
+ * in batches (every flushIntervalMs, or on flush()); the size of the current
+ * size-rotated file is tracked in memory rather than stat'ed per entry.
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type { RxGap } from "./rx-resync.js";
+import type { TxIntent } from "./cw-format.js";
+
+export type JournalRotationPolicy = "none" | "daily" | "size";
+
+export interface RxTranscriptEntry {
+  type: "rx";
+  /** When the chunk was read from fldigi (ISO 8601) */
+  timestamp: string;
+  receiverId: string;
+  /** Dial frequency (Hz) */
+  frequency: number;
+  /** Raw text as read from fldigi's RX buffer, before noise filtering */
+  text: string;
+  wpm?: number;
+  snr?: number;
+  carrierHz?: number;
+  /** Rig dial frequency (Hz) and CAT mode as sampled from fldigi */
+  dialHz?: number;
+  rigMode?: string;
+}
+
+export interface GapTranscriptEntry extends RxGap {
+  type: "gap";
+  timestamp: string;
+  receiverId: string;
+  frequency: number;
+}
+
+export interface TxTranscriptEntry {
+  type: "tx";
+  timestamp: string;
+  receiverId: string;
+  frequency: number;
+  text: string;
+  wpm: number;
+  durationSeconds: number;
+  callsign: string;
+  intent?: TxIntent;
+  peerCall?: string;
+}
+
+export type TranscriptEntry = RxTranscriptEntry | GapTranscriptEntry | TxTranscriptEntry;
+
+export interface TranscriptJournalOptions {
+  basePath: string;
+  policy?: JournalRotationPolicy;
+  maxBytes?: number;
+  /** Delay before buffered entries are written (ms). Default 1000. */
+  flushIntervalMs?: number;
+}
+
+/** Buffered bytes that trigger an immediate write */
+const MAX_BUFFERED_BYTES = 64 * 1024;
+
+export class TranscriptJournal {
+  private readonly basePath: string;
+  private readonly policy: JournalRotationPolicy;
+  private readonly maxBytes: number;
+  private readonly flushIntervalMs: number;
+  /** Lines waiting to be written, per file */
+  private readonly pending = new Map<string, string[]>();
+  private pendingBytes = 0;
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  /** Size-rotated file currently written to and its size including pending lines */
+  private sizeFile: { index: number; bytes: number } | null = null;
+
+  constructor(options: TranscriptJournalOptions) {
+    this.basePath = options.basePath;
+    this.policy = options.policy ?? "daily";
+    this.maxBytes = options.maxBytes ?? 10_000_000;
+    this.flushIntervalMs = options.flushIntervalMs ?? 1000;
+  }
+
+  initialize(): void {
+    const dir = path.dirname(this.basePath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+  }
+
+  /** Queue one entry for the next write */
+  append(entry: TranscriptEntry): void {
+    const line = `${JSON.stringify(entry)}\n`;
+    const bytes = Buffer.byteLength(line, "utf-8");
+    const filePath = this.policy === "size" ? this.nextSizePath(bytes) : this.resolvePath(new Date(entry.timestamp));
+    const lines = this.pending.get(filePath);
+    if (lines) lines.push(line);
+    else this.pending.set(filePath, [line]);
+    this.pendingBytes += bytes;
+
+    if (this.pendingBytes >= MAX_BUFFERED_BYTES) {
+      this.flush();
+    } else if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => this.flush(), this.flushIntervalMs);
+      this.flushTimer.unref?.();
+    }
+  }
+
+  /** Write all buffered entries. Write failures are logged, never thrown: journaling must not stop RX or TX. */
+  flush(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    const batches = [...this.pending];
+    this.pending.clear();
+    this.pendingBytes = 0;
+
+    for (const [filePath, lines] of batches) {
+      try {
+        fs.appendFileSync(filePath, lines.join(""), "utf-8");
+      } catch (err) {
+        console.error(`[transcript-journal] Failed to write ${filePath}: ${err instanceof Error ? err.message : err}`);
+      }
+    }
+  }
+
+  /** Journal file an entry at `now` goes to */
+  resolvePath(now = new Date()): string {
+    if (this.policy === "none") {
+      return this.basePath;
+    }
+
+    const parsed = path.parse(this.basePath);
+    const ext = parsed.ext || ".jsonl";
+    if (this.policy === "daily") {
+      const day = Number.isNaN(now.getTime()) ? new Date() : now;
+      const stamp = `${day.getUTCFullYear()}${String(day.getUTCMonth() + 1).padStart(2, "0")}${String(day.getUTCDate()).padStart(2, "0")}`;
+      return path.join(parsed.dir, `${parsed.name}-${stamp}${ext}`);
+    }
+
+    return this.sizePath(this.firstOpenSizeFile().index);
+  }
+
+  /** Size-rotated file for `bytes` more, from the size tracked since the first append */
+  private nextSizePath(bytes: number): string {
+    this.sizeFile ??= this.firstOpenSizeFile();
+    if (this.sizeFile.bytes >= this.maxBytes && this.sizeFile.index < 9999) {
+      this.sizeFile = { index: this.sizeFile.index + 1, bytes: fileSize(this.sizePath(this.sizeFile.index + 1)) };
+    }
+    this.sizeFile.bytes += bytes;
+    return this.sizePath(this.sizeFile.index);
+  }
+
+  /** First size-rotated file still under maxBytes on disk */
+  private firstOpenSizeFile(): { index: number; bytes: number } {
+    for (let index = 1; index < 10_000; index++) {
+      const bytes = fileSize(this.sizePath(index));
+      if (bytes < this.maxBytes) return { index, bytes };
+    }
+    return { index: 9999, bytes: fileSize(this.sizePath(9999)) };
+  }
+
+  private sizePath(index: number): string {
+    const parsed = path.parse(this.basePath);
+    return path.join(parsed.dir, `${parsed.name}-${String(index).padStart(3, "0")}${parsed.ext || ".jsonl"}`);
+  }
+
+  /** Every journal file for this base path, oldest first */
+  listFiles(): string[] {
+    const parsed = path.parse(this.basePath);
+    if (!fs.existsSync(parsed.dir)) return [];
+    const ext = parsed.ext || ".jsonl";
+    const rotated = new RegExp(`^${escapeRegExp(parsed.name)}-(\\d+)${escapeRegExp(ext)}$`);
+    // Daily stamps and size indexes both order numerically; -1000 comes after -999
+    const order = (name: string): number => Number(rotated.exec(name)?.[1] ?? -1);
+    return fs.readdirSync(parsed.dir)
+      .filter((name) => name === parsed.base || rotated.test(name))
+      .sort((a, b) => order(a) - order(b))
+      .map((name) => path.join(parsed.dir, name));
+  }
+}
+
+/**
+ * Read a journal file. Malformed lines (e.g. a torn last write) are skipped.
+ */
+export function readTranscriptJournal(filePath: string): TranscriptEntry[] {
+  if (!fs.existsSync(filePath)) return [];
+  const entries: TranscriptEntry[] = [];
+  for (const line of fs.readFileSync(filePath, "utf-8").split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      const parsed = JSON.parse(line) as Partial<TranscriptEntry>;
+      if (isTranscriptEntry(parsed)) entries.push(parsed);
+    } catch {
+      // skip
+    }
+  }
+  return entries;
+}
+
+/** Entries whose text matches `pattern` (case-insensitive for strings) */
+export function searchTranscript(entries: TranscriptEntry[], pattern: string | RegExp): TranscriptEntry[] {
+  // A global or sticky RegExp would carry lastIndex from one entry to the next
+  const regex = typeof pattern === "string"
+    ? new RegExp(escapeRegExp(pattern), "i")
+    : new RegExp(pattern.source, pattern.flags.replace(/[gy]/g, ""));
+  return entries.filter((entry) => entry.type !== "gap" && regex.test(entry.text));
+}
+
+function isTranscriptEntry(value: Partial<TranscriptEntry>): value is TranscriptEntry {
+  if (typeof value.timestamp !== "string" || typeof value.receiverId !== "string") return false;
+  if (value.type === "gap") return typeof value.reason === "string";
+  return (value.type === "rx" || value.type === "tx") && typeof value.text === "string";
+}
+
+function fileSize(filePath: string): number {
+  return fs.existsSync(filePath) ? fs.statSync(filePath).size : 0;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
@@ -15,6 +15,7 @@
 
 import { FldigiClient } from "./fldigi-client.js";
 import { sanitizeForCw } from "./cw-sanitize.js";
+import { compressForCw } from "./cw-abbreviations.js";
 import { formatForCw, type TxIntent } from "./cw-format.js";
 import type { ChannelConfig } from "./config.js";
 import { type PttController, createPttController } from "./ptt-controller.js";
@@ -45,6 +46,9 @@ export interface TransmitLog {
   durationSeconds: number;
   frequency: number;
   callsign: string;
+  intent: TxIntent;
+  /** Station the transmission was addressed to */
+  peerCall?: string;
 }
 
 export interface TransmitterCallbacks {
@@ -163,8 +167,8 @@ export class Transmitter {
       }
     }
 
-    // --- Sanitize ---
-    const sanitized = sanitizeForCw(text);
+    // --- Abbreviate + sanitize ---
+    const sanitized = sanitizeForCw(this.config.tx.abbreviate ? compressForCw(text) : text);
     if (!sanitized) {
       return { success: false, error: "Text is empty after sanitization" };
     }
@@ -227,6 +231,8 @@ export class Transmitter {
       durationSeconds: estimateTxDurationSeconds(finalText, txWpm),
       frequency: this.config.frequency,
       callsign: this.config.tx.callsign,
+      intent: intent ?? "default",
+      peerCall,
     };
     this.callbacks.onTransmitLog(log);
     console.log(`[transmitter] TX: "${finalText}" @ ${txWpm} WPM on ${this.config.frequency} Hz`);
@@ -2,7 +2,9 @@
  * Minimal XML-RPC client using only Node built-ins.
  *
  * XML-RPC is HTTP POST with XML request/response bodies.
- * fldigi's surface area is small — we only need a handful of method calls.
+ * fldigi's surface area is small, but several of its methods (fldigi.list,
+ * rig.get_modes, system.multicall) return arrays and structs, so responses
+ * are decoded into a typed value tree rather than a single scalar.
  * This avoids pulling in an npm XML-RPC library for something trivially implementable.
  */
 
@@ -10,8 +12,30 @@ import http from "node:http";
 
 const MAX_RESPONSE_BYTES = 1_000_000;
 
+/** Methods without side effects, which may be sent twice: introspection and getters */
+const READ_ONLY_METHOD = /^(system\.(listMethods|methodHelp|methodSignature)|fldigi\.(list|name|version\w*)|\w+\.get_\w+)$/;
+/** Getters that consume what they return */
+const CONSUMING_METHOD = /^((rx|tx)\.get_data|main\.get_(rx|tx)_data)$/;
+/** Standard "method not found" fault code (XML-RPC introspection / JSON-RPC convention) */
+const METHOD_NOT_FOUND_CODE = -32601;
+
+/** Struct value: member name → value */
+export interface XmlRpcStruct {
+  [member: string]: XmlRpcValue;
+}
+
+/** Any value that can travel over XML-RPC, in either direction */
+export type XmlRpcValue =
+  | string
+  | number
+  | boolean
+  | Buffer
+  | Date
+  | XmlRpcValue[]
+  | XmlRpcStruct;
+
 /** Encode a single XML-RPC parameter value */
-function encodeValue(value: string | number | boolean | Buffer): string {
+function encodeValue(value: XmlRpcValue): string {
   if (typeof value === "string") {
     return `<value><string>${escapeXml(value)}</string></value>`;
   }
@@ -27,6 +51,18 @@ function encodeValue(value: string | number | boolean | Buffer): string {
   if (Buffer.isBuffer(value)) {
     return `<value><base64>${value.toString("base64")}</base64></value>`;
   }
+  if (value instanceof Date) {
+    return `<value><dateTime.iso8601>${formatDateTime(value)}</dateTime.iso8601></value>`;
+  }
+  if (Array.isArray(value)) {
+    return `<value><array><data>${value.map(encodeValue).join("")}</data></array></value>`;
+  }
+  if (value !== null && typeof value === "object") {
+    const members = Object.entries(value)
+      .map(([name, member]) => `<member><name>${escapeXml(name)}</name>${encodeValue(member)}</member>`)
+      .join("");
+    return `<value><struct>${members}</struct></value>`;
+  }
   return `<value><string>${escapeXml(String(value))}</string></value>`;
 }
 
@@ -38,48 +74,194 @@ function escapeXml(s: string): string {
 }
 
 /** Build an XML-RPC methodCall request body */
-function buildRequest(method: string, params: Array<string | number | boolean | Buffer>): string {
+function buildRequest(method: string, params: XmlRpcValue[]): string {
   const paramXml = params.map((p) => `<param>${encodeValue(p)}</param>`).join("");
   return `<?xml version="1.0"?><methodCall><methodName>${method}</methodName><params>${paramXml}</params></methodCall>`;
 }
 
-/** Extract the text content of the first occurrence of a given XML tag */
-function extractTag(xml: string, tag: string): string | null {
-  const open = `<${tag}>`;
-  const close = `</${tag}>`;
-  const start = xml.indexOf(open);
-  if (start === -1) return null;
-  const end = xml.indexOf(close, start);
-  if (end === -1) return null;
-  return xml.slice(start + open.length, end);
+// --- Response decoding ---
+
+/** Parsed XML element: just enough structure for XML-RPC payloads */
+interface XmlElement {
+  name: string;
+  children: XmlElement[];
+  /** Concatenated (unescaped) character data directly inside this element */
+  text: string;
 }
 
-/** Parse the return value from an XML-RPC methodResponse */
-function parseResponse(xml: string): string {
-  // Check for fault first — fault responses contain a <fault> tag
-  if (xml.includes("<fault>")) {
-    // Extract the faultString from the struct member
-    const faultMatch = xml.match(/<name>faultString<\/name>\s*<value>\s*<string>(.*?)<\/string>/);
-    const faultMsg = faultMatch ? faultMatch[1] : "Unknown XML-RPC fault";
-    throw new XmlRpcError(`XML-RPC fault: ${faultMsg}`);
+/**
+ * Parse an XML document into an element tree.
+ * Handles declarations, comments, CDATA, self-closing tags and entities;
+ * attributes and namespaces are ignored since XML-RPC does not use them.
+ */
+function parseXml(xml: string): XmlElement {
+  const root: XmlElement = { name: "#document", children: [], text: "" };
+  const stack: XmlElement[] = [root];
+  let pos = 0;
+
+  while (pos < xml.length) {
+    const lt = xml.indexOf("<", pos);
+    const current = stack[stack.length - 1];
+
+    if (lt === -1) {
+      current.text += unescapeXml(xml.slice(pos));
+      break;
+    }
+    if (lt > pos) {
+      current.text += unescapeXml(xml.slice(pos, lt));
+    }
+
+    if (xml.startsWith("<?", lt)) {
+      pos = skipPast(xml, lt, "?>");
+    } else if (xml.startsWith("<!--", lt)) {
+      pos = skipPast(xml, lt, "-->");
+    } else if (xml.startsWith("<![CDATA[", lt)) {
+      const end = xml.indexOf("]]>", lt);
+      if (end === -1) throw new XmlRpcError("Malformed XML-RPC response: unterminated CDATA");
+      current.text += xml.slice(lt + 9, end);
+      pos = end + 3;
+    } else if (xml.startsWith("<!", lt)) {
+      pos = skipPast(xml, lt, ">");
+    } else if (xml.startsWith("</", lt)) {
+      const end = xml.indexOf(">", lt);
+      if (end === -1) throw new XmlRpcError("Malformed XML-RPC response: unterminated closing tag");
+      const name = xml.slice(lt + 2, end).trim();
+      if (stack.length === 1 || current.name !== name) {
+        throw new XmlRpcError(`Malformed XML-RPC response: unexpected </${name}>`);
+      }
+      stack.pop();
+      pos = end + 1;
+    } else {
+      const end = xml.indexOf(">", lt);
+      if (end === -1) throw new XmlRpcError("Malformed XML-RPC response: unterminated tag");
+      const selfClosing = xml[end - 1] === "/";
+      const inner = xml.slice(lt + 1, selfClosing ? end - 1 : end).trim();
+      const name = inner.split(/\s/, 1)[0];
+      const element: XmlElement = { name, children: [], text: "" };
+      current.children.push(element);
+      if (!selfClosing) stack.push(element);
+      pos = end + 1;
+    }
   }
 
-  // Extract the value — fldigi returns strings, ints, doubles, base64, or booleans.
-  // For our purposes, returning the raw inner text is sufficient since callers
-  // know what type they're expecting.
-  const value = extractTag(xml, "value");
-  if (value === null) {
-    return "";
+  if (stack.length !== 1) {
+    throw new XmlRpcError(`Malformed XML-RPC response: unclosed <${stack[stack.length - 1].name}>`);
   }
+  return root;
+}
+
+function skipPast(xml: string, from: number, terminator: string): number {
+  const end = xml.indexOf(terminator, from);
+  if (end === -1) throw new XmlRpcError("Malformed XML-RPC response");
+  return end + terminator.length;
+}
+
+function child(element: XmlElement, name: string): XmlElement | undefined {
+  return element.children.find((c) => c.name === name);
+}
 
-  // Unwrap typed value tags if present
-  for (const type of ["string", "int", "i4", "double", "boolean", "base64"]) {
-    const inner = extractTag(value, type);
-    if (inner !== null) return inner;
+/** Decode a <value> element into a typed XmlRpcValue */
+function decodeValue(valueEl: XmlElement): XmlRpcValue {
+  const typed = valueEl.children[0];
+  // Bare <value>text</value> is a string per the spec (fldigi sometimes does this)
+  if (!typed) return valueEl.text;
+
+  switch (typed.name) {
+    case "string":
+      return typed.text;
+    case "int":
+    case "i4":
+    case "i8": {
+      const n = Number.parseInt(typed.text.trim(), 10);
+      if (!Number.isFinite(n)) throw new XmlRpcError(`Invalid XML-RPC <${typed.name}>: ${typed.text}`);
+      return n;
+    }
+    case "double": {
+      const n = Number.parseFloat(typed.text.trim());
+      if (Number.isNaN(n)) throw new XmlRpcError(`Invalid XML-RPC <double>: ${typed.text}`);
+      return n;
+    }
+    case "boolean": {
+      const raw = typed.text.trim();
+      if (raw !== "0" && raw !== "1") throw new XmlRpcError(`Invalid XML-RPC <boolean>: ${raw}`);
+      return raw === "1";
+    }
+    case "base64":
+      return Buffer.from(typed.text.replace(/\s+/g, ""), "base64");
+    case "dateTime.iso8601":
+      return parseDateTime(typed.text.trim());
+    case "array": {
+      const data = child(typed, "data");
+      return (data?.children ?? []).filter((c) => c.name === "value").map(decodeValue);
+    }
+    case "struct": {
+      const out: XmlRpcStruct = {};
+      for (const member of typed.children.filter((c) => c.name === "member")) {
+        const name = child(member, "name");
+        const value = child(member, "value");
+        if (!name || !value) throw new XmlRpcError("Invalid XML-RPC <member>: missing name or value");
+        out[name.text] = decodeValue(value);
+      }
+      return out;
+    }
+    default:
+      throw new XmlRpcError(`Unsupported XML-RPC value type <${typed.name}>`);
+  }
+}
+
+/** Locate the first <param><value> in a methodResponse, throwing on <fault> */
+function responseValueElement(xml: string): XmlElement | null {
+  const doc = parseXml(xml);
+  const response = child(doc, "methodResponse");
+  if (!response) throw new XmlRpcError("Malformed XML-RPC response: missing <methodResponse>");
+
+  const fault = child(response, "fault");
+  if (fault) {
+    const faultValue = child(fault, "value");
+    const decoded = faultValue ? decodeValue(faultValue) : {};
+    const struct = isXmlRpcStruct(decoded) ? decoded : {};
+    const faultCode = typeof struct.faultCode === "number" ? struct.faultCode : undefined;
+    const faultString = typeof struct.faultString === "string" ? struct.faultString : "Unknown XML-RPC fault";
+    throw new XmlRpcError(`XML-RPC fault: ${faultString}`, { faultCode, faultString });
+  }
+
+  const params = child(response, "params");
+  const param = params ? child(params, "param") : undefined;
+  return (param && child(param, "value")) ?? null;
+}
+
+/** Parse the return value from an XML-RPC methodResponse into a typed value */
+function parseResponseValue(xml: string): XmlRpcValue {
+  const valueEl = responseValueElement(xml);
+  return valueEl ? decodeValue(valueEl) : "";
+}
+
+/**
+ * Parse the return value from an XML-RPC methodResponse as scalar text.
+ * Numbers are returned verbatim (e.g. "7030000.0") since callers know what
+ * type they're expecting; arrays and structs must go through parseResponseValue.
+ */
+function parseResponse(xml: string): string {
+  const valueEl = responseValueElement(xml);
+  if (!valueEl) return "";
+
+  const typed = valueEl.children[0];
+  if (!typed) return valueEl.text;
+  if (typed.name === "array" || typed.name === "struct") {
+    throw new XmlRpcError(`Expected a scalar XML-RPC value but got <${typed.name}>`);
   }
+  return typed.text;
+}
 
-  // Bare <value>text</value> (fldigi sometimes does this)
-  return value;
+/** Type guard: true when a decoded value is a struct (plain member map) */
+export function isXmlRpcStruct(value: XmlRpcValue): value is XmlRpcStruct {
+  return (
+    value !== null &&
+    typeof value === "object" &&
+    !Array.isArray(value) &&
+    !Buffer.isBuffer(value) &&
+    !(value instanceof Date)
+  );
 }
 
 function unescapeXml(s: string): string {
@@ -88,13 +270,60 @@ function unescapeXml(s: string): string {
     .replace(/&gt;/g, ">")
     .replace(/&quot;/g, "\"")
     .replace(/&apos;/g, "'")
+    .replace(/&#x([0-9a-fA-F]+);/g, (entity, hex: string) => fromCharReference(entity, parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (entity, dec: string) => fromCharReference(entity, parseInt(dec, 10)))
     .replace(/&amp;/g, "&");
 }
 
+function fromCharReference(entity: string, codePoint: number): string {
+  if (codePoint > 0x10ffff) throw new XmlRpcError(`Invalid character reference in XML-RPC response: ${entity}`);
+  return String.fromCodePoint(codePoint);
+}
+
+/** XML-RPC dateTime.iso8601 uses the compact form 19980717T14:08:55 (UTC assumed) */
+function formatDateTime(d: Date): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getUTCFullYear()}${pad(d.getUTCMonth() + 1)}${pad(d.getUTCDate())}` +
+    `T${pad(d.getUTCHours())}:${pad(d.getUTCMinutes())}:${pad(d.getUTCSeconds())}`;
+}
+
+function parseDateTime(raw: string): Date {
+  const match = raw.match(/^(\d{4})-?(\d{2})-?(\d{2})T(\d{2}):?(\d{2}):?(\d{2})(Z|[+-]\d{2}:?\d{2})?$/);
+  if (!match) throw new XmlRpcError(`Invalid XML-RPC <dateTime.iso8601>: ${raw}`);
+  const [, y, mo, d, h, mi, s, zone] = match;
+  const offset = !zone || zone === "Z" ? "Z" : `${zone.slice(0, 3)}:${zone.slice(-2)}`;
+  const date = new Date(`${y}-${mo}-${d}T${h}:${mi}:${s}${offset}`);
+  if (Number.isNaN(date.getTime())) throw new XmlRpcError(`Invalid XML-RPC <dateTime.iso8601>: ${raw}`);
+  return date;
+}
+
+export interface XmlRpcFault {
+  faultCode?: number;
+  faultString: string;
+}
+
 export class XmlRpcError extends Error {
-  constructor(message: string) {
+  /** Server-supplied fault code; undefined for transport/parse errors */
+  readonly faultCode?: number;
+  /** Server-supplied fault string; undefined for transport/parse errors */
+  readonly faultString?: string;
+
+  constructor(message: string, fault?: XmlRpcFault) {
     super(message);
     this.name = "XmlRpcError";
+    this.faultCode = fault?.faultCode;
+    this.faultString = fault?.faultString;
+  }
+
+  /** True when the server answered with a <fault> (as opposed to transport failure) */
+  get isFault(): boolean {
+    return this.faultString !== undefined;
+  }
+
+  /** True for a fault saying the called method does not exist */
+  get isMethodNotFound(): boolean {
+    return this.faultCode === METHOD_NOT_FOUND_CODE ||
+      /method.*not (found|supported|implemented)|(unknown|no such) method/i.test(this.faultString ?? "");
   }
 }
 
@@ -103,23 +332,118 @@ export interface XmlRpcClientOptions {
   port: number;
   /** Per-request timeout in milliseconds. Default 5000. */
   timeoutMs?: number;
+  /** Reuse TCP connections between calls. Default true. */
+  keepAlive?: boolean;
+}
+
+/** One entry of a system.multicall batch */
+export interface XmlRpcCall {
+  methodName: string;
+  params?: XmlRpcValue[];
+}
+
+/** Per-call outcome of a batch: exactly one of value / error is set */
+export interface XmlRpcCallResult {
+  value?: XmlRpcValue;
+  error?: XmlRpcError;
 }
 
 export class XmlRpcClient {
   private readonly host: string;
   private readonly port: number;
   private readonly timeoutMs: number;
+  private readonly agent: http.Agent;
+  /** undefined until the first batch tells us whether system.multicall exists */
+  private multicallSupported: boolean | undefined;
 
   constructor(options: XmlRpcClientOptions) {
     this.host = options.host;
     this.port = options.port;
     this.timeoutMs = options.timeoutMs ?? 5000;
+    // Idle keep-alive sockets are unref'd by the agent, so they never hold the process open.
+    this.agent = new http.Agent({ keepAlive: options.keepAlive ?? true });
+  }
+
+  /** Call an XML-RPC method and return the (scalar) response value as a string */
+  async call(method: string, ...params: XmlRpcValue[]): Promise<string> {
+    return parseResponse(await this.post(method, params));
+  }
+
+  /** Call an XML-RPC method and return the decoded value tree (arrays, structs, typed scalars) */
+  async callValue(method: string, ...params: XmlRpcValue[]): Promise<XmlRpcValue> {
+    return parseResponseValue(await this.post(method, params));
+  }
+
+  /**
+   * Run several calls in one HTTP round trip via system.multicall.
+   * If the server has no system.multicall (a "method not found" fault), falls
+   * back to issuing the calls one by one and remembers that for subsequent
+   * batches; any other fault falls back for this batch only.
+   * Per-call faults are returned in the result array; transport errors reject.
+   */
+  async multicall(calls: XmlRpcCall[]): Promise<XmlRpcCallResult[]> {
+    if (calls.length === 0) return [];
+
+    if (this.multicallSupported !== false) {
+      const batch = calls.map((c) => ({ methodName: c.methodName, params: c.params ?? [] }));
+      try {
+        const value = await this.callValue("system.multicall", batch);
+        this.multicallSupported = true;
+        return decodeMulticallResults(value, calls.length);
+      } catch (err) {
+        if (!(err instanceof XmlRpcError) || !err.isFault) throw err;
+        if (err.isMethodNotFound) {
+          console.log(`[xmlrpc] system.multicall unavailable (${err.faultString}), falling back to sequential calls`);
+          this.multicallSupported = false;
+        } else {
+          console.log(`[xmlrpc] system.multicall failed (${err.faultString}), retrying the batch as sequential calls`);
+        }
+      }
+    }
+
+    const results: XmlRpcCallResult[] = [];
+    for (const c of calls) {
+      try {
+        results.push({ value: await this.callValue(c.methodName, ...(c.params ?? [])) });
+      } catch (err) {
+        if (!(err instanceof XmlRpcError) || !err.isFault) throw err;
+        results.push({ error: err });
+      }
+    }
+    return results;
+  }
+
+  /** Whether the server supports system.multicall; undefined until the first batch. */
+  get supportsMulticall(): boolean | undefined {
+    return this.multicallSupported;
   }
 
-  /** Call an XML-RPC method and return the response value as a string */
-  call(method: string, ...params: Array<string | number | boolean | Buffer>): Promise<string> {
+  /** Record system.multicall support learned out of band (e.g. from system.listMethods). */
+  setMulticallSupported(supported: boolean | undefined): void {
+    this.multicallSupported = supported;
+  }
+
+  /** Drop pooled keep-alive connections. The client remains usable afterwards. */
+  close(): void {
+    this.agent.destroy();
+  }
+
+  /** POST a methodCall and resolve with the raw response body */
+  private async post(method: string, params: XmlRpcValue[]): Promise<string> {
     const body = buildRequest(method, params);
+    try {
+      return await this.send(method, body);
+    } catch (err) {
+      // A pooled socket may have been closed by the server while idle; retry once on a fresh one,
+      // unless the request may have reached the server and repeating it would repeat a side effect.
+      if (err instanceof StaleSocketError && (!err.requestWritten || isReadOnlyCall(method, params))) {
+        return this.send(method, body);
+      }
+      throw err;
+    }
+  }
 
+  private send(method: string, body: string): Promise<string> {
     return new Promise((resolve, reject) => {
       let settled = false;
       const fail = (err: Error): void => {
@@ -139,6 +463,7 @@ export class XmlRpcClient {
           port: this.port,
           method: "POST",
           path: "/RPC2",
+          agent: this.agent,
           headers: {
             "Content-Type": "text/xml",
             "Content-Length": Buffer.byteLength(body),
@@ -164,13 +489,7 @@ export class XmlRpcClient {
             }
           });
           res.on("end", () => {
-            if (settled) return;
-            try {
-              const xml = Buffer.concat(chunks).toString("utf-8");
-              succeed(unescapeXml(parseResponse(xml)));
-            } catch (err) {
-              fail(err instanceof Error ? err : new XmlRpcError(String(err)));
-            }
+            succeed(Buffer.concat(chunks).toString("utf-8"));
           });
         }
       );
@@ -180,15 +499,63 @@ export class XmlRpcClient {
         fail(new XmlRpcError(`XML-RPC timeout after ${this.timeoutMs}ms calling ${method}`));
       });
 
-      req.on("error", (err) => {
+      let requestWritten = false;
+      req.on("error", (err: Error & { code?: string }) => {
+        if (req.reusedSocket && err.code === "ECONNRESET") {
+          fail(new StaleSocketError(`XML-RPC connection error: ${err.message}`, requestWritten));
+          return;
+        }
         fail(new XmlRpcError(`XML-RPC connection error: ${err.message}`));
       });
 
-      req.write(body);
-      req.end();
+      req.end(body, () => {
+        requestWritten = true;
+      });
     });
   }
 }
 
+/** Transport error on a reused keep-alive socket — retried once when that is safe */
+class StaleSocketError extends XmlRpcError {
+  /** The request was flushed to the socket, so the server may have acted on it */
+  readonly requestWritten: boolean;
+
+  constructor(message: string, requestWritten: boolean) {
+    super(message);
+    this.requestWritten = requestWritten;
+  }
+}
+
+/** Whether sending the call twice is harmless; a batch only when every call in it is */
+function isReadOnlyCall(method: string, params: XmlRpcValue[]): boolean {
+  if (method === "system.multicall") {
+    const batch = params[0];
+    return Array.isArray(batch) && batch.every((call) =>
+      isXmlRpcStruct(call) && typeof call.methodName === "string" && isReadOnlyCall(call.methodName, []));
+  }
+  return READ_ONLY_METHOD.test(method) && !CONSUMING_METHOD.test(method);
+}
+
+/**
+ * Decode a system.multicall response: each entry is either a one-element
+ * array holding the return value, or a fault struct.
+ */
+function decodeMulticallResults(value: XmlRpcValue, expected: number): XmlRpcCallResult[] {
+  if (!Array.isArray(value) || value.length !== expected) {
+    throw new XmlRpcError(`Malformed system.multicall response: expected ${expected} results`);
+  }
+  return value.map((entry) => {
+    if (Array.isArray(entry)) {
+      return { value: entry[0] ?? "" };
+    }
+    if (isXmlRpcStruct(entry)) {
+      const faultCode = typeof entry.faultCode === "number" ? entry.faultCode : undefined;
+      const faultString = typeof entry.faultString === "string" ? entry.faultString : "Unknown XML-RPC fault";
+      return { error: new XmlRpcError(`XML-RPC fault: ${faultString}`, { faultCode, faultString }) };
+    }
+    throw new XmlRpcError("Malformed system.multicall response entry");
+  });
+}
+
 // Exported for testing
-export { buildRequest, parseResponse };
+export { buildRequest, parseResponse, parseResponseValue };
@@ -149,6 +149,11 @@ describe("createRecord", () => {
     const record = createRecord("dl2abc", 7030000);
     assert.equal(record.call, "DL2ABC");
   });
+
+  it("carries the contacted station's rig, power and age", () => {
+    const record = createRecord("DL2ABC", 7030000, { rig: "IC7300 ANT DIPOLE", rxPwr: "100", age: "67" });
+    assert.match(encodeRecord(record), /<RX_PWR:3>100 <RIG:17>IC7300 ANT DIPOLE <AGE:2>67 <EOR>/);
+  });
 });
 
 describe("AdifLogger", () => {
@@ -0,0 +1,107 @@
+import { after, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { CallHistory, crossCheckExchange } from "../src/call-history.js";
+
+const SCP = ["# MASTER.SCP", "DL2ABC", "DL2ABD", "DL2AOC", "DL2AOC/P", "PA3XYZ", "W1AW", "K1ABC"].join("\n");
+
+const HISTORY = [
+  "# N1MM call history",
+  "!!Order!!,Call,Name,CQZone,ITUZone,Sect",
+  "DL2ABC,Hans,14,28,",
+  "W1AW,Hiram,5,8,CT",
+  "K1ABC,,5,8,EMA",
+].join("\r\n");
+
+function loaded(): CallHistory {
+  const history = new CallHistory();
+  history.loadScp(SCP);
+  history.loadCallHistory(HISTORY);
+  return history;
+}
+
+describe("CallHistory", () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "cqlaw-call-history-"));
+  after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it("loads SCP calls and call history entries", () => {
+    const history = loaded();
+    assert.equal(history.size, 7);
+    assert.equal(history.has("pa3xyz"), true);
+    assert.deepEqual(history.lookup("DL2ABC"), { callsign: "DL2ABC", name: "HANS", cqZone: 14, ituZone: 28 });
+    assert.deepEqual(history.lookup("W1AW"), { callsign: "W1AW", name: "HIRAM", cqZone: 5, ituZone: 8, section: "CT" });
+    assert.equal(history.lookup("PA3XYZ"), undefined);
+  });
+
+  it("detects the file format when loading from disk", () => {
+    const scpPath = path.join(dir, "MASTER.SCP");
+    const historyPath = path.join(dir, "history.txt");
+    fs.writeFileSync(scpPath, SCP);
+    fs.writeFileSync(historyPath, HISTORY);
+
+    const history = new CallHistory();
+    history.loadFile(scpPath);
+    history.loadFile(historyPath);
+    assert.equal(history.size, 7);
+    assert.equal(history.lookup("K1ABC")?.section, "EMA");
+  });
+
+  it("matches unreadable characters and ranks whole-call matches first", () => {
+    const candidates = loaded().search("DL2A?C");
+    assert.deepEqual(candidates.map((c) => [c.callsign, c.match]), [
+      ["DL2ABC", "full"],
+      ["DL2AOC", "full"],
+      ["DL2AOC/P", "partial"],
+    ]);
+    assert.equal(candidates[0].expected?.name, "HANS");
+  });
+
+  it("orders candidates by Morse distance within a match kind", () => {
+    const candidates = loaded().search("L2A");
+    assert.equal(candidates.length, 4);
+    assert.ok(candidates.every((c) => c.match === "partial"));
+    assert.equal(candidates[3].callsign, "DL2AOC/P");
+  });
+
+  it("finds partial calls and the exact call first", () => {
+    const history = loaded();
+    assert.deepEqual(history.search("DL2AOC").map((c) => [c.callsign, c.match]), [["DL2AOC", "exact"], ["DL2AOC/P", "partial"]]);
+    assert.deepEqual(history.search("1A").map((c) => c.callsign), ["W1AW", "K1ABC"]);
+  });
+
+  it("falls back to calls within a small Morse distance", () => {
+    const history = new CallHistory();
+    history.loadScp(["DL2ABC", "DL2XYZ", "PA3XYZ"].join("\n"));
+    history.loadCallHistory(HISTORY);
+
+    const candidates = history.search("DL2ABD");
+    assert.deepEqual(candidates.map((c) => [c.callsign, c.match, c.distance]), [["DL2ABC", "morse", 0.5]]);
+    assert.equal(candidates[0].expected?.name, "HANS");
+  });
+
+  it("returns nothing for an unreadable or unknown pattern", () => {
+    assert.deepEqual(loaded().search("???"), []);
+    assert.deepEqual(loaded().search("ZZ9ZZZ"), []);
+  });
+
+  it("limits the number of candidates", () => {
+    assert.equal(loaded().search("DL", 2).length, 2);
+  });
+});
+
+describe("crossCheckExchange", () => {
+  const expected = { callsign: "DL2ABC", name: "HANS", cqZone: 14, ituZone: 28 };
+
+  it("reports decoded values that disagree with the call history", () => {
+    assert.deepEqual(crossCheckExchange(expected, { name: "HANS", zone: 15 }), [
+      { field: "zone", decoded: "15", expected: "14" },
+    ]);
+    assert.deepEqual(crossCheckExchange(expected, { name: "hans", zone: 28, zoneKind: "itu" }), []);
+  });
+
+  it("ignores fields missing on either side", () => {
+    assert.deepEqual(crossCheckExchange(expected, { section: "EMA" }), []);
+  });
+});
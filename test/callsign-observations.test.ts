@@ -0,0 +1,63 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { CallsignObservations } from "../src/callsign-observations.js";
+
+describe("CallsignObservations", () => {
+  it("merges the copies of a call heard in one over", () => {
+    const observations = new CallsignObservations();
+    const station = observations.observe(["DL2A?C", "DL2AB?"]);
+    assert.equal(station?.value, "DL2ABC");
+    assert.equal(station?.observations, 2);
+  });
+
+  it("accumulates a station across overs", () => {
+    const observations = new CallsignObservations();
+    observations.observe(["DL2A?C"]);
+    observations.observe(["DL2AB?"]);
+    const station = observations.observe(["L2ABC"]);
+    assert.equal(station?.value, "DL2ABC");
+    assert.equal(station?.confidence, "high");
+    assert.equal(station?.observations, 3);
+  });
+
+  it("keeps distinct stations apart", () => {
+    const observations = new CallsignObservations();
+    observations.observe(["DL2ABC"]);
+    const other = observations.observe(["PA3XYZ"]);
+    assert.equal(other?.value, "PA3XYZ");
+    assert.equal(other?.observations, 1);
+    assert.equal(observations.observe(["DL2ABC"])?.observations, 2);
+  });
+
+  it("keeps near-identical calls of different peers apart", () => {
+    const observations = new CallsignObservations();
+    observations.observe(["DL2ABC", "DL2ABC"], "DL2ABC");
+    observations.observe(["DL2ABC"], "DL2ABC");
+    const other = observations.observe(["DL2ABD", "DL2ABD"], "DL2ABD");
+    assert.equal(other?.value, "DL2ABD");
+    assert.equal(other?.observations, 2);
+    assert.equal(observations.observe(["DL2AB?"], "DL2AB?")?.value, "DL2ABC");
+  });
+
+  it("forgets stations not heard within the TTL", () => {
+    let now = 0;
+    const observations = new CallsignObservations({ ttlMs: 1000, now: () => now });
+    observations.observe(["DL2ABC"]);
+    now = 2000;
+    assert.equal(observations.observe(["DL2ABC"])?.observations, 1);
+  });
+
+  it("keeps only the newest observations", () => {
+    const observations = new CallsignObservations({ maxObservations: 2 });
+    observations.observe(["DL2ABS"]);
+    observations.observe(["DL2ABC"]);
+    const station = observations.observe(["DL2ABC"]);
+    assert.equal(station?.observations, 2);
+    assert.equal(station?.value, "DL2ABC");
+    assert.equal(station?.confidence, "high");
+  });
+
+  it("returns null for an over without calls", () => {
+    assert.equal(new CallsignObservations().observe([]), null);
+  });
+});
@@ -4,6 +4,7 @@ import {
   extractCallsigns,
   extractCqCalls,
   extractDirectedExchanges,
+  extractSenderObservations,
   isCallsign,
 } from "../src/callsign.js";
 
@@ -85,6 +86,11 @@ describe("extractCallsigns", () => {
     assert.equal(result[0].callsign, "PA3XYZ");
   });
 
+  it("ignores reports, Q-codes and abbreviations", () => {
+    const result = extractCallsigns("TU 5NN 14 QRL? 73 TT1 DE PA3XYZ");
+    assert.deepEqual(result.map((match) => match.callsign), ["PA3XYZ"]);
+  });
+
   it("returns empty array when no callsigns found", () => {
     const result = extractCallsigns("HELLO WORLD");
     assert.equal(result.length, 0);
@@ -165,3 +171,18 @@ describe("extractDirectedExchanges", () => {
     assert.equal(result[0].from, "DL2ABC");
   });
 });
+
+describe("extractSenderObservations", () => {
+  it("returns every copy of the call after DE, noisy copies included", () => {
+    assert.deepEqual(extractSenderObservations("PA3XYZ DE DL2A?C DL2ABC K"), ["DL2A?C", "DL2ABC"]);
+    assert.deepEqual(extractSenderObservations("PA3XYZ DE DL2AB? K"), ["DL2AB?"]);
+  });
+
+  it("collects copies after each DE", () => {
+    assert.deepEqual(extractSenderObservations("CQ CQ DE DL2ABC DL2ABC CQ DE DL2ABC K"), ["DL2ABC", "DL2ABC", "DL2ABC"]);
+  });
+
+  it("returns nothing without DE", () => {
+    assert.deepEqual(extractSenderObservations("TU 5NN 14"), []);
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { CarrierTuner, parseTuneCommand, rfFrequency, sidebandOf } from "../src/carrier-tuner.js";
+import { FldigiClient } from "../src/fldigi-client.js";
+import { createMockFldigi, type MockFldigi } from "./mock-fldigi.js";
+
+const noSleep = async (): Promise<void> => {};
+
+describe("parseTuneCommand", () => {
+  it("parses relative, absolute and sweep commands", () => {
+    assert.deepEqual(parseTuneCommand("+150"), { kind: "offset", hz: 150 });
+    assert.deepEqual(parseTuneCommand("-200"), { kind: "offset", hz: -200 });
+    assert.deepEqual(parseTuneCommand("700hz"), { kind: "absolute", hz: 700 });
+    assert.deepEqual(parseTuneCommand("next"), { kind: "next", direction: 1 });
+    assert.deepEqual(parseTuneCommand("prev"), { kind: "next", direction: -1 });
+  });
+
+  it("parses AFC and bandwidth commands", () => {
+    assert.deepEqual(parseTuneCommand("afc on"), { kind: "afc", enabled: true });
+    assert.deepEqual(parseTuneCommand("AFC OFF"), { kind: "afc", enabled: false });
+    assert.deepEqual(parseTuneCommand("bw 50"), { kind: "bandwidth", hz: 50 });
+  });
+
+  it("rejects anything else", () => {
+    assert.equal(parseTuneCommand(""), null);
+    assert.equal(parseTuneCommand("somewhere"), null);
+    assert.equal(parseTuneCommand("afc maybe"), null);
+    assert.equal(parseTuneCommand("+1.5k"), null);
+  });
+});
+
+describe("rfFrequency", () => {
+  it("adds the carrier offset to the dial frequency", () => {
+    assert.equal(rfFrequency(7030000, 650), 7030650);
+    assert.equal(rfFrequency(7030000, undefined), undefined);
+  });
+
+  it("subtracts the carrier on lower sideband", () => {
+    assert.equal(rfFrequency(7030000, 650, sidebandOf("LSB")), 7029350);
+    assert.equal(rfFrequency(7030000, 650, sidebandOf("CWR")), 7029350);
+    assert.equal(rfFrequency(7030000, 650, sidebandOf("USB")), 7030650);
+    assert.equal(rfFrequency(7030000, 650, sidebandOf(undefined)), 7030650);
+  });
+});
+
+describe("CarrierTuner", () => {
+  let mock: MockFldigi;
+  let client: FldigiClient | null = null;
+
+  afterEach(async () => {
+    client?.close();
+    client = null;
+    if (mock?.server.listening) await mock.stop();
+  });
+
+  async function setup(options: Parameters<typeof createMockFldigi>[0]): Promise<FldigiClient> {
+    mock = createMockFldigi(options);
+    const port = await mock.start();
+    client = new FldigiClient({ host: "127.0.0.1", port });
+    return client;
+  }
+
+  it("moves the carrier by a relative offset, clamped to the passband", async () => {
+    const tuner = new CarrierTuner(await setup({ carrier: 700 }), { sleep: noSleep });
+
+    assert.deepEqual(await tuner.tuneBy(150), { previousHz: 700, carrierHz: 850 });
+    assert.equal(mock.getCarrier(), 850);
+
+    await tuner.tuneBy(-5000);
+    assert.equal(mock.getCarrier(), 300);
+  });
+
+  it("sweeps to the next station in the passband", async () => {
+    const tuner = new CarrierTuner(await setup({
+      carrier: 600,
+      signals: [{ carrier: 600, snr: 18 }, { carrier: 1010, snr: 12 }],
+    }), { sleep: noSleep });
+
+    const result = await tuner.tuneToNextSignal(1);
+    assert.deepEqual(result, { previousHz: 600, carrierHz: 1000, snr: 12 });
+    assert.equal(mock.getCarrier(), 1000);
+  });
+
+  it("wraps around the passband edge and finds the station below", async () => {
+    const tuner = new CarrierTuner(await setup({
+      carrier: 1000,
+      signals: [{ carrier: 1000, snr: 18 }, { carrier: 500, snr: 9 }],
+    }), { sleep: noSleep });
+
+    const result = await tuner.tuneToNextSignal(1);
+    assert.equal(result?.carrierHz, 500);
+  });
+
+  it("restores the carrier when no other signal is found", async () => {
+    const tuner = new CarrierTuner(await setup({ carrier: 800, signals: [{ carrier: 800, snr: 15 }] }), { sleep: noSleep });
+
+    assert.equal(await tuner.tuneToNextSignal(1), null);
+    assert.equal(mock.getCarrier(), 800);
+    await assert.rejects(() => tuner.run({ kind: "next", direction: 1 }), /no other signal/);
+  });
+
+  it("toggles AFC and sets the bandwidth", async () => {
+    const fldigi = await setup({});
+    const tuner = new CarrierTuner(fldigi, { sleep: noSleep });
+
+    assert.equal(await fldigi.getAfc(), false);
+    assert.deepEqual(await tuner.run({ kind: "afc", enabled: true }), { summary: "AFC on" });
+    assert.equal(await fldigi.getAfc(), true);
+
+    await tuner.run({ kind: "bandwidth", hz: 50 });
+    assert.equal(await fldigi.getBandwidth(), 50);
+  });
+});
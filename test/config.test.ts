@@ -1,6 +1,6 @@
 import { describe, it } from "node:test";
 import assert from "node:assert/strict";
-import { validateConfig, resolveConfig } from "../src/config.js";
+import { validateConfig, resolveConfig, receiverChannelConfig } from "../src/config.js";
 import type { ChannelConfig } from "../src/config.js";
 
 describe("resolveConfig", () => {
@@ -44,6 +44,40 @@ describe("resolveConfig", () => {
     assert.equal(config.callsignLookup.provider, "auto");
     assert.equal(config.callsignLookup.cacheTtlSeconds, 600);
   });
+
+  it("loads journal settings from environment variables", () => {
+    const config = resolveConfig({}, {
+      CQLAW_JOURNAL_ENABLED: "false",
+      CQLAW_JOURNAL_ROTATION: "SIZE",
+      CQLAW_JOURNAL_MAX_BYTES: "500000",
+    } as NodeJS.ProcessEnv);
+
+    assert.deepEqual(config.journal, { enabled: false, rotation: "size", maxBytes: 500000 });
+  });
+
+  it("loads replay settings from environment variables", () => {
+    const config = resolveConfig({}, {
+      CQLAW_REPLAY_PATH: "/logs/transcript-20260213.jsonl",
+      CQLAW_REPLAY_SPEED: "0",
+    } as NodeJS.ProcessEnv);
+
+    assert.deepEqual(config.replay, { path: "/logs/transcript-20260213.jsonl", speed: 0 });
+    assert.deepEqual(resolveConfig({}, {} as NodeJS.ProcessEnv).replay, { path: "", speed: 1 });
+  });
+
+  it("loads call history paths from environment variables", () => {
+    const config = resolveConfig({ callHistory: { historyPath: "/contest/cqww.txt" } }, {
+      CQLAW_SCP_PATH: "/contest/MASTER.SCP",
+      CQLAW_CALL_HISTORY_PATH: "/contest/other.txt",
+    } as NodeJS.ProcessEnv);
+
+    assert.deepEqual(config.callHistory, { scpPath: "/contest/MASTER.SCP", historyPath: "/contest/cqww.txt" });
+  });
+
+  it("loads the country file path from the environment", () => {
+    assert.deepEqual(resolveConfig({}, {} as NodeJS.ProcessEnv).dxcc, { ctyPath: "" });
+    assert.deepEqual(resolveConfig({}, { CQLAW_CTY_PATH: "/contest/cty.dat" } as NodeJS.ProcessEnv).dxcc, { ctyPath: "/contest/cty.dat" });
+  });
 });
 
 describe("validateConfig", () => {
@@ -132,4 +166,88 @@ describe("validateConfig", () => {
     const errors = validateConfig(config);
     assert.ok(errors.some(e => e.field === "callsignLookup.cacheTtlSeconds"));
   });
+
+  it("rejects an adaptive silence range with max below min", () => {
+    const config = { ...validConfig(), rx: { ...validConfig().rx, minSilenceMs: 4000, maxSilenceMs: 2000 } };
+    const errors = validateConfig(config);
+    assert.ok(errors.some(e => e.field === "rx.maxSilenceMs"));
+  });
+
+  it("rejects silence hysteresis below 1", () => {
+    const config = { ...validConfig(), rx: { ...validConfig().rx, silenceHysteresis: 0.5 } };
+    assert.ok(validateConfig(config).some(e => e.field === "rx.silenceHysteresis"));
+  });
+
+  it("validates the metrics port only when metrics are enabled", () => {
+    const disabled = { ...validConfig(), metrics: { enabled: false, host: "127.0.0.1", port: 0 } };
+    assert.deepEqual(validateConfig(disabled), []);
+
+    const enabled = { ...validConfig(), metrics: { enabled: true, host: "127.0.0.1", port: 0 } };
+    assert.ok(validateConfig(enabled).some(e => e.field === "metrics.port"));
+  });
+});
+
+describe("receivers", () => {
+  it("synthesises a single receiver from the top-level settings", () => {
+    const config = resolveConfig({ frequency: 14030000, fldigi: { port: 8000 } });
+    assert.equal(config.receivers.length, 1);
+    assert.equal(config.receivers[0].id, "main");
+    assert.equal(config.receivers[0].frequency, 14030000);
+    assert.equal(config.receivers[0].fldigi.port, 8000);
+    assert.deepEqual(validateConfig(config), []);
+  });
+
+  it("resolves a receiver list, inheriting unset fields from the top level", () => {
+    const config = resolveConfig({
+      fldigi: { pollingIntervalMs: 100 },
+      receivers: [
+        { id: "rx40", frequency: 7030000 },
+        { id: "rx20", frequency: 14030000, fldigi: { port: 7363 }, transmit: false },
+      ],
+    });
+    assert.equal(config.receivers.length, 2);
+    assert.equal(config.receivers[0].fldigi.port, 7362);
+    assert.equal(config.receivers[1].fldigi.port, 7363);
+    assert.equal(config.receivers[1].fldigi.pollingIntervalMs, 100);
+    assert.equal(config.receivers[0].transmit, true);
+    assert.equal(config.receivers[1].transmit, false);
+    assert.deepEqual(validateConfig(config), []);
+  });
+
+  it("rejects duplicate receiver ids and shared fldigi endpoints", () => {
+    const config = resolveConfig({
+      receivers: [
+        { id: "rx40", frequency: 7030000 },
+        { id: "rx40", frequency: 14030000 },
+      ],
+    });
+    const errors = validateConfig(config);
+    assert.ok(errors.some((e) => e.field === "receivers[1].id"));
+    assert.ok(errors.some((e) => e.field === "receivers[1].fldigi.port"));
+  });
+
+  it("rejects invalid per-receiver settings", () => {
+    const config = resolveConfig({
+      receivers: [{ id: "bad id", frequency: 0, fldigi: { port: 70000 } }],
+    });
+    const fields = validateConfig(config).map((e) => e.field);
+    assert.ok(fields.includes("receivers[0].id"));
+    assert.ok(fields.includes("receivers[0].frequency"));
+    assert.ok(fields.includes("receivers[0].fldigi.port"));
+  });
+
+  it("derives a per-receiver config that only transmits when allowed", () => {
+    const config = resolveConfig({
+      tx: { enabled: true, callsign: "PA3XYZ" },
+      receivers: [
+        { id: "rx40", frequency: 7030000 },
+        { id: "rx20", frequency: 14030000, fldigi: { port: 7363 }, transmit: false },
+      ],
+    });
+    const rx20 = receiverChannelConfig(config, config.receivers[1]);
+    assert.equal(rx20.frequency, 14030000);
+    assert.equal(rx20.fldigi.port, 7363);
+    assert.equal(rx20.tx.enabled, false);
+    assert.equal(receiverChannelConfig(config, config.receivers[0]).tx.enabled, true);
+  });
 });
@@ -36,6 +36,13 @@ describe("parseContestExchange", () => {
     assert.equal(parsed.serial, 23);
   });
 
+  it("does not take 73 or the report as a WPX serial", () => {
+    const parsed = parseContestExchange("W1AW 5NN TT7 TU 73", CONTEST_PROFILES["CQ-WPX"]);
+    assert.equal(parsed.rst, "599");
+    assert.equal(parsed.serial, 7);
+    assert.equal(parseContestExchange("W1AW 599", CONTEST_PROFILES["CQ-WPX"]).serial, undefined);
+  });
+
   it("parses ARRL Field Day exchanges", () => {
     const parsed = parseContestExchange("2A ENY", CONTEST_PROFILES["ARRL-FD"]);
     assert.equal(parsed.category, "2A");
@@ -6,6 +6,7 @@ import {
   reconstructSerial,
   reconstructZone,
 } from "../src/context-reconstruct.js";
+import { DxccDatabase } from "../src/dxcc.js";
 
 describe("reconstructRst", () => {
   it("reconstructs noisy rst values", () => {
@@ -25,6 +26,18 @@ describe("zone reconstruction", () => {
     assert.equal(reconstructZone(undefined, "PA3XYZ")?.value, "14");
     assert.equal(reconstructZone("?4", "PA3XYZ")?.value, "14");
   });
+
+  it("uses the country file when one is given", () => {
+    const dxcc = new DxccDatabase();
+    dxcc.loadCtyDat(`Canary Islands: 33: 36: AF: 28.32: 15.85: 0.0: EA8:
+    EA8,EB8,EC8;
+United States: 05: 08: NA: 37.53: 91.67: 5.0: K:
+    AA,K,N,W,W6(3)[6];`);
+    assert.equal(inferCqZoneFromCallsign("EA8/ON4UN", dxcc), 33);
+    assert.equal(inferCqZoneFromCallsign("W6ABC", dxcc), 3);
+    assert.equal(inferCqZoneFromCallsign("PA3XYZ", dxcc), null);
+    assert.equal(reconstructZone("?3", "EA8ABC", dxcc)?.value, "33");
+  });
 });
 
 describe("serial reconstruction", () => {
@@ -0,0 +1,63 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { compressForCw, glossCw } from "../src/cw-abbreviations.js";
+
+describe("glossCw", () => {
+  it("spells out a ragchew over", () => {
+    assert.equal(
+      glossCw("GM OM TNX FER CALL UR RST 579 579 HR QTH NR ROTTERDAM"),
+      "good morning old man thanks for CALL your RST 579 579 here location near ROTTERDAM",
+    );
+  });
+
+  it("reads NR before a number as 'number'", () => {
+    assert.equal(glossCw("TU 5NN NR 023"), "thank you 599 number 023");
+  });
+
+  it("distinguishes Q-code statements from questions", () => {
+    assert.equal(glossCw("QRL?"), "is this frequency in use?");
+    assert.equal(glossCw("QRS PSE"), "send slower please");
+    assert.equal(glossCw("QTH?"), "what is your location?");
+  });
+
+  it("glosses prosigns and keeps callsigns as decoded", () => {
+    assert.equal(glossCw("CQ CQ DE PA3XYZ K"), "calling any station calling any station from PA3XYZ (over)");
+    assert.equal(glossCw("PA3XYZ DE DL2ABC\nNAME HANS BT 73 SK"), "PA3XYZ from DL2ABC NAME HANS (break) best regards (end of contact)");
+  });
+
+  it("keeps unknown words and queries", () => {
+    assert.equal(glossCw("AGN? ZZZ"), "again? ZZZ");
+  });
+
+  it("reads GA as go ahead as well as good afternoon", () => {
+    assert.equal(glossCw("GA OM"), "go ahead / good afternoon old man");
+  });
+});
+
+describe("compressForCw", () => {
+  it("rewrites prose into CW shorthand", () => {
+    assert.equal(compressForCw("Thanks for your report"), "TNX FER UR RPT");
+    assert.equal(compressForCw("the weather here is sunny and warm"), "the WX HR is sunny ES warm");
+  });
+
+  it("prefers the longest phrase", () => {
+    assert.equal(compressForCw("Thank you, see you later"), "TU, CUL");
+    assert.equal(compressForCw("good morning, how are you?"), "GM, HW?");
+    assert.equal(compressForCw("you're very good"), "UR VY GUD");
+  });
+
+  it("only replaces whole words", () => {
+    assert.equal(compressForCw("FORTUNE ANDES NOWHERE"), "FORTUNE ANDES NOWHERE");
+    assert.equal(compressForCw("DE PA3XYZ"), "DE PA3XYZ");
+  });
+
+  it("leaves ARE alone outside fixed phrases", () => {
+    assert.equal(compressForCw("conditions are good"), "conditions are GUD");
+    assert.equal(compressForCw("how are you"), "HW");
+  });
+
+  it("matches phrases across line breaks and repeated spaces", () => {
+    assert.equal(compressForCw("best\nregards"), "73");
+    assert.equal(compressForCw("many  thanks"), "TNX");
+  });
+});
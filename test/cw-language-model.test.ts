@@ -0,0 +1,38 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { CwLanguageModel, scorePlausibility } from "../src/cw-language-model.js";
+
+describe("CwLanguageModel", () => {
+  it("scores QSO text as plausible", () => {
+    assert.equal(scorePlausibility("CQ CQ DE PA3XYZ K").score, 1);
+    assert.ok(scorePlausibility("UR RST 599 BT NAME KLAUS QTH NR HAMBURG HW?").score > 0.9);
+    assert.ok(scorePlausibility("THE WEATHER IS COLD").score > 0.9);
+  });
+
+  it("scores short-element noise bursts as implausible", () => {
+    for (const noise of ["EETTIE TEEI", "TIETNEA IEETNS TMTIE ANTEEI", "EIEIEIEIE"]) {
+      const plausibility = scorePlausibility(noise);
+      assert.ok(plausibility.score < 0.1, noise);
+      assert.equal(plausibility.charScore, 0, noise);
+    }
+  });
+
+  it("reads unknown words that look like text with the character model", () => {
+    const plausibility = scorePlausibility("NAME IS GERRIT QTH ALMERE");
+    assert.equal(plausibility.wordScore, 0.6);
+    assert.ok(plausibility.charScore > 0.8);
+  });
+
+  it("gives unreadable characters half credit as words", () => {
+    assert.equal(scorePlausibility("ZX?Q").wordScore, 0.5);
+  });
+
+  it("has lower cross-entropy for text like its corpus", () => {
+    const model = new CwLanguageModel(["CQ CQ DE PA3XYZ K", "TNX FER CALL"]);
+    assert.ok(model.crossEntropy("CQ DE PA3XYZ") < model.crossEntropy("ZQJV XWPF"));
+  });
+
+  it("scores empty text as noise", () => {
+    assert.deepEqual(scorePlausibility("  "), { score: 0, charScore: 0, wordScore: 0 });
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { tokenNumber, tokenizeCw } from "../src/cw-tokens.js";
+
+function kinds(text: string): string[] {
+  return tokenizeCw(text).map((token) => `${token.text}:${token.kind}`);
+}
+
+describe("tokenizeCw", () => {
+  it("classifies a ragchew over", () => {
+    assert.deepEqual(kinds("PA3XYZ DE DL2ABC TNX FER CALL UR RST 579 QTH BERLIN BT 73 KN"), [
+      "PA3XYZ:callsign", "DE:abbreviation", "DL2ABC:callsign", "TNX:abbreviation", "FER:abbreviation",
+      "CALL:unknown", "UR:abbreviation", "RST:abbreviation", "579:rst", "QTH:qcode", "BERLIN:unknown",
+      "BT:prosign", "73:abbreviation", "KN:prosign",
+    ]);
+  });
+
+  it("classifies contest exchanges with cut numbers", () => {
+    const tokens = tokenizeCw("TU 5NN TT1 NR 023 14");
+    assert.deepEqual(tokens.map((token) => [token.kind, token.value]), [
+      ["abbreviation", "TU"],
+      ["rst", "599"],
+      ["cut-number", "001"],
+      ["abbreviation", "NR"],
+      ["serial", "023"],
+      ["number", "14"],
+    ]);
+  });
+
+  it("treats numbers after a serial keyword as serials, even RST-shaped ones", () => {
+    const tokens = tokenizeCw("NR 123 SER 5N9");
+    assert.equal(tokens[1].kind, "serial");
+    assert.equal(tokens[3].kind, "serial");
+    assert.equal(tokens[3].value, "599");
+  });
+
+  it("recognises Q-codes with and without a query", () => {
+    assert.deepEqual(kinds("QRL? QSL QRZ?"), ["QRL?:qcode", "QSL:qcode", "QRZ?:qcode"]);
+  });
+
+  it("tells grids from callsigns", () => {
+    assert.deepEqual(kinds("JO22 LOC JO22AB"), ["JO22:grid", "LOC:abbreviation", "JO22AB:grid"]);
+    assert.equal(tokenizeCw("DE JO22AB")[1].kind, "callsign");
+  });
+
+  it("keeps unreadable characters and scores their confidence", () => {
+    const [rst, call] = tokenizeCw("5?9 DL2A?C");
+    assert.equal(rst.kind, "rst");
+    assert.equal(rst.confidence, "low");
+    assert.equal(call.kind, "callsign");
+    assert.equal(call.value, "DL2A?C");
+    assert.equal(call.confidence, "medium");
+  });
+
+  it("reads a trailing ? on a callsign as a query", () => {
+    const [token] = tokenizeCw("PA3XYZ?");
+    assert.equal(token.kind, "callsign");
+    assert.equal(token.value, "PA3XYZ");
+  });
+
+  it("records positions without surrounding punctuation", () => {
+    const tokens = tokenizeCw("HI  PA3XYZ, 73.");
+    assert.deepEqual(tokens.map((token) => [token.text, token.index]), [["HI", 0], ["PA3XYZ", 4], ["73", 12]]);
+  });
+});
+
+describe("tokenNumber", () => {
+  it("returns the value of numeric tokens only", () => {
+    const [rst, cut, abbreviation, noisy] = tokenizeCw("5NN 1T 73 1?");
+    assert.equal(tokenNumber(rst), 599);
+    assert.equal(tokenNumber(cut), 10);
+    assert.equal(tokenNumber(abbreviation), undefined);
+    assert.equal(tokenNumber(noisy), undefined);
+  });
+});
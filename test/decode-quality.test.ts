@@ -1,6 +1,6 @@
 import { describe, it } from "node:test";
 import assert from "node:assert/strict";
-import { filterDecodeNoise, scoreMessageConfidence } from "../src/decode-quality.js";
+import { filterDecodeNoise, isLikelyNoise, scoreMessageConfidence } from "../src/decode-quality.js";
 
 describe("filterDecodeNoise", () => {
   it("strips common punctuation noise bursts", () => {
@@ -26,4 +26,27 @@ describe("scoreMessageConfidence", () => {
   it("returns low for heavy uncertainty", () => {
     assert.equal(scoreMessageConfidence("?? === ###"), "low");
   });
+
+  it("returns low for clean-looking noise", () => {
+    assert.equal(scoreMessageConfidence("EETTIE TEEI"), "low");
+  });
+
+  it("caps unusual but readable text at medium", () => {
+    assert.equal(scoreMessageConfidence("NAME IS GERRIT QTH ALMERE"), "high");
+    assert.equal(scoreMessageConfidence("GERRIT ALMERE"), "medium");
+  });
+});
+
+describe("isLikelyNoise", () => {
+  it("flags short-element bursts but not QSO text", () => {
+    assert.equal(isLikelyNoise("EETTIE TEEI"), true);
+    assert.equal(isLikelyNoise("TIETNEA IEETNS TMTIE"), true);
+    assert.equal(isLikelyNoise("UR RST 599 BT NAME KLAUS"), false);
+    assert.equal(isLikelyNoise("TU"), false);
+    assert.equal(isLikelyNoise("HI HI"), false);
+    assert.equal(isLikelyNoise("NIL"), false);
+    assert.equal(isLikelyNoise("RR"), false);
+    assert.equal(isLikelyNoise("TIE"), false);
+    assert.equal(isLikelyNoise("SAT"), false);
+  });
 });
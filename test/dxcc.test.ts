@@ -0,0 +1,119 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { DxccDatabase } from "../src/dxcc.js";
+
+const CTY_DAT = `Sov Mil Order of Malta:   15:  28:  EU:   41.90:   -12.43:    -1.0:  1A:
+    1A;
+Canary Islands:           33:  36:  AF:   28.32:    15.85:     0.0:  EA8:
+    AM8,AN8,AO8,EA8,EB8,EC8,ED8,EE8,EF8,EG8,EH8;
+Spain:                    14:  37:  EU:   40.37:     4.88:    -1.0:  EA:
+    AM,AN,AO,EA,EB,EC,ED,EE,EF,EG,EH;
+Belgium:                  14:  27:  EU:   50.70:    -4.85:    -1.0:  ON:
+    ON,OO,OP,OQ,OR,OS,OT;
+Germany:                  14:  28:  EU:   51.00:   -10.00:    -1.0:  DL:
+    DA,DB,DC,DD,DE,DF,DG,DH,DI,DJ,DK,DL,DM,DN,DO,DP,DQ,DR;
+Italy:                    15:  28:  EU:   42.82:   -12.58:    -1.0:  I:
+    I;
+Sicily:                   15:  28:  EU:   37.50:   -14.00:    -1.0:  *IT9:
+    IT9,IW9;
+United States:            05:  08:  NA:   37.53:    91.67:     5.0:  K:
+    AA,K,N,W,K6(3)[6],N6(3)[6],W6(3)[6],
+    =AA6RX(4)[7]<39.74/104.99>~7.0~;
+`;
+
+const CTY_CSV = `EA8,Canary Islands,29,AF,33,36,28.32,15.85,0.0,AM8 AN8 AO8 EA8 EB8 EC8 ED8 EE8 EF8 EG8 EH8;
+DL,Germany,230,EU,14,28,51.00,-10.00,-1.0,DA DB DC DD DE DF DG DH DI DJ DK DL DM DN DO DP DQ DR;
+`;
+
+function loadDat(): DxccDatabase {
+  const dxcc = new DxccDatabase();
+  dxcc.loadCtyDat(CTY_DAT);
+  return dxcc;
+}
+
+describe("DxccDatabase", () => {
+  it("resolves a callsign to its entity by the longest prefix", () => {
+    const dxcc = loadDat();
+    assert.equal(dxcc.size, 8);
+    assert.equal(dxcc.resolve("EA8ABC")?.entity, "Canary Islands");
+    assert.equal(dxcc.resolve("ea3abc")?.entity, "Spain");
+    assert.equal(dxcc.resolve("IT9XYZ")?.primaryPrefix, "IT9");
+    assert.equal(dxcc.resolve("I2ABC")?.entity, "Italy");
+    assert.equal(dxcc.resolve("ZZ9ZZ"), null);
+  });
+
+  it("reports zones, continent and position with east longitude and UTC offset", () => {
+    const germany = loadDat().resolve("DL2ABC");
+    assert.deepEqual(germany, {
+      entity: "Germany",
+      primaryPrefix: "DL",
+      continent: "EU",
+      cqZone: 14,
+      ituZone: 28,
+      latitude: 51,
+      longitude: 10,
+      utcOffset: 1,
+      callsign: "DL2ABC",
+      matchedPrefix: "DL",
+    });
+    const usa = loadDat().resolve("K1ABC");
+    assert.equal(usa?.longitude, -91.67);
+    assert.equal(usa?.utcOffset, -5);
+  });
+
+  it("applies prefix and exact-call overrides", () => {
+    const dxcc = loadDat();
+    const w6 = dxcc.resolve("W6ABC");
+    assert.equal(w6?.cqZone, 3);
+    assert.equal(w6?.ituZone, 6);
+    assert.equal(w6?.matchedPrefix, "W6");
+
+    const exact = dxcc.resolve("AA6RX");
+    assert.equal(exact?.entity, "United States");
+    assert.equal(exact?.cqZone, 4);
+    assert.equal(exact?.ituZone, 7);
+    assert.equal(exact?.longitude, -104.99);
+    assert.equal(exact?.utcOffset, -7);
+    assert.equal(dxcc.resolve("AA6RX/P")?.cqZone, 4);
+  });
+
+  it("resolves slashed calls by their prefix part", () => {
+    const dxcc = loadDat();
+    assert.equal(dxcc.resolve("EA8/ON4UN")?.entity, "Canary Islands");
+    assert.equal(dxcc.resolve("ON4UN/EA8")?.entity, "Canary Islands");
+    assert.equal(dxcc.resolve("EA8/ON4UN/P")?.entity, "Canary Islands");
+    assert.equal(dxcc.resolve("DL2ABC/P")?.entity, "Germany");
+    assert.equal(dxcc.resolve("W1AW/6")?.cqZone, 3);
+    assert.equal(dxcc.resolve("DL2ABC/MM"), null);
+    assert.equal(dxcc.resolve("K1ABC/AM"), null);
+  });
+
+  it("loads cty.csv with DXCC entity codes", () => {
+    const dxcc = new DxccDatabase();
+    dxcc.loadCtyCsv(CTY_CSV);
+    assert.equal(dxcc.size, 2);
+    const canary = dxcc.resolve("EA8/ON4UN");
+    assert.equal(canary?.dxcc, 29);
+    assert.equal(canary?.longitude, -15.85);
+    assert.equal(dxcc.resolve("DF1XX")?.dxcc, 230);
+  });
+
+  it("detects the file format", () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "cqlaw-cty-"));
+    try {
+      fs.writeFileSync(path.join(dir, "cty.dat"), CTY_DAT);
+      fs.writeFileSync(path.join(dir, "cty.csv"), CTY_CSV);
+      const dat = new DxccDatabase();
+      dat.loadFile(path.join(dir, "cty.dat"));
+      const csv = new DxccDatabase();
+      csv.loadFile(path.join(dir, "cty.csv"));
+      assert.equal(dat.size, 8);
+      assert.equal(csv.size, 2);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -1,7 +1,8 @@
 import { describe, it, afterEach } from "node:test";
 import assert from "node:assert/strict";
 import http from "node:http";
-import { FldigiClient, XmlRpcError } from "../src/fldigi-client.js";
+import { FldigiClient, FldigiUnsupportedError, XmlRpcError } from "../src/fldigi-client.js";
+import { createMockFldigi as createSimulatedFldigi, type MockFldigi } from "./mock-fldigi.js";
 
 /**
  * Spin up a tiny HTTP server that simulates fldigi's XML-RPC responses.
@@ -166,6 +167,35 @@ describe("FldigiClient", () => {
     assert.equal(txData, "TNX 73");
   });
 
+  it("getModemNames decodes an array response", async () => {
+    mock.setHandler(() =>
+      `<?xml version="1.0"?><methodResponse><params><param><value><array><data>` +
+      `<value><string>CW</string></value><value><string>RTTY</string></value>` +
+      `</data></array></value></param></params></methodResponse>`
+    );
+    port = await mock.start();
+    const client = new FldigiClient({ host: "127.0.0.1", port });
+
+    assert.deepEqual(await client.getModemNames(), ["CW", "RTTY"]);
+  });
+
+  it("listCommands decodes fldigi.list structs", async () => {
+    mock.setHandler(() =>
+      `<?xml version="1.0"?><methodResponse><params><param><value><array><data>` +
+      `<value><struct>` +
+      `<member><name>name</name><value><string>modem.get_wpm</string></value></member>` +
+      `<member><name>signature</name><value><string>i:n</string></value></member>` +
+      `<member><name>help</name><value><string>Returns the CW speed</string></value></member>` +
+      `</struct></value>` +
+      `</data></array></value></param></params></methodResponse>`
+    );
+    port = await mock.start();
+    const client = new FldigiClient({ host: "127.0.0.1", port });
+
+    const commands = await client.listCommands();
+    assert.deepEqual(commands, [{ name: "modem.get_wpm", signature: "i:n", help: "Returns the CW speed" }]);
+  });
+
   it("propagates XML-RPC faults as XmlRpcError", async () => {
     mock.setHandler(
       () =>
@@ -193,3 +223,119 @@ describe("FldigiClient", () => {
     assert.ok(receivedBody.includes("<methodName>modem.get_name</methodName>"));
   });
 });
+
+describe("FldigiClient capability probing", () => {
+  let fldigi: MockFldigi;
+  let client: FldigiClient | null = null;
+
+  afterEach(async () => {
+    client?.close();
+    client = null;
+    if (fldigi?.server.listening) {
+      await fldigi.stop();
+    }
+  });
+
+  it("resolves every operation on a stock build", async () => {
+    fldigi = createSimulatedFldigi({ version: "4.2.05" });
+    const port = await fldigi.start();
+    client = new FldigiClient({ host: "127.0.0.1", port });
+
+    const caps = await client.probeCapabilities();
+    assert.equal(caps.version, "4.2.05");
+    assert.equal(caps.multicall, true);
+    assert.equal(caps.resolved.txData, "main.get_tx_data");
+    assert.deepEqual(caps.unsupported, []);
+    assert.equal(caps.rxImpaired, false);
+    assert.equal(client.xmlrpc.supportsMulticall, true);
+  });
+
+  it("falls back to older method names and reports missing ones", async () => {
+    fldigi = createSimulatedFldigi({
+      version: "3.21.83",
+      multicall: false,
+      methods: ["fldigi.version", "text.get_rx", "text.get_rx_length", "text.get_tx", "modem.get_quality"],
+    });
+    const port = await fldigi.start();
+    client = new FldigiClient({ host: "127.0.0.1", port });
+
+    const caps = await client.probeCapabilities();
+    assert.equal(caps.multicall, false);
+    assert.equal(caps.resolved.txData, "text.get_tx");
+    assert.ok(caps.unsupported.includes("getWpm"));
+    assert.equal(client.supports("getWpm"), false);
+    assert.equal(client.xmlrpc.supportsMulticall, false);
+
+    const callsBefore = fldigi.getCallCount();
+    await assert.rejects(() => client!.getWpm(), (err: unknown) => {
+      assert.ok(err instanceof FldigiUnsupportedError);
+      assert.equal(err.operation, "getWpm");
+      assert.match(err.message, /getWpm unsupported by fldigi 3\.21\.83/);
+      return true;
+    });
+    assert.equal(fldigi.getCallCount(), callsBefore, "unsupported calls never reach fldigi");
+
+    await client.getTxData();
+    assert.equal(fldigi.getCallLog().at(-1), "text.get_tx");
+  });
+
+  it("polls without the signal metrics a build lacks", async () => {
+    fldigi = createSimulatedFldigi({
+      snr: 12.5,
+      methods: ["fldigi.version", "text.get_rx", "text.get_rx_length", "modem.get_quality"],
+    });
+    fldigi.addRxText("CQ DE PA3XYZ");
+    const port = await fldigi.start();
+    client = new FldigiClient({ host: "127.0.0.1", port });
+    await client.probeCapabilities();
+
+    const snapshot = await client.pollRx(0, { includeSignal: true });
+    assert.equal(snapshot.text, "CQ DE PA3XYZ");
+    assert.equal(snapshot.wpm, undefined);
+    assert.equal(snapshot.snr, 12.5);
+  });
+
+  it("advances the RX offset by fldigi's bytes, not by characters", async () => {
+    fldigi = createSimulatedFldigi();
+    fldigi.addRxText("CQ DE DL2ÄBC ");
+    const port = await fldigi.start();
+    client = new FldigiClient({ host: "127.0.0.1", port });
+
+    const first = await client.pollRx(0);
+    assert.equal(first.text, "CQ DE DL2ÄBC ");
+    assert.equal(first.nextOffset, 14);
+
+    fldigi.addRxText("K");
+    const second = await client.pollRx(first.nextOffset);
+    assert.equal(second.text, "K");
+    assert.equal(second.nextOffset, 15);
+  });
+
+  it("flags builds that cannot read RX text", async () => {
+    fldigi = createSimulatedFldigi({ methods: ["fldigi.version", "text.add_tx"] });
+    const port = await fldigi.start();
+    client = new FldigiClient({ host: "127.0.0.1", port });
+
+    const caps = await client.probeCapabilities();
+    assert.equal(caps.rxImpaired, true);
+  });
+
+  it("keeps try-in-order routing when system.listMethods is unavailable", async () => {
+    fldigi = createSimulatedFldigi();
+    fldigi.setFault("system.listMethods", { code: -32601, message: "method not found" });
+    const port = await fldigi.start();
+    client = new FldigiClient({ host: "127.0.0.1", port });
+
+    const caps = await client.probeCapabilities();
+    assert.equal(caps.methods, null);
+    assert.equal(caps.multicall, undefined);
+    assert.equal(caps.resolved.txData, "main.get_tx_data");
+    assert.deepEqual(caps.unsupported, []);
+    assert.equal(await client.getWpm(), 20);
+  });
+
+  it("propagates transport errors from the probe", async () => {
+    client = new FldigiClient({ host: "127.0.0.1", port: 1, timeoutMs: 500 });
+    await assert.rejects(() => client!.probeCapabilities(), XmlRpcError);
+  });
+});
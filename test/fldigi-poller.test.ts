@@ -2,6 +2,7 @@ import { describe, it, afterEach } from "node:test";
 import assert from "node:assert/strict";
 import { FldigiPoller, type ChannelStatus } from "../src/fldigi-poller.js";
 import { resolveConfig } from "../src/config.js";
+import { PipelineMetrics } from "../src/metrics.js";
 import { createMockFldigi, type MockFldigi } from "./mock-fldigi.js";
 
 function wait(ms: number): Promise<void> {
@@ -62,6 +63,9 @@ describe("FldigiPoller", () => {
     assert.equal(messages[0].peer, "PA3XYZ");
     assert.equal(messages[0].metadata.detectedWpm, 20);
     assert.equal(messages[0].metadata.snr, 20);
+    assert.equal(messages[0].metadata.flushReason, "prosign");
+    // 7 word gaps at the mock's 20 WPM
+    assert.equal(messages[0].metadata.silenceThresholdMs, 2940);
   });
 
   it("extracts peer from directed exchange", async () => {
@@ -85,6 +89,27 @@ describe("FldigiPoller", () => {
     assert.equal(messages[0].peer, "DL2ABC");
   });
 
+  it("does not take a call on an unallocated prefix as the peer", async () => {
+    mock = createMockFldigi();
+    const port = await mock.start();
+    const messages: Array<{ text: string; peer: string }> = [];
+
+    const config = resolveConfig({ fldigi: { port, pollingIntervalMs: 50 } });
+    poller = new FldigiPoller(config, {
+      onMessage: (text, peer) => messages.push({ text, peer }),
+      onStatusChange: () => {},
+    });
+
+    await poller.start();
+    await wait(150);
+
+    mock.addRxText("PA3XYZ QRZ1A K");
+    await wait(200);
+
+    assert.equal(messages.length, 1);
+    assert.equal(messages[0].peer, "PA3XYZ");
+  });
+
   it("enters reconnecting state when fldigi is unreachable", async () => {
     const statuses: ChannelStatus[] = [];
 
@@ -125,4 +150,295 @@ describe("FldigiPoller", () => {
     assert.equal(messages.length, 1);
     assert.equal(messages[0].text, "CQ CQ DE PA3XYZ K");
   });
+
+  it("batches each poll cycle into a single system.multicall request", async () => {
+    mock = createMockFldigi();
+    const port = await mock.start();
+
+    const config = resolveConfig({ fldigi: { port, pollingIntervalMs: 50 } });
+    poller = new FldigiPoller(config, {
+      onMessage: () => {},
+      onStatusChange: () => {},
+    });
+
+    await poller.start();
+    const connectCalls = mock.getCallCount();
+    await wait(300);
+
+    const pollCalls = mock.getCallLog().slice(connectCalls);
+    assert.ok(pollCalls.length > 0);
+    assert.ok(pollCalls.every((method) => method === "system.multicall"));
+  });
+
+  it("falls back to individual calls when fldigi lacks system.multicall", async () => {
+    mock = createMockFldigi({ multicall: false });
+    const port = await mock.start();
+    const messages: Array<{ text: string; metadata: Record<string, unknown> }> = [];
+
+    const config = resolveConfig({ fldigi: { port, pollingIntervalMs: 50 } });
+    poller = new FldigiPoller(config, {
+      onMessage: (text, _peer, metadata) => messages.push({ text, metadata }),
+      onStatusChange: () => {},
+    });
+
+    await poller.start();
+    await wait(150);
+
+    mock.addRxText("CQ CQ DE PA3XYZ K");
+    await wait(200);
+
+    assert.equal(messages.length, 1);
+    assert.equal(messages[0].text, "CQ CQ DE PA3XYZ K");
+    assert.equal(messages[0].metadata.detectedWpm, 20);
+    assert.ok(mock.getCallLog().includes("text.get_rx"));
+  });
+
+  it("exposes the probed capabilities after connecting", async () => {
+    mock = createMockFldigi({ version: "4.1.20" });
+    const port = await mock.start();
+
+    const config = resolveConfig({ fldigi: { port, pollingIntervalMs: 50 } });
+    poller = new FldigiPoller(config, {
+      onMessage: () => {},
+      onStatusChange: () => {},
+    });
+
+    assert.equal(poller.getCapabilities(), null);
+    await poller.start();
+
+    const caps = poller.getCapabilities();
+    assert.equal(caps?.version, "4.1.20");
+    assert.equal(caps?.multicall, true);
+    assert.ok(mock.getCallLog().includes("system.listMethods"));
+  });
+
+  it("reports an error status when the fldigi build cannot read RX text", async () => {
+    mock = createMockFldigi({ methods: ["fldigi.version"] });
+    const port = await mock.start();
+    const statuses: ChannelStatus[] = [];
+
+    const config = resolveConfig({ fldigi: { port, pollingIntervalMs: 50 } });
+    poller = new FldigiPoller(config, {
+      onMessage: () => {},
+      onStatusChange: (s) => statuses.push(s),
+    });
+
+    await poller.start();
+    await wait(100);
+
+    assert.ok(statuses.includes("error"));
+    assert.ok(!statuses.includes("connected"));
+    assert.equal(poller.getCapabilities()?.rxImpaired, true);
+  });
+
+  it("stamps each message with its RX start/end time and signal statistics", async () => {
+    mock = createMockFldigi({ snr: 14 });
+    const port = await mock.start();
+    const messages: Array<{ text: string; metadata: Record<string, unknown> }> = [];
+
+    const config = resolveConfig({ fldigi: { port, pollingIntervalMs: 50 } });
+    poller = new FldigiPoller(config, {
+      onMessage: (text, _peer, metadata) => messages.push({ text, metadata }),
+      onStatusChange: () => {},
+    });
+
+    await poller.start();
+    await wait(150);
+
+    mock.addRxText("CQ CQ ");
+    await wait(300);
+    mock.addRxText("DE PA3XYZ K");
+    await wait(200);
+
+    assert.equal(messages.length, 1);
+    const { metadata } = messages[0];
+    const start = Date.parse(metadata.startTime as string);
+    const end = Date.parse(metadata.endTime as string);
+    assert.ok(end - start >= 200, `expected the over to span the two chunks, got ${end - start}ms`);
+    assert.equal(metadata.durationMs, end - start);
+    assert.equal((metadata.rxSegments as unknown[]).length, 2);
+    assert.deepEqual(metadata.snrStats, { min: 14, avg: 14, max: 14, samples: (metadata.snrStats as { samples: number }).samples });
+    assert.equal((metadata.wpmStats as { max: number }).max, 20);
+  });
+
+  it("recovers text decoded while fldigi was briefly unreachable", async () => {
+    mock = createMockFldigi();
+    const port = await mock.start();
+    const messages: Array<{ text: string; metadata: Record<string, unknown> }> = [];
+
+    const config = resolveConfig({ fldigi: { port, pollingIntervalMs: 50 } });
+    poller = new FldigiPoller(config, {
+      onMessage: (text, _peer, metadata) => messages.push({ text, metadata }),
+      onStatusChange: () => {},
+    });
+
+    await poller.start();
+    mock.addRxText("CQ CQ DE PA3XYZ K");
+    await wait(200);
+
+    mock.setRejectAll(true);
+    await wait(150);
+    mock.addRxText(" PA3XYZ DE DL2ABC RST 599 K");
+    mock.setRejectAll(false);
+    await wait(1500);
+
+    assert.equal(messages.length, 2);
+    assert.equal(messages[1].text, "PA3XYZ DE DL2ABC RST 599 K");
+    assert.equal(messages[1].metadata.gap, undefined);
+  });
+
+  it("marks a gap when fldigi restarted during an outage", async () => {
+    mock = createMockFldigi();
+    const port = await mock.start();
+    const messages: Array<{ text: string; metadata: Record<string, unknown> }> = [];
+
+    const config = resolveConfig({ fldigi: { port, pollingIntervalMs: 50 } });
+    poller = new FldigiPoller(config, {
+      onMessage: (text, _peer, metadata) => messages.push({ text, metadata }),
+      onStatusChange: () => {},
+    });
+
+    await poller.start();
+    mock.addRxText("CQ CQ DE PA3XYZ K");
+    await wait(200);
+
+    mock.setRejectAll(true);
+    await wait(150);
+    mock.resetRxBuffer();
+    mock.addRxText("DL2ABC K");
+    mock.setRejectAll(false);
+    await wait(1500);
+
+    assert.equal(messages.length, 2);
+    assert.equal(messages[1].text, "DL2ABC K");
+    const gap = messages[1].metadata.gap as { reason: string; outageMs?: number };
+    assert.equal(gap.reason, "restart");
+    assert.ok((gap.outageMs ?? 0) > 0);
+  });
+
+  it("detects a buffer clear that did not shrink the length", async () => {
+    mock = createMockFldigi();
+    const port = await mock.start();
+    const messages: string[] = [];
+
+    const config = resolveConfig({ fldigi: { port, pollingIntervalMs: 50 } });
+    poller = new FldigiPoller(config, {
+      onMessage: (text) => messages.push(text),
+      onStatusChange: () => {},
+    });
+
+    await poller.start();
+    mock.addRxText("CQ CQ DE PA3XYZ K");
+    await wait(200);
+
+    mock.resetRxBuffer();
+    mock.addRxText("PA3XYZ DE DL2ABC DL2ABC RST 599 K");
+    await wait(300);
+
+    assert.deepEqual(messages, ["CQ CQ DE PA3XYZ K", "PA3XYZ DE DL2ABC DL2ABC RST 599 K"]);
+  });
+
+  it("reports the carrier offset and the station's RF frequency", async () => {
+    mock = createMockFldigi({ carrier: 650 });
+    const port = await mock.start();
+    const messages: Array<{ metadata: Record<string, unknown> }> = [];
+
+    const config = resolveConfig({ frequency: 7030000, fldigi: { port, pollingIntervalMs: 50 } });
+    poller = new FldigiPoller(config, {
+      onMessage: (_text, _peer, metadata) => messages.push({ metadata }),
+      onStatusChange: () => {},
+    });
+
+    await poller.start();
+    await wait(150);
+    mock.addRxText("CQ CQ DE PA3XYZ K");
+    await wait(200);
+
+    assert.equal(messages.length, 1);
+    assert.equal(messages[0].metadata.carrierHz, 650);
+    assert.equal(messages[0].metadata.rfFrequency, 7030650);
+  });
+
+  it("uses the rig's dial frequency and sideband for the RF frequency", async () => {
+    mock = createMockFldigi({ carrier: 650, dialHz: 7031000, rigMode: "LSB" });
+    const port = await mock.start();
+    const messages: Array<{ metadata: Record<string, unknown> }> = [];
+
+    const config = resolveConfig({ frequency: 7030000, fldigi: { port, pollingIntervalMs: 50 } });
+    poller = new FldigiPoller(config, {
+      onMessage: (_text, _peer, metadata) => messages.push({ metadata }),
+      onStatusChange: () => {},
+    });
+
+    await poller.start();
+    await wait(150);
+    mock.addRxText("CQ CQ DE PA3XYZ K");
+    await wait(200);
+
+    assert.equal(messages.length, 1);
+    assert.equal(messages[0].metadata.rfFrequency, 7030350);
+  });
+
+  it("records polls, decoded bytes and flush reasons in the metrics registry", async () => {
+    mock = createMockFldigi();
+    const port = await mock.start();
+    const metrics = new PipelineMetrics();
+
+    const config = resolveConfig({ fldigi: { port, pollingIntervalMs: 50 } });
+    poller = new FldigiPoller(config, { onMessage: () => {}, onStatusChange: () => {} }, metrics);
+
+    await poller.start();
+    await wait(150);
+    mock.addRxText("CQ CQ DE PA3XYZ K");
+    await wait(200);
+
+    const labels = { receiver: "main" };
+    assert.ok(metrics.polls.get(labels) > 0);
+    assert.equal(metrics.rxBytes.get(labels), "CQ CQ DE PA3XYZ K".length);
+    assert.equal(metrics.rxMessages.get(labels), 1);
+    assert.equal(metrics.rxFlushes.get({ receiver: "main", reason: "prosign" }), 1);
+    assert.equal(metrics.connected.get(labels), 1);
+    assert.ok((metrics.lastDecode.get(labels) ?? 0) > 0);
+    assert.match(metrics.renderPrometheus(), /cqlaw_fldigi_poll_latency_seconds_count\{receiver="main"\} \d+/);
+  });
+
+  it("drops overs the language model scores as noise", async () => {
+    mock = createMockFldigi();
+    const port = await mock.start();
+    const metrics = new PipelineMetrics();
+    const messages: string[] = [];
+
+    const config = resolveConfig({
+      fldigi: { port, pollingIntervalMs: 50 },
+      rx: { minSilenceMs: 100, maxSilenceMs: 200, suppressNoise: true },
+    });
+    poller = new FldigiPoller(config, { onMessage: (text) => messages.push(text), onStatusChange: () => {} }, metrics);
+
+    await poller.start();
+    await wait(150);
+    mock.addRxText("EETTIE TEEI TMTIE ");
+    await wait(500);
+    mock.addRxText("CQ CQ DE PA3XYZ K");
+    await wait(200);
+
+    assert.deepEqual(messages, ["CQ CQ DE PA3XYZ K"]);
+    assert.equal(metrics.rxSuppressed.get({ receiver: "main" }), 1);
+    assert.equal(metrics.rxMessages.get({ receiver: "main" }), 1);
+  });
+
+  it("dispatches noise when rx.suppressNoise is off (the default)", async () => {
+    mock = createMockFldigi();
+    const port = await mock.start();
+    const messages: string[] = [];
+
+    const config = resolveConfig({ fldigi: { port, pollingIntervalMs: 50 }, rx: { minSilenceMs: 100, maxSilenceMs: 200 } });
+    poller = new FldigiPoller(config, { onMessage: (text) => messages.push(text), onStatusChange: () => {} });
+
+    await poller.start();
+    await wait(150);
+    mock.addRxText("EETTIE TEEI TMTIE ");
+    await wait(500);
+
+    assert.deepEqual(messages, ["EETTIE TEEI TMTIE"]);
+  });
 });
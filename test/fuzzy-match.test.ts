@@ -3,6 +3,8 @@ import assert from "node:assert/strict";
 import {
   levenshtein,
   fuzzyMatchCallsign,
+  morseDistance,
+  matchKnownCallsign,
   scoreConfidence,
   mergeObservations,
 } from "../src/fuzzy-match.js";
@@ -66,6 +68,59 @@ describe("fuzzyMatchCallsign", () => {
   });
 });
 
+describe("morseDistance", () => {
+  it("is zero for identical strings and symmetric", () => {
+    assert.equal(morseDistance("PA3XYZ", "pa3xyz"), 0);
+    assert.equal(morseDistance("DL2ABC", "DL2ABS"), morseDistance("DL2ABS", "DL2ABC"));
+  });
+
+  it("makes element-level confusions cheap", () => {
+    assert.equal(morseDistance("H", "S"), 0.5); // dropped dit
+    assert.equal(morseDistance("T", "M"), 0.5);
+    assert.equal(morseDistance("M", "O"), 0.5);
+    assert.equal(morseDistance("T", "O"), 1);
+    assert.equal(morseDistance("A", "N"), 1); // dit/dah order swapped, not a likely error
+  });
+
+  it("costs split and merged characters by their elements", () => {
+    assert.equal(morseDistance("I", "EE"), 0.5);
+    assert.equal(morseDistance("ET", "A"), 0.5);
+    assert.equal(morseDistance("DL2ABC", "DL2ETBC"), 0.5);
+    assert.equal(morseDistance("W1AW", "W1ETW"), 0.5);
+  });
+
+  it("treats '?' as a cheap wildcard", () => {
+    assert.equal(morseDistance("PA3X?Z", "PA3XYZ"), 0.5);
+    assert.equal(morseDistance("PA3XYZ?", "PA3XYZ"), 0.5);
+  });
+
+  it("prefers structural errors over plain Levenshtein neighbours", () => {
+    // Both are one substitution away, but only H → S is a typical decoding error
+    assert.ok(morseDistance("DL2HAS", "DL2SAS") < morseDistance("DL2HAS", "DL2KAS"));
+  });
+});
+
+describe("matchKnownCallsign", () => {
+  const known = ["PA3XYZ", "DL2ABC", "W1AW", "JA1ABC"];
+
+  it("reports the Morse distance and a confidence that follows it", () => {
+    assert.deepEqual(matchKnownCallsign("PA3X?Z", known), { callsign: "PA3XYZ", distance: 0.5, confidence: "high" });
+    assert.deepEqual(matchKnownCallsign("DL2ABX", known), { callsign: "DL2ABC", distance: 1, confidence: "medium" });
+    assert.deepEqual(matchKnownCallsign("DL2?B?", known), { callsign: "DL2ABC", distance: 1, confidence: "medium" });
+  });
+
+  it("returns null beyond maxDistance", () => {
+    assert.equal(matchKnownCallsign("ZZZZZ", known), null);
+    assert.equal(matchKnownCallsign("DL2ABX", known, 0.5), null);
+  });
+
+  it("lowers confidence when two known calls are equally close", () => {
+    const match = matchKnownCallsign("PA3XY?", ["PA3XYZ", "PA3XYA"]);
+    assert.equal(match?.callsign, "PA3XYZ");
+    assert.equal(match?.confidence, "low");
+  });
+});
+
 describe("scoreConfidence", () => {
   it("returns high for clean decode", () => {
     assert.equal(scoreConfidence("PA3XYZ"), "high");
@@ -121,4 +176,21 @@ describe("mergeObservations", () => {
     const result = mergeObservations(["DL2AB", "DL2ABC"]);
     assert.equal(result.value, "DL2ABC");
   });
+
+  it("aligns around inserted and dropped characters", () => {
+    assert.equal(mergeObservations(["DL2ABC", "DL2ABBC", "L2ABC"]).value, "DL2ABC");
+    assert.equal(mergeObservations(["PA3XYZ", "A3XYZ", "PA3XYZ", "PA3XXYZ"]).value, "PA3XYZ");
+  });
+
+  it("reports per-character agreement", () => {
+    const result = mergeObservations(["DL2ABC", "DL2ABC", "DL2ABS"]);
+    assert.equal(result.value, "DL2ABC");
+    assert.deepEqual(result.characters.map((c) => c.agreement), [1, 1, 1, 1, 1, 2 / 3]);
+    assert.equal(mergeObservations(["PA3X?Z"]).characters[4].agreement, 0);
+  });
+
+  it("lowers confidence when a character is decided without a majority", () => {
+    const result = mergeObservations(["DL2ABC", "DL2ABS"]);
+    assert.equal(result.confidence, "medium");
+  });
 });
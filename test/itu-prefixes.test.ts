@@ -0,0 +1,59 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { bestCallsign, validateCallsign } from "../src/itu-prefixes.js";
+
+describe("validateCallsign", () => {
+  it("accepts calls on allocated series and names the country", () => {
+    for (const call of ["W1AW", "PA3XYZ", "A41KJ", "4X6TT", "9A1A", "2E0ABC", "3DA0RU", "3D2AG"]) {
+      const verdict = validateCallsign(call);
+      assert.equal(verdict.validity, "valid", call);
+      assert.equal(verdict.format, "standard", call);
+    }
+    assert.equal(validateCallsign("pa3xyz").country, "Netherlands");
+    assert.equal(validateCallsign("3DA0RU").country, "Eswatini");
+    assert.equal(validateCallsign("3D2AG").country, "Fiji");
+  });
+
+  it("takes the country from the prefix part of a slashed call", () => {
+    assert.equal(validateCallsign("EA8/ON4UN").country, "Spain");
+    assert.equal(validateCallsign("ON4UN/EA8").country, "Spain");
+    assert.equal(validateCallsign("W1AW/4").validity, "valid");
+    assert.equal(validateCallsign("PA3XYZ/P").country, "Netherlands");
+  });
+
+  it("recognises special-event formats", () => {
+    for (const call of ["GB13YOTA", "TM24REF", "II0IARU"]) {
+      const verdict = validateCallsign(call);
+      assert.equal(verdict.validity, "valid", call);
+      assert.equal(verdict.format, "special-event", call);
+    }
+  });
+
+  it("rejects series the ITU has not allocated", () => {
+    for (const call of ["QRZ1A", "S41AB", "0X1AB"]) {
+      const verdict = validateCallsign(call);
+      assert.equal(verdict.validity, "unallocated", call);
+      assert.ok(verdict.reason, call);
+    }
+  });
+
+  it("flags calls that are allocated but unlikely", () => {
+    assert.equal(validateCallsign("EI5EE").validity, "suspicious");
+    assert.equal(validateCallsign("1A0KM").validity, "suspicious");
+    assert.equal(validateCallsign("DL2A?C").reason, "unreadable characters");
+    assert.equal(validateCallsign("HELLO").reason, "not shaped like a callsign");
+  });
+});
+
+describe("bestCallsign", () => {
+  it("prefers valid calls, then suspicious ones, and never picks unallocated ones", () => {
+    assert.equal(bestCallsign(["PA3XYZ", "EI5EE", "QRZ1A"]), "PA3XYZ");
+    assert.equal(bestCallsign(["EI5EE", "QRZ1A"]), "EI5EE");
+    assert.equal(bestCallsign(["QRZ1A"]), undefined);
+    assert.equal(bestCallsign([]), undefined);
+  });
+
+  it("takes the later call when candidates rank the same", () => {
+    assert.equal(bestCallsign(["DL2ABC", "PA3XYZ"]), "PA3XYZ");
+  });
+});
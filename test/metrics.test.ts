@@ -0,0 +1,101 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import http from "node:http";
+import { MetricsRegistry, PipelineMetrics } from "../src/metrics.js";
+import { startMetricsServer } from "../src/metrics-server.js";
+
+describe("MetricsRegistry", () => {
+  it("keeps one series per label set", () => {
+    const registry = new MetricsRegistry();
+    const counter = registry.counter("test_events_total", "Events");
+    counter.inc({ receiver: "rx40" });
+    counter.inc({ receiver: "rx40" }, 2);
+    counter.inc({ receiver: "rx20" });
+
+    assert.equal(counter.get({ receiver: "rx40" }), 3);
+    assert.equal(counter.get({ receiver: "rx20" }), 1);
+    assert.equal(counter.get({ receiver: "other" }), 0);
+  });
+
+  it("returns the existing metric on re-registration and rejects type clashes", () => {
+    const registry = new MetricsRegistry();
+    const first = registry.counter("test_total", "Test");
+    assert.equal(registry.counter("test_total", "Test"), first);
+    assert.throws(() => registry.gauge("test_total", "Test"), /already registered as a counter/);
+    assert.throws(() => registry.counter("bad-name", "Test"), /Invalid metric name/);
+  });
+
+  it("renders counters, gauges and cumulative histogram buckets in Prometheus format", () => {
+    const registry = new MetricsRegistry();
+    registry.counter("test_total", "Things counted").inc({ kind: "a\"b" });
+    registry.gauge("test_up", "Up").set(1);
+    const histogram = registry.histogram("test_seconds", "Latency", [0.1, 1]);
+    histogram.observe(0.05);
+    histogram.observe(0.5);
+    histogram.observe(3);
+
+    const text = registry.renderPrometheus();
+    assert.match(text, /# TYPE test_total counter\ntest_total\{kind="a\\"b"\} 1\n/);
+    assert.match(text, /# TYPE test_up gauge\ntest_up 1\n/);
+    assert.match(text, /test_seconds_bucket\{le="0.1"\} 1\n/);
+    assert.match(text, /test_seconds_bucket\{le="1"\} 2\n/);
+    assert.match(text, /test_seconds_bucket\{le="\+Inf"\} 3\n/);
+    assert.match(text, /test_seconds_sum 3.55\n/);
+    assert.match(text, /test_seconds_count 3\n/);
+  });
+
+  it("exposes a plain snapshot object", () => {
+    const metrics = new PipelineMetrics();
+    metrics.txTotal.inc({ receiver: "main" });
+    metrics.txDuration.observe(4.2, { receiver: "main" });
+
+    const snapshot = metrics.snapshot();
+    const tx = snapshot.metrics.find((m) => m.name === "cqlaw_tx_total");
+    assert.deepEqual(tx?.samples, [{ labels: { receiver: "main" }, value: 1 }]);
+    const duration = snapshot.metrics.find((m) => m.name === "cqlaw_tx_duration_seconds");
+    assert.equal(duration?.type, "histogram");
+    assert.deepEqual(duration?.samples[0].value, {
+      buckets: [
+        { le: 1, count: 0 }, { le: 2, count: 0 }, { le: 5, count: 1 }, { le: 10, count: 1 },
+        { le: 20, count: 1 }, { le: 30, count: 1 }, { le: 60, count: 1 }, { le: 120, count: 1 },
+      ],
+      sum: 4.2,
+      count: 1,
+    });
+  });
+});
+
+function get(port: number, path: string): Promise<{ status: number; contentType: string; body: string }> {
+  return new Promise((resolve, reject) => {
+    http.get({ host: "127.0.0.1", port, path }, (res) => {
+      let body = "";
+      res.setEncoding("utf8");
+      res.on("data", (chunk: string) => { body += chunk; });
+      res.on("end", () => resolve({ status: res.statusCode ?? 0, contentType: res.headers["content-type"] ?? "", body }));
+    }).on("error", reject);
+  });
+}
+
+describe("startMetricsServer", () => {
+  it("serves Prometheus text on /metrics and JSON on /health", async () => {
+    const metrics = new PipelineMetrics();
+    metrics.sdrRestarts.inc({ receiver: "main" });
+    const server = await startMetricsServer(metrics.registry, { host: "127.0.0.1", port: 0 });
+
+    try {
+      const res = await get(server.port, "/metrics");
+      assert.equal(res.status, 200);
+      assert.match(res.contentType, /text\/plain; version=0.0.4/);
+      assert.match(res.body, /cqlaw_sdr_restarts_total\{receiver="main"\} 1/);
+
+      const health = await get(server.port, "/health");
+      const body = JSON.parse(health.body) as { metrics: Array<{ name: string }> };
+      assert.ok(body.metrics.some((m) => m.name === "cqlaw_fldigi_polls_total"));
+
+      const missing = await get(server.port, "/nope");
+      assert.equal(missing.status, 404);
+    } finally {
+      await server.close();
+    }
+  });
+});
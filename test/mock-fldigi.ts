@@ -9,21 +9,66 @@ import http from "node:http";
 
 // --- XML-RPC response helpers ---
 
-function wrapString(s: string): string {
-  return `<?xml version="1.0"?><methodResponse><params><param><value><string>${s}</string></value></param></params></methodResponse>`;
+function escapeXml(s: string): string {
+  return s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
 }
 
-function wrapInt(n: number): string {
-  return `<?xml version="1.0"?><methodResponse><params><param><value><int>${n}</int></value></param></params></methodResponse>`;
+function stringValue(s: string): string {
+  return `<value><string>${escapeXml(s)}</string></value>`;
 }
 
-function wrapFault(code: number, message: string): string {
-  return `<?xml version="1.0"?><methodResponse><fault><value><struct>` +
+function base64Value(bytes: Buffer): string {
+  return `<value><base64>${bytes.toString("base64")}</base64></value>`;
+}
+
+function intValue(n: number): string {
+  return `<value><int>${n}</int></value>`;
+}
+
+function faultStruct(code: number, message: string): string {
+  return `<value><struct>` +
     `<member><name>faultCode</name><value><int>${code}</int></value></member>` +
-    `<member><name>faultString</name><value><string>${message}</string></value></member>` +
-    `</struct></value></fault></methodResponse>`;
+    `<member><name>faultString</name><value><string>${escapeXml(message)}</string></value></member>` +
+    `</struct></value>`;
 }
 
+function wrapValue(valueXml: string): string {
+  return `<?xml version="1.0"?><methodResponse><params><param>${valueXml}</param></params></methodResponse>`;
+}
+
+function wrapFault(code: number, message: string): string {
+  return `<?xml version="1.0"?><methodResponse><fault>${faultStruct(code, message)}</fault></methodResponse>`;
+}
+
+/** Integer (and boolean, as 0/1) params of a call, in order (the only param types the mock needs to read) */
+function intParams(xml: string): number[] {
+  return Array.from(xml.matchAll(/<value><(int|boolean)>(-?\d+)<\/\1><\/value>/g)).map((m) => parseInt(m[2], 10));
+}
+
+/** Split a system.multicall body into its inner calls */
+function parseMulticall(body: string): Array<{ method: string; params: number[] }> {
+  return body.split("<struct>").slice(1).map((chunk) => {
+    const nameMatch = chunk.match(/<name>methodName<\/name>\s*<value>(?:<string>)?([^<]+)/);
+    return { method: nameMatch ? nameMatch[1] : "unknown", params: intParams(chunk) };
+  });
+}
+
+/** Methods a stock fldigi build lists via system.listMethods (subset the client uses) */
+const DEFAULT_METHODS = [
+  "fldigi.version", "fldigi.name", "fldigi.list",
+  "text.get_rx", "text.get_rx_length", "text.add_tx", "text.get_tx_length",
+  "main.get_frequency", "main.set_frequency", "main.get_tx_data", "main.abort", "main.tx", "main.rx",
+  "modem.get_name", "modem.set_by_name", "modem.get_names", "modem.get_quality", "modem.get_wpm", "modem.set_wpm",
+  "modem.get_carrier", "modem.set_carrier", "modem.get_bandwidth", "modem.set_bandwidth", "main.get_afc", "main.set_afc",
+  "rig.get_modes", "rig.get_mode",
+];
+
+function arrayValue(items: string[]): string {
+  return `<value><array><data>${items.map(stringValue).join("")}</data></array></value>`;
+}
+
+type CallOutcome = { value: string } | { fault: { code: number; message: string } };
+
 // --- Mock server ---
 
 export interface MockFldigiOptions {
@@ -35,6 +80,24 @@ export interface MockFldigiOptions {
   wpm?: number;
   /** Signal quality (S/N dB) to report. Default 20.0. */
   snr?: number;
+  /** Initial modem carrier (audio Hz). Default 1000. */
+  carrier?: number;
+  /** Rig dial frequency (Hz) for main.get_frequency. Default: no rig (empty reply). */
+  dialHz?: number;
+  /** Rig CAT mode for rig.get_mode. Default: no rig (empty reply). */
+  rigMode?: string;
+  /**
+   * Stations in the passband. When set, modem.get_quality reports the S/N of the
+   * station within half a bandwidth of the carrier, or 0 when there is none.
+   */
+  signals?: Array<{ carrier: number; snr: number }>;
+  /** Whether system.multicall is available (older fldigi builds lack it). Default true. */
+  multicall?: boolean;
+  /**
+   * Methods this build exposes (simulates older or restricted builds). Anything
+   * else faults with "method not found". Default: a stock fldigi method set.
+   */
+  methods?: string[];
 }
 
 export interface MockFldigi {
@@ -45,7 +108,7 @@ export interface MockFldigi {
   resetRxBuffer: () => void;
   /** Get total XML-RPC calls received */
   getCallCount: () => number;
-  /** Get the method names of all received calls, in order */
+  /** Get the method names of all received HTTP calls, in order (batches log as system.multicall) */
   getCallLog: () => string[];
   /** Set artificial response delay (ms) — use to simulate slow/timeout */
   setResponseDelay: (ms: number) => void;
@@ -59,10 +122,13 @@ export interface MockFldigi {
   stop: () => Promise<void>;
   /** Current RX buffer contents */
   getRxBuffer: () => string;
+  /** Current modem carrier (audio Hz) */
+  getCarrier: () => number;
 }
 
 export function createMockFldigi(options: MockFldigiOptions = {}): MockFldigi {
-  let rxBuffer = "";
+  // fldigi's RX buffer holds UTF-8 bytes; its offsets and lengths count bytes
+  let rxBuffer = Buffer.alloc(0);
   let callCount = 0;
   const callLog: string[] = [];
   let responseDelayMs = options.responseDelayMs ?? 0;
@@ -72,6 +138,90 @@ export function createMockFldigi(options: MockFldigiOptions = {}): MockFldigi {
   const version = options.version ?? "4.2.05";
   const wpm = options.wpm ?? 20;
   const snr = options.snr ?? 20.0;
+  const multicall = options.multicall ?? true;
+  let carrier = options.carrier ?? 1000;
+  let bandwidth = 100;
+  let afc = false;
+  const restricted = options.methods ? new Set(options.methods) : null;
+  const listedMethods = [
+    ...(options.methods ?? DEFAULT_METHODS),
+    "system.listMethods",
+    ...(multicall ? ["system.multicall"] : []),
+  ];
+
+  /** Resolve a single (non-batched) method call */
+  const handleCall = (method: string, params: number[]): CallOutcome => {
+    const fault = faults.get(method);
+    if (fault) return { fault };
+    if (restricted && !restricted.has(method) && !method.startsWith("system.")) {
+      return { fault: { code: -32601, message: `${method}: method not found` } };
+    }
+
+    switch (method) {
+      case "system.listMethods":
+        return { value: arrayValue(listedMethods) };
+      case "fldigi.version":
+        return { value: stringValue(version) };
+      case "text.get_rx_length":
+        return { value: intValue(rxBuffer.length) };
+      case "text.get_rx": {
+        const start = params[0] ?? 0;
+        const length = params[1] ?? rxBuffer.length;
+        return { value: base64Value(rxBuffer.subarray(start, start + length)) };
+      }
+      case "modem.get_name":
+        return { value: stringValue("CW") };
+      case "modem.get_quality": {
+        if (!options.signals) return { value: stringValue(String(snr)) };
+        const heard = options.signals.find((s) => Math.abs(s.carrier - carrier) <= bandwidth / 2);
+        return { value: stringValue(String(heard ? heard.snr : 0)) };
+      }
+      case "modem.get_carrier":
+        return { value: intValue(carrier) };
+      case "modem.set_carrier": {
+        const previous = carrier;
+        carrier = params[0] ?? carrier;
+        return { value: intValue(previous) };
+      }
+      case "modem.get_bandwidth":
+        return { value: intValue(bandwidth) };
+      case "modem.set_bandwidth":
+        bandwidth = params[0] ?? bandwidth;
+        return { value: intValue(bandwidth) };
+      case "main.get_afc":
+        return { value: `<value><boolean>${afc ? 1 : 0}</boolean></value>` };
+      case "main.set_afc":
+        afc = params[0] === 1;
+        return { value: `<value><boolean>${afc ? 1 : 0}</boolean></value>` };
+      case "modem.get_wpm":
+        return { value: intValue(wpm) };
+      case "main.get_frequency":
+        return { value: stringValue(options.dialHz === undefined ? "" : String(options.dialHz)) };
+      case "rig.get_mode":
+        return { value: stringValue(options.rigMode ?? "") };
+      default:
+        return { value: stringValue("") };
+    }
+  };
+
+  const respond = (method: string, body: string): string => {
+    if (method === "system.multicall") {
+      if (!multicall || faults.has(method)) {
+        const fault = faults.get(method) ?? { code: -32601, message: "system.multicall: method not found" };
+        return wrapFault(fault.code, fault.message);
+      }
+      const results = parseMulticall(body).map(({ method: inner, params }) => {
+        const outcome = handleCall(inner, params);
+        return "value" in outcome
+          ? `<value><array><data>${outcome.value}</data></array></value>`
+          : faultStruct(outcome.fault.code, outcome.fault.message);
+      });
+      return wrapValue(`<value><array><data>${results.join("")}</data></array></value>`);
+    }
+
+    const outcome = handleCall(method, intParams(body));
+    return "value" in outcome ? wrapValue(outcome.value) : wrapFault(outcome.fault.code, outcome.fault.message);
+  };
 
   const server = http.createServer((req, res) => {
     if (rejectAll) {
@@ -90,56 +240,23 @@ export function createMockFldigi(options: MockFldigiOptions = {}): MockFldigi {
       const method = methodMatch ? methodMatch[1] : "unknown";
       callLog.push(method);
 
-      // Helper: schedule or immediately send a response
-      const scheduleSend = (fn: () => void) => {
-        if (responseDelayMs > 0) {
-          setTimeout(fn, responseDelayMs);
-        } else {
-          fn();
-        }
+      // Responses are computed at send time so delayed replies see the latest buffer
+      const send = () => {
+        res.writeHead(200, { "Content-Type": "text/xml" });
+        res.end(respond(method, body));
       };
-
-      // Check for per-method fault injection
-      const fault = faults.get(method);
-      if (fault) {
-        scheduleSend(() => {
-          res.writeHead(200, { "Content-Type": "text/xml" });
-          res.end(wrapFault(fault.code, fault.message));
-        });
-        return;
-      }
-
-      let response: string;
-
-      if (body.includes("fldigi.version")) {
-        response = wrapString(version);
-      } else if (body.includes("text.get_rx_length")) {
-        response = wrapInt(rxBuffer.length);
-      } else if (body.includes("text.get_rx")) {
-        const startMatch = body.match(/<param><value><int>(\d+)<\/int><\/value><\/param>/);
-        const start = startMatch ? parseInt(startMatch[1], 10) : 0;
-        response = wrapString(rxBuffer.slice(start));
-      } else if (body.includes("modem.get_name")) {
-        response = wrapString("CW");
-      } else if (body.includes("modem.get_quality")) {
-        response = wrapString(String(snr));
-      } else if (body.includes("modem.get_wpm")) {
-        response = wrapInt(wpm);
+      if (responseDelayMs > 0) {
+        setTimeout(send, responseDelayMs);
       } else {
-        response = wrapString("");
+        send();
       }
-
-      scheduleSend(() => {
-        res.writeHead(200, { "Content-Type": "text/xml" });
-        res.end(response);
-      });
     });
   });
 
   return {
     server,
-    addRxText: (text: string) => { rxBuffer += text; },
-    resetRxBuffer: () => { rxBuffer = ""; },
+    addRxText: (text: string) => { rxBuffer = Buffer.concat([rxBuffer, Buffer.from(text, "utf-8")]); },
+    resetRxBuffer: () => { rxBuffer = Buffer.alloc(0); },
     getCallCount: () => callCount,
     getCallLog: () => [...callLog],
     setResponseDelay: (ms: number) => { responseDelayMs = ms; },
@@ -162,6 +279,7 @@ export function createMockFldigi(options: MockFldigiOptions = {}): MockFldigi {
       new Promise((resolve) => {
         server.close(() => resolve());
       }),
-    getRxBuffer: () => rxBuffer,
+    getRxBuffer: () => rxBuffer.toString("utf-8"),
+    getCarrier: () => carrier,
   };
 }
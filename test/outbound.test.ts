@@ -1,6 +1,8 @@
 import { describe, it } from "node:test";
 import assert from "node:assert/strict";
-import { createSendTextHandler } from "../src/outbound.js";
+import { createRoutedSendTextHandler, createSendTextHandler, type QsoLogControl } from "../src/outbound.js";
+import { ReceiverRouter } from "../src/receiver-router.js";
+import type { CarrierTuner } from "../src/carrier-tuner.js";
 
 describe("createSendTextHandler", () => {
   it("returns a stub handler when no transmitter is provided", async () => {
@@ -101,3 +103,174 @@ describe("createSendTextHandler", () => {
     assert.equal(sendCalls, 0);
   });
 });
+
+describe("createRoutedSendTextHandler", () => {
+  function recordingTransmitter(sent: string[], receiverId: string) {
+    return {
+      send: async (text: string) => {
+        sent.push(`${receiverId}:${text}`);
+        return { success: true };
+      },
+      emergencyStop: async () => {
+        sent.push(`${receiverId}:stop`);
+      },
+    } as any;
+  }
+
+  const idleQsoLog: QsoLogControl = {
+    closeQso: () => false,
+    reportPendingQsos: () => 0,
+    editPendingQso: () => null,
+    approvePendingQso: () => false,
+    rejectPendingQso: () => false,
+  };
+
+  it("transmits via the receiver the peer was last heard on", async () => {
+    const sent: string[] = [];
+    const router = new ReceiverRouter();
+    router.noteHeard("PI4ABC", "rx20", 14030000);
+    const handler = createRoutedSendTextHandler([
+      { receiverId: "rx40", transmitter: recordingTransmitter(sent, "rx40") },
+      { receiverId: "rx20", transmitter: recordingTransmitter(sent, "rx20") },
+    ], router);
+
+    await handler({ text: "PI4ABC DE PA3XYZ K", peer: "pi4abc", channel: "morse-radio" });
+    await handler({ text: "CQ CQ DE PA3XYZ K", peer: "CQ", channel: "morse-radio" });
+    await handler({ text: "QRL?", peer: "PI4ABC", channel: "morse-radio", metadata: { receiverId: "rx40" } });
+
+    assert.deepEqual(sent, ["rx20:PI4ABC DE PA3XYZ K", "rx40:CQ CQ DE PA3XYZ K", "rx40:QRL?"]);
+  });
+
+  it("refuses to transmit on a receiver without a transmitter", async () => {
+    const sent: string[] = [];
+    const router = new ReceiverRouter();
+    router.noteHeard("PI4ABC", "rx20", 14030000);
+    const handler = createRoutedSendTextHandler(
+      [{ receiverId: "rx40", transmitter: recordingTransmitter(sent, "rx40") }],
+      router,
+    );
+
+    const result = await handler({ text: "TNX 73", peer: "PI4ABC", channel: "morse-radio" });
+    assert.equal(result.success, false);
+    assert.match(result.error ?? "", /rx20/);
+    assert.deepEqual(sent, []);
+  });
+
+  it("answers a peer heard on a listen-only receiver through a transmitter on the same band", async () => {
+    const sent: string[] = [];
+    const router = new ReceiverRouter();
+    router.noteHeard("PI4ABC", "rx40sdr", 7025000);
+    const handler = createRoutedSendTextHandler([
+      { receiverId: "rx20", transmitter: recordingTransmitter(sent, "rx20"), frequency: 14030000 },
+      { receiverId: "rx40", transmitter: recordingTransmitter(sent, "rx40"), frequency: 7030000 },
+    ], router);
+
+    const result = await handler({ text: "TNX 73", peer: "PI4ABC", channel: "morse-radio" });
+    assert.equal(result.success, true);
+    assert.equal(result.metadata?.receiverId, "rx40");
+
+    const explicit = await handler({ text: "QRL?", peer: "PI4ABC", channel: "morse-radio", metadata: { receiverId: "rx40sdr" } });
+    assert.equal(explicit.success, false);
+    assert.deepEqual(sent, ["rx40:TNX 73"]);
+  });
+
+  it("stops every transmitter on /stop-tx", async () => {
+    const sent: string[] = [];
+    const handler = createRoutedSendTextHandler([
+      { receiverId: "rx40", transmitter: recordingTransmitter(sent, "rx40") },
+      { receiverId: "rx20", transmitter: recordingTransmitter(sent, "rx20") },
+    ]);
+
+    const result = await handler({ text: "/stop-tx", peer: "PI4ABC", channel: "morse-radio" });
+    assert.equal(result.success, true);
+    assert.deepEqual(sent, ["rx40:stop", "rx20:stop"]);
+  });
+
+  it("routes /tune to the tuner of the receiver the peer was heard on", async () => {
+    const sent: string[] = [];
+    const tuned: Array<{ receiverId: string; command: unknown }> = [];
+    const tuner = (receiverId: string) => ({
+      run: async (command: unknown) => {
+        tuned.push({ receiverId, command });
+        return { summary: "Carrier 1000 → 1150 Hz", result: { previousHz: 1000, carrierHz: 1150 } };
+      },
+    }) as unknown as CarrierTuner;
+    const router = new ReceiverRouter();
+    router.noteHeard("PI4ABC", "rx20", 14030000);
+    const handler = createRoutedSendTextHandler(
+      [{ receiverId: "rx40", transmitter: recordingTransmitter(sent, "rx40") }],
+      router,
+      new Map([["rx40", tuner("rx40")], ["rx20", tuner("rx20")]]),
+    );
+
+    const result = await handler({ text: "/tune +150", peer: "PI4ABC", channel: "morse-radio" });
+    assert.equal(result.success, true);
+    assert.deepEqual(tuned, [{ receiverId: "rx20", command: { kind: "offset", hz: 150 } }]);
+    assert.deepEqual(result.metadata, {
+      receiverId: "rx20", tune: "Carrier 1000 → 1150 Hz", previousHz: 1000, carrierHz: 1150,
+    });
+    assert.deepEqual(sent, []);
+
+    const bad = await handler({ text: "/tune sideways", peer: "PI4ABC", channel: "morse-radio" });
+    assert.equal(bad.success, false);
+    assert.match(bad.error ?? "", /Usage/);
+  });
+
+  it("closes and logs the QSO with the peer on /log instead of transmitting", async () => {
+    const sent: string[] = [];
+    const closed: string[] = [];
+    const handler = createRoutedSendTextHandler(
+      [{ receiverId: "rx40", transmitter: recordingTransmitter(sent, "rx40") }],
+      undefined,
+      new Map(),
+      {
+        ...idleQsoLog,
+        closeQso: (peer) => {
+          closed.push(peer);
+          return peer === "PI4ABC";
+        },
+      },
+    );
+
+    assert.equal((await handler({ text: "/log", peer: "pi4abc", channel: "morse-radio" })).success, true);
+    const missing = await handler({ text: "/log DL2ABC", peer: "PI4ABC", channel: "morse-radio" });
+    assert.equal(missing.success, false);
+    assert.match(missing.error ?? "", /No open QSO with DL2ABC/);
+    assert.deepEqual(closed, ["PI4ABC", "DL2ABC"]);
+    assert.deepEqual(sent, []);
+  });
+
+  it("runs /review commands against the pending-QSO queue instead of transmitting", async () => {
+    const sent: string[] = [];
+    const calls: string[] = [];
+    const handler = createRoutedSendTextHandler(
+      [{ receiverId: "rx40", transmitter: recordingTransmitter(sent, "rx40") }],
+      undefined,
+      new Map(),
+      {
+        ...idleQsoLog,
+        reportPendingQsos: (peer) => {
+          calls.push(`list ${peer}`);
+          return 1;
+        },
+        editPendingQso: (id, changes) => {
+          calls.push(`edit ${id} ${JSON.stringify(changes)}`);
+          return null;
+        },
+        approvePendingQso: (id) => {
+          calls.push(`approve ${id}`);
+          return true;
+        },
+      },
+    );
+
+    assert.equal((await handler({ text: "/review", peer: "PI4ABC", channel: "morse-radio" })).success, true);
+    assert.equal((await handler({ text: "/review approve 2", peer: "PI4ABC", channel: "morse-radio" })).success, true);
+    const edit = await handler({ text: "/review edit 3 name=HANS qth=NEW YORK", peer: "PI4ABC", channel: "morse-radio" });
+    assert.match(edit.error ?? "", /No pending QSO #3/);
+    const bad = await handler({ text: "/review approve", peer: "PI4ABC", channel: "morse-radio" });
+    assert.match(bad.error ?? "", /Usage/);
+    assert.deepEqual(calls, ["list PI4ABC", "approve 2", 'edit 3 {"name":"HANS","qth":"NEW YORK"}']);
+    assert.deepEqual(sent, []);
+  });
+});
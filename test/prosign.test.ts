@@ -0,0 +1,92 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { ProsignStream, detectClosingProsign, invitesReply, normalizeProsigns } from "../src/prosign.js";
+
+describe("normalizeProsigns", () => {
+  it("maps bracketed prosigns to bare tokens", () => {
+    assert.equal(normalizeProsigns("TU 73<SK>"), "TU 73 SK");
+    assert.equal(normalizeProsigns("DL2ABC DE PA3XYZ <KN>"), "DL2ABC DE PA3XYZ KN");
+    assert.equal(normalizeProsigns("NAME HANS<BT>QTH BERLIN"), "NAME HANS BT QTH BERLIN");
+    assert.equal(normalizeProsigns("73 <va>"), "73 SK");
+  });
+
+  it("maps lone ITU punctuation to prosigns but leaves noise runs alone", () => {
+    assert.equal(normalizeProsigns("TEST MSG +"), "TEST MSG AR");
+    assert.equal(normalizeProsigns("RST 579 = NAME HANS"), "RST 579 BT NAME HANS");
+    assert.equal(normalizeProsigns("PA3XYZ DE DL2ABC("), "PA3XYZ DE DL2ABC KN");
+    assert.equal(normalizeProsigns("QRM ==== QRM"), "QRM ==== QRM");
+  });
+
+  it("splits closing prosigns run together with a number or callsign", () => {
+    assert.equal(normalizeProsigns("TU 73SK"), "TU 73 SK");
+    assert.equal(normalizeProsigns("PA3XYZ DE DL2ABCKN"), "PA3XYZ DE DL2ABC KN");
+    assert.equal(normalizeProsigns("UR 599AR"), "UR 599 AR");
+  });
+
+  it("does not split words and callsigns that merely end in prosign letters", () => {
+    assert.equal(normalizeProsigns("QTH NEAR STAR"), "QTH NEAR STAR");
+    assert.equal(normalizeProsigns("DE DL2AKN"), "DE DL2AKN");
+    assert.equal(normalizeProsigns("DE DL3KN"), "DE DL3KN");
+  });
+
+  it("keeps chunk edges so words stay separated", () => {
+    assert.equal(normalizeProsigns(" PA3XYZ"), " PA3XYZ");
+    assert.equal(normalizeProsigns("CQ "), "CQ ");
+    assert.equal(normalizeProsigns("+"), " AR");
+  });
+});
+
+describe("ProsignStream", () => {
+  it("holds back a bracketed prosign split across chunks", () => {
+    const stream = new ProsignStream();
+    assert.equal(stream.push("73 <S"), "73 ");
+    assert.equal(stream.pending, "<S");
+    assert.equal(stream.push("K>"), " SK");
+    assert.equal(stream.pending, "");
+  });
+
+  it("normalises punctuation prosigns chunk by chunk", () => {
+    const stream = new ProsignStream();
+    const out = ["RST 599", "=", " NAME HANS", " +"].map((chunk) => stream.push(chunk)).join("");
+    assert.equal(out, "RST 599 BT NAME HANS AR");
+  });
+
+  it("splits run-together prosigns within the stream", () => {
+    const stream = new ProsignStream();
+    assert.equal(stream.push("TU 73SK"), "TU 73 SK");
+
+    const chunked = new ProsignStream();
+    const out = ["PA3XYZ DE DL2AB", "CK", "N "].map((chunk) => chunked.push(chunk)).join("");
+    assert.equal(out, "PA3XYZ DE DL2ABC KN ");
+  });
+
+  it("holds back a number that may still grow into a run-together prosign", () => {
+    const stream = new ProsignStream();
+    assert.equal(stream.push("TU 73S"), "TU ");
+    assert.equal(stream.pending, "73S");
+    assert.equal(stream.push("K"), "73 SK");
+    assert.equal(stream.pending, "");
+
+    assert.equal(stream.push("UR 59"), "UR 59");
+    assert.equal(stream.push("9A"), "");
+    assert.equal(stream.flush(), "9A");
+  });
+});
+
+describe("closing prosigns", () => {
+  it("detects the prosign that closes a message", () => {
+    assert.equal(detectClosingProsign("CQ CQ DE PA3XYZ K"), "K");
+    assert.equal(detectClosingProsign("PA3XYZ DE DL2ABC KN"), "KN");
+    assert.equal(detectClosingProsign("TU 73 SK"), "SK");
+    assert.equal(detectClosingProsign("QRL?"), undefined);
+    assert.equal(detectClosingProsign("QTH PARK"), undefined);
+  });
+
+  it("decides whether the over invites us to reply", () => {
+    assert.equal(invitesReply("CQ CQ DE DL2ABC K", "K", "PA3XYZ"), true);
+    assert.equal(invitesReply("PA3XYZ DE DL2ABC KN", "KN", "PA3XYZ"), true);
+    assert.equal(invitesReply("ON4UN DE DL2ABC KN", "KN", "PA3XYZ"), false);
+    assert.equal(invitesReply("PA3XYZ DE DL2ABC TU 73 SK", "SK", "PA3XYZ"), false);
+    assert.equal(invitesReply("QRL?", undefined, "PA3XYZ"), false);
+  });
+});
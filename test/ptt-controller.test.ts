@@ -76,6 +76,7 @@ describe("createPttController", () => {
     pttMethod: "none",
     pttSerialPort: "",
     pttSerialLine: "dtr",
+    abbreviate: true,
   };
 
   it("returns a no-op controller for 'none' method", async () => {
@@ -270,9 +271,32 @@ describe("config validation for serial PTT", () => {
         pttMethod: "serial",
         pttSerialPort: "",   // missing — should produce an error
         pttSerialLine: "dtr",
+        abbreviate: true,
       },
       qrz: { username: "", password: "" },
       callsignLookup: { enabled: false, provider: "mock", cacheTtlSeconds: 3600 },
+      rx: {
+        silenceWordGaps: 7,
+        silenceHysteresis: 1.5,
+        minSilenceMs: 1000,
+        maxSilenceMs: 8000,
+        defaultSilenceMs: 3000,
+        partialUpdates: false,
+        partialEveryWords: 10,
+        suppressNoise: true,
+      },
+      metrics: { enabled: false, host: "127.0.0.1", port: 9464 },
+      journal: { enabled: false, rotation: "none", maxBytes: 10_000_000 },
+      replay: { path: "", speed: 1 },
+      callHistory: { scpPath: "", historyPath: "" },
+      dxcc: { ctyPath: "" },
+      receivers: [{
+        id: "main",
+        frequency: 7_030_000,
+        fldigi: { host: "127.0.0.1", port: 7362, pollingIntervalMs: 250 },
+        sdr: { enabled: false, device: "", sampleRate: 48000 },
+        transmit: true,
+      }],
     });
 
     const serialError = errors.find((e) => e.field === "tx.pttSerialPort");
@@ -295,9 +319,32 @@ describe("config validation for serial PTT", () => {
         pttMethod: "serial",
         pttSerialPort: "/dev/ttyUSB0",
         pttSerialLine: "dtr",
+        abbreviate: true,
       },
       qrz: { username: "", password: "" },
       callsignLookup: { enabled: false, provider: "mock", cacheTtlSeconds: 3600 },
+      rx: {
+        silenceWordGaps: 7,
+        silenceHysteresis: 1.5,
+        minSilenceMs: 1000,
+        maxSilenceMs: 8000,
+        defaultSilenceMs: 3000,
+        partialUpdates: false,
+        partialEveryWords: 10,
+        suppressNoise: true,
+      },
+      metrics: { enabled: false, host: "127.0.0.1", port: 9464 },
+      journal: { enabled: false, rotation: "none", maxBytes: 10_000_000 },
+      replay: { path: "", speed: 1 },
+      callHistory: { scpPath: "", historyPath: "" },
+      dxcc: { ctyPath: "" },
+      receivers: [{
+        id: "main",
+        frequency: 7_030_000,
+        fldigi: { host: "127.0.0.1", port: 7362, pollingIntervalMs: 250 },
+        sdr: { enabled: false, device: "", sampleRate: 48000 },
+        transmit: true,
+      }],
     });
 
     const serialError = errors.find((e) => e.field === "tx.pttSerialPort");
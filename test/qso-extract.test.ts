@@ -42,6 +42,14 @@ describe("extractQsoFields", () => {
     assert.equal(fields.qth, undefined);
   });
 
+  it("skips filler words and does not read a serial as the report", () => {
+    const fields = extractQsoFields("DL2ABC DE PA3XYZ NR 559 UR 579 NAME HR IS HANS QTH IS BERLIN");
+    assert.equal(fields.serial?.value, "559");
+    assert.equal(fields.rstRcvd?.value, "579");
+    assert.equal(fields.name?.value, "HANS");
+    assert.equal(fields.qth?.value, "BERLIN");
+  });
+
   it("extracts contest CQWW fields (RST + zone)", () => {
     const fields = extractContestQsoFields("DL2ABC 599 14", "CQWW");
     assert.equal(fields.callsign?.value, "DL2ABC");
@@ -73,6 +81,47 @@ describe("extractQsoFields", () => {
     const fields = extractQsoFields("PA3XYZ DE DL2ABC RST 579", { peerHint: "DL2ABC" });
     assert.equal(fields.callsign?.value, "PA3XYZ");
   });
+
+  it("ranks callsign candidates by ITU prefix allocation", () => {
+    assert.equal(extractQsoFields("UR RST 599 DL2ABC QRZ1A").callsign?.value, "DL2ABC");
+    assert.equal(extractQsoFields("UR RST 599 QRZ1A").callsign, undefined);
+  });
+
+  it("extracts rag-chew details: rig, antenna, power, weather, age, operator and locator", () => {
+    const fields = extractQsoFields(
+      "RIG HR IC7300 ES ANT DIPOLE PWR 100W WX SUNNY 20C AGE 67 OP HANS LOC JO62QM BK",
+    );
+    assert.equal(fields.rig?.value, "IC7300");
+    assert.equal(fields.antenna?.value, "DIPOLE");
+    assert.equal(fields.power?.value, "100");
+    assert.equal(fields.weather?.value, "SUNNY 20C");
+    assert.equal(fields.age?.value, "67");
+    assert.equal(fields.name?.value, "HANS");
+    assert.equal(fields.grid?.value, "JO62QM");
+    assert.equal(fields.grid?.confidence, "high");
+  });
+
+  it("does not read CW words after OP as the operator's name", () => {
+    assert.equal(extractQsoFields("TNX FER CALL DR OP UR RST 579").name, undefined);
+    assert.equal(extractQsoFields("FB OP TNX FER QSO").name, undefined);
+    assert.equal(extractQsoFields("DR OP NAME HANS").name?.value, "HANS");
+  });
+
+  it("reads multi-word rigs and antennas, kilowatts and bare locators", () => {
+    const fields = extractQsoFields("RIG IS FT 991A PWR ABT 1 KW ANT 3 EL YAGI QTH BERLIN JO62 KN");
+    assert.equal(fields.rig?.value, "FT 991A");
+    assert.equal(fields.power?.value, "1000");
+    assert.equal(fields.antenna?.value, "3 EL YAGI");
+    assert.equal(fields.grid?.value, "JO62");
+    assert.equal(fields.grid?.confidence, "medium");
+  });
+
+  it("keeps unreadable details at low confidence and skips implausible ages", () => {
+    const fields = extractQsoFields("PWR 1?0W AGE 6? K");
+    assert.deepEqual(fields.power, { value: "1?0", confidence: "low" });
+    assert.deepEqual(fields.age, { value: "6?", confidence: "low" });
+    assert.equal(extractQsoFields("AGE 250").age, undefined);
+  });
 });
 
 describe("lowConfidenceFields", () => {
@@ -0,0 +1,115 @@
+import { afterEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { createRecord } from "../src/adif.js";
+import { QsoReviewQueue, formatPendingQsos, parseReviewCommand } from "../src/qso-review.js";
+
+function pendingEntry() {
+  return {
+    peer: "DL2ABC",
+    startedAt: "2026-02-13T10:00:00.000Z",
+    frequency: 7030000,
+    record: createRecord("DL2ABC", 7030000, {
+      startTime: new Date("2026-02-13T10:00:00.000Z"),
+      rstRcvd: "579",
+      name: "HANS",
+    }),
+    lowConfidenceFields: ["rstRcvd", "name"],
+  };
+}
+
+describe("QsoReviewQueue", () => {
+  const tempDirs: string[] = [];
+
+  afterEach(() => {
+    for (const dir of tempDirs) {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+    tempDirs.length = 0;
+  });
+
+  function tempPath(): string {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "qso-review-"));
+    tempDirs.push(dir);
+    return path.join(dir, "nested", "pending.json");
+  }
+
+  it("persists pending entries and keeps ids unique across restarts", () => {
+    const filePath = tempPath();
+    const queue = new QsoReviewQueue(filePath, () => new Date("2026-02-13T10:05:00.000Z"));
+    queue.initialize();
+    assert.equal(fs.existsSync(filePath), false);
+
+    assert.equal(queue.add(pendingEntry()).id, "1");
+    assert.equal(queue.add(pendingEntry()).id, "2");
+    assert.equal(queue.remove("2"), true);
+
+    const reloaded = new QsoReviewQueue(filePath);
+    reloaded.initialize();
+    assert.deepEqual(reloaded.list().map((entry) => [entry.id, entry.queuedAt]), [["1", "2026-02-13T10:05:00.000Z"]]);
+    assert.equal(reloaded.add(pendingEntry()).id, "3");
+  });
+
+  it("edits fields and clears their doubt", () => {
+    const queue = new QsoReviewQueue(tempPath());
+    queue.initialize();
+    queue.add(pendingEntry());
+
+    const edited = queue.edit("1", { rstRcvd: "559", name: "", callsign: "dl2abd" });
+    assert.equal(edited?.record.rstRcvd, "559");
+    assert.equal(edited?.record.name, undefined);
+    assert.equal(edited?.record.call, "DL2ABD");
+    assert.deepEqual(edited?.lowConfidenceFields, []);
+    assert.equal(queue.edit("9", { name: "X" }), null);
+    assert.equal(queue.remove("9"), false);
+  });
+
+  it("keeps entries in memory when the queue file cannot be written", () => {
+    const filePath = tempPath();
+    // A file where the queue's directory should be makes every write fail
+    fs.writeFileSync(path.dirname(filePath), "not a directory");
+    const queue = new QsoReviewQueue(filePath);
+    queue.initialize();
+
+    assert.equal(queue.add(pendingEntry()).id, "1");
+    assert.equal(queue.edit("1", { name: "HANS" })?.record.name, "HANS");
+    assert.equal(queue.remove("1"), true);
+    assert.deepEqual(queue.list(), []);
+  });
+});
+
+describe("parseReviewCommand", () => {
+  it("parses list, approve, reject and edit", () => {
+    assert.deepEqual(parseReviewCommand(""), { kind: "list" });
+    assert.deepEqual(parseReviewCommand("list"), { kind: "list" });
+    assert.deepEqual(parseReviewCommand("approve 3"), { kind: "approve", id: "3" });
+    assert.deepEqual(parseReviewCommand("REJECT 4"), { kind: "reject", id: "4" });
+    assert.deepEqual(parseReviewCommand("edit 3 name=HANS QTH=NEW YORK rst_rcvd=579"), {
+      kind: "edit",
+      id: "3",
+      changes: { name: "HANS", qth: "NEW YORK", rstRcvd: "579" },
+    });
+  });
+
+  it("rejects malformed commands", () => {
+    assert.equal(parseReviewCommand("approve"), null);
+    assert.equal(parseReviewCommand("approve x"), null);
+    assert.equal(parseReviewCommand("edit 3"), null);
+    assert.equal(parseReviewCommand("edit 3 power=5W"), null);
+    assert.equal(parseReviewCommand("edit 3 HANS name=HANS"), null);
+    assert.equal(parseReviewCommand("purge"), null);
+  });
+});
+
+describe("formatPendingQsos", () => {
+  it("lists each entry with its doubtful fields", () => {
+    const queue = new QsoReviewQueue(path.join(os.tmpdir(), "unused-review.json"));
+    assert.equal(formatPendingQsos(queue.list()), "No QSOs awaiting review");
+    assert.equal(
+      formatPendingQsos([{ ...pendingEntry(), id: "1", queuedAt: "2026-02-13T10:05:00.000Z" }]),
+      "#1 DL2ABC 20260213 1000 40m RST -/579 NAME HANS (doubtful: rstRcvd, name)",
+    );
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { QsoTracker, isLoggable } from "../src/qso-tracker.js";
+
+describe("QsoTracker", () => {
+  it("follows a QSO we answer from CQ to sign-off", () => {
+    const tracker = new QsoTracker({ ownCall: "PA3XYZ" });
+    assert.equal(tracker.noteInbound("DL2ABC", "CQ CQ DE DL2ABC DL2ABC K")?.stage, "cq-heard");
+    assert.equal(tracker.noteTransmit("DL2ABC", "DL2ABC DE PA3XYZ KN", "reply")?.stage, "we-answered");
+
+    const reports = tracker.noteInbound("DL2ABC", "PA3XYZ DE DL2ABC UR RST 579 579 KN");
+    assert.equal(reports?.stage, "reports-exchanged");
+    assert.equal(reports?.rstRcvd, "579");
+    assert.deepEqual(reports?.missing, ["rstSent", "name", "qth"]);
+
+    const info = tracker.noteTransmit("DL2ABC", "DL2ABC DE PA3XYZ UR RST 599 NAME JAN KN", "reply");
+    assert.equal(info?.stage, "info-exchanged");
+    assert.equal(info?.rstSent, "599");
+
+    const theirs = tracker.noteInbound("DL2ABC", "PA3XYZ DE DL2ABC NAME HANS QTH MUNICH KN");
+    assert.deepEqual(theirs?.missing, []);
+    assert.equal(theirs?.name, "HANS");
+
+    assert.equal(tracker.noteTransmit("DL2ABC", "DL2ABC DE PA3XYZ TU 73", "signoff")?.stage, "signed-off");
+  });
+
+  it("recognises a station answering our CQ", () => {
+    const tracker = new QsoTracker({ ownCall: "PA3XYZ" });
+    assert.equal(tracker.noteTransmit(undefined, "CQ CQ DE PA3XYZ K", "cq"), null);
+    assert.equal(tracker.noteInbound("DL2ABC", "PA3XYZ DE DL2ABC K")?.stage, "they-answered");
+  });
+
+  it("never moves a QSO back to an earlier stage", () => {
+    const tracker = new QsoTracker({ ownCall: "PA3XYZ" });
+    tracker.noteInbound("DL2ABC", "PA3XYZ DE DL2ABC RST 599 K");
+    assert.equal(tracker.noteInbound("DL2ABC", "PA3XYZ DE DL2ABC K")?.stage, "reports-exchanged");
+  });
+
+  it("ignores overs that neither start nor belong to a QSO", () => {
+    const tracker = new QsoTracker({ ownCall: "PA3XYZ" });
+    assert.equal(tracker.noteInbound("DL2ABC", "QRL?"), null);
+    assert.equal(tracker.get("DL2ABC"), undefined);
+  });
+
+  it("starts over when a signed-off peer calls CQ again", () => {
+    const tracker = new QsoTracker({ ownCall: "PA3XYZ" });
+    tracker.noteInbound("DL2ABC", "PA3XYZ DE DL2ABC 73 SK");
+    const next = tracker.noteInbound("DL2ABC", "CQ DE DL2ABC K");
+    assert.equal(next?.stage, "cq-heard");
+    assert.equal(next?.rstRcvd, undefined);
+  });
+
+  it("abandons QSOs with no activity within the timeout", () => {
+    let now = 0;
+    const tracker = new QsoTracker({ ownCall: "PA3XYZ", timeoutMs: 1000, now: () => now });
+    tracker.noteInbound("DL2ABC", "PA3XYZ DE DL2ABC RST 599 K");
+    tracker.noteInbound("G4XYZ", "PA3XYZ DE G4XYZ 73 SK");
+
+    now = 500;
+    assert.deepEqual(tracker.expire(), []);
+
+    now = 2000;
+    assert.equal(tracker.get("DL2ABC"), undefined);
+    const abandoned = tracker.expire();
+    assert.deepEqual(abandoned.map((qso) => [qso.peer, qso.stage]), [["DL2ABC", "abandoned"]]);
+    assert.deepEqual(tracker.expire(), []);
+  });
+
+  it("takes timing and frequency from the overs", () => {
+    const tracker = new QsoTracker({ ownCall: "PA3XYZ" });
+    tracker.noteInbound("DL2ABC", "CQ DE DL2ABC K", undefined, {
+      startTime: "2026-02-13T10:00:00.000Z", endTime: "2026-02-13T10:00:05.000Z", frequency: 7030000,
+    });
+    const qso = tracker.noteTransmit("DL2ABC", "DL2ABC DE PA3XYZ 599 73", "signoff", {
+      startTime: "2026-02-13T10:01:00.000Z", endTime: "2026-02-13T10:01:08.000Z", wpm: 22,
+    });
+    assert.equal(qso?.startedAt, "2026-02-13T10:00:00.000Z");
+    assert.equal(qso?.lastActivity, "2026-02-13T10:01:08.000Z");
+    assert.equal(qso?.frequency, 7030000);
+    assert.equal(qso?.wpm, 22);
+    assert.equal(qso?.transmitted, true);
+  });
+
+  it("only offers QSOs we took part in for logging, once", () => {
+    const tracker = new QsoTracker({ ownCall: "PA3XYZ" });
+    const heard = tracker.noteInbound("G4XYZ", "DL2ABC DE G4XYZ 73 SK");
+    assert.ok(heard && !isLoggable(heard));
+    assert.ok(heard && isLoggable(heard, true));
+
+    tracker.noteTransmit("DL2ABC", "DL2ABC DE PA3XYZ UR 599", "reply");
+    const signedOff = tracker.noteInbound("DL2ABC", "PA3XYZ DE DL2ABC TU 73 SK");
+    assert.ok(signedOff && isLoggable(signedOff));
+    tracker.markLogged("DL2ABC");
+    const logged = tracker.get("DL2ABC");
+    assert.ok(logged && !isLoggable(logged));
+  });
+
+  it("signs off a QSO on the operator's word", () => {
+    const tracker = new QsoTracker({ ownCall: "PA3XYZ" });
+    assert.equal(tracker.close("DL2ABC"), null);
+    tracker.noteInbound("DL2ABC", "PA3XYZ DE DL2ABC RST 599 K");
+    assert.equal(tracker.close("dl2abc")?.stage, "signed-off");
+  });
+
+  it("lists the fields last copied with low confidence", () => {
+    const tracker = new QsoTracker({ ownCall: "PA3XYZ" });
+    tracker.noteInbound("DL2ABC", "PA3XYZ DE DL2ABC RST 5N9 NAME HANS K", {
+      rstRcvd: { value: "599", confidence: "low" },
+      name: { value: "HANS", confidence: "low" },
+    });
+    const qso = tracker.noteInbound("DL2ABC", "PA3XYZ DE DL2ABC RST 599 K", {
+      rstRcvd: { value: "599", confidence: "high" },
+    });
+    assert.deepEqual(qso?.lowConfidenceFields, ["name"]);
+
+    tracker.markPendingReview("DL2ABC", "4");
+    const pending = tracker.get("DL2ABC");
+    assert.equal(pending?.reviewId, "4");
+    tracker.markLogged("DL2ABC");
+    assert.equal(tracker.get("DL2ABC")?.reviewId, undefined);
+  });
+});
@@ -0,0 +1,251 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join, resolve } from "node:path";
+import { parse as parseYaml } from "yaml";
+import { ReplayPoller, fixturesToTranscript, type DecoderFixture } from "../src/replay-poller.js";
+import { createService } from "../src/service.js";
+import { resolveConfig } from "../src/config.js";
+import { PipelineMetrics } from "../src/metrics.js";
+import type { InboundMessage, OpenClawApi } from "../src/openclaw-api.js";
+import type { TranscriptEntry } from "../src/transcript-journal.js";
+
+// Tests run from the project root
+const YAML_PATH = resolve("test", "fixtures", "decoder-tests.yaml");
+
+const noSleep = async (): Promise<void> => {};
+
+function rx(timestamp: string, text: string, extra: Partial<TranscriptEntry> = {}): TranscriptEntry {
+  return { type: "rx", timestamp, receiverId: "main", frequency: 7030000, text, wpm: 20, snr: 15, ...extra } as TranscriptEntry;
+}
+
+function collect(
+  entries: TranscriptEntry[],
+  options: { speed?: number; sleep?: (ms: number) => Promise<void>; config?: Parameters<typeof resolveConfig>[0] } = {},
+) {
+  const messages: Array<{ text: string; peer: string; metadata: Record<string, unknown> }> = [];
+  const poller = new ReplayPoller(resolveConfig(options.config ?? {}), {
+    onMessage: (text, peer, metadata) => messages.push({ text, peer, metadata }),
+    onStatusChange: () => {},
+  }, { entries, speed: options.speed ?? Infinity, sleep: options.sleep ?? noSleep });
+  return { poller, messages };
+}
+
+describe("ReplayPoller", () => {
+  it("flushes on prosigns and on recorded silence, stamping recorded times", async () => {
+    const { poller, messages } = collect([
+      rx("2026-02-13T10:00:00.000Z", "CQ CQ DE "),
+      rx("2026-02-13T10:00:02.000Z", "PA3XYZ K", { carrierHz: 700 }),
+      rx("2026-02-13T10:00:10.000Z", "QRL?"),
+      { type: "tx", timestamp: "2026-02-13T10:00:11.000Z", receiverId: "main", frequency: 7030000, text: "ignored", wpm: 20, durationSeconds: 1, callsign: "X" },
+      rx("2026-02-13T10:00:20.000Z", "DL2ABC DE PI4ABC"),
+    ]);
+
+    await poller.start();
+    await poller.whenDone();
+
+    assert.deepEqual(messages.map((m) => m.text), ["CQ CQ DE PA3XYZ K", "QRL?", "DL2ABC DE PI4ABC"]);
+    assert.equal(messages[0].peer, "PA3XYZ");
+    assert.equal(messages[0].metadata.startTime, "2026-02-13T10:00:00.000Z");
+    assert.equal(messages[0].metadata.endTime, "2026-02-13T10:00:02.000Z");
+    assert.equal(messages[0].metadata.timestamp, "2026-02-13T10:00:02.000Z");
+    assert.equal(messages[0].metadata.detectedWpm, 20);
+    assert.equal(messages[0].metadata.flushReason, "prosign");
+    assert.equal(messages[0].metadata.rfFrequency, 7030700);
+    // Silence ends the over 7 word gaps (2940 ms at 20 WPM) after the last chunk
+    assert.equal(messages[1].metadata.timestamp, "2026-02-13T10:00:12.940Z");
+    assert.equal(messages[1].metadata.flushReason, "silence");
+    assert.equal(messages[1].metadata.silenceThresholdMs, 2940);
+    assert.equal(messages[2].peer, "PI4ABC");
+  });
+
+  it("normalises fldigi prosign renderings and reports the closing prosign", async () => {
+    const { poller, messages } = collect([
+      rx("2026-02-13T10:00:00.000Z", "PA3XYZ DE DL2ABC = NAME HANS <K"),
+      rx("2026-02-13T10:00:00.500Z", "N>"),
+      rx("2026-02-13T10:00:10.000Z", "CQ DE DL2ABC +"),
+      rx("2026-02-13T10:00:20.000Z", "TU 73SK"),
+    ]);
+
+    await poller.start();
+    await poller.whenDone();
+
+    assert.deepEqual(messages.map((m) => m.text), ["PA3XYZ DE DL2ABC\nNAME HANS KN", "CQ DE DL2ABC AR", "TU 73 SK"]);
+    assert.deepEqual(messages.map((m) => m.metadata.closingProsign), ["KN", "AR", "SK"]);
+    // 73SK ends the over on its prosign, not on the silence after it
+    assert.equal(messages[2].metadata.flushReason, "prosign");
+    assert.equal(messages[2].metadata.timestamp, "2026-02-13T10:00:20.000Z");
+    assert.deepEqual(messages.map((m) => m.metadata.replyInvited), [false, false, false]);
+  });
+
+  it("keeps a call that ends the over on a prosign's first letter", async () => {
+    const { poller, messages } = collect([
+      rx("2026-02-13T10:00:00.000Z", "CQ DE DL2AB"),
+      rx("2026-02-13T10:00:00.500Z", "S"),
+    ]);
+
+    await poller.start();
+    await poller.whenDone();
+
+    assert.deepEqual(messages.map((m) => m.text), ["CQ DE DL2ABS"]);
+    assert.equal(messages[0].peer, "DL2ABS");
+    assert.equal(messages[0].metadata.flushReason, "silence");
+  });
+
+  it("drops noise overs like the live poller when rx.suppressNoise is on", async () => {
+    const { poller, messages } = collect([
+      rx("2026-02-13T10:00:00.000Z", "EETTIE TEEI TMTIE "),
+      rx("2026-02-13T10:00:30.000Z", "CQ CQ DE PA3XYZ K"),
+    ], { config: { rx: { suppressNoise: true } } });
+
+    await poller.start();
+    await poller.whenDone();
+
+    assert.deepEqual(messages.map((m) => m.text), ["CQ CQ DE PA3XYZ K"]);
+  });
+
+  it("dispatches partial messages of a long over under a stable over id", async () => {
+    const messages: Array<{ text: string; metadata: Record<string, unknown> }> = [];
+    const partials: Array<{ text: string; metadata: Record<string, unknown> }> = [];
+    const poller = new ReplayPoller(resolveConfig({ rx: { partialUpdates: true, partialEveryWords: 4 } }), {
+      onMessage: (text, _peer, metadata) => messages.push({ text, metadata }),
+      onPartial: (text, _peer, metadata) => partials.push({ text, metadata }),
+      onStatusChange: () => {},
+    }, {
+      entries: [
+        rx("2026-02-13T10:00:00.000Z", "PA3XYZ DE DL2ABC "),
+        rx("2026-02-13T10:00:02.000Z", "GM OM = "),
+        rx("2026-02-13T10:00:04.000Z", "NAME HANS HANS "),
+        rx("2026-02-13T10:00:05.000Z", "= "),
+        rx("2026-02-13T10:00:06.000Z", "QTH BERLIN KN"),
+      ],
+      speed: Infinity,
+      sleep: noSleep,
+    });
+
+    await poller.start();
+    await poller.whenDone();
+
+    // After GM OM both the word count and the BT are due; the second BT comes 3 words later
+    assert.deepEqual(partials.map((p) => p.text), [
+      "PA3XYZ DE DL2ABC GM OM",
+      "PA3XYZ DE DL2ABC GM OM\nNAME HANS HANS",
+    ]);
+    assert.equal(messages.length, 1);
+    const overId = messages[0].metadata.overId;
+    assert.equal(overId, `main-${Date.parse("2026-02-13T10:00:00.000Z")}`);
+    assert.ok(partials.every((p) => p.metadata.overId === overId && p.metadata.partial === true));
+    assert.equal(messages[0].metadata.partial, false);
+  });
+
+  it("carries recorded gaps into the next message", async () => {
+    const { poller, messages } = collect([
+      rx("2026-02-13T10:00:00.000Z", "CQ DE PA3XYZ K"),
+      { type: "gap", timestamp: "2026-02-13T10:01:00.000Z", receiverId: "main", frequency: 7030000, reason: "restart", detectedAt: "2026-02-13T10:01:00.000Z" },
+      rx("2026-02-13T10:01:01.000Z", "TU 73 SK"),
+    ]);
+
+    await poller.start();
+    await poller.whenDone();
+
+    assert.equal(messages[0].metadata.gap, undefined);
+    assert.deepEqual(messages[1].metadata.gap, { reason: "restart", detectedAt: "2026-02-13T10:01:00.000Z", skippedChars: undefined, outageMs: undefined });
+  });
+
+  it("paces the replay by the recording, scaled by speed", async () => {
+    const sleeps: number[] = [];
+    const { poller } = collect([
+      rx("2026-02-13T10:00:00.000Z", "CQ "),
+      rx("2026-02-13T10:00:01.000Z", "CQ "),
+      rx("2026-02-13T10:00:11.000Z", "DE PA3XYZ K"),
+    ], { speed: 10, sleep: async (ms) => { sleeps.push(ms); } });
+
+    await poller.start();
+    await poller.whenDone();
+
+    // 1 s between chunks; then 10 s split into the 2.94 s silence threshold and the rest
+    assert.deepEqual(sleeps, [100, 294, 706]);
+  });
+
+  it("drives createService's enrichment from the decoder fixtures", async () => {
+    const fixtures = (parseYaml(readFileSync(YAML_PATH, "utf-8")) as { fixtures: DecoderFixture[] }).fixtures;
+    const entries = fixturesToTranscript(fixtures);
+    const dispatched: InboundMessage[] = [];
+    const api: OpenClawApi = {
+      registerChannel: () => {},
+      registerService: () => {},
+      dispatchInbound: (message) => { dispatched.push(message); },
+    };
+    let replay: ReplayPoller | undefined;
+
+    const service = createService(api, {
+      createPoller: (config, callbacks) => {
+        replay = new ReplayPoller(config, callbacks, { entries, speed: Infinity });
+        return replay;
+      },
+      createDupeStore: () => ({ initialize: () => {}, loadExisting: () => {}, isDupe: () => false, log: () => {} }),
+      createMemoryStore: () => ({
+        initialize: () => {},
+        addRecord: () => {},
+        getByCallsign: () => [],
+        getKnownCallsigns: () => [],
+      }),
+    });
+
+    await service.start();
+    await replay?.whenDone();
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    await service.stop();
+
+    // Every fixture comes through (a streamed "KN" may flush at its "K", so compare the text, not the count)
+    const squash = (texts: string[]) => texts.join("").replace(/\[[A-Z-]+\]|\s+/g, "");
+    assert.equal(squash(dispatched.map((m) => m.text)), squash(fixtures.map((f) => f.text)));
+    const exchange = dispatched.find((m) => m.text.includes("NAME HANS"));
+    assert.equal((exchange?.metadata?.qsoFields as { name?: { value: string } }).name?.value, "HANS");
+    assert.equal(exchange?.metadata?.band, "40m");
+    assert.equal(typeof exchange?.metadata?.startTime, "string");
+  });
+
+  it("replays the journal at replay.path in place of fldigi", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "cqlaw-replay-"));
+    const journalPath = join(dir, "transcript.jsonl");
+    const entries = [rx("2026-02-13T10:00:00.000Z", "CQ CQ DE "), rx("2026-02-13T10:00:01.000Z", "PA3XYZ K")];
+    writeFileSync(journalPath, entries.map((entry) => JSON.stringify(entry)).join("\n"));
+    const dispatched: InboundMessage[] = [];
+    let replay: ReplayPoller | undefined;
+    const metrics = new PipelineMetrics();
+
+    const service = createService({
+      registerChannel: () => {},
+      registerService: () => {},
+      dispatchInbound: (message) => { dispatched.push(message); },
+    }, {
+      config: { replay: { path: journalPath, speed: 0 } },
+      metrics,
+      onPollerCreated: (poller) => { replay = poller as ReplayPoller; },
+      createDupeStore: () => ({ initialize: () => {}, loadExisting: () => {}, isDupe: () => false, log: () => {} }),
+      createMemoryStore: () => ({
+        initialize: () => {},
+        addRecord: () => {},
+        getByCallsign: () => [],
+        getKnownCallsigns: () => [],
+      }),
+    });
+
+    try {
+      await service.start();
+      assert.ok(replay instanceof ReplayPoller);
+      await replay.whenDone();
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      await service.stop();
+
+      assert.deepEqual(dispatched.map((m) => m.text), ["CQ CQ DE PA3XYZ K"]);
+      assert.equal(dispatched[0].peer, "PA3XYZ");
+      assert.equal(metrics.rxMessages.get({ receiver: "main" }), 1);
+      assert.equal(metrics.rxFlushes.get({ receiver: "main", reason: "prosign" }), 1);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { nextRxTail, resolveRxResync, RX_TAIL_FINGERPRINT_CHARS } from "../src/rx-resync.js";
+
+describe("resolveRxResync", () => {
+  it("resumes at the old offset when the fingerprint is still in place", () => {
+    const buffer = "CQ CQ DE PA3XYZ K PA3XYZ DE DL2ABC K";
+    const result = resolveRxResync({
+      length: buffer.length,
+      window: buffer,
+      windowStart: 0,
+      offset: 17,
+      tail: "CQ CQ DE PA3XYZ K",
+      afterOutage: true,
+    });
+    assert.deepEqual(result, { offset: 17, match: "anchored" });
+  });
+
+  it("relocates when the buffer was trimmed at the front", () => {
+    const buffer = "DE PA3XYZ K PA3XYZ DE DL2ABC K";
+    const result = resolveRxResync({
+      length: buffer.length,
+      window: buffer,
+      windowStart: 0,
+      offset: 40,
+      tail: "DE PA3XYZ K",
+      afterOutage: false,
+    });
+    assert.equal(result.match, "relocated");
+    assert.equal(result.offset, 11);
+    assert.equal(result.gap, undefined);
+  });
+
+  it("reads a replaced buffer from the start without a gap while polling", () => {
+    const buffer = "PA3XYZ DE DL2ABC DL2ABC RST 599 K";
+    const result = resolveRxResync({
+      length: buffer.length,
+      window: buffer,
+      windowStart: 0,
+      offset: 17,
+      tail: "CQ CQ DE PA3XYZ K",
+      afterOutage: false,
+    });
+    assert.deepEqual(result, { offset: 0, match: "lost", gap: undefined });
+  });
+
+  it("reports a restart gap when the buffer was replaced during an outage", () => {
+    const result = resolveRxResync({
+      length: 5,
+      window: "TEST ",
+      windowStart: 0,
+      offset: 17,
+      tail: "CQ CQ DE PA3XYZ K",
+      afterOutage: true,
+    });
+    assert.equal(result.match, "lost");
+    assert.equal(result.offset, 0);
+    assert.deepEqual(result.gap, { reason: "restart", skippedChars: undefined });
+  });
+
+  it("reports an overflow gap when unread text exceeds the recovery window", () => {
+    const result = resolveRxResync({
+      length: 50000,
+      window: "X".repeat(16384),
+      windowStart: 50000 - 16384,
+      offset: 100,
+      tail: "CQ CQ DE PA3XYZ K",
+      afterOutage: true,
+    });
+    assert.equal(result.offset, 50000 - 16384);
+    assert.deepEqual(result.gap, { reason: "overflow", skippedChars: 50000 - 16384 - 100 });
+  });
+
+  it("trusts the offset when there is no fingerprint yet", () => {
+    const result = resolveRxResync({ length: 10, window: "0123456789", windowStart: 0, offset: 4, tail: "", afterOutage: true });
+    assert.deepEqual(result, { offset: 4, match: "anchored" });
+  });
+});
+
+describe("nextRxTail", () => {
+  it("keeps only the last fingerprint-sized slice of text", () => {
+    const tail = nextRxTail("A".repeat(RX_TAIL_FINGERPRINT_CHARS), "NEW");
+    assert.equal(tail.length, RX_TAIL_FINGERPRINT_CHARS);
+    assert.ok(tail.endsWith("NEW"));
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { RxTimeline } from "../src/rx-timeline.js";
+
+const T0 = Date.parse("2026-02-13T10:00:00.000Z");
+
+describe("RxTimeline", () => {
+  it("returns null when no chunk was recorded", () => {
+    const timeline = new RxTimeline();
+    timeline.addSignalSample({ wpm: 20, snr: 15 });
+    assert.equal(timeline.takeMessage(), null);
+  });
+
+  it("spans first to last chunk arrival", () => {
+    const timeline = new RxTimeline();
+    timeline.addChunk("CQ CQ ", T0);
+    timeline.addChunk("DE PA3XYZ ", T0 + 4000);
+    timeline.addChunk("K", T0 + 9500);
+
+    const message = timeline.takeMessage();
+    assert.equal(message?.startTime, "2026-02-13T10:00:00.000Z");
+    assert.equal(message?.endTime, "2026-02-13T10:00:09.500Z");
+    assert.equal(message?.durationMs, 9500);
+    assert.deepEqual(message?.segments.map((s) => s.text), ["CQ CQ ", "DE PA3XYZ ", "K"]);
+  });
+
+  it("summarises S/N and WPM samples taken during the message", () => {
+    const timeline = new RxTimeline();
+    timeline.addSignalSample({ wpm: 18, snr: 20 });
+    timeline.addChunk("RST 579 ", T0);
+    timeline.addSignalSample({ wpm: 20, snr: 6 });
+    timeline.addChunk("NAME HANS ", T0 + 1000);
+    timeline.addSignalSample({ wpm: 22, snr: 13 });
+
+    const message = timeline.takeMessage();
+    assert.deepEqual(message?.snr, { min: 6, avg: 13, max: 20, samples: 3 });
+    assert.deepEqual(message?.wpm, { min: 18, avg: 20, max: 22, samples: 3 });
+    assert.equal(message?.segments[0].snr, 20);
+    assert.equal(message?.segments[1].snr, 6);
+  });
+
+  it("starts a fresh message after takeMessage, seeded with the latest sample", () => {
+    const timeline = new RxTimeline();
+    timeline.addSignalSample({ snr: 10 });
+    timeline.addChunk("TNX ", T0);
+    timeline.addSignalSample({ snr: 4 });
+    timeline.takeMessage();
+
+    timeline.addChunk("73 ", T0 + 60000);
+    const message = timeline.takeMessage();
+    assert.equal(message?.startTime, "2026-02-13T10:01:00.000Z");
+    assert.deepEqual(message?.snr, { min: 4, avg: 4, max: 4, samples: 1 });
+    assert.equal(message?.wpm, undefined);
+  });
+
+  it("drops the open message on clearMessage", () => {
+    const timeline = new RxTimeline();
+    timeline.addChunk("GARBLED", T0);
+    timeline.clearMessage();
+    assert.equal(timeline.takeMessage(), null);
+  });
+});
@@ -1,6 +1,8 @@
 import { describe, it } from "node:test";
 import assert from "node:assert/strict";
-import { SentenceBuffer } from "../src/sentence-buffer.js";
+import { SentenceBuffer, silenceThresholdForWpm, type AdaptiveSilenceOptions } from "../src/sentence-buffer.js";
+
+const ADAPTIVE: AdaptiveSilenceOptions = { wordGaps: 7, hysteresis: 1.5, minMs: 1000, maxMs: 8000 };
 
 /** Helper: collect flushed messages into an array */
 function createBuffer(options?: { silenceThresholdMs?: number }) {
@@ -151,6 +153,46 @@ describe("SentenceBuffer", () => {
     buffer.reset();
   });
 
+  it("breaks paragraphs at BT without flushing", () => {
+    const { buffer, flushed } = createBuffer();
+    buffer.push("RST 599 BT NAME HANS BT ");
+    assert.equal(flushed.length, 0);
+    buffer.push("QTH BERLIN KN");
+    assert.deepEqual(flushed, ["RST 599\nNAME HANS\nQTH BERLIN KN"]);
+    buffer.reset();
+  });
+
+  // --- partial updates ---
+
+  it("reports the over so far every N complete words", () => {
+    const partials: string[] = [];
+    const { buffer, flushed } = createBuffer();
+    const partialBuffer = new SentenceBuffer((msg) => flushed.push(msg), {
+      onPartial: (msg) => partials.push(msg),
+      partialEveryWords: 3,
+    });
+    for (const chunk of ["GM ", "OM ", "TNX ", "FER ", "CALL ", "UR ", "RST ", "IS ", "5", "79 ", "KN"]) {
+      partialBuffer.push(chunk);
+    }
+
+    assert.deepEqual(partials, ["GM OM TNX", "GM OM TNX FER CALL UR", "GM OM TNX FER CALL UR RST IS 579"]);
+    assert.deepEqual(flushed, ["GM OM TNX FER CALL UR RST IS 579 KN"]);
+    buffer.reset();
+    partialBuffer.reset();
+  });
+
+  it("reports a partial at each BT and ignores unfinished words", () => {
+    const partials: string[] = [];
+    const buffer = new SentenceBuffer(() => {}, { onPartial: (msg) => partials.push(msg), partialEveryWords: 0 });
+    buffer.push("RST 579 BT NA");
+    assert.deepEqual(partials, ["RST 579"]);
+    buffer.push("ME HANS BT ");
+    assert.deepEqual(partials, ["RST 579", "RST 579\nNAME HANS"]);
+    buffer.push("QTH BERLIN ");
+    assert.equal(partials.length, 2);
+    buffer.reset();
+  });
+
   // --- rapid burst ---
 
   it("accumulates a rapid burst into a single message", async () => {
@@ -179,6 +221,84 @@ describe("SentenceBuffer", () => {
     assert.equal(buffer.pending, "");
   });
 
+  it("reports why each message was flushed", async () => {
+    const reasons: string[] = [];
+    const buffer = new SentenceBuffer((_msg, reason) => reasons.push(reason), { silenceThresholdMs: 50 });
+    buffer.push("CQ DE PA3XYZ K");
+    buffer.push("QRL?");
+    await wait(100);
+    buffer.push("TEST");
+    buffer.flush();
+
+    assert.deepEqual(reasons, ["prosign", "silence", "forced"]);
+  });
+
+  // --- adaptive silence ---
+
+  it("derives the silence threshold from WPM in word gaps, clamped", () => {
+    assert.equal(silenceThresholdForWpm(20, ADAPTIVE), 2940);
+    assert.equal(silenceThresholdForWpm(12, ADAPTIVE), 4900);
+    assert.equal(silenceThresholdForWpm(35, ADAPTIVE), 1680);
+    assert.equal(silenceThresholdForWpm(5, ADAPTIVE), 8000);
+    assert.equal(silenceThresholdForWpm(60, { ...ADAPTIVE, wordGaps: 2 }), 1000);
+  });
+
+  it("uses the fallback threshold until a WPM is known", () => {
+    const buffer = new SentenceBuffer(() => {}, { silenceThresholdMs: 3000, adaptiveSilence: ADAPTIVE });
+    assert.equal(buffer.silenceThresholdMs, 3000);
+    buffer.setWpm(35);
+    assert.equal(buffer.silenceThresholdMs, 1680);
+    buffer.setWpm(undefined);
+    assert.equal(buffer.silenceThresholdMs, 1680);
+  });
+
+  it("does not shrink the threshold mid-over when the sender speeds up", () => {
+    const buffer = new SentenceBuffer(() => {}, { adaptiveSilence: ADAPTIVE, silenceTimer: false });
+    buffer.setWpm(12);
+    buffer.push("QTH ");
+    buffer.setWpm(35);
+    assert.equal(buffer.silenceThresholdMs, 4900);
+
+    buffer.flush();
+    assert.equal(buffer.silenceThresholdMs, 1680);
+  });
+
+  it("stretches the threshold after a long pause the sender resumed from", () => {
+    let now = 0;
+    const buffer = new SentenceBuffer(() => {}, { adaptiveSilence: ADAPTIVE, silenceTimer: false, now: () => now });
+    buffer.setWpm(35);
+    buffer.push("NAME ");
+    now = 1500;
+    buffer.push("HANS ");
+    assert.equal(buffer.silenceThresholdMs, 2250);
+
+    buffer.flush();
+    assert.equal(buffer.silenceThresholdMs, 1680);
+  });
+
+  it("reports the threshold in effect with each flush", () => {
+    const flushes: Array<[string, number]> = [];
+    const buffer = new SentenceBuffer((_msg, reason, thresholdMs) => flushes.push([reason, thresholdMs]), {
+      adaptiveSilence: ADAPTIVE,
+    });
+    buffer.setWpm(20);
+    buffer.push("CQ DE PA3XYZ K");
+    assert.deepEqual(flushes, [["prosign", 2940]]);
+  });
+
+  it("flushes on the WPM-derived silence", async () => {
+    const flushed: string[] = [];
+    const buffer = new SentenceBuffer((msg) => flushed.push(msg), {
+      adaptiveSilence: { wordGaps: 1, hysteresis: 1.5, minMs: 10, maxMs: 1000 },
+    });
+    // One word gap at 120 WPM is 70 ms
+    buffer.setWpm(120);
+    buffer.push("QRL?");
+    await wait(150);
+    assert.deepEqual(flushed, ["QRL?"]);
+    buffer.reset();
+  });
+
   // --- reset ---
 
   it("reset() discards buffer and cancels timers", async () => {
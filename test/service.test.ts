@@ -1,10 +1,24 @@
 import { describe, it } from "node:test";
 import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import process from "node:process";
 import { createService } from "../src/service.js";
+import { extractQsoFields } from "../src/qso-extract.js";
+import { CallHistory } from "../src/call-history.js";
+import { DxccDatabase } from "../src/dxcc.js";
+import { ReceiverRouter } from "../src/receiver-router.js";
+import { QsoTracker, type QsoState } from "../src/qso-tracker.js";
 import type { OpenClawApi, InboundMessage } from "../src/openclaw-api.js";
 import type { ChannelConfig } from "../src/config.js";
 import type { FldigiPollerCallbacks } from "../src/fldigi-poller.js";
+import type { FldigiCapabilityReport } from "../src/fldigi-client.js";
 import type { ExtractedQsoFields } from "../src/qso-extract.js";
+import type { TranscriptEntry } from "../src/transcript-journal.js";
+import type { AdifRecord } from "../src/adif.js";
+import type { QsoMemoryRecord } from "../src/qso-memory.js";
+import type { PendingQso } from "../src/qso-review.js";
 
 function createMockApi(): OpenClawApi & { dispatched: InboundMessage[] } {
   const dispatched: InboundMessage[] = [];
@@ -30,6 +44,7 @@ describe("createService", () => {
       initialize: () => {},
       loadExisting: () => {},
       isDupe: () => false,
+      log: () => {},
     };
     const memoryStore = {
       initialize: () => {},
@@ -72,6 +87,39 @@ describe("createService", () => {
     assert.equal(stopped, true);
   });
 
+  it("logs a failing inbound dispatch instead of rejecting unhandled", async () => {
+    const api = createMockApi();
+    let callbacks: FldigiPollerCallbacks | undefined;
+    const unhandled: unknown[] = [];
+    const onUnhandled = (reason: unknown) => { unhandled.push(reason); };
+    process.on("unhandledRejection", onUnhandled);
+
+    const service = createService(api, {
+      createPoller: (_config: ChannelConfig, cb: FldigiPollerCallbacks) => {
+        callbacks = cb;
+        return { async start() {}, async stop() {} };
+      },
+      createDupeStore: () => ({ initialize: () => {}, loadExisting: () => {}, isDupe: () => false, log: () => {} }),
+      createMemoryStore: () => ({
+        initialize: () => {},
+        addRecord: () => {},
+        getByCallsign: () => { throw new Error("disk gone"); },
+        getKnownCallsigns: () => [],
+      }),
+    });
+
+    try {
+      await service.start();
+      callbacks?.onMessage("CQ CQ DE PI4ABC", "PI4ABC", { timestamp: "2026-02-13T00:00:00.000Z", frequency: 7030000 });
+      await flushAsync();
+      await flushAsync();
+      assert.deepEqual(unhandled, []);
+      await service.stop();
+    } finally {
+      process.off("unhandledRejection", onUnhandled);
+    }
+  });
+
   it("does not start poller when config is invalid", async () => {
     const api = createMockApi();
     let startCalls = 0;
@@ -86,6 +134,7 @@ describe("createService", () => {
         initialize: () => {},
         loadExisting: () => {},
         isDupe: () => false,
+        log: () => {},
       }),
       createMemoryStore: () => ({
         initialize: () => {},
@@ -114,6 +163,7 @@ describe("createService", () => {
         initialize: () => {},
         loadExisting: () => {},
         isDupe: () => false,
+        log: () => {},
       }),
       createMemoryStore: () => ({
         initialize: () => {},
@@ -156,6 +206,7 @@ describe("createService", () => {
         initialize: () => {},
         loadExisting: () => {},
         isDupe: () => true,
+        log: () => {},
       }),
       createMemoryStore: () => ({
         initialize: () => {},
@@ -198,6 +249,7 @@ describe("createService", () => {
         initialize: () => {},
         loadExisting: () => {},
         isDupe: () => false,
+        log: () => {},
       }),
       createMemoryStore: () => ({
         initialize: () => {},
@@ -216,7 +268,350 @@ describe("createService", () => {
 
     assert.equal(api.dispatched.length, 1);
     assert.equal(api.dispatched[0].peer, "PI4ABC");
-    assert.equal((api.dispatched[0].metadata?.qsoFields as Record<string, unknown>).callsign !== undefined, true);
+    assert.deepEqual((api.dispatched[0].metadata?.qsoFields as ExtractedQsoFields).callsign, { value: "PI4ABC", confidence: "high" });
+    assert.deepEqual(api.dispatched[0].metadata?.callsignCorrection, { decoded: "PI4AB?", distance: 0.5 });
+  });
+
+  it("merges copies of the sender's call across overs into qsoFields", async () => {
+    const api = createMockApi();
+    const callbackHolder: { callbacks?: FldigiPollerCallbacks } = {};
+
+    const service = createService(api, {
+      createPoller: (_config: ChannelConfig, cb: FldigiPollerCallbacks) => {
+        callbackHolder.callbacks = cb;
+        return { async start() {}, async stop() {} };
+      },
+      createDupeStore: () => ({ initialize: () => {}, loadExisting: () => {}, isDupe: () => false, log: () => {} }),
+      createMemoryStore: () => ({
+        initialize: () => {},
+        addRecord: () => {},
+        getByCallsign: () => [],
+        getKnownCallsigns: () => [],
+      }),
+    });
+
+    await service.start();
+    callbackHolder.callbacks?.onMessage("PA3XYZ DE DL2A?C DL2A?C KN", "DL2A?C", { timestamp: "2026-02-13T00:00:00.000Z" });
+    callbackHolder.callbacks?.onMessage("PA3XYZ DE DL2AB? K", "DL2AB?", { timestamp: "2026-02-13T00:01:00.000Z" });
+    await flushAsync();
+
+    assert.equal(api.dispatched.length, 2);
+    assert.deepEqual((api.dispatched[0].metadata?.qsoFields as ExtractedQsoFields).callsign, { value: "DL2A?C", confidence: "medium" });
+    assert.deepEqual((api.dispatched[1].metadata?.qsoFields as ExtractedQsoFields).callsign, { value: "DL2ABC", confidence: "high" });
+    assert.equal(api.dispatched[1].peer, "DL2ABC");
+    assert.equal((api.dispatched[1].metadata?.callsignObservations as { count: number }).count, 3);
+
+    await service.stop();
+  });
+
+  it("does not merge a clean copy of a near-identical call into another station", async () => {
+    const api = createMockApi();
+    const callbackHolder: { callbacks?: FldigiPollerCallbacks } = {};
+
+    const service = createService(api, {
+      createPoller: (_config: ChannelConfig, cb: FldigiPollerCallbacks) => {
+        callbackHolder.callbacks = cb;
+        return { async start() {}, async stop() {} };
+      },
+      createDupeStore: () => ({ initialize: () => {}, loadExisting: () => {}, isDupe: () => false, log: () => {} }),
+      createMemoryStore: () => ({
+        initialize: () => {},
+        addRecord: () => {},
+        getByCallsign: () => [],
+        getKnownCallsigns: () => [],
+      }),
+    });
+
+    await service.start();
+    callbackHolder.callbacks?.onMessage("PA3XYZ DE DL2ABC DL2ABC K", "DL2ABC", { timestamp: "2026-02-13T00:00:00.000Z" });
+    callbackHolder.callbacks?.onMessage("PA3XYZ DE DL2ABC K", "DL2ABC", { timestamp: "2026-02-13T00:01:00.000Z" });
+    callbackHolder.callbacks?.onMessage("PA3XYZ DE DL2ABD DL2ABD K", "DL2ABD", { timestamp: "2026-02-13T00:02:00.000Z" });
+    await flushAsync();
+
+    assert.equal(api.dispatched[2].peer, "DL2ABD");
+    assert.deepEqual((api.dispatched[2].metadata?.qsoFields as ExtractedQsoFields).callsign, { value: "DL2ABD", confidence: "high" });
+
+    await service.stop();
+  });
+
+  it("adds SCP candidates and call history cross-checks", async () => {
+    const api = createMockApi();
+    const callbackHolder: { callbacks?: FldigiPollerCallbacks } = {};
+    const callHistory = new CallHistory();
+    callHistory.loadScp("DL2ABC\nDL2AOC");
+    callHistory.loadCallHistory("!!Order!!,Call,Name\nDL2ABC,Hans");
+
+    const service = createService(api, {
+      createPoller: (_config: ChannelConfig, cb: FldigiPollerCallbacks) => {
+        callbackHolder.callbacks = cb;
+        return { async start() {}, async stop() {} };
+      },
+      createDupeStore: () => ({ initialize: () => {}, loadExisting: () => {}, isDupe: () => false, log: () => {} }),
+      createMemoryStore: () => ({
+        initialize: () => {},
+        addRecord: () => {},
+        getByCallsign: () => [],
+        getKnownCallsigns: () => [],
+      }),
+      callHistory,
+    });
+
+    await service.start();
+    callbackHolder.callbacks?.onMessage("PA3XYZ DE DL2A?C K", "DL2A?C", { timestamp: "2026-02-13T00:00:00.000Z" });
+    callbackHolder.callbacks?.onMessage("PA3XYZ DE PA3ABC NAME PETER K", "PA3ABC", { timestamp: "2026-02-13T00:01:00.000Z" });
+    callbackHolder.callbacks?.onMessage("PA3XYZ DE DL2ABC NAME PETER K", "DL2ABC", { timestamp: "2026-02-13T00:02:00.000Z" });
+    await flushAsync();
+
+    assert.equal(api.dispatched.length, 3);
+    const candidates = api.dispatched[0].metadata?.callsignCandidates as Array<{ callsign: string }>;
+    assert.deepEqual(candidates.map((c) => c.callsign), ["DL2ABC", "DL2AOC"]);
+    assert.equal(api.dispatched[1].metadata?.expectedExchange, undefined);
+    assert.equal((api.dispatched[2].metadata?.expectedExchange as { name: string }).name, "HANS");
+    assert.deepEqual(api.dispatched[2].metadata?.exchangeMismatches, [{ field: "name", decoded: "PETER", expected: "HANS" }]);
+
+    await service.stop();
+  });
+
+  it("resolves the sender's DXCC entity and infers the zone from it", async () => {
+    const api = createMockApi();
+    const callbackHolder: { callbacks?: FldigiPollerCallbacks } = {};
+    const dxcc = new DxccDatabase();
+    dxcc.loadCtyDat("Canary Islands: 33: 36: AF: 28.32: 15.85: 0.0: EA8:\n    EA8,EB8,EC8;");
+
+    const service = createService(api, {
+      createPoller: (_config: ChannelConfig, cb: FldigiPollerCallbacks) => {
+        callbackHolder.callbacks = cb;
+        return { async start() {}, async stop() {} };
+      },
+      createDupeStore: () => ({ initialize: () => {}, loadExisting: () => {}, isDupe: () => false, log: () => {} }),
+      createMemoryStore: () => ({
+        initialize: () => {},
+        addRecord: () => {},
+        getByCallsign: () => [],
+        getKnownCallsigns: () => [],
+      }),
+      dxcc,
+    });
+
+    await service.start();
+    callbackHolder.callbacks?.onMessage("CQ DE EA8/ON4UN ZONE ?3 K", "EA8/ON4UN", { timestamp: "2026-02-13T00:00:00.000Z" });
+    await flushAsync();
+
+    const entity = api.dispatched[0].metadata?.dxcc as { entity: string; continent: string; cqZone: number };
+    assert.equal(entity.entity, "Canary Islands");
+    assert.equal(entity.continent, "AF");
+    assert.deepEqual((api.dispatched[0].metadata?.qsoFields as ExtractedQsoFields).zone, { value: "33", confidence: "medium" });
+
+    await service.stop();
+  });
+
+  it("reports the QSO stage and missing items, including our own transmissions", async () => {
+    const api = createMockApi();
+    const callbackHolder: { callbacks?: FldigiPollerCallbacks } = {};
+    const qsoTracker = new QsoTracker({ ownCall: "PA3XYZ" });
+
+    const service = createService(api, {
+      createPoller: (_config: ChannelConfig, cb: FldigiPollerCallbacks) => {
+        callbackHolder.callbacks = cb;
+        return { async start() {}, async stop() {} };
+      },
+      createDupeStore: () => ({ initialize: () => {}, loadExisting: () => {}, isDupe: () => false, log: () => {} }),
+      createMemoryStore: () => ({
+        initialize: () => {},
+        addRecord: () => {},
+        getByCallsign: () => [],
+        getKnownCallsigns: () => [],
+      }),
+      qsoTracker,
+    });
+
+    await service.start();
+    callbackHolder.callbacks?.onMessage("CQ CQ DE DL2ABC K", "DL2ABC", { timestamp: "2026-02-13T00:00:00.000Z" });
+    await flushAsync();
+    qsoTracker.noteTransmit("DL2ABC", "DL2ABC DE PA3XYZ UR RST 599 KN", "reply");
+    callbackHolder.callbacks?.onMessage("PA3XYZ DE DL2ABC RST 579 NAME HANS KN", "DL2ABC", { timestamp: "2026-02-13T00:01:00.000Z" });
+    await flushAsync();
+
+    assert.equal((api.dispatched[0].metadata?.qso as QsoState).stage, "cq-heard");
+    const qso = api.dispatched[1].metadata?.qso as QsoState;
+    assert.equal(qso.stage, "info-exchanged");
+    assert.deepEqual(qso.missing, ["qth"]);
+
+    await service.stop();
+  });
+
+  it("logs a completed QSO to ADIF and as one QSO memory entry", async () => {
+    const api = createMockApi();
+    const callbackHolder: { callbacks?: FldigiPollerCallbacks } = {};
+    const logged: AdifRecord[] = [];
+    const memory: QsoMemoryRecord[] = [];
+
+    const service = createService(api, {
+      config: { tx: { callsign: "PA3XYZ" } },
+      createPoller: (_config: ChannelConfig, cb: FldigiPollerCallbacks) => {
+        callbackHolder.callbacks = cb;
+        return { async start() {}, async stop() {} };
+      },
+      createDupeStore: () => ({
+        initialize: () => {},
+        loadExisting: () => {},
+        isDupe: () => false,
+        log: (record: AdifRecord) => logged.push(record),
+      }),
+      createMemoryStore: () => ({
+        initialize: () => {},
+        addRecord: (record: QsoMemoryRecord) => memory.push(record),
+        getByCallsign: () => [],
+        getKnownCallsigns: () => [],
+      }),
+    });
+
+    await service.start();
+    callbackHolder.callbacks?.onMessage("CQ CQ DE DL2ABC K", "DL2ABC", {
+      startTime: "2026-02-13T10:00:00.000Z", endTime: "2026-02-13T10:00:04.000Z",
+    });
+    await flushAsync();
+    service.noteTransmit({
+      timestamp: "2026-02-13T10:00:10.000Z", text: "DL2ABC DE PA3XYZ UR RST 599 KN", wpm: 22,
+      durationSeconds: 6, frequency: 7030000, callsign: "PA3XYZ", intent: "reply", peerCall: "DL2ABC",
+    });
+    callbackHolder.callbacks?.onMessage(
+      "PA3XYZ DE DL2ABC RST 579 NAME HANS QTH MUNICH LOC JO62QM RIG IC7300 ES ANT DIPOLE PWR 100W TU 73 SK",
+      "DL2ABC",
+      { startTime: "2026-02-13T10:00:20.000Z", endTime: "2026-02-13T10:00:35.000Z" },
+    );
+    await flushAsync();
+    assert.equal(service.closeQso("DL2ABC"), false);
+
+    assert.equal(logged.length, 1);
+    assert.equal(logged[0].call, "DL2ABC");
+    assert.equal(logged[0].qsoDate, "20260213");
+    assert.equal(logged[0].timeOn, "100000");
+    assert.equal(logged[0].timeOff, "100035");
+    assert.equal(logged[0].band, "40m");
+    assert.equal(logged[0].rstSent, "599");
+    assert.equal(logged[0].rstRcvd, "579");
+    assert.equal(logged[0].name, "HANS");
+    assert.equal(logged[0].qth, "MUNICH");
+    assert.equal(logged[0].comment, "22 WPM");
+    assert.equal(logged[0].gridsquare, "JO62QM");
+    assert.equal(logged[0].rig, "IC7300 ANT DIPOLE");
+    assert.equal(logged[0].rxPwr, "100");
+    const consolidated = memory.filter((record) => record.note === "logged");
+    assert.equal(consolidated.length, 1);
+    assert.equal(consolidated[0].rstSent, "599");
+    assert.equal(consolidated[0].grid, "JO62QM");
+    assert.equal(memory.find((record) => record.note === "inbound" && record.antenna)?.antenna, "DIPOLE");
+    assert.equal((api.dispatched[1].metadata?.qso as QsoState).logged, true);
+
+    await service.stop();
+  });
+
+  it("logs a QSO the agent closes explicitly", async () => {
+    const api = createMockApi();
+    const callbackHolder: { callbacks?: FldigiPollerCallbacks } = {};
+    const logged: AdifRecord[] = [];
+
+    const service = createService(api, {
+      createPoller: (_config: ChannelConfig, cb: FldigiPollerCallbacks) => {
+        callbackHolder.callbacks = cb;
+        return { async start() {}, async stop() {} };
+      },
+      createDupeStore: () => ({
+        initialize: () => {},
+        loadExisting: () => {},
+        isDupe: () => false,
+        log: (record: AdifRecord) => logged.push(record),
+      }),
+      createMemoryStore: () => ({
+        initialize: () => {},
+        addRecord: () => {},
+        getByCallsign: () => [],
+        getKnownCallsigns: () => [],
+      }),
+    });
+
+    await service.start();
+    assert.equal(service.closeQso("DL2ABC"), false);
+    callbackHolder.callbacks?.onMessage("UR RST 559 559 DE DL2ABC K", "DL2ABC", { timestamp: "2026-02-13T00:00:00.000Z" });
+    await flushAsync();
+    assert.equal(logged.length, 0);
+
+    assert.equal(service.closeQso("DL2ABC"), true);
+    assert.equal(service.closeQso("DL2ABC"), false);
+    assert.deepEqual(logged.map((record) => [record.call, record.rstRcvd]), [["DL2ABC", "559"]]);
+
+    await service.stop();
+  });
+
+  it("holds a QSO with a low-confidence field for review until it is approved", async () => {
+    const api = createMockApi();
+    const callbackHolder: { callbacks?: FldigiPollerCallbacks } = {};
+    const logged: AdifRecord[] = [];
+    const memory: QsoMemoryRecord[] = [];
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "qso-review-service-"));
+
+    const service = createService(api, {
+      config: { tx: { callsign: "PA3XYZ" } },
+      reviewPath: path.join(dir, "pending-qsos.json"),
+      createPoller: (_config: ChannelConfig, cb: FldigiPollerCallbacks) => {
+        callbackHolder.callbacks = cb;
+        return { async start() {}, async stop() {} };
+      },
+      createDupeStore: () => ({
+        initialize: () => {},
+        loadExisting: () => {},
+        isDupe: () => false,
+        log: (record: AdifRecord) => logged.push(record),
+      }),
+      createMemoryStore: () => ({
+        initialize: () => {},
+        addRecord: (record: QsoMemoryRecord) => memory.push(record),
+        getByCallsign: () => [],
+        getKnownCallsigns: () => [],
+      }),
+      extractFields: (text, options) => {
+        const fields = extractQsoFields(text, options);
+        if (fields.name) fields.name = { ...fields.name, confidence: "low" };
+        return fields;
+      },
+    });
+
+    try {
+      await service.start();
+      callbackHolder.callbacks?.onMessage("CQ CQ DE DL2ABC K", "DL2ABC", {
+        startTime: "2026-02-13T10:00:00.000Z", endTime: "2026-02-13T10:00:04.000Z",
+      });
+      await flushAsync();
+      service.noteTransmit({
+        timestamp: "2026-02-13T10:00:10.000Z", text: "DL2ABC DE PA3XYZ UR RST 599 KN", wpm: 22,
+        durationSeconds: 6, frequency: 7030000, callsign: "PA3XYZ", intent: "reply", peerCall: "DL2ABC",
+      });
+      callbackHolder.callbacks?.onMessage("PA3XYZ DE DL2ABC RST 579 NAME HANS TU 73 SK", "DL2ABC", {
+        startTime: "2026-02-13T10:00:20.000Z", endTime: "2026-02-13T10:00:30.000Z",
+      });
+      await flushAsync();
+
+      assert.equal(logged.length, 0);
+      assert.match(api.dispatched[1].text, /^\[REVIEW\]/);
+      assert.deepEqual(api.dispatched[1].metadata?.pendingReview, { id: "1", lowConfidenceFields: ["name"] });
+      const [pending] = service.listPendingQsos();
+      assert.equal(pending.record.name, "HANS");
+
+      assert.equal(service.reportPendingQsos("PA3XYZ"), 1);
+      assert.match(api.dispatched[2].text, /#1 DL2ABC 20260213 1000 40m RST 599\/579 NAME HANS \(doubtful: name\)/);
+      assert.deepEqual((api.dispatched[2].metadata?.pendingQsos as PendingQso[]).map((entry) => entry.id), ["1"]);
+
+      assert.equal(service.editPendingQso("1", { name: "HANNES" })?.lowConfidenceFields.length, 0);
+      assert.equal(service.approvePendingQso("1"), true);
+      assert.equal(service.approvePendingQso("1"), false);
+      assert.deepEqual(logged.map((record) => [record.call, record.name]), [["DL2ABC", "HANNES"]]);
+      assert.equal(memory.filter((record) => record.note === "logged")[0].name, "HANNES");
+      assert.deepEqual(service.listPendingQsos(), []);
+    } finally {
+      await service.stop();
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
   });
 
   it("enriches metadata with callsign lookup profile via injected provider", async () => {
@@ -232,6 +627,7 @@ describe("createService", () => {
         initialize: () => {},
         loadExisting: () => {},
         isDupe: () => false,
+        log: () => {},
       }),
       createMemoryStore: () => ({
         initialize: () => {},
@@ -262,4 +658,185 @@ describe("createService", () => {
     assert.equal(profile.source, "mock");
     assert.equal(profile.fullName, "Hans Vermeer");
   });
+
+  it("runs one poller per receiver and stamps the receiver into metadata", async () => {
+    const api = createMockApi();
+    const callbacks = new Map<number, FldigiPollerCallbacks>();
+    const created: string[] = [];
+    const statuses: Array<{ status: string; receiverId: string; version?: string }> = [];
+    const dupeChecks: Array<{ call: string; band: string }> = [];
+    const receiverRouter = new ReceiverRouter();
+
+    const service = createService(api, {
+      config: {
+        receivers: [
+          { id: "rx40", frequency: 7030000 },
+          { id: "rx20", frequency: 14030000, fldigi: { port: 7363 } },
+        ],
+      },
+      createPoller: (config: ChannelConfig, cb: FldigiPollerCallbacks) => {
+        callbacks.set(config.frequency, cb);
+        return {
+          async start() {},
+          async stop() {},
+          getCapabilities: () => ({ version: `4.2.${config.fldigi.port}` }) as FldigiCapabilityReport,
+        };
+      },
+      onPollerCreated: (_poller, receiverId) => created.push(receiverId),
+      onStatusChange: (status, receiverId, capabilities) =>
+        statuses.push({ status, receiverId, version: capabilities?.version }),
+      createDupeStore: () => ({
+        initialize: () => {},
+        loadExisting: () => {},
+        isDupe: (call: string, band: string) => {
+          dupeChecks.push({ call, band });
+          return band === "40m";
+        },
+        log: () => {},
+      }),
+      createMemoryStore: () => ({
+        initialize: () => {},
+        addRecord: () => {},
+        getByCallsign: () => [],
+        getKnownCallsigns: () => [],
+      }),
+      receiverRouter,
+    });
+
+    await service.start();
+    assert.deepEqual(created, ["rx40", "rx20"]);
+
+    callbacks.get(14030000)?.onStatusChange("connected");
+    callbacks.get(14030000)?.onMessage("CQ CQ DE PI4ABC K", "PI4ABC", { frequency: 14030000 });
+    callbacks.get(7030000)?.onMessage("CQ CQ DE DL2ABC K", "DL2ABC", { frequency: 7030000 });
+    await flushAsync();
+
+    assert.deepEqual(statuses, [{ status: "connected", receiverId: "rx20", version: "4.2.7363" }]);
+    assert.equal(api.dispatched.length, 2);
+    const byPeer = new Map(api.dispatched.map((msg) => [msg.peer, msg]));
+    assert.equal(byPeer.get("PI4ABC")?.metadata?.receiverId, "rx20");
+    assert.equal(byPeer.get("PI4ABC")?.metadata?.band, "20m");
+    assert.equal(byPeer.get("PI4ABC")?.metadata?.dupe, false);
+    assert.equal(byPeer.get("DL2ABC")?.metadata?.receiverId, "rx40");
+    assert.equal(byPeer.get("DL2ABC")?.metadata?.dupe, true);
+    assert.deepEqual(dupeChecks.map((c) => c.band).sort(), ["20m", "40m"]);
+    assert.equal(receiverRouter.receiverFor("PI4ABC"), "rx20");
+    assert.equal(receiverRouter.receiverFor("dl2abc"), "rx40");
+
+    await service.stop();
+  });
+
+  it("journals raw RX chunks and gaps with the receiver id", async () => {
+    const api = createMockApi();
+    let callbacks: FldigiPollerCallbacks | undefined;
+    const entries: TranscriptEntry[] = [];
+    let journalInitialized = false;
+    let journalFlushed = false;
+
+    const service = createService(api, {
+      config: { receivers: [{ id: "rx40", frequency: 7030000 }] },
+      createPoller: (_config: ChannelConfig, cb: FldigiPollerCallbacks) => {
+        callbacks = cb;
+        return { async start() {}, async stop() {} };
+      },
+      createDupeStore: () => ({ initialize: () => {}, loadExisting: () => {}, isDupe: () => false, log: () => {} }),
+      createMemoryStore: () => ({
+        initialize: () => {},
+        addRecord: () => {},
+        getByCallsign: () => [],
+        getKnownCallsigns: () => [],
+      }),
+      journal: {
+        initialize: () => { journalInitialized = true; },
+        append: (entry) => entries.push(entry),
+        flush: () => { journalFlushed = true; },
+      },
+    });
+
+    await service.start();
+    callbacks?.onRxChunk?.({ text: "CQ CQ DE ", timestamp: "2026-02-13T00:00:00.000Z", frequency: 7030000, wpm: 22 });
+    callbacks?.onRxGap?.({ reason: "restart", detectedAt: "2026-02-13T00:00:05.000Z" });
+
+    assert.equal(journalInitialized, true);
+    assert.deepEqual(entries, [
+      { type: "rx", receiverId: "rx40", text: "CQ CQ DE ", timestamp: "2026-02-13T00:00:00.000Z", frequency: 7030000, wpm: 22 },
+      { type: "gap", timestamp: "2026-02-13T00:00:05.000Z", receiverId: "rx40", frequency: 7030000, reason: "restart", detectedAt: "2026-02-13T00:00:05.000Z" },
+    ]);
+
+    await service.stop();
+    assert.equal(journalFlushed, true);
+  });
+
+  it("runs the rtl_fm pipeline of SDR receivers around their pollers", async () => {
+    const api = createMockApi();
+    const events: string[] = [];
+
+    const service = createService(api, {
+      config: {
+        receivers: [
+          { id: "rx40", frequency: 7030000, sdr: { enabled: true } },
+          { id: "rx20", frequency: 14030000, fldigi: { port: 7363 } },
+        ],
+      },
+      createPoller: (config: ChannelConfig) => ({
+        async start() { events.push(`poll ${config.frequency}`); },
+        async stop() {},
+      }),
+      createSdrManager: (receiver, metrics) => {
+        assert.ok(metrics);
+        return {
+          async start() { events.push(`sdr ${receiver.id} start`); },
+          async stop() { events.push(`sdr ${receiver.id} stop`); },
+        };
+      },
+      createDupeStore: () => ({ initialize: () => {}, loadExisting: () => {}, isDupe: () => false, log: () => {} }),
+      createMemoryStore: () => ({
+        initialize: () => {},
+        addRecord: () => {},
+        getByCallsign: () => [],
+        getKnownCallsigns: () => [],
+      }),
+    });
+
+    await service.start();
+    await service.stop();
+
+    assert.deepEqual(events, ["sdr rx40 start", "poll 7030000", "poll 14030000", "sdr rx40 stop"]);
+  });
+
+  it("dispatches partial overs without logging or remembering them", async () => {
+    const api = createMockApi();
+    let callbacks: FldigiPollerCallbacks | undefined;
+    let records = 0;
+
+    const service = createService(api, {
+      config: { rx: { partialUpdates: true } },
+      createPoller: (_config: ChannelConfig, cb: FldigiPollerCallbacks) => {
+        callbacks = cb;
+        return { async start() {}, async stop() {} };
+      },
+      createDupeStore: () => ({ initialize: () => {}, loadExisting: () => {}, isDupe: () => false, log: () => {} }),
+      createMemoryStore: () => ({
+        initialize: () => {},
+        addRecord: () => { records++; },
+        getByCallsign: () => [],
+        getKnownCallsigns: () => [],
+      }),
+    });
+
+    await service.start();
+    callbacks?.onPartial?.("PA3XYZ DE DL2ABC\nNAME HANS", "DL2ABC", { overId: "main-1", partial: true });
+    await flushAsync();
+
+    assert.equal(api.dispatched.length, 1);
+    assert.equal(api.dispatched[0].text, "PA3XYZ DE DL2ABC\nNAME HANS");
+    assert.equal(api.dispatched[0].metadata?.partial, true);
+    assert.equal(api.dispatched[0].metadata?.overId, "main-1");
+    assert.equal(api.dispatched[0].metadata?.receiverId, "main");
+    assert.equal((api.dispatched[0].metadata?.qsoFields as ExtractedQsoFields).name?.value, "HANS");
+    assert.equal(api.dispatched[0].metadata?.gloss, "PA3XYZ from DL2ABC NAME HANS");
+    assert.equal(records, 0);
+
+    await service.stop();
+  });
 });
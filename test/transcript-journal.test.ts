@@ -0,0 +1,132 @@
+import { afterEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { TranscriptJournal, readTranscriptJournal, searchTranscript } from "../src/transcript-journal.js";
+
+describe("TranscriptJournal", () => {
+  const tempDirs: string[] = [];
+
+  afterEach(() => {
+    for (const dir of tempDirs) {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+    tempDirs.length = 0;
+  });
+
+  function tempBase(): string {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "journal-"));
+    tempDirs.push(dir);
+    return path.join(dir, "transcripts", "transcript.jsonl");
+  }
+
+  it("appends RX and TX entries to the daily file and reads them back", () => {
+    const journal = new TranscriptJournal({ basePath: tempBase() });
+    journal.initialize();
+    journal.append({
+      type: "rx", timestamp: "2026-02-13T10:00:00.000Z", receiverId: "main",
+      frequency: 7030000, text: "CQ CQ DE PA3XYZ ", wpm: 22, snr: 14.5,
+    });
+    journal.append({
+      type: "tx", timestamp: "2026-02-13T10:00:10.000Z", receiverId: "main", frequency: 7030000,
+      text: "PA3XYZ DE DL2ABC K", wpm: 20, durationSeconds: 6.1, callsign: "DL2ABC",
+    });
+    journal.flush();
+
+    const file = journal.resolvePath(new Date("2026-02-13T12:00:00.000Z"));
+    assert.ok(file.endsWith("transcript-20260213.jsonl"));
+    const entries = readTranscriptJournal(file);
+    assert.deepEqual(entries.map((e) => e.type), ["rx", "tx"]);
+    assert.equal(entries[0].type === "rx" && entries[0].snr, 14.5);
+  });
+
+  it("writes each entry to the file of its own day", () => {
+    const journal = new TranscriptJournal({ basePath: tempBase() });
+    journal.initialize();
+    journal.append({ type: "rx", timestamp: "2026-02-13T23:59:59.000Z", receiverId: "main", frequency: 7030000, text: "A" });
+    journal.append({ type: "rx", timestamp: "2026-02-14T00:00:01.000Z", receiverId: "main", frequency: 7030000, text: "B" });
+    journal.flush();
+
+    assert.deepEqual(journal.listFiles().map((f) => path.basename(f)), [
+      "transcript-20260213.jsonl",
+      "transcript-20260214.jsonl",
+    ]);
+  });
+
+  it("rotates size-based journals after maxBytes", () => {
+    const journal = new TranscriptJournal({ basePath: tempBase(), policy: "size", maxBytes: 150 });
+    journal.initialize();
+    for (let i = 0; i < 3; i++) {
+      journal.append({ type: "rx", timestamp: "2026-02-13T10:00:00.000Z", receiverId: "main", frequency: 7030000, text: `CHUNK ${i}` });
+    }
+    journal.flush();
+
+    const files = journal.listFiles().map((f) => path.basename(f));
+    assert.deepEqual(files, ["transcript-001.jsonl", "transcript-002.jsonl"]);
+  });
+
+  it("lists size-rotated journals in numeric order past 999", () => {
+    const base = tempBase();
+    fs.mkdirSync(path.dirname(base), { recursive: true });
+    for (const index of ["1000", "101", "999", "002"]) {
+      fs.writeFileSync(path.join(path.dirname(base), `transcript-${index}.jsonl`), "");
+    }
+    const journal = new TranscriptJournal({ basePath: base, policy: "size" });
+
+    assert.deepEqual(journal.listFiles().map((f) => path.basename(f)), [
+      "transcript-002.jsonl", "transcript-101.jsonl", "transcript-999.jsonl", "transcript-1000.jsonl",
+    ]);
+  });
+
+  it("continues the last size-based journal that is still under maxBytes", () => {
+    const base = tempBase();
+    fs.mkdirSync(path.dirname(base), { recursive: true });
+    fs.writeFileSync(path.join(path.dirname(base), "transcript-001.jsonl"), "x".repeat(200));
+    const journal = new TranscriptJournal({ basePath: base, policy: "size", maxBytes: 150 });
+    journal.append({ type: "rx", timestamp: "2026-02-13T10:00:00.000Z", receiverId: "main", frequency: 7030000, text: "A" });
+    journal.flush();
+
+    assert.equal(readTranscriptJournal(path.join(path.dirname(base), "transcript-002.jsonl")).length, 1);
+  });
+
+  it("buffers entries until flushed", () => {
+    const journal = new TranscriptJournal({ basePath: tempBase(), flushIntervalMs: 60_000 });
+    journal.initialize();
+    for (const text of ["CQ", " CQ", " DE PA3XYZ"]) {
+      journal.append({ type: "rx", timestamp: "2026-02-13T10:00:00.000Z", receiverId: "main", frequency: 7030000, text });
+    }
+
+    const file = journal.resolvePath(new Date("2026-02-13T12:00:00.000Z"));
+    assert.equal(fs.existsSync(file), false);
+    journal.flush();
+    assert.deepEqual(readTranscriptJournal(file).map((e) => e.type !== "gap" && e.text), ["CQ", " CQ", " DE PA3XYZ"]);
+  });
+
+  it("skips torn or foreign lines and searches text", () => {
+    const base = tempBase();
+    fs.mkdirSync(path.dirname(base), { recursive: true });
+    fs.writeFileSync(base, [
+      JSON.stringify({ type: "rx", timestamp: "2026-02-13T10:00:00.000Z", receiverId: "main", frequency: 7030000, text: "CQ DE PI4ABC" }),
+      JSON.stringify({ type: "gap", timestamp: "2026-02-13T10:00:01.000Z", receiverId: "main", frequency: 7030000, reason: "restart", detectedAt: "x" }),
+      JSON.stringify({ hello: "world" }),
+      "{\"type\":\"rx\",\"time",
+      "",
+    ].join("\n"));
+
+    const entries = readTranscriptJournal(base);
+    assert.equal(entries.length, 2);
+    assert.equal(searchTranscript(entries, "pi4abc").length, 1);
+    assert.equal(searchTranscript(entries, /DL2/).length, 0);
+  });
+
+  it("gives the same result for a global RegExp on every search", () => {
+    const entries = [
+      { type: "rx" as const, timestamp: "2026-02-13T10:00:00.000Z", receiverId: "main", frequency: 7030000, text: "CQ DE PI4ABC" },
+      { type: "rx" as const, timestamp: "2026-02-13T10:00:01.000Z", receiverId: "main", frequency: 7030000, text: "PI4ABC K" },
+    ];
+    const pattern = /PI4ABC/g;
+    assert.equal(searchTranscript(entries, pattern).length, 2);
+    assert.equal(searchTranscript(entries, pattern).length, 2);
+  });
+});
@@ -47,7 +47,7 @@ describe("Transmitter signoff identification", () => {
     const config = resolveConfig({
       tx: { enabled: true, callsign: "PA3XYZ", wpm: 20 },
     });
-    const { callbacks } = createCallbacks();
+    const { logs, callbacks } = createCallbacks();
 
     tx = new Transmitter(client as any, config, callbacks);
     (tx as any).listenStartTime = Date.now() - 15_000;
@@ -55,6 +55,8 @@ describe("Transmitter signoff identification", () => {
     const result = await tx.send("TNX FER QSO 73", undefined, "signoff", "DL2ABC");
     assert.equal(result.success, true);
     assert.ok(result.transmitted?.endsWith("DE PA3XYZ SK"));
+    assert.equal(logs[0].intent, "signoff");
+    assert.equal(logs[0].peerCall, "DL2ABC");
     assert.equal(client.txTexts.length, 2);
     assert.equal(client.txTexts[0], "QRL?");
     assert.ok(client.txTexts[1].endsWith("DE PA3XYZ SK"));
@@ -191,6 +191,8 @@ describe("Transmitter", () => {
     assert.equal(logs.length, 1);
     assert.equal(logs[0].wpm, 20);
     assert.ok(logs[0].durationSeconds > 0);
+    assert.equal(logs[0].intent, "default");
+    assert.equal(logs[0].peerCall, undefined);
     assert.ok(mock.getTxBuffer().length > 0);
     assert.ok(mock.getMethodsCalled().includes("text.add_tx"));
     assert.ok(mock.getMethodsCalled().includes("main.tx"));
@@ -212,6 +214,27 @@ describe("Transmitter", () => {
     assert.ok(result.transmitted?.startsWith("HELLO WORLD"));
   });
 
+  it("abbreviates prose before sanitizing when tx.abbreviate is on", async () => {
+    mock = createMockFldigi();
+    const port = await mock.start();
+    const config = resolveConfig({ fldigi: { port }, tx: { enabled: true, callsign: "PA3XYZ", wpm: 20, abbreviate: true } });
+    const client = new FldigiClient({ host: "127.0.0.1", port });
+    const { callbacks } = createCallbacks();
+
+    tx = new Transmitter(client, config, callbacks);
+    (tx as any).listenStartTime = Date.now() - 15000;
+
+    const result = await tx.send("Thanks for your report");
+    assert.equal(result.success, true);
+    assert.ok(result.transmitted?.startsWith("TNX FER UR RPT"));
+
+    config.tx.abbreviate = false;
+    (tx as any).lastTxTime = 0;
+    const plain = await tx.send("Thanks for your report");
+    assert.equal(plain.success, true);
+    assert.ok(plain.transmitted?.startsWith("THANKS FOR YOUR REPORT"));
+  });
+
   it("refuses empty text after sanitization", async () => {
     mock = createMockFldigi();
     const port = await mock.start();
@@ -4,6 +4,7 @@ import http from "node:http";
 import { XmlRpcClient, XmlRpcError } from "../src/xmlrpc.js";
 
 function createServer(handler: (body: string) => { status?: number; payload: string }) {
+  let connections = 0;
   const server = http.createServer((req, res) => {
     const chunks: Buffer[] = [];
     req.on("data", (c: Buffer) => chunks.push(c));
@@ -15,8 +16,11 @@ function createServer(handler: (body: string) => { status?: number; payload: str
     });
   });
 
+  server.on("connection", () => { connections++; });
+
   return {
     server,
+    connectionCount: () => connections,
     start: (): Promise<number> =>
       new Promise((resolve) => {
         server.listen(0, "127.0.0.1", () => {
@@ -74,3 +78,181 @@ describe("XmlRpcClient transport hardening", () => {
     assert.equal(value, "A & B <C>");
   });
 });
+
+function xmlValueResponse(valueXml: string): string {
+  return `<?xml version="1.0"?><methodResponse><params><param>${valueXml}</param></params></methodResponse>`;
+}
+
+const METHOD_NOT_FOUND =
+  `<?xml version="1.0"?><methodResponse><fault><value><struct>` +
+  `<member><name>faultCode</name><value><int>-32601</int></value></member>` +
+  `<member><name>faultString</name><value><string>method not found</string></value></member>` +
+  `</struct></value></fault></methodResponse>`;
+
+const BUSY_FAULT =
+  `<?xml version="1.0"?><methodResponse><fault><value><struct>` +
+  `<member><name>faultCode</name><value><int>-1</int></value></member>` +
+  `<member><name>faultString</name><value><string>server busy</string></value></member>` +
+  `</struct></value></fault></methodResponse>`;
+
+describe("XmlRpcClient batching and keep-alive", () => {
+  let closer: (() => Promise<void>) | null = null;
+  let client: XmlRpcClient | null = null;
+
+  afterEach(async () => {
+    client?.close();
+    client = null;
+    if (closer) {
+      await closer();
+      closer = null;
+    }
+  });
+
+  it("reuses one connection across sequential calls", async () => {
+    const mock = createServer(() => ({ payload: xmlStringResponse("4.2.05") }));
+    const port = await mock.start();
+    closer = mock.stop;
+    client = new XmlRpcClient({ host: "127.0.0.1", port, timeoutMs: 1000 });
+
+    await client.call("fldigi.version");
+    await client.call("fldigi.version");
+    await client.call("fldigi.version");
+
+    assert.equal(mock.connectionCount(), 1);
+  });
+
+  it("sends a batch as a single system.multicall request", async () => {
+    const bodies: string[] = [];
+    const mock = createServer((body) => {
+      bodies.push(body);
+      return {
+        payload: xmlValueResponse(
+          `<value><array><data>` +
+          `<value><array><data><value><int>17</int></value></data></array></value>` +
+          `<value><struct>` +
+          `<member><name>faultCode</name><value><int>-1</int></value></member>` +
+          `<member><name>faultString</name><value><string>bad range</string></value></member>` +
+          `</struct></value>` +
+          `</data></array></value>`
+        ),
+      };
+    });
+    const port = await mock.start();
+    closer = mock.stop;
+    client = new XmlRpcClient({ host: "127.0.0.1", port, timeoutMs: 1000 });
+
+    const results = await client.multicall([
+      { methodName: "text.get_rx_length" },
+      { methodName: "text.get_rx", params: [0, 10] },
+    ]);
+
+    assert.equal(bodies.length, 1);
+    assert.ok(bodies[0].includes("<methodName>system.multicall</methodName>"));
+    assert.equal(results[0].value, 17);
+    assert.ok(results[1].error instanceof XmlRpcError);
+    assert.equal(results[1].error?.faultString, "bad range");
+    assert.equal(client.supportsMulticall, true);
+  });
+
+  it("falls back to sequential calls when system.multicall is missing", async () => {
+    const methods: string[] = [];
+    const mock = createServer((body) => {
+      const method = body.match(/<methodName>([^<]+)<\/methodName>/)?.[1] ?? "";
+      methods.push(method);
+      if (method === "system.multicall") return { payload: METHOD_NOT_FOUND };
+      if (method === "modem.get_wpm") return { payload: xmlValueResponse("<value><int>22</int></value>") };
+      return { payload: xmlStringResponse("CW") };
+    });
+    const port = await mock.start();
+    closer = mock.stop;
+    client = new XmlRpcClient({ host: "127.0.0.1", port, timeoutMs: 1000 });
+
+    const first = await client.multicall([{ methodName: "modem.get_wpm" }, { methodName: "modem.get_name" }]);
+    assert.deepEqual(first.map((r) => r.value), [22, "CW"]);
+    assert.equal(client.supportsMulticall, false);
+
+    await client.multicall([{ methodName: "modem.get_wpm" }]);
+    assert.deepEqual(methods, ["system.multicall", "modem.get_wpm", "modem.get_name", "modem.get_wpm"]);
+  });
+
+  it("keeps using system.multicall after a fault other than method not found", async () => {
+    const methods: string[] = [];
+    const mock = createServer((body) => {
+      const method = body.match(/<methodName>([^<]+)<\/methodName>/)?.[1] ?? "";
+      methods.push(method);
+      if (method === "system.multicall") return { payload: BUSY_FAULT };
+      return { payload: xmlValueResponse("<value><int>22</int></value>") };
+    });
+    const port = await mock.start();
+    closer = mock.stop;
+    client = new XmlRpcClient({ host: "127.0.0.1", port, timeoutMs: 1000 });
+
+    const first = await client.multicall([{ methodName: "modem.get_wpm" }]);
+    assert.deepEqual(first.map((r) => r.value), [22]);
+    assert.notEqual(client.supportsMulticall, false);
+
+    await client.multicall([{ methodName: "modem.get_wpm" }]);
+    assert.deepEqual(methods, ["system.multicall", "modem.get_wpm", "system.multicall", "modem.get_wpm"]);
+  });
+});
+
+describe("XmlRpcClient stale keep-alive sockets", () => {
+  let closer: (() => Promise<void>) | null = null;
+  let client: XmlRpcClient | null = null;
+
+  afterEach(async () => {
+    client?.close();
+    client = null;
+    if (closer) {
+      await closer();
+      closer = null;
+    }
+  });
+
+  /** Server that drops each connection without answering its second request */
+  async function startDroppingServer(methods: string[]): Promise<number> {
+    const requestsPerSocket = new Map<unknown, number>();
+    const server = http.createServer((req, res) => {
+      const count = (requestsPerSocket.get(req.socket) ?? 0) + 1;
+      requestsPerSocket.set(req.socket, count);
+      const chunks: Buffer[] = [];
+      req.on("data", (c: Buffer) => chunks.push(c));
+      req.on("end", () => {
+        methods.push(Buffer.concat(chunks).toString("utf-8").match(/<methodName>([^<]+)<\/methodName>/)?.[1] ?? "");
+        if (count === 2) {
+          req.socket.destroy();
+          return;
+        }
+        res.writeHead(200, { "Content-Type": "text/xml" });
+        res.end(xmlStringResponse("ok"));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    closer = () => new Promise((resolve) => {
+      server.closeAllConnections();
+      server.close(() => resolve());
+    });
+    const addr = server.address();
+    return typeof addr === "object" && addr ? addr.port : 0;
+  }
+
+  it("retries a read on a fresh connection", async () => {
+    const methods: string[] = [];
+    const port = await startDroppingServer(methods);
+    client = new XmlRpcClient({ host: "127.0.0.1", port, timeoutMs: 1000 });
+
+    await client.call("fldigi.version");
+    assert.equal(await client.call("text.get_rx_length"), "ok");
+    assert.deepEqual(methods, ["fldigi.version", "text.get_rx_length", "text.get_rx_length"]);
+  });
+
+  it("does not resend a write the server may have acted on", async () => {
+    const methods: string[] = [];
+    const port = await startDroppingServer(methods);
+    client = new XmlRpcClient({ host: "127.0.0.1", port, timeoutMs: 1000 });
+
+    await client.call("fldigi.version");
+    await assert.rejects(() => client!.call("text.add_tx", "CQ CQ"), XmlRpcError);
+    assert.deepEqual(methods, ["fldigi.version", "text.add_tx"]);
+  });
+});
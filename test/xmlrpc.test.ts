@@ -1,6 +1,6 @@
 import { describe, it } from "node:test";
 import assert from "node:assert/strict";
-import { buildRequest, parseResponse, XmlRpcError } from "../src/xmlrpc.js";
+import { buildRequest, parseResponse, parseResponseValue, XmlRpcError } from "../src/xmlrpc.js";
 
 describe("buildRequest", () => {
   it("encodes a method call with no params", () => {
@@ -39,6 +39,24 @@ describe("buildRequest", () => {
     assert.ok(xml.includes("<param><value><int>0</int></value></param>"));
     assert.ok(xml.includes("<param><value><int>100</int></value></param>"));
   });
+
+  it("encodes array params", () => {
+    const xml = buildRequest("test.array", [["CW", 20]]);
+    assert.ok(
+      xml.includes("<value><array><data><value><string>CW</string></value><value><int>20</int></value></data></array></value>")
+    );
+  });
+
+  it("encodes struct params with nested arrays", () => {
+    const xml = buildRequest("system.multicall", [[{ methodName: "modem.get_wpm", params: [] }]]);
+    assert.ok(xml.includes("<member><name>methodName</name><value><string>modem.get_wpm</string></value></member>"));
+    assert.ok(xml.includes("<member><name>params</name><value><array><data></data></array></value></member>"));
+  });
+
+  it("encodes dates as dateTime.iso8601", () => {
+    const xml = buildRequest("test.date", [new Date(Date.UTC(2026, 1, 13, 7, 5, 9))]);
+    assert.ok(xml.includes("<dateTime.iso8601>20260213T07:05:09</dateTime.iso8601>"));
+  });
 });
 
 describe("parseResponse", () => {
@@ -90,4 +108,85 @@ describe("parseResponse", () => {
       </struct></value></fault></methodResponse>`;
     assert.throws(() => parseResponse(xml), XmlRpcError);
   });
+
+  it("refuses to flatten an array response to a string", () => {
+    const xml = `<?xml version="1.0"?><methodResponse><params><param>
+      <value><array><data><value><string>CW</string></value></data></array></value>
+    </param></params></methodResponse>`;
+    assert.throws(() => parseResponse(xml), XmlRpcError);
+  });
+});
+
+describe("parseResponseValue", () => {
+  function wrap(value: string): string {
+    return `<?xml version="1.0"?><methodResponse><params><param><value>${value}</value></param></params></methodResponse>`;
+  }
+
+  it("decodes typed scalars", () => {
+    assert.equal(parseResponseValue(wrap("<int>42</int>")), 42);
+    assert.equal(parseResponseValue(wrap("<i4>-7</i4>")), -7);
+    assert.equal(parseResponseValue(wrap("<double>7030000.5</double>")), 7030000.5);
+    assert.equal(parseResponseValue(wrap("<boolean>1</boolean>")), true);
+    assert.equal(parseResponseValue(wrap("<string>A &amp; B</string>")), "A & B");
+    assert.equal(parseResponseValue(wrap("bare")), "bare");
+    assert.equal(parseResponseValue(wrap("<string/>")), "");
+  });
+
+  it("decodes base64 to a Buffer", () => {
+    const value = parseResponseValue(wrap("<base64>Q1EgREU=</base64>"));
+    assert.ok(Buffer.isBuffer(value));
+    assert.equal(value.toString("utf-8"), "CQ DE");
+  });
+
+  it("decodes dateTime.iso8601 to a Date", () => {
+    const value = parseResponseValue(wrap("<dateTime.iso8601>20260213T07:05:09</dateTime.iso8601>"));
+    assert.ok(value instanceof Date);
+    assert.equal(value.toISOString(), "2026-02-13T07:05:09.000Z");
+  });
+
+  it("decodes arrays", () => {
+    const xml = wrap(`<array><data>
+      <value><string>CW</string></value>
+      <value><string>USB</string></value>
+    </data></array>`);
+    assert.deepEqual(parseResponseValue(xml), ["CW", "USB"]);
+  });
+
+  it("decodes nested structs and arrays", () => {
+    const xml = wrap(`<array><data>
+      <value><struct>
+        <member><name>name</name><value><string>modem.get_wpm</string></value></member>
+        <member><name>signature</name><value><string>i:n</string></value></member>
+        <member><name>tags</name><value><array><data><value><int>1</int></value></data></array></value></member>
+      </struct></value>
+    </data></array>`);
+    assert.deepEqual(parseResponseValue(xml), [{ name: "modem.get_wpm", signature: "i:n", tags: [1] }]);
+  });
+
+  it("throws a structured fault with code and string", () => {
+    const xml = `<?xml version="1.0"?>
+      <methodResponse><fault><value><struct>
+        <member><name>faultCode</name><value><int>-32601</int></value></member>
+        <member><name>faultString</name><value><string>Unknown method</string></value></member>
+      </struct></value></fault></methodResponse>`;
+    assert.throws(
+      () => parseResponseValue(xml),
+      (err: unknown) =>
+        err instanceof XmlRpcError &&
+        err.isFault &&
+        err.faultCode === -32601 &&
+        err.faultString === "Unknown method"
+    );
+  });
+
+  it("rejects malformed XML", () => {
+    assert.throws(() => parseResponseValue("<methodResponse><params>"), XmlRpcError);
+  });
+
+  it("rejects character references outside Unicode", () => {
+    for (const entity of ["&#99999999;", "&#x110000;"]) {
+      const xml = `<?xml version="1.0"?><methodResponse><params><param><value><string>${entity}</string></value></param></params></methodResponse>`;
+      assert.throws(() => parseResponseValue(xml), XmlRpcError);
+    }
+  });
 });